@@ -102,11 +102,16 @@ CREATE TABLE IF NOT EXISTS inventory_items (
   cost_price numeric(12,2) not null,
   selling_price numeric(12,2) not null,
   low_stock_threshold INTEGER DEFAULT 0 CHECK (low_stock_threshold >= 0),
+  costing_method text check (costing_method in ('weighted_average','fifo')),
   created_by uuid references auth.users(id) ON DELETE SET NULL,
   created_at timestamptz default now(),
   updated_at timestamptz default now()
 );
 
+-- NULL costing_method falls back to INVENTORY_COSTING_METHOD
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS costing_method text check (costing_method in ('weighted_average','fifo'));
+
 -- Uniqueness for non-nullable SKU and barcode
 CREATE UNIQUE INDEX IF NOT EXISTS unique_nonnull_sku
 ON inventory_items (sku)
@@ -116,6 +121,9 @@ CREATE UNIQUE INDEX IF NOT EXISTS unique_nonnull_barcode
 ON inventory_items (barcode)
 WHERE barcode IS NOT NULL;
 
+-- Numbers the in-store barcodes generated for items printed without one
+CREATE SEQUENCE IF NOT EXISTS item_barcode_seq;
+
 -- Suppliers
 CREATE TABLE IF NOT EXISTS suppliers (
   id uuid primary key default gen_random_uuid(),
@@ -148,6 +156,33 @@ CREATE TABLE IF NOT EXISTS supplier_transactions (
   updated_at timestamptz default now()
 );
 
+-- Supplier Payments
+CREATE SEQUENCE IF NOT EXISTS supplier_payment_number_seq;
+
+CREATE TABLE IF NOT EXISTS supplier_payments (
+  id uuid primary key default gen_random_uuid(),
+  payment_number text not null unique default 'PAY-' || lpad(nextval('supplier_payment_number_seq')::text, 6, '0'),
+  supplier_id uuid not null references suppliers(id) ON DELETE CASCADE,
+  supplier_transaction_id uuid not null unique references supplier_transactions(id) ON DELETE CASCADE,
+  payment_date timestamptz not null default now(),
+  amount numeric(12,2) not null check (amount > 0),
+  method text not null check (method in ('cash','bank_transfer','cheque','mobile_money','card','other')),
+  reference text,
+  notes text,
+  created_by uuid references auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz default now()
+);
+
+-- Supplier Payment Allocations (payment -> purchase credit it settles)
+CREATE TABLE IF NOT EXISTS supplier_payment_allocations (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid not null references supplier_payments(id) ON DELETE CASCADE,
+  credit_transaction_id uuid not null references supplier_transactions(id) ON DELETE CASCADE,
+  amount numeric(12,2) not null check (amount > 0),
+  created_at timestamptz default now(),
+  unique (payment_id, credit_transaction_id)
+);
+
 -- School Classes
 CREATE TABLE IF NOT EXISTS school_classes (
   id uuid primary key default gen_random_uuid(),
@@ -229,7 +264,7 @@ CREATE TABLE IF NOT EXISTS inventory_transactions (
   supplier_id uuid references suppliers(id) ON DELETE SET NULL,
   receiver_id uuid references auth.users(id) ON DELETE SET NULL,
   supplier_receiver text,
-  transaction_type text not null check (transaction_type in ('purchase','sale','distribution','return')),
+  transaction_type text not null check (transaction_type in ('purchase','sale','distribution','return','adjustment','transfer')),
   qty_in numeric(12,2) default 0,
   in_cost numeric(12,2) default 0,
   qty_out numeric(12,2) default 0,
@@ -278,7 +313,450 @@ CREATE TABLE IF NOT EXISTS student_inventory_log (
   updated_at timestamptz default now()
 );
 
+-- Student Inventory Returns (items handed back by students to class stock)
+CREATE TABLE IF NOT EXISTS student_inventory_returns (
+  id uuid primary key default gen_random_uuid(),
+  student_inventory_log_id uuid not null references student_inventory_log(id) ON DELETE RESTRICT,
+  student_id uuid not null references students(id) ON DELETE RESTRICT,
+  class_id uuid references school_classes(id) ON DELETE SET NULL,
+  session_term_id uuid not null references academic_session_terms(id) ON DELETE RESTRICT,
+  inventory_item_id uuid not null references inventory_items(id) ON DELETE RESTRICT,
+  qty int not null check (qty > 0),
+  condition text not null check (condition in ('reusable','damaged')),
+  returned_date timestamptz not null default now(),
+  received_by uuid references class_teachers(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid not null references auth.users(id) ON DELETE RESTRICT,
+  created_at timestamptz default now()
+);
+
+-- Inventory Write-offs (stock lost to damage, loss and the like)
+CREATE TABLE IF NOT EXISTS inventory_write_offs (
+  id uuid primary key default gen_random_uuid(),
+  inventory_item_id uuid not null references inventory_items(id) ON DELETE RESTRICT,
+  qty numeric(12,2) not null check (qty > 0),
+  value numeric(12,2) not null default 0,
+  reason text not null,
+  class_id uuid references school_classes(id) ON DELETE SET NULL,
+  session_term_id uuid references academic_session_terms(id) ON DELETE SET NULL,
+  student_inventory_return_id uuid unique references student_inventory_returns(id) ON DELETE CASCADE,
+  written_off_date timestamptz not null default now(),
+  notes text,
+  created_by uuid not null references auth.users(id) ON DELETE RESTRICT,
+  created_at timestamptz default now()
+);
+
+-- Locations (stores, warehouses, buildings and class cupboards holding stock)
+CREATE TABLE IF NOT EXISTS locations (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  name text not null,
+  location_type text not null default 'store' check (location_type in ('store','warehouse','building','class_cupboard')),
+  school_class_id uuid references school_classes(id) ON DELETE SET NULL,
+  is_default boolean not null default false,
+  is_active boolean not null default true,
+  notes text,
+  created_by uuid references auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS locations_single_default_idx
+ON locations (is_default)
+WHERE is_default;
+
+-- Stock recorded before locations existed lives in the default store
+INSERT INTO locations (code, name, location_type, is_default)
+SELECT 'MAIN', 'Main Store', 'store', true
+WHERE NOT EXISTS (SELECT 1 FROM locations WHERE is_default);
+
+-- Stock Adjustments (count corrections, shrinkage and donations)
+CREATE SEQUENCE IF NOT EXISTS stock_adjustment_number_seq;
+
+CREATE TABLE IF NOT EXISTS stock_adjustments (
+  id uuid primary key default gen_random_uuid(),
+  adjustment_number text not null unique default 'ADJ-' || lpad(nextval('stock_adjustment_number_seq')::text, 6, '0'),
+  item_id uuid not null references inventory_items(id) ON DELETE RESTRICT,
+  qty numeric(12,2) not null check (qty <> 0),
+  reason text not null check (reason in ('damage','loss','count_variance','expiry','donation')),
+  value numeric(12,2) not null default 0 check (value >= 0),
+  status text not null default 'pending_approval' check (status in ('pending_approval','posted','rejected')),
+  adjustment_date timestamptz not null default now(),
+  reference_no text,
+  notes text,
+  inventory_transaction_id uuid references inventory_transactions(id) ON DELETE SET NULL,
+  approved_by uuid references auth.users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  rejected_by uuid references auth.users(id) ON DELETE SET NULL,
+  rejected_at timestamptz,
+  rejection_reason text,
+  created_by uuid not null references auth.users(id) ON DELETE RESTRICT,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Stock-take sessions: system quantities are frozen when the count opens
+CREATE SEQUENCE IF NOT EXISTS stock_take_number_seq;
+
+CREATE TABLE IF NOT EXISTS stock_take_sessions (
+  id uuid primary key default gen_random_uuid(),
+  session_number text not null unique default 'STK-' || lpad(nextval('stock_take_number_seq')::text, 6, '0'),
+  status text not null default 'open' check (status in ('open','approved','cancelled')),
+  category_id uuid references categories(id) ON DELETE SET NULL,
+  sub_category_id uuid references sub_categories(id) ON DELETE SET NULL,
+  notes text,
+  opened_by uuid not null references auth.users(id) ON DELETE RESTRICT,
+  opened_at timestamptz not null default now(),
+  approved_by uuid references auth.users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  cancelled_by uuid references auth.users(id) ON DELETE SET NULL,
+  cancelled_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_take_lines (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references stock_take_sessions(id) ON DELETE CASCADE,
+  item_id uuid not null references inventory_items(id) ON DELETE CASCADE,
+  system_qty numeric(12,2) not null,
+  unit_cost numeric(12,2) not null default 0,
+  counted_qty numeric(12,2) check (counted_qty >= 0),
+  counted_by uuid references auth.users(id) ON DELETE SET NULL,
+  counted_at timestamptz,
+  notes text,
+  stock_adjustment_id uuid references stock_adjustments(id) ON DELETE SET NULL,
+  unique (session_id, item_id)
+);
+
+-- Purchase Orders
+CREATE SEQUENCE IF NOT EXISTS purchase_order_number_seq;
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number text not null unique default 'PO-' || lpad(nextval('purchase_order_number_seq')::text, 6, '0'),
+  supplier_id uuid not null references suppliers(id) ON DELETE RESTRICT,
+  status text not null default 'draft' check (status in ('draft','approved','partially_received','closed')),
+  order_date date not null default current_date,
+  expected_date date,
+  notes text,
+  approved_by uuid references auth.users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  closed_by uuid references auth.users(id) ON DELETE SET NULL,
+  closed_at timestamptz,
+  created_by uuid not null references auth.users(id) ON DELETE RESTRICT,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Purchase Order Lines
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references purchase_orders(id) ON DELETE CASCADE,
+  item_id uuid not null references inventory_items(id) ON DELETE RESTRICT,
+  qty_ordered numeric(12,2) not null check (qty_ordered > 0),
+  unit_cost numeric(12,2) not null default 0 check (unit_cost >= 0),
+  notes text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+-- Goods Received Notes
+CREATE SEQUENCE IF NOT EXISTS goods_received_note_number_seq;
+
+CREATE TABLE IF NOT EXISTS goods_received_notes (
+  id uuid primary key default gen_random_uuid(),
+  grn_number text not null unique default 'GRN-' || lpad(nextval('goods_received_note_number_seq')::text, 6, '0'),
+  purchase_order_id uuid not null references purchase_orders(id) ON DELETE RESTRICT,
+  received_date timestamptz not null default now(),
+  reference_no text,
+  notes text,
+  created_by uuid not null references auth.users(id) ON DELETE RESTRICT,
+  created_at timestamptz default now()
+);
+
+ALTER TABLE inventory_transactions
+  ADD COLUMN IF NOT EXISTS purchase_order_line_id uuid references purchase_order_lines(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS goods_received_note_id uuid references goods_received_notes(id) ON DELETE CASCADE;
+
+-- Stock adjustments and inter-location transfers post as their own types
+ALTER TABLE inventory_transactions
+  DROP CONSTRAINT IF EXISTS inventory_transactions_transaction_type_check;
+ALTER TABLE inventory_transactions
+  ADD CONSTRAINT inventory_transactions_transaction_type_check
+  CHECK (transaction_type in ('purchase','sale','distribution','return','adjustment','transfer'));
+
+-- Where each movement's stock is held. Rows without one belong to the
+-- default location; transfer legs share a transfer_id.
+ALTER TABLE inventory_transactions
+  ADD COLUMN IF NOT EXISTS location_id uuid references locations(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS transfer_id uuid;
+
+UPDATE inventory_transactions
+SET location_id = (SELECT id FROM locations WHERE is_default)
+WHERE location_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS inventory_transactions_item_location_idx
+ON inventory_transactions (item_id, location_id);
+
+CREATE INDEX IF NOT EXISTS inventory_transactions_transfer_idx
+ON inventory_transactions (transfer_id)
+WHERE transfer_id IS NOT NULL;
+
+ALTER TABLE stock_adjustments
+  ADD COLUMN IF NOT EXISTS location_id uuid references locations(id) ON DELETE RESTRICT;
+
+ALTER TABLE stock_take_sessions
+  ADD COLUMN IF NOT EXISTS location_id uuid references locations(id) ON DELETE RESTRICT;
+
+-- Movements posted while an item is being counted
+ALTER TABLE inventory_transactions
+  ADD COLUMN IF NOT EXISTS stock_take_session_id uuid references stock_take_sessions(id) ON DELETE SET NULL;
+
+-- Supplier returns point at the purchase they send goods back against
+ALTER TABLE inventory_transactions
+  ADD COLUMN IF NOT EXISTS original_transaction_id uuid references inventory_transactions(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS inventory_transactions_original_transaction_idx
+ON inventory_transactions (original_transaction_id)
+WHERE original_transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS inventory_transactions_purchase_order_line_idx
+ON inventory_transactions (purchase_order_line_id)
+WHERE purchase_order_line_id IS NOT NULL;
+
+-- Replenishment settings: the item's own reorder point, quantity and supplier
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS reorder_point numeric(12,2) check (reorder_point >= 0),
+  ADD COLUMN IF NOT EXISTS reorder_qty numeric(12,2) check (reorder_qty >= 0),
+  ADD COLUMN IF NOT EXISTS preferred_supplier_id uuid references suppliers(id) ON DELETE SET NULL;
+
+-- Reorder point overrides for one location, one term, or both
+CREATE TABLE IF NOT EXISTS item_reorder_points (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references inventory_items(id) ON DELETE CASCADE,
+  location_id uuid references locations(id) ON DELETE CASCADE,
+  session_term_id uuid references academic_session_terms(id) ON DELETE CASCADE,
+  reorder_point numeric(12,2) not null check (reorder_point >= 0),
+  reorder_qty numeric(12,2) not null default 0 check (reorder_qty >= 0),
+  created_by uuid references auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS item_reorder_points_scope_idx
+ON item_reorder_points (
+  item_id,
+  COALESCE(location_id, '00000000-0000-0000-0000-000000000000'),
+  COALESCE(session_term_id, '00000000-0000-0000-0000-000000000000')
+);
+
+-- Lots (batches) with optional expiry dates. Stock-ins record the lot they
+-- bring in; stock-outs record the lots they draw from, first-expiry-first-out.
+CREATE TABLE IF NOT EXISTS inventory_lots (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references inventory_items(id) ON DELETE CASCADE,
+  lot_number text,
+  expiry_date date,
+  expiry_alert_sent_at timestamptz,
+  created_at timestamptz default now(),
+  check (lot_number IS NOT NULL OR expiry_date IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS inventory_lots_item_lot_idx
+ON inventory_lots (item_id, COALESCE(lot_number, ''), COALESCE(expiry_date, 'infinity'::date));
+
+CREATE TABLE IF NOT EXISTS inventory_transaction_lots (
+  id uuid primary key default gen_random_uuid(),
+  transaction_id uuid not null references inventory_transactions(id) ON DELETE CASCADE,
+  lot_id uuid not null references inventory_lots(id) ON DELETE RESTRICT,
+  qty_in numeric(12,2) not null default 0 check (qty_in >= 0),
+  qty_out numeric(12,2) not null default 0 check (qty_out >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS inventory_transaction_lots_transaction_idx
+ON inventory_transaction_lots (transaction_id);
+
+CREATE INDEX IF NOT EXISTS inventory_transaction_lots_lot_idx
+ON inventory_transaction_lots (lot_id);
+
+-- Serialized items are tracked unit by unit. Each serial records who holds it
+-- now; inventory_serial_custody keeps every hand-over.
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS is_serialized boolean not null default false;
+
+CREATE TABLE IF NOT EXISTS inventory_serials (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references inventory_items(id) ON DELETE RESTRICT,
+  serial_number text not null,
+  status text not null default 'in_store' check (status in ('in_store','with_teacher','with_student')),
+  class_teacher_id uuid references class_teachers(id) ON DELETE RESTRICT,
+  student_id uuid references students(id) ON DELETE RESTRICT,
+  purchase_transaction_id uuid references inventory_transactions(id) ON DELETE RESTRICT,
+  distribution_id uuid references class_inventory_distributions(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (item_id, serial_number),
+  check (
+    (status = 'in_store' AND class_teacher_id IS NULL AND student_id IS NULL)
+    OR (status = 'with_teacher' AND class_teacher_id IS NOT NULL AND student_id IS NULL)
+    OR (status = 'with_student' AND student_id IS NOT NULL AND class_teacher_id IS NULL)
+  )
+);
+
+COMMENT ON COLUMN inventory_serials.distribution_id IS
+  'Set once the unit leaves store stock on a class distribution';
+
+CREATE INDEX IF NOT EXISTS inventory_serials_purchase_idx
+ON inventory_serials (purchase_transaction_id)
+WHERE purchase_transaction_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS inventory_serial_custody (
+  id uuid primary key default gen_random_uuid(),
+  serial_id uuid not null references inventory_serials(id) ON DELETE CASCADE,
+  event text not null check (event in ('received','check_out','check_in')),
+  status text not null check (status in ('in_store','with_teacher','with_student')),
+  class_teacher_id uuid references class_teachers(id) ON DELETE SET NULL,
+  student_id uuid references students(id) ON DELETE SET NULL,
+  distribution_id uuid references class_inventory_distributions(id) ON DELETE SET NULL,
+  student_inventory_log_id uuid references student_inventory_log(id) ON DELETE SET NULL,
+  event_date timestamptz not null default now(),
+  notes text,
+  created_by uuid references auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz default now()
+);
+
+CREATE INDEX IF NOT EXISTS inventory_serial_custody_serial_idx
+ON inventory_serial_custody (serial_id, event_date);
+
+-- Scan sessions: codes scanned at the counter or on a handheld build up a
+-- draft purchase, sale, distribution or stock count, posted on commit
+CREATE TABLE IF NOT EXISTS scan_sessions (
+  id uuid primary key default gen_random_uuid(),
+  session_type text not null check (session_type in ('purchase','sale','distribution','stock_count')),
+  status text not null default 'open' check (status in ('open','committed','cancelled')),
+  location_id uuid references locations(id) ON DELETE RESTRICT,
+  supplier_id uuid references suppliers(id) ON DELETE RESTRICT,
+  class_id uuid references school_classes(id) ON DELETE RESTRICT,
+  session_term_id uuid references academic_session_terms(id) ON DELETE RESTRICT,
+  received_by uuid references class_teachers(id) ON DELETE RESTRICT,
+  stock_take_id uuid references stock_take_sessions(id) ON DELETE CASCADE,
+  reference_no text,
+  notes text,
+  opened_by uuid references auth.users(id) ON DELETE SET NULL,
+  committed_by uuid references auth.users(id) ON DELETE SET NULL,
+  committed_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (session_type <> 'distribution'
+    OR (class_id IS NOT NULL AND session_term_id IS NOT NULL AND received_by IS NOT NULL)),
+  check (session_type <> 'stock_count' OR stock_take_id IS NOT NULL)
+);
+
+-- One line per item; serialized items collect the serial numbers scanned
+CREATE TABLE IF NOT EXISTS scan_session_lines (
+  id uuid primary key default gen_random_uuid(),
+  scan_session_id uuid not null references scan_sessions(id) ON DELETE CASCADE,
+  item_id uuid not null references inventory_items(id) ON DELETE RESTRICT,
+  qty numeric(12,2) not null default 0 check (qty >= 0),
+  unit_cost numeric(12,2) check (unit_cost >= 0),
+  serial_numbers text[] not null default '{}',
+  scan_count integer not null default 0,
+  last_code text,
+  last_scanned_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (scan_session_id, item_id)
+);
+
+-- Units an item is also bought or counted in, as a number of its base unit
+-- (the item's uom_id, which it is issued in): 1 carton = 48 pieces is stored
+-- against the carton with factor 48. Stock and cost stay in the base unit.
+CREATE TABLE IF NOT EXISTS item_uom_conversions (
+  id uuid primary key default gen_random_uuid(),
+  item_id uuid not null references inventory_items(id) ON DELETE CASCADE,
+  uom_id uuid not null references uoms(id) ON DELETE RESTRICT,
+  factor numeric(12,4) not null check (factor > 0),
+  created_by uuid references auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (item_id, uom_id)
+);
+
+-- Unit the item is usually bought in
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS purchase_uom_id uuid references uoms(id) ON DELETE SET NULL;
+
+-- Unit and quantity a purchase was entered in; qty_in is in base units
+ALTER TABLE inventory_transactions
+  ADD COLUMN IF NOT EXISTS uom_id uuid references uoms(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS uom_qty numeric(12,2);
+
+-- Unit a PO line is ordered in and its base units per unit when ordered;
+-- qty_ordered and unit_cost are in that unit
+ALTER TABLE purchase_order_lines
+  ADD COLUMN IF NOT EXISTS uom_id uuid references uoms(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS uom_factor numeric(12,4) not null default 1 check (uom_factor > 0);
+
+-- Variants of a parent item, e.g. a uniform per size and colour. Stock is
+-- held by the variants; the parent rolls their stock up in summaries.
+ALTER TABLE inventory_items
+  ADD COLUMN IF NOT EXISTS parent_item_id uuid references inventory_items(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS variant_attributes jsonb not null default '{}'::jsonb
+    check (jsonb_typeof(variant_attributes) = 'object');
+
+CREATE INDEX IF NOT EXISTS inventory_items_parent_item_id
+ON inventory_items (parent_item_id)
+WHERE parent_item_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_item_variant_attributes
+ON inventory_items (parent_item_id, variant_attributes)
+WHERE parent_item_id IS NOT NULL;
+
+-- Kits: an item issued as a set of component items, e.g. a starter pack.
+-- Kits hold no stock; issuing one issues its components.
+CREATE TABLE IF NOT EXISTS kit_components (
+  id uuid primary key default gen_random_uuid(),
+  kit_item_id uuid not null references inventory_items(id) ON DELETE CASCADE,
+  component_item_id uuid not null references inventory_items(id) ON DELETE RESTRICT,
+  qty int not null check (qty > 0),
+  created_by uuid references auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (kit_item_id, component_item_id),
+  check (kit_item_id <> component_item_id)
+);
+
+-- Kit a component distribution or collection was issued as part of
+ALTER TABLE class_inventory_distributions
+  ADD COLUMN IF NOT EXISTS kit_item_id uuid references inventory_items(id) ON DELETE SET NULL;
+
+ALTER TABLE student_inventory_log
+  ADD COLUMN IF NOT EXISTS kit_item_id uuid references inventory_items(id) ON DELETE SET NULL;
+
+-- Issues beyond a student's entitlement carry the reason they were allowed
+ALTER TABLE student_inventory_log
+  ADD COLUMN IF NOT EXISTS entitlement_override_reason text,
+  ADD COLUMN IF NOT EXISTS entitlement_override_by uuid references auth.users(id) ON DELETE SET NULL;
+
+-- Entitlements with each kit expanded into its components: one row per
+-- entitlement, or per entitlement and component for a kit
+DROP VIEW IF EXISTS class_inventory_entitlement_items;
+CREATE OR REPLACE VIEW class_inventory_entitlement_items AS
+SELECT
+  e.id AS entitlement_id,
+  e.class_id,
+  e.session_term_id,
+  COALESCE(k.component_item_id, e.inventory_item_id) AS inventory_item_id,
+  k.kit_item_id,
+  e.quantity * COALESCE(k.qty, 1) AS quantity
+FROM class_inventory_entitlements e
+LEFT JOIN kit_components k ON k.kit_item_id = e.inventory_item_id;
+
 -- Inventory Summary View
+-- Parent items roll up the stock and costs of their variants. Only completed
+-- transactions count: pending, cancelled and deleted ones hold no stock.
 DROP VIEW IF EXISTS inventory_item_summary;
 CREATE OR REPLACE VIEW inventory_item_summary AS
 SELECT 
@@ -289,16 +767,21 @@ SELECT
   u.name AS uom_name,
   COALESCE(SUM(t.qty_in) - SUM(t.qty_out), 0) AS current_stock,
   COALESCE(SUM(t.in_cost), 0) AS total_in_cost,
-  COALESCE(SUM(t.out_cost), 0) AS total_out_cost
+  COALESCE(SUM(t.out_cost), 0) AS total_out_cost,
+  bool_or(s.id <> i.id) AS has_variants,
+  EXISTS (SELECT 1 FROM kit_components k WHERE k.kit_item_id = i.id) AS is_kit
 FROM inventory_items i
 LEFT JOIN categories c ON c.id = i.category_id
 LEFT JOIN sub_categories sc ON sc.id = i.sub_category_id
 LEFT JOIN brands b ON b.id = i.brand_id
 LEFT JOIN uoms u ON u.id = i.uom_id
-LEFT JOIN inventory_transactions t ON t.item_id = i.id AND t.status <> 'pending'
+LEFT JOIN inventory_items s ON s.id = i.id OR s.parent_item_id = i.id
+LEFT JOIN inventory_transactions t ON t.item_id = s.id AND t.status = 'completed'
 GROUP BY i.id, c.name, sc.name, b.name, u.name;
 
 
+-- Parent items and kits hold no stock of their own, so are left out
+DROP VIEW IF EXISTS low_stock_items;
 CREATE OR REPLACE VIEW low_stock_items AS
 SELECT 
   i.*,
@@ -314,11 +797,45 @@ LEFT JOIN categories c ON c.id = i.category_id
 LEFT JOIN sub_categories sc ON sc.id = i.sub_category_id
 LEFT JOIN brands b ON b.id = i.brand_id
 LEFT JOIN uoms u ON u.id = i.uom_id
-LEFT JOIN inventory_transactions t ON t.item_id = i.id AND t.status <> 'pending'
+LEFT JOIN inventory_transactions t ON t.item_id = i.id AND t.status = 'completed'
+WHERE NOT EXISTS (SELECT 1 FROM inventory_items v WHERE v.parent_item_id = i.id)
+  AND NOT EXISTS (SELECT 1 FROM kit_components k WHERE k.kit_item_id = i.id)
 GROUP BY i.id, c.name, sc.name, b.name, u.name
 HAVING COALESCE(SUM(t.qty_in) - SUM(t.qty_out), 0) <= i.low_stock_threshold;
 
+-- Stock per item and location, on the same basis as inventory_item_summary.
+-- Only locations an item has moved through appear; a parent item appears
+-- wherever one of its variants has.
+DROP VIEW IF EXISTS inventory_location_summary;
+CREATE OR REPLACE VIEW inventory_location_summary AS
+SELECT
+  i.*,
+  c.name AS category_name,
+  sc.name AS sub_category_name,
+  b.name AS brand_name,
+  u.name AS uom_name,
+  l.id AS location_id,
+  l.code AS location_code,
+  l.name AS location_name,
+  COALESCE(SUM(t.qty_in) - SUM(t.qty_out), 0) AS current_stock,
+  COALESCE(SUM(t.in_cost), 0) AS total_in_cost,
+  COALESCE(SUM(t.out_cost), 0) AS total_out_cost,
+  COALESCE(SUM(t.qty_in) - SUM(t.qty_out), 0) <= i.low_stock_threshold
+    AND bool_and(s.id = i.id) AS is_low_stock,
+  bool_or(s.id <> i.id) AS has_variants
+FROM inventory_transactions t
+JOIN inventory_items s ON s.id = t.item_id
+JOIN inventory_items i ON i.id = s.id OR i.id = s.parent_item_id
+JOIN locations l ON l.id = t.location_id
+LEFT JOIN categories c ON c.id = i.category_id
+LEFT JOIN sub_categories sc ON sc.id = i.sub_category_id
+LEFT JOIN brands b ON b.id = i.brand_id
+LEFT JOIN uoms u ON u.id = i.uom_id
+WHERE t.status = 'completed'
+GROUP BY i.id, c.name, sc.name, b.name, u.name, l.id, l.code, l.name;
+
 
+DROP FUNCTION IF EXISTS get_inventory_balance(uuid, uuid, uuid, uuid);
 CREATE OR REPLACE FUNCTION get_inventory_balance(
   _inventory_item_id uuid DEFAULT NULL,
   _class_id uuid DEFAULT NULL,
@@ -333,39 +850,59 @@ RETURNS TABLE (
   uom_name text,
   total_distributed int,
   total_issued_to_students int,
+  total_returned_by_students int,
   balance_quantity int
 )
 LANGUAGE sql
 AS $$
-  SELECT 
-    cid.inventory_item_id,
+  -- Each movement is totalled on its own before joining so distributions,
+  -- issues and returns do not multiply each other
+  WITH distributed AS (
+    SELECT cid.inventory_item_id, SUM(cid.distributed_quantity) AS qty
+    FROM class_inventory_distributions cid
+    WHERE (_inventory_item_id IS NULL OR cid.inventory_item_id = _inventory_item_id)
+      AND (_class_id IS NULL OR cid.class_id = _class_id)
+      AND (_session_term_id IS NULL OR cid.session_term_id = _session_term_id)
+      AND (_teacher_id IS NULL OR cid.received_by = _teacher_id)
+    GROUP BY cid.inventory_item_id
+  ),
+  issued AS (
+    SELECT sil.inventory_item_id, SUM(sil.qty) AS qty
+    FROM student_inventory_log sil
+    WHERE sil.received = TRUE
+      AND (_inventory_item_id IS NULL OR sil.inventory_item_id = _inventory_item_id)
+      AND (_class_id IS NULL OR sil.class_id = _class_id)
+      AND (_session_term_id IS NULL OR sil.session_term_id = _session_term_id)
+      AND (_teacher_id IS NULL OR sil.given_by = _teacher_id)
+    GROUP BY sil.inventory_item_id
+  ),
+  returned AS (
+    -- Only reusable returns go back into class stock; damaged ones are written off
+    SELECT sir.inventory_item_id, SUM(sir.qty) AS qty
+    FROM student_inventory_returns sir
+    WHERE sir.condition = 'reusable'
+      AND (_inventory_item_id IS NULL OR sir.inventory_item_id = _inventory_item_id)
+      AND (_class_id IS NULL OR sir.class_id = _class_id)
+      AND (_session_term_id IS NULL OR sir.session_term_id = _session_term_id)
+      AND (_teacher_id IS NULL OR sir.received_by = _teacher_id)
+    GROUP BY sir.inventory_item_id
+  )
+  SELECT
+    d.inventory_item_id,
     i.name AS item_name,
     i.sku,
     c.name AS category_name,
     u.name AS uom_name,
-    COALESCE(SUM(cid.distributed_quantity), 0) AS total_distributed,
-    COALESCE(SUM(sil.qty), 0) AS total_issued_to_students,
-    COALESCE(SUM(cid.distributed_quantity), 0) - COALESCE(SUM(sil.qty), 0) AS balance_quantity
-  FROM class_inventory_distributions cid
-  JOIN inventory_items i ON i.id = cid.inventory_item_id
+    COALESCE(d.qty, 0)::int AS total_distributed,
+    COALESCE(iss.qty, 0)::int AS total_issued_to_students,
+    COALESCE(r.qty, 0)::int AS total_returned_by_students,
+    (COALESCE(d.qty, 0) - COALESCE(iss.qty, 0) + COALESCE(r.qty, 0))::int AS balance_quantity
+  FROM distributed d
+  JOIN inventory_items i ON i.id = d.inventory_item_id
   LEFT JOIN categories c ON c.id = i.category_id
   LEFT JOIN uoms u ON u.id = i.uom_id
-  LEFT JOIN student_inventory_log sil 
-    ON cid.inventory_item_id = sil.inventory_item_id
-    AND cid.class_id = sil.class_id
-    AND cid.session_term_id = sil.session_term_id
-    AND sil.received = TRUE
-  WHERE
-    (_inventory_item_id IS NULL OR cid.inventory_item_id = _inventory_item_id)
-    AND (_class_id IS NULL OR cid.class_id = _class_id)
-    AND (_session_term_id IS NULL OR cid.session_term_id = _session_term_id)
-    AND (
-      _teacher_id IS NULL 
-      OR cid.received_by = _teacher_id 
-      OR sil.given_by = _teacher_id
-    )
-  GROUP BY 
-    cid.inventory_item_id, i.name, i.sku, c.name, u.name
+  LEFT JOIN issued iss ON iss.inventory_item_id = d.inventory_item_id
+  LEFT JOIN returned r ON r.inventory_item_id = d.inventory_item_id
   ORDER BY i.name;
 $$;
 
@@ -381,6 +918,3731 @@ LEFT JOIN supplier_transactions st ON s.id = st.supplier_id
 GROUP BY s.id, s.name
 ORDER BY s.name;
 
+CREATE OR REPLACE FUNCTION default_location_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT id FROM locations WHERE is_default LIMIT 1;
+$$;
+
+-- Movements posted without a location go to the default location
+CREATE OR REPLACE FUNCTION set_default_transaction_location()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.location_id IS NULL THEN
+    NEW.location_id := default_location_id();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_transactions_default_location ON inventory_transactions;
+CREATE TRIGGER inventory_transactions_default_location
+  BEFORE INSERT OR UPDATE OF location_id ON inventory_transactions
+  FOR EACH ROW EXECUTE FUNCTION set_default_transaction_location();
+
+-- Purchase posting: stock row plus supplier cost credit and payment debit in one transaction
+DROP FUNCTION IF EXISTS post_purchase(uuid, numeric, numeric, uuid, numeric, text, text, text, uuid, text, timestamptz, uuid);
+DROP FUNCTION IF EXISTS post_purchase(uuid, numeric, numeric, uuid, numeric, text, text, text, uuid, text, timestamptz, uuid, uuid);
+DROP FUNCTION IF EXISTS post_purchase(uuid, numeric, numeric, uuid, numeric, text, text, text, uuid, text, timestamptz, uuid, uuid, text, date);
+DROP FUNCTION IF EXISTS post_purchase(uuid, numeric, numeric, uuid, numeric, text, text, text, uuid, text, timestamptz, uuid, uuid, text, date, text[]);
+CREATE OR REPLACE FUNCTION post_purchase(
+  _item_id uuid,
+  _qty_in numeric,
+  _in_cost numeric DEFAULT 0,
+  _supplier_id uuid DEFAULT NULL,
+  _amount_paid numeric DEFAULT 0,
+  _status text DEFAULT NULL,
+  _reference_no text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _receiver_id uuid DEFAULT NULL,
+  _supplier_receiver text DEFAULT NULL,
+  _transaction_date timestamptz DEFAULT NULL,
+  _created_by uuid DEFAULT NULL,
+  _location_id uuid DEFAULT NULL,
+  _lot_number text DEFAULT NULL,
+  _expiry_date date DEFAULT NULL,
+  _serial_numbers text[] DEFAULT NULL,
+  _uom_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _txn inventory_transactions%ROWTYPE;
+  _ledger jsonb := '[]'::jsonb;
+  _entry supplier_transactions%ROWTYPE;
+  _unit uuid;
+BEGIN
+  IF COALESCE(_amount_paid, 0) > 0 AND _supplier_id IS NULL THEN
+    RAISE EXCEPTION 'supplier_id is required when amount_paid is provided'
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- _qty_in is in _uom_id, or the item's base unit when none is given
+  _unit := COALESCE(_uom_id, (SELECT uom_id FROM inventory_items WHERE id = _item_id));
+
+  INSERT INTO inventory_transactions (
+    item_id, supplier_id, receiver_id, supplier_receiver, transaction_type,
+    qty_in, in_cost, amount_paid, status, reference_no, notes,
+    transaction_date, created_by, location_id, uom_id, uom_qty
+  )
+  VALUES (
+    _item_id, _supplier_id, _receiver_id, _supplier_receiver, 'purchase',
+    _qty_in * item_uom_factor(_item_id, _unit), COALESCE(_in_cost, 0), COALESCE(_amount_paid, 0),
+    COALESCE(_status, 'pending'), _reference_no, _notes,
+    COALESCE(_transaction_date, now()), _created_by, _location_id, _unit, _qty_in
+  )
+  RETURNING * INTO _txn;
+
+  PERFORM attach_transaction_lot(_txn.id, _lot_number, _expiry_date);
+  PERFORM register_purchase_serials(_txn.id, _serial_numbers);
+
+  IF _supplier_id IS NOT NULL AND COALESCE(_in_cost, 0) > 0 THEN
+    INSERT INTO supplier_transactions (
+      supplier_id, transaction_date, credit, debit, reference_no, notes, created_by
+    )
+    VALUES (
+      _supplier_id, _txn.transaction_date, _in_cost, 0, _txn.id::text,
+      'Being cost of purchase transaction ' || _txn.id, _created_by
+    )
+    RETURNING * INTO _entry;
+    _ledger := _ledger || to_jsonb(_entry);
+  END IF;
+
+  IF _supplier_id IS NOT NULL AND COALESCE(_amount_paid, 0) > 0 THEN
+    INSERT INTO supplier_transactions (
+      supplier_id, transaction_date, credit, debit, reference_no, notes, created_by
+    )
+    VALUES (
+      _supplier_id, _txn.transaction_date, 0, _amount_paid, _txn.id::text,
+      'Payment for purchase transaction ' || _txn.id, _created_by
+    )
+    RETURNING * INTO _entry;
+    _ledger := _ledger || to_jsonb(_entry);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'transaction', to_jsonb(_txn),
+    'supplier_transactions', _ledger
+  );
+END;
+$$;
+
+-- Stock available for issue. Locks the item row so concurrent stock-outs for the
+-- same item are serialized; pending stock-outs count as reserved.
+-- With a location, only stock held there counts.
+DROP FUNCTION IF EXISTS lock_available_stock(uuid, uuid);
+CREATE OR REPLACE FUNCTION lock_available_stock(
+  _item_id uuid,
+  _exclude_transaction_id uuid DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _available numeric;
+BEGIN
+  PERFORM 1 FROM inventory_items WHERE id = _item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', _item_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(qty_in) FILTER (WHERE status = 'completed'), 0)
+    - COALESCE(SUM(qty_out) FILTER (WHERE status IN ('completed', 'pending')), 0)
+  INTO _available
+  FROM inventory_transactions
+  WHERE item_id = _item_id
+    AND (_location_id IS NULL OR location_id = _location_id)
+    AND (_exclude_transaction_id IS NULL OR id <> _exclude_transaction_id);
+
+  RETURN _available;
+END;
+$$;
+
+-- Cost of issuing _qty of an item on a date, replayed from the stock-ins and
+-- stock-outs recorded on or before it with the item's costing method (else
+-- _default_costing_method). Weighted average pools every receipt; FIFO
+-- consumes the oldest receipts first and costs any excess at the last price.
+-- Call it after lock_available_stock so concurrent issues see each other.
+CREATE OR REPLACE FUNCTION item_out_cost(
+  _item_id uuid,
+  _qty numeric,
+  _as_of timestamptz DEFAULT NULL,
+  _default_costing_method text DEFAULT NULL,
+  _exclude_transaction_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _method text;
+  _row record;
+  _layer_qty numeric[] := '{}';
+  _layer_cost numeric[] := '{}';
+  _head int := 1;
+  _avg_qty numeric := 0;
+  _avg_cost numeric := 0;
+  _remaining numeric;
+  _taken numeric;
+  _last_cost numeric;
+  _cost numeric;
+BEGIN
+  SELECT COALESCE(costing_method, _default_costing_method, 'weighted_average')
+  INTO _method FROM inventory_items WHERE id = _item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', _item_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The ledger oldest first, then the issue being costed. Transfers move
+  -- stock between locations; the item's cost pool is global.
+  FOR _row IN
+    SELECT * FROM (
+      SELECT COALESCE(t.qty_in, 0) AS qty_in, COALESCE(t.in_cost, 0) AS in_cost,
+        COALESCE(t.qty_out, 0) AS qty_out, 0 AS ord,
+        t.transaction_date, t.created_at, t.id
+      FROM inventory_transactions t
+      WHERE t.item_id = _item_id
+        AND t.transaction_type <> 'transfer'
+        AND (t.status = 'completed' OR (t.status = 'pending' AND COALESCE(t.qty_out, 0) > 0))
+        AND t.transaction_date <= COALESCE(_as_of, now())
+        AND (_exclude_transaction_id IS NULL OR t.id <> _exclude_transaction_id)
+      UNION ALL
+      SELECT 0, 0, COALESCE(_qty, 0), 1, NULL, NULL, NULL
+    ) ledger
+    ORDER BY ord, transaction_date, created_at, id
+  LOOP
+    IF _row.qty_in > 0 THEN
+      IF _method = 'fifo' THEN
+        _layer_qty := _layer_qty || _row.qty_in;
+        _layer_cost := _layer_cost || (_row.in_cost / _row.qty_in);
+      ELSE
+        -- Stock at or below zero carries no value, so the receipt sets the average
+        _avg_cost := CASE WHEN _avg_qty > 0
+          THEN (_avg_qty * _avg_cost + _row.in_cost) / (_avg_qty + _row.qty_in)
+          ELSE _row.in_cost / _row.qty_in END;
+        _avg_qty := _avg_qty + _row.qty_in;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    _cost := 0;
+    IF _row.qty_out > 0 THEN
+      IF _method = 'fifo' THEN
+        _remaining := _row.qty_out;
+        _last_cost := 0;
+        WHILE _remaining > 0 AND _head <= COALESCE(array_length(_layer_qty, 1), 0) LOOP
+          _taken := LEAST(_layer_qty[_head], _remaining);
+          _cost := _cost + _taken * _layer_cost[_head];
+          _last_cost := _layer_cost[_head];
+          _layer_qty[_head] := _layer_qty[_head] - _taken;
+          _remaining := _remaining - _taken;
+          IF _layer_qty[_head] <= 0 THEN
+            _head := _head + 1;
+          END IF;
+        END LOOP;
+        _cost := _cost + _remaining * _last_cost;
+      ELSE
+        _cost := _row.qty_out * _avg_cost;
+        _avg_qty := _avg_qty - _row.qty_out;
+      END IF;
+    END IF;
+
+    IF _row.ord = 1 THEN
+      RETURN round(_cost, 2);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Cost every stock-out of an item again from its history with item_out_cost,
+-- under the item lock, e.g. after a back-dated purchase is recorded. Supplier
+-- returns keep the purchase price their credit note was valued at.
+CREATE OR REPLACE FUNCTION recalculate_item_costs(
+  _item_id uuid,
+  _default_costing_method text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _method text;
+  _row inventory_transactions%ROWTYPE;
+  _out_cost numeric;
+  _checked int := 0;
+  _updated jsonb := '[]'::jsonb;
+BEGIN
+  SELECT COALESCE(costing_method, _default_costing_method, 'weighted_average')
+  INTO _method FROM inventory_items WHERE id = _item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', _item_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR _row IN
+    SELECT * FROM inventory_transactions t
+    WHERE t.item_id = _item_id
+      AND t.transaction_type <> 'transfer'
+      AND (t.status = 'completed' OR (t.status = 'pending' AND COALESCE(t.qty_out, 0) > 0))
+    ORDER BY t.transaction_date, t.created_at, t.id
+  LOOP
+    _checked := _checked + 1;
+    CONTINUE WHEN COALESCE(_row.qty_out, 0) <= 0 OR _row.original_transaction_id IS NOT NULL;
+
+    _out_cost := item_out_cost(_item_id, _row.qty_out, _row.transaction_date,
+      _default_costing_method, _row.id);
+    CONTINUE WHEN _out_cost = COALESCE(_row.out_cost, 0);
+
+    UPDATE inventory_transactions SET out_cost = _out_cost, updated_at = now()
+    WHERE id = _row.id;
+    _updated := _updated || jsonb_build_object(
+      'id', _row.id,
+      'transaction_type', _row.transaction_type,
+      'transaction_date', _row.transaction_date,
+      'qty_in', COALESCE(_row.qty_in, 0),
+      'qty_out', _row.qty_out,
+      'previous_out_cost', COALESCE(_row.out_cost, 0),
+      'out_cost', _out_cost
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'item_id', _item_id,
+    'costing_method', _method,
+    'transactions_checked', _checked,
+    'transactions_updated', jsonb_array_length(_updated),
+    'updated', _updated
+  );
+END;
+$$;
+
+-- Check-and-decrement for any stock-out; raises PT409 (HTTP 409) when short.
+-- Stock is taken from the given location, or the default one, and costed
+-- with item_out_cost under the item lock.
+DROP FUNCTION IF EXISTS post_stock_out(uuid, text, numeric, numeric, text, text, text, uuid, uuid, text, uuid, timestamptz, uuid);
+DROP FUNCTION IF EXISTS post_stock_out(uuid, text, numeric, numeric, text, text, text, uuid, uuid, text, uuid, timestamptz, uuid, uuid);
+CREATE OR REPLACE FUNCTION post_stock_out(
+  _item_id uuid,
+  _transaction_type text,
+  _qty_out numeric,
+  _costing_method text DEFAULT NULL,
+  _status text DEFAULT NULL,
+  _reference_no text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _receiver_id uuid DEFAULT NULL,
+  _supplier_id uuid DEFAULT NULL,
+  _supplier_receiver text DEFAULT NULL,
+  _distribution_id uuid DEFAULT NULL,
+  _transaction_date timestamptz DEFAULT NULL,
+  _created_by uuid DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS inventory_transactions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _available numeric;
+  _txn inventory_transactions%ROWTYPE;
+BEGIN
+  IF COALESCE(_qty_out, 0) <= 0 THEN
+    RAISE EXCEPTION 'qty_out must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  _location_id := COALESCE(_location_id, default_location_id());
+  _available := lock_available_stock(_item_id, NULL, _location_id);
+  IF _available < _qty_out THEN
+    RAISE EXCEPTION 'Insufficient stock: % available, % requested', _available, _qty_out
+      USING ERRCODE = 'PT409', DETAIL = _available::text;
+  END IF;
+
+  INSERT INTO inventory_transactions (
+    item_id, supplier_id, receiver_id, supplier_receiver, transaction_type,
+    qty_out, out_cost, status, reference_no, notes, distribution_id,
+    transaction_date, created_by, location_id
+  )
+  VALUES (
+    _item_id, _supplier_id, _receiver_id, _supplier_receiver, _transaction_type,
+    _qty_out,
+    item_out_cost(_item_id, _qty_out, COALESCE(_transaction_date, now()), _costing_method),
+    COALESCE(_status, 'pending'), _reference_no,
+    _notes, _distribution_id, COALESCE(_transaction_date, now()), _created_by,
+    _location_id
+  )
+  RETURNING * INTO _txn;
+
+  RETURN _txn;
+END;
+$$;
+
+-- Class distribution and its stock-out posted together under the item lock,
+-- drawn from the given location or the default one. Serialized units are
+-- handed to the receiving class teacher.
+DROP FUNCTION IF EXISTS post_distribution(uuid, uuid, uuid, int, uuid, text, text, text, numeric, timestamptz, uuid);
+DROP FUNCTION IF EXISTS post_distribution(uuid, uuid, uuid, int, uuid, text, text, text, numeric, timestamptz, uuid, text[]);
+DROP FUNCTION IF EXISTS post_distribution(uuid, uuid, uuid, int, uuid, text, text, text, text, timestamptz, uuid, text[]);
+CREATE OR REPLACE FUNCTION post_distribution(
+  _class_id uuid,
+  _inventory_item_id uuid,
+  _session_term_id uuid,
+  _distributed_quantity int,
+  _received_by uuid,
+  _receiver_name text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _reference_no text DEFAULT NULL,
+  _costing_method text DEFAULT NULL,
+  _distribution_date timestamptz DEFAULT NULL,
+  _created_by uuid DEFAULT NULL,
+  _serial_numbers text[] DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _dist class_inventory_distributions%ROWTYPE;
+  _txn inventory_transactions%ROWTYPE;
+  _serials jsonb := '[]'::jsonb;
+BEGIN
+  INSERT INTO class_inventory_distributions (
+    class_id, inventory_item_id, session_term_id, distributed_quantity,
+    distribution_date, received_by, receiver_name, notes, created_by
+  )
+  VALUES (
+    _class_id, _inventory_item_id, _session_term_id, _distributed_quantity,
+    COALESCE(_distribution_date, now()), _received_by, _receiver_name, _notes,
+    _created_by
+  )
+  RETURNING * INTO _dist;
+
+  _txn := post_stock_out(
+    _item_id => _inventory_item_id,
+    _transaction_type => 'distribution',
+    _qty_out => _distributed_quantity,
+    _costing_method => _costing_method,
+    _status => 'completed',
+    _reference_no => _reference_no,
+    _notes => _notes,
+    _distribution_id => _dist.id,
+    _transaction_date => _dist.distribution_date,
+    _created_by => _created_by,
+    _location_id => _location_id
+  );
+
+  IF check_serial_numbers(_inventory_item_id, _distributed_quantity, _serial_numbers) THEN
+    IF _received_by IS NULL THEN
+      RAISE EXCEPTION 'received_by is required to distribute serialized items'
+        USING ERRCODE = '22023';
+    END IF;
+    SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb) INTO _serials
+    FROM move_serials(
+      _item_id => _inventory_item_id,
+      _serial_numbers => _serial_numbers,
+      _from_statuses => ARRAY['in_store'],
+      _status => 'with_teacher',
+      _class_teacher_id => _received_by,
+      _event => 'check_out',
+      _distribution_id => _dist.id,
+      _event_date => _dist.distribution_date,
+      _notes => _notes,
+      _created_by => _created_by
+    ) s;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'distribution', to_jsonb(_dist),
+    'transaction', to_jsonb(_txn),
+    'serials', _serials
+  );
+END;
+$$;
+
+-- Inventory transaction update that keeps a purchase's supplier entries in step.
+-- A stock-out whose item, quantity or date changes is costed again. A stock-in
+-- cannot be reduced, moved or cancelled below what has been issued from it.
+DROP FUNCTION IF EXISTS update_inventory_transaction(uuid, jsonb);
+CREATE OR REPLACE FUNCTION update_inventory_transaction(
+  _id uuid,
+  _changes jsonb,
+  _costing_method text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _old inventory_transactions%ROWTYPE;
+  _new inventory_transactions%ROWTYPE;
+  _ref text := _id::text;
+  _available numeric;
+  _original inventory_transactions%ROWTYPE;
+  _returnable numeric;
+BEGIN
+  SELECT * INTO _old FROM inventory_transactions WHERE id = _id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory transaction % not found', _id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _old.transfer_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Transaction % is one leg of a transfer; delete the transfer and post it again', _id
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  -- amount_paid is fixed at posting time; payments are recorded separately
+  _new := jsonb_populate_record(_old, _changes - 'id' - 'amount_paid' - 'created_by' - 'created_at'
+    - 'out_cost' - 'purchase_order_line_id' - 'goods_received_note_id' - 'original_transaction_id'
+    - 'transfer_id' - 'uom_id' - 'uom_qty');
+
+  -- Keep the quantity as entered in step with a changed qty_in
+  IF _old.uom_qty IS NOT NULL AND COALESCE(_new.qty_in, 0) <> COALESCE(_old.qty_in, 0) THEN
+    _new.uom_qty := round(COALESCE(_new.qty_in, 0) * _old.uom_qty / NULLIF(_old.qty_in, 0), 2);
+  END IF;
+
+  IF (_new.item_id <> _old.item_id
+      OR COALESCE(_new.qty_in, 0) <> COALESCE(_old.qty_in, 0)
+      OR _new.status IN ('cancelled', 'deleted'))
+    AND EXISTS (SELECT 1 FROM inventory_serials WHERE purchase_transaction_id = _id) THEN
+    RAISE EXCEPTION 'Transaction % registered serial numbers; delete it and post it again to change its item, quantity or status', _id
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _new.original_transaction_id IS NOT NULL THEN
+    SELECT * INTO _original FROM inventory_transactions
+    WHERE id = _new.original_transaction_id FOR UPDATE;
+    -- The credit note is always valued at the original purchase price
+    _new.out_cost := round(COALESCE(_new.qty_out, 0) * COALESCE(_original.in_cost, 0) / NULLIF(_original.qty_in, 0), 2);
+
+    IF _new.status NOT IN ('cancelled', 'deleted')
+      AND (COALESCE(_new.qty_out, 0) > COALESCE(_old.qty_out, 0)
+        OR _old.status IN ('cancelled', 'deleted')) THEN
+      _returnable := returnable_quantity(_original.id, _id);
+      IF _returnable < COALESCE(_new.qty_out, 0) THEN
+        RAISE EXCEPTION 'Cannot return %: only % of the purchase is left to return', _new.qty_out, _returnable
+          USING ERRCODE = 'PT409', DETAIL = _returnable::text;
+      END IF;
+    END IF;
+  END IF;
+
+  IF _new.purchase_order_line_id IS NOT NULL
+    AND _new.status NOT IN ('cancelled', 'deleted')
+    AND (COALESCE(_new.qty_in, 0) > COALESCE(_old.qty_in, 0)
+      OR _old.status IN ('cancelled', 'deleted')) THEN
+    _available := lock_purchase_order_line_outstanding(_new.purchase_order_line_id, _id);
+    IF _available < COALESCE(_new.qty_in, 0) THEN
+      RAISE EXCEPTION 'Over-receipt: % outstanding on the purchase order line, % received', _available, _new.qty_in
+        USING ERRCODE = 'PT409', DETAIL = _available::text;
+    END IF;
+  END IF;
+
+  _new.location_id := COALESCE(_new.location_id, default_location_id());
+
+  IF COALESCE(_new.qty_out, 0) > 0
+    AND _new.status IN ('completed', 'pending')
+    AND (_new.item_id <> _old.item_id
+      OR _new.location_id IS DISTINCT FROM _old.location_id
+      OR COALESCE(_new.qty_out, 0) > COALESCE(_old.qty_out, 0)
+      OR _old.status NOT IN ('completed', 'pending')) THEN
+    _available := lock_available_stock(_new.item_id, _id, _new.location_id);
+    IF _available < _new.qty_out THEN
+      RAISE EXCEPTION 'Insufficient stock: % available, % requested', _available, _new.qty_out
+        USING ERRCODE = 'PT409', DETAIL = _available::text;
+    END IF;
+  END IF;
+
+  -- Supplier returns keep the purchase price set above
+  IF COALESCE(_new.qty_out, 0) > 0
+    AND _new.original_transaction_id IS NULL
+    AND _new.status IN ('completed', 'pending')
+    AND (_new.item_id <> _old.item_id
+      OR _new.qty_out <> COALESCE(_old.qty_out, 0)
+      OR _new.transaction_date <> _old.transaction_date
+      OR _old.status NOT IN ('completed', 'pending')) THEN
+    PERFORM 1 FROM inventory_items WHERE id = _new.item_id FOR UPDATE;
+    _new.out_cost := item_out_cost(_new.item_id, _new.qty_out, _new.transaction_date, _costing_method, _id);
+  END IF;
+
+  UPDATE inventory_transactions SET
+    item_id = _new.item_id,
+    supplier_id = _new.supplier_id,
+    receiver_id = _new.receiver_id,
+    supplier_receiver = _new.supplier_receiver,
+    transaction_type = _new.transaction_type,
+    qty_in = _new.qty_in,
+    in_cost = _new.in_cost,
+    qty_out = _new.qty_out,
+    out_cost = _new.out_cost,
+    status = _new.status,
+    reference_no = _new.reference_no,
+    notes = _new.notes,
+    transaction_date = _new.transaction_date,
+    location_id = _new.location_id,
+    uom_qty = _new.uom_qty,
+    updated_at = now()
+  WHERE id = _id
+  RETURNING * INTO _new;
+
+  -- Stock received and already issued cannot be taken back
+  IF COALESCE(_old.qty_in, 0) > 0
+    AND _old.status = 'completed'
+    AND (_new.status <> 'completed'
+      OR _new.item_id <> _old.item_id
+      OR _new.location_id IS DISTINCT FROM _old.location_id
+      OR COALESCE(_new.qty_in, 0) < _old.qty_in) THEN
+    _available := lock_available_stock(_old.item_id, NULL, _old.location_id);
+    IF _available < 0 THEN
+      RAISE EXCEPTION 'Cannot change transaction %: % of the stock it received has already been issued', _id, -_available
+        USING ERRCODE = 'PT409', DETAIL = _available::text;
+    END IF;
+  END IF;
+
+  IF _new.purchase_order_line_id IS NOT NULL THEN
+    PERFORM refresh_purchase_order_status(
+      (SELECT purchase_order_id FROM purchase_order_lines WHERE id = _new.purchase_order_line_id)
+    );
+  END IF;
+
+  IF _new.original_transaction_id IS NOT NULL THEN
+    IF _new.status IN ('cancelled', 'deleted') OR COALESCE(_new.out_cost, 0) <= 0 THEN
+      DELETE FROM supplier_transactions WHERE reference_no = _ref;
+    ELSIF _new.supplier_id IS NOT NULL THEN
+      UPDATE supplier_transactions SET
+        supplier_id = _new.supplier_id,
+        debit = _new.out_cost,
+        transaction_date = _new.transaction_date,
+        updated_at = now()
+      WHERE reference_no = _ref AND debit > 0;
+
+      IF NOT FOUND THEN
+        INSERT INTO supplier_transactions (
+          supplier_id, transaction_date, credit, debit, reference_no, notes, created_by
+        )
+        VALUES (
+          _new.supplier_id, _new.transaction_date, 0, _new.out_cost, _ref,
+          'Credit note for return ' || _new.id || ' against purchase ' || _new.original_transaction_id,
+          _new.created_by
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  IF _old.transaction_type = 'purchase' OR _new.transaction_type = 'purchase' THEN
+    IF _new.transaction_type <> 'purchase'
+      OR _new.supplier_id IS NULL
+      OR _new.status IN ('cancelled', 'deleted') THEN
+      -- No longer a supplier purchase: reverse every linked ledger entry
+      DELETE FROM supplier_transactions WHERE reference_no = _ref;
+    ELSE
+      IF COALESCE(_new.in_cost, 0) > 0 THEN
+        UPDATE supplier_transactions SET
+          supplier_id = _new.supplier_id,
+          credit = _new.in_cost,
+          transaction_date = _new.transaction_date,
+          updated_at = now()
+        WHERE reference_no = _ref AND credit > 0;
+
+        IF NOT FOUND THEN
+          INSERT INTO supplier_transactions (
+            supplier_id, transaction_date, credit, debit, reference_no, notes, created_by
+          )
+          VALUES (
+            _new.supplier_id, _new.transaction_date, _new.in_cost, 0, _ref,
+            'Being cost of purchase transaction ' || _new.id, _new.created_by
+          );
+        END IF;
+      ELSE
+        DELETE FROM supplier_transactions WHERE reference_no = _ref AND credit > 0;
+      END IF;
+
+      UPDATE supplier_transactions SET
+        supplier_id = _new.supplier_id,
+        updated_at = now()
+      WHERE reference_no = _ref AND debit > 0 AND supplier_id IS DISTINCT FROM _new.supplier_id;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'transaction', to_jsonb(_new),
+    'supplier_transactions', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(st) ORDER BY st.created_at)
+         FROM supplier_transactions st WHERE st.reference_no = _ref),
+      '[]'::jsonb
+    )
+  );
+END;
+$$;
+
+-- Class distribution update that keeps its stock-out in step, checked against
+-- the stock at its location under the item lock and costed again when its
+-- quantity or date changes. Only the quantity, date and receiver details can
+-- change.
+DROP FUNCTION IF EXISTS update_distribution(uuid, jsonb);
+CREATE OR REPLACE FUNCTION update_distribution(
+  _id uuid,
+  _changes jsonb,
+  _costing_method text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _old class_inventory_distributions%ROWTYPE;
+  _new class_inventory_distributions%ROWTYPE;
+  _txn inventory_transactions%ROWTYPE;
+  _available numeric;
+BEGIN
+  SELECT * INTO _old FROM class_inventory_distributions WHERE id = _id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Class inventory distribution % not found', _id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  _new := jsonb_populate_record(_old, _changes - ARRAY(
+    SELECT jsonb_object_keys(_changes)
+    EXCEPT SELECT unnest(ARRAY['distributed_quantity', 'distribution_date',
+      'received_by', 'receiver_name', 'notes'])
+  ));
+  IF COALESCE(_new.distributed_quantity, 0) <= 0 THEN
+    RAISE EXCEPTION 'distributed_quantity must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF _new.distributed_quantity <> _old.distributed_quantity
+    AND EXISTS (SELECT 1 FROM inventory_serials WHERE distribution_id = _id) THEN
+    RAISE EXCEPTION 'Distribution % handed out serial numbers; delete it and post it again to change its quantity', _id
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  SELECT * INTO _txn FROM inventory_transactions
+  WHERE distribution_id = _id AND status NOT IN ('cancelled', 'deleted')
+  FOR UPDATE;
+
+  IF _txn.id IS NOT NULL AND _new.distributed_quantity > COALESCE(_txn.qty_out, 0) THEN
+    _available := lock_available_stock(_txn.item_id, _txn.id, _txn.location_id);
+    IF _available < _new.distributed_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock: % available, % requested', _available, _new.distributed_quantity
+        USING ERRCODE = 'PT409', DETAIL = _available::text;
+    END IF;
+  END IF;
+
+  UPDATE class_inventory_distributions SET
+    distributed_quantity = _new.distributed_quantity,
+    distribution_date = _new.distribution_date,
+    received_by = _new.received_by,
+    receiver_name = _new.receiver_name,
+    notes = _new.notes,
+    updated_at = now()
+  WHERE id = _id
+  RETURNING * INTO _new;
+
+  IF _txn.id IS NOT NULL THEN
+    IF _new.distributed_quantity <> COALESCE(_txn.qty_out, 0)
+      OR _new.distribution_date <> _txn.transaction_date THEN
+      PERFORM 1 FROM inventory_items WHERE id = _txn.item_id FOR UPDATE;
+      _txn.out_cost := item_out_cost(_txn.item_id, _new.distributed_quantity,
+        _new.distribution_date, _costing_method, _txn.id);
+    END IF;
+
+    UPDATE inventory_transactions SET
+      qty_out = _new.distributed_quantity,
+      out_cost = _txn.out_cost,
+      notes = _new.notes,
+      transaction_date = _new.distribution_date,
+      updated_at = now()
+    WHERE id = _txn.id
+    RETURNING * INTO _txn;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'distribution', to_jsonb(_new),
+    'transaction', CASE WHEN _txn.id IS NULL THEN NULL ELSE to_jsonb(_txn) END
+  );
+END;
+$$;
+
+-- Inventory transaction delete that reverses a purchase's supplier entries.
+-- Deleting either leg of a transfer deletes both. A stock-in whose stock has
+-- been issued cannot be deleted.
+CREATE OR REPLACE FUNCTION delete_inventory_transaction(_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _old inventory_transactions%ROWTYPE;
+  _line_id uuid;
+  _transfer_id uuid;
+  _item_id uuid;
+  _location_id uuid;
+  _available numeric;
+BEGIN
+  PERFORM remove_purchase_serials(_id);
+  DELETE FROM supplier_transactions WHERE reference_no = _id::text;
+  DELETE FROM inventory_transactions WHERE id = _id
+  RETURNING * INTO _old;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory transaction % not found', _id
+      USING ERRCODE = 'P0002';
+  END IF;
+  _line_id := _old.purchase_order_line_id;
+  _transfer_id := _old.transfer_id;
+
+  -- Stock received and already issued cannot be taken back
+  IF _transfer_id IS NULL AND COALESCE(_old.qty_in, 0) > 0 AND _old.status = 'completed' THEN
+    _available := lock_available_stock(_old.item_id, NULL, _old.location_id);
+    IF _available < 0 THEN
+      RAISE EXCEPTION 'Cannot delete transaction %: % of the stock it received has already been issued', _id, -_available
+        USING ERRCODE = 'PT409', DETAIL = _available::text;
+    END IF;
+  END IF;
+
+  IF _transfer_id IS NOT NULL THEN
+    -- Stock already used at the destination cannot be un-transferred
+    FOR _item_id, _location_id IN
+      DELETE FROM inventory_transactions
+      WHERE transfer_id = _transfer_id AND qty_in > 0
+      RETURNING item_id, location_id
+    LOOP
+      _available := lock_available_stock(_item_id, NULL, _location_id);
+      IF _available < 0 THEN
+        RAISE EXCEPTION 'Cannot delete transfer: % of the stock moved has already been used at the destination', -_available
+          USING ERRCODE = 'PT409', DETAIL = _available::text;
+      END IF;
+    END LOOP;
+    DELETE FROM inventory_transactions WHERE transfer_id = _transfer_id;
+  END IF;
+
+  IF _line_id IS NOT NULL THEN
+    PERFORM refresh_purchase_order_status(
+      (SELECT purchase_order_id FROM purchase_order_lines WHERE id = _line_id)
+    );
+  END IF;
+END;
+$$;
+
+-- Purchase order lines with received and outstanding quantities in the
+-- line's unit. Receipts are counted from their purchase transactions so
+-- cancelling or deleting a receipt transaction reopens the quantity.
+DROP VIEW IF EXISTS purchase_order_line_balances;
+CREATE OR REPLACE VIEW purchase_order_line_balances AS
+SELECT
+  l.*,
+  round(COALESCE(r.qty_received, 0) / l.uom_factor, 2) AS qty_received,
+  COALESCE(r.value_received, 0) AS value_received,
+  GREATEST(round(l.qty_ordered - COALESCE(r.qty_received, 0) / l.uom_factor, 2), 0) AS qty_outstanding
+FROM purchase_order_lines l
+LEFT JOIN (
+  SELECT
+    purchase_order_line_id,
+    SUM(qty_in) AS qty_received,
+    SUM(in_cost) AS value_received
+  FROM inventory_transactions
+  WHERE purchase_order_line_id IS NOT NULL
+    AND status NOT IN ('cancelled', 'deleted')
+  GROUP BY purchase_order_line_id
+) r ON r.purchase_order_line_id = l.id;
+
+-- Create a draft purchase order, or replace a draft's header and lines
+CREATE OR REPLACE FUNCTION save_purchase_order(
+  _id uuid,
+  _supplier_id uuid,
+  _lines jsonb,
+  _order_date date DEFAULT NULL,
+  _expected_date date DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _status text;
+BEGIN
+  IF jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'A purchase order needs at least one line'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _id IS NULL THEN
+    INSERT INTO purchase_orders (
+      supplier_id, order_date, expected_date, notes, created_by
+    )
+    VALUES (
+      _supplier_id, COALESCE(_order_date, current_date), _expected_date, _notes, _created_by
+    )
+    RETURNING id INTO _id;
+  ELSE
+    SELECT status INTO _status FROM purchase_orders WHERE id = _id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order % not found', _id
+        USING ERRCODE = 'P0002';
+    END IF;
+    IF _status <> 'draft' THEN
+      RAISE EXCEPTION 'Only draft purchase orders can be edited'
+        USING ERRCODE = 'PT409';
+    END IF;
+
+    UPDATE purchase_orders SET
+      supplier_id = _supplier_id,
+      order_date = COALESCE(_order_date, order_date),
+      expected_date = _expected_date,
+      notes = _notes,
+      updated_at = now()
+    WHERE id = _id;
+    DELETE FROM purchase_order_lines WHERE purchase_order_id = _id;
+  END IF;
+
+  -- Lines are ordered in their uom_id, or the item's base unit
+  INSERT INTO purchase_order_lines (
+    purchase_order_id, item_id, qty_ordered, unit_cost, notes, uom_id, uom_factor
+  )
+  SELECT
+    _id, l.item_id, l.qty_ordered, COALESCE(l.unit_cost, 0), l.notes,
+    COALESCE(l.uom_id, i.uom_id),
+    item_uom_factor(l.item_id, COALESCE(l.uom_id, i.uom_id))
+  FROM jsonb_to_recordset(_lines)
+    AS l(item_id uuid, qty_ordered numeric, unit_cost numeric, notes text, uom_id uuid)
+  LEFT JOIN inventory_items i ON i.id = l.item_id;
+
+  RETURN _id;
+END;
+$$;
+
+-- Quantity still to be received on a PO line in base units, locking the
+-- line so concurrent receipts against it queue up
+CREATE OR REPLACE FUNCTION lock_purchase_order_line_outstanding(
+  _line_id uuid,
+  _exclude_transaction_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _ordered numeric;
+  _received numeric;
+BEGIN
+  SELECT round(qty_ordered * uom_factor, 2) INTO _ordered
+  FROM purchase_order_lines WHERE id = _line_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order line % not found', _line_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(SUM(qty_in), 0) INTO _received
+  FROM inventory_transactions
+  WHERE purchase_order_line_id = _line_id
+    AND status NOT IN ('cancelled', 'deleted')
+    AND (_exclude_transaction_id IS NULL OR id <> _exclude_transaction_id);
+
+  RETURN _ordered - _received;
+END;
+$$;
+
+-- Move an approved PO between approved/partially_received/closed from what
+-- has been received against its lines. Orders closed by hand (closed_by set)
+-- are left alone.
+CREATE OR REPLACE FUNCTION refresh_purchase_order_status(_purchase_order_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _po purchase_orders%ROWTYPE;
+  _status text;
+  _received numeric;
+  _outstanding numeric;
+BEGIN
+  SELECT * INTO _po FROM purchase_orders WHERE id = _purchase_order_id;
+  IF _po.status = 'draft' OR _po.closed_by IS NOT NULL THEN
+    RETURN _po.status;
+  END IF;
+
+  SELECT COALESCE(SUM(qty_received), 0), COALESCE(SUM(qty_outstanding), 0)
+  INTO _received, _outstanding
+  FROM purchase_order_line_balances
+  WHERE purchase_order_id = _purchase_order_id;
+
+  _status := CASE
+    WHEN _outstanding <= 0 THEN 'closed'
+    WHEN _received > 0 THEN 'partially_received'
+    ELSE 'approved'
+  END;
+
+  IF _status IS DISTINCT FROM _po.status THEN
+    UPDATE purchase_orders SET
+      status = _status,
+      closed_at = CASE WHEN _status = 'closed' THEN now() ELSE NULL END,
+      updated_at = now()
+    WHERE id = _purchase_order_id;
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+-- Goods received note: posts one completed purchase transaction per PO line
+-- received, refusing to receive more than is outstanding, and credits the
+-- supplier with the received value of each, as post_purchase does.
+DROP FUNCTION IF EXISTS receive_purchase_order(uuid, jsonb, timestamptz, text, text, uuid);
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  _purchase_order_id uuid,
+  _lines jsonb,
+  _received_date timestamptz DEFAULT NULL,
+  _reference_no text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _po purchase_orders%ROWTYPE;
+  _grn goods_received_notes%ROWTYPE;
+  _line purchase_order_lines%ROWTYPE;
+  _receipt jsonb;
+  _qty numeric;
+  _outstanding numeric;
+  _txn inventory_transactions%ROWTYPE;
+  _txns jsonb := '[]'::jsonb;
+  _entry supplier_transactions%ROWTYPE;
+  _ledger jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO _po FROM purchase_orders WHERE id = _purchase_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', _purchase_order_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _po.status NOT IN ('approved', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order % is %, only approved orders can be received', _po.po_number, _po.status
+      USING ERRCODE = 'PT409';
+  END IF;
+  IF jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line must be received'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO goods_received_notes (
+    purchase_order_id, received_date, reference_no, notes, created_by
+  )
+  VALUES (
+    _po.id, COALESCE(_received_date, now()), _reference_no, _notes, _created_by
+  )
+  RETURNING * INTO _grn;
+
+  FOR _receipt IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    _qty := (_receipt->>'qty_received')::numeric;
+    IF _qty IS NULL OR _qty <= 0 THEN
+      RAISE EXCEPTION 'qty_received must be greater than 0'
+        USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _line FROM purchase_order_lines
+    WHERE id = (_receipt->>'purchase_order_line_id')::uuid
+      AND purchase_order_id = _po.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % does not belong to purchase order %', _receipt->>'purchase_order_line_id', _po.po_number
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Receipts are in the line's unit; stock is posted in base units
+    _outstanding := round(lock_purchase_order_line_outstanding(_line.id) / _line.uom_factor, 2);
+    IF _qty > _outstanding THEN
+      RAISE EXCEPTION 'Over-receipt on line %: % outstanding, % received', _line.id, _outstanding, _qty
+        USING ERRCODE = 'PT409', DETAIL = _outstanding::text;
+    END IF;
+
+    INSERT INTO inventory_transactions (
+      item_id, supplier_id, transaction_type, qty_in, in_cost, status,
+      reference_no, notes, purchase_order_line_id, goods_received_note_id,
+      transaction_date, created_by, location_id, uom_id, uom_qty
+    )
+    VALUES (
+      _line.item_id, _po.supplier_id, 'purchase', _qty * _line.uom_factor,
+      round(_qty * _line.unit_cost, 2), 'completed',
+      COALESCE(_reference_no, _grn.grn_number),
+      'Received on ' || _grn.grn_number || ' against ' || _po.po_number,
+      _line.id, _grn.id, _grn.received_date, _created_by, _location_id,
+      _line.uom_id, _qty
+    )
+    RETURNING * INTO _txn;
+    PERFORM attach_transaction_lot(
+      _txn.id, _receipt->>'lot_number', (_receipt->>'expiry_date')::date
+    );
+    PERFORM register_purchase_serials(
+      _txn.id,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(_receipt->'serial_numbers', '[]'::jsonb)))
+    );
+    _txns := _txns || to_jsonb(_txn);
+
+    IF _po.supplier_id IS NOT NULL AND COALESCE(_txn.in_cost, 0) > 0 THEN
+      INSERT INTO supplier_transactions (
+        supplier_id, transaction_date, credit, debit, reference_no, notes, created_by
+      )
+      VALUES (
+        _po.supplier_id, _txn.transaction_date, _txn.in_cost, 0, _txn.id::text,
+        'Being cost of goods received on ' || _grn.grn_number, _created_by
+      )
+      RETURNING * INTO _entry;
+      _ledger := _ledger || to_jsonb(_entry);
+    END IF;
+  END LOOP;
+
+  PERFORM refresh_purchase_order_status(_po.id);
+
+  RETURN jsonb_build_object(
+    'goods_received_note', to_jsonb(_grn),
+    'transactions', _txns,
+    'supplier_transactions', _ledger
+  );
+END;
+$$;
+
+-- Remove a goods received note with its purchase transactions and their
+-- supplier entries, reopening the PO lines
+CREATE OR REPLACE FUNCTION delete_goods_received_note(_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _purchase_order_id uuid;
+BEGIN
+  SELECT purchase_order_id INTO _purchase_order_id
+  FROM goods_received_notes WHERE id = _id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Goods received note % not found', _id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM remove_purchase_serials(id)
+  FROM inventory_transactions WHERE goods_received_note_id = _id;
+  DELETE FROM supplier_transactions
+  WHERE reference_no IN (
+    SELECT id::text FROM inventory_transactions WHERE goods_received_note_id = _id
+  );
+  DELETE FROM inventory_transactions WHERE goods_received_note_id = _id;
+  DELETE FROM goods_received_notes WHERE id = _id;
+
+  PERFORM refresh_purchase_order_status(_purchase_order_id);
+END;
+$$;
+
+-- Purchase credits of a supplier with what has been paid against each:
+-- explicit payment allocations plus debits carrying the purchase's
+-- reference_no (e.g. amount_paid at purchase time) or credit notes for goods
+-- returned against it. Payments and debits not
+-- linked to a purchase are on account and not counted here.
+CREATE OR REPLACE FUNCTION supplier_open_credits(
+  _supplier_id uuid,
+  _before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  supplier_transaction_id uuid,
+  reference_no text,
+  transaction_date timestamptz,
+  credit numeric,
+  paid numeric,
+  outstanding numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id,
+    c.reference_no,
+    c.transaction_date,
+    c.credit,
+    LEAST(c.credit, COALESCE(a.amount, 0) + COALESCE(d.amount, 0)),
+    GREATEST(c.credit - COALESCE(a.amount, 0) - COALESCE(d.amount, 0), 0)
+  FROM supplier_transactions c
+  LEFT JOIN LATERAL (
+    SELECT SUM(al.amount) AS amount
+    FROM supplier_payment_allocations al
+    JOIN supplier_payments p ON p.id = al.payment_id
+    WHERE al.credit_transaction_id = c.id
+      AND (_before IS NULL OR p.payment_date < _before)
+  ) a ON true
+  LEFT JOIN LATERAL (
+    SELECT SUM(dt.debit) AS amount
+    FROM supplier_transactions dt
+    WHERE dt.supplier_id = c.supplier_id
+      AND dt.debit > 0
+      AND (dt.reference_no = c.reference_no
+        OR dt.reference_no IN (
+          SELECT r.id::text FROM inventory_transactions r
+          WHERE r.original_transaction_id::text = c.reference_no
+        ))
+      AND dt.id <> c.id
+      AND (_before IS NULL OR dt.transaction_date < _before)
+      AND NOT EXISTS (
+        SELECT 1 FROM supplier_payments sp WHERE sp.supplier_transaction_id = dt.id
+      )
+  ) d ON true
+  WHERE c.supplier_id = _supplier_id
+    AND c.credit > 0
+    AND (_before IS NULL OR c.transaction_date < _before)
+  ORDER BY c.transaction_date, c.created_at, c.id;
+$$;
+
+-- Supplier payment: posts the ledger debit and allocates it to open purchase
+-- credits, either as given in _allocations ([{supplier_transaction_id |
+-- reference_no, amount}]) or, when _auto_allocate, oldest first. Whatever is
+-- not allocated stays on account.
+CREATE OR REPLACE FUNCTION post_supplier_payment(
+  _supplier_id uuid,
+  _amount numeric,
+  _method text,
+  _reference text DEFAULT NULL,
+  _payment_date timestamptz DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _allocations jsonb DEFAULT '[]'::jsonb,
+  _auto_allocate boolean DEFAULT false,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _payment supplier_payments%ROWTYPE;
+  _entry supplier_transactions%ROWTYPE;
+  _number text := 'PAY-' || lpad(nextval('supplier_payment_number_seq')::text, 6, '0');
+  _date timestamptz := COALESCE(_payment_date, now());
+  _remaining numeric := _amount;
+  _allocation jsonb;
+  _credit_id uuid;
+  _applied numeric;
+  _outstanding numeric;
+  _open record;
+BEGIN
+  -- One payment at a time per supplier so open amounts cannot be double-allocated
+  PERFORM 1 FROM suppliers WHERE id = _supplier_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier % not found', _supplier_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO supplier_transactions (
+    supplier_id, transaction_date, credit, debit, reference_no, notes, created_by
+  )
+  VALUES (
+    _supplier_id, _date, 0, _amount, _number,
+    'Payment ' || _number || ' by ' || _method || COALESCE(' ref ' || _reference, ''),
+    _created_by
+  )
+  RETURNING * INTO _entry;
+
+  INSERT INTO supplier_payments (
+    payment_number, supplier_id, supplier_transaction_id, payment_date,
+    amount, method, reference, notes, created_by
+  )
+  VALUES (
+    _number, _supplier_id, _entry.id, _date, _amount, _method, _reference,
+    _notes, _created_by
+  )
+  RETURNING * INTO _payment;
+
+  IF jsonb_typeof(_allocations) = 'array' AND jsonb_array_length(_allocations) > 0 THEN
+    FOR _allocation IN SELECT * FROM jsonb_array_elements(_allocations) LOOP
+      _applied := (_allocation->>'amount')::numeric;
+      IF _applied IS NULL OR _applied <= 0 THEN
+        RAISE EXCEPTION 'Allocation amount must be greater than 0'
+          USING ERRCODE = '22023';
+      END IF;
+      IF _applied > _remaining THEN
+        RAISE EXCEPTION 'Allocations exceed the payment amount of %', _amount
+          USING ERRCODE = '22023';
+      END IF;
+
+      SELECT id INTO _credit_id FROM supplier_transactions
+      WHERE supplier_id = _supplier_id AND credit > 0
+        AND (id::text = _allocation->>'supplier_transaction_id'
+          OR reference_no = _allocation->>'reference_no')
+      ORDER BY transaction_date
+      LIMIT 1;
+      IF _credit_id IS NULL THEN
+        RAISE EXCEPTION 'No purchase credit % for this supplier',
+          COALESCE(_allocation->>'supplier_transaction_id', _allocation->>'reference_no')
+          USING ERRCODE = '22023';
+      END IF;
+
+      SELECT o.outstanding INTO _outstanding
+      FROM supplier_open_credits(_supplier_id) o
+      WHERE o.supplier_transaction_id = _credit_id;
+      IF _applied > _outstanding THEN
+        RAISE EXCEPTION 'Allocation of % exceeds the % outstanding on purchase credit %', _applied, _outstanding, _credit_id
+          USING ERRCODE = 'PT409', DETAIL = _outstanding::text;
+      END IF;
+
+      INSERT INTO supplier_payment_allocations (payment_id, credit_transaction_id, amount)
+      VALUES (_payment.id, _credit_id, _applied)
+      ON CONFLICT (payment_id, credit_transaction_id)
+      DO UPDATE SET amount = supplier_payment_allocations.amount + EXCLUDED.amount;
+      _remaining := _remaining - _applied;
+    END LOOP;
+  ELSIF _auto_allocate THEN
+    FOR _open IN
+      SELECT * FROM supplier_open_credits(_supplier_id) o WHERE o.outstanding > 0
+    LOOP
+      EXIT WHEN _remaining <= 0;
+      _applied := LEAST(_remaining, _open.outstanding);
+      INSERT INTO supplier_payment_allocations (payment_id, credit_transaction_id, amount)
+      VALUES (_payment.id, _open.supplier_transaction_id, _applied);
+      _remaining := _remaining - _applied;
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'payment', to_jsonb(_payment),
+    'supplier_transaction', to_jsonb(_entry),
+    'allocations', COALESCE(
+      (SELECT jsonb_agg(to_jsonb(a) ORDER BY a.created_at)
+         FROM supplier_payment_allocations a WHERE a.payment_id = _payment.id),
+      '[]'::jsonb
+    ),
+    'unallocated', _remaining
+  );
+END;
+$$;
+
+-- Quantity of a purchase that can still be sent back: what was bought less
+-- earlier returns against it, and never more than is in stock
+CREATE OR REPLACE FUNCTION returnable_quantity(
+  _purchase_id uuid,
+  _exclude_transaction_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _purchase inventory_transactions%ROWTYPE;
+  _returned numeric;
+BEGIN
+  SELECT * INTO _purchase FROM inventory_transactions WHERE id = _purchase_id;
+
+  SELECT COALESCE(SUM(qty_out), 0) INTO _returned
+  FROM inventory_transactions
+  WHERE original_transaction_id = _purchase_id
+    AND transaction_type = 'return'
+    AND status NOT IN ('cancelled', 'deleted')
+    AND (_exclude_transaction_id IS NULL OR id <> _exclude_transaction_id);
+
+  RETURN GREATEST(LEAST(
+    COALESCE(_purchase.qty_in, 0) - _returned,
+    lock_available_stock(_purchase.item_id, _exclude_transaction_id, _purchase.location_id)
+  ), 0);
+END;
+$$;
+
+-- Supplier return: sends goods bought on a purchase back to its supplier and
+-- posts a credit note (debit) for their original cost to the supplier ledger
+CREATE OR REPLACE FUNCTION post_supplier_return(
+  _original_transaction_id uuid,
+  _qty_out numeric,
+  _status text DEFAULT NULL,
+  _reference_no text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _transaction_date timestamptz DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _purchase inventory_transactions%ROWTYPE;
+  _returnable numeric;
+  _value numeric;
+  _txn inventory_transactions%ROWTYPE;
+  _entry supplier_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _purchase FROM inventory_transactions
+  WHERE id = _original_transaction_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase transaction % not found', _original_transaction_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _purchase.transaction_type <> 'purchase' OR _purchase.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed purchases can be returned'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _returnable := returnable_quantity(_purchase.id);
+  IF _returnable < _qty_out THEN
+    RAISE EXCEPTION 'Cannot return %: only % of the purchase is left to return', _qty_out, _returnable
+      USING ERRCODE = 'PT409', DETAIL = _returnable::text;
+  END IF;
+
+  _value := round(_qty_out * COALESCE(_purchase.in_cost, 0) / NULLIF(_purchase.qty_in, 0), 2);
+
+  INSERT INTO inventory_transactions (
+    item_id, supplier_id, transaction_type, qty_out, out_cost, status,
+    reference_no, notes, original_transaction_id, transaction_date, created_by,
+    location_id
+  )
+  VALUES (
+    _purchase.item_id, _purchase.supplier_id, 'return', _qty_out,
+    COALESCE(_value, 0), COALESCE(_status, 'completed'), _reference_no, _notes,
+    _purchase.id, COALESCE(_transaction_date, now()), _created_by,
+    _purchase.location_id
+  )
+  RETURNING * INTO _txn;
+
+  IF _purchase.supplier_id IS NOT NULL AND COALESCE(_value, 0) > 0
+    AND _txn.status NOT IN ('cancelled', 'deleted') THEN
+    INSERT INTO supplier_transactions (
+      supplier_id, transaction_date, credit, debit, reference_no, notes, created_by
+    )
+    VALUES (
+      _purchase.supplier_id, _txn.transaction_date, 0, _value, _txn.id::text,
+      'Credit note for return ' || _txn.id || ' against purchase ' || _purchase.id,
+      _created_by
+    )
+    RETURNING * INTO _entry;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'transaction', to_jsonb(_txn),
+    'supplier_transaction', CASE WHEN _entry.id IS NULL THEN NULL ELSE to_jsonb(_entry) END
+  );
+END;
+$$;
+
+-- Student return: a student hands back items issued to them on a log row.
+-- Reusable items go back into class stock; damaged items are written off.
+CREATE OR REPLACE FUNCTION post_student_return(
+  _student_inventory_log_id uuid,
+  _qty int,
+  _condition text,
+  _returned_date timestamptz DEFAULT NULL,
+  _received_by uuid DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _write_off_value numeric DEFAULT 0,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _log student_inventory_log%ROWTYPE;
+  _returned int;
+  _return student_inventory_returns%ROWTYPE;
+  _write_off inventory_write_offs%ROWTYPE;
+BEGIN
+  SELECT * INTO _log FROM student_inventory_log
+  WHERE id = _student_inventory_log_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student inventory collection % not found', _student_inventory_log_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT _log.received THEN
+    RAISE EXCEPTION 'Items on this collection were never received by the student'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(SUM(qty), 0) INTO _returned
+  FROM student_inventory_returns
+  WHERE student_inventory_log_id = _log.id;
+  IF _returned + _qty > _log.qty THEN
+    RAISE EXCEPTION 'Cannot return %: only % of % issued are still with the student', _qty, _log.qty - _returned, _log.qty
+      USING ERRCODE = 'PT409', DETAIL = (_log.qty - _returned)::text;
+  END IF;
+
+  INSERT INTO student_inventory_returns (
+    student_inventory_log_id, student_id, class_id, session_term_id,
+    inventory_item_id, qty, condition, returned_date, received_by, notes,
+    created_by
+  )
+  VALUES (
+    _log.id, _log.student_id, _log.class_id, _log.session_term_id,
+    _log.inventory_item_id, _qty, _condition, COALESCE(_returned_date, now()),
+    _received_by, _notes, _created_by
+  )
+  RETURNING * INTO _return;
+
+  IF _condition = 'damaged' THEN
+    INSERT INTO inventory_write_offs (
+      inventory_item_id, qty, value, reason, class_id, session_term_id,
+      student_inventory_return_id, written_off_date, notes, created_by
+    )
+    VALUES (
+      _log.inventory_item_id, _qty, COALESCE(_write_off_value, 0),
+      'damaged_student_return', _log.class_id, _log.session_term_id,
+      _return.id, _return.returned_date, _notes, _created_by
+    )
+    RETURNING * INTO _write_off;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'return', to_jsonb(_return),
+    'write_off', CASE WHEN _write_off.id IS NULL THEN NULL ELSE to_jsonb(_write_off) END
+  );
+END;
+$$;
+
+-- Post a stock adjustment to inventory_transactions as an 'adjustment'.
+-- Negative adjustments cannot take stock below zero, and are costed with
+-- item_out_cost as they post, since approval can come long after the request.
+DROP FUNCTION IF EXISTS post_stock_adjustment(uuid, uuid);
+CREATE OR REPLACE FUNCTION post_stock_adjustment(
+  _id uuid,
+  _approved_by uuid DEFAULT NULL,
+  _costing_method text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _adjustment stock_adjustments%ROWTYPE;
+  _available numeric;
+  _txn inventory_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _adjustment FROM stock_adjustments WHERE id = _id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock adjustment % not found', _id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _adjustment.status <> 'pending_approval' THEN
+    RAISE EXCEPTION 'Stock adjustment % is already %', _adjustment.adjustment_number, _adjustment.status
+      USING ERRCODE = 'PT409';
+  END IF;
+  IF _approved_by IS NOT NULL AND _approved_by = _adjustment.created_by THEN
+    RAISE EXCEPTION 'An adjustment cannot be approved by the person who requested it'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF _adjustment.qty < 0 THEN
+    _available := lock_available_stock(_adjustment.item_id, NULL, _adjustment.location_id);
+    IF _available < -_adjustment.qty THEN
+      RAISE EXCEPTION 'Insufficient stock: % available, % to write off', _available, -_adjustment.qty
+        USING ERRCODE = 'PT409', DETAIL = _available::text;
+    END IF;
+    _adjustment.value := item_out_cost(_adjustment.item_id, -_adjustment.qty,
+      _adjustment.adjustment_date, _costing_method);
+  END IF;
+
+  INSERT INTO inventory_transactions (
+    item_id, transaction_type, qty_in, in_cost, qty_out, out_cost, status,
+    reference_no, notes, transaction_date, created_by, location_id
+  )
+  VALUES (
+    _adjustment.item_id, 'adjustment',
+    GREATEST(_adjustment.qty, 0),
+    CASE WHEN _adjustment.qty > 0 THEN _adjustment.value ELSE 0 END,
+    GREATEST(-_adjustment.qty, 0),
+    CASE WHEN _adjustment.qty < 0 THEN _adjustment.value ELSE 0 END,
+    'completed', _adjustment.adjustment_number,
+    'Stock adjustment (' || _adjustment.reason || ')' || COALESCE(': ' || _adjustment.notes, ''),
+    _adjustment.adjustment_date, _adjustment.created_by, _adjustment.location_id
+  )
+  RETURNING * INTO _txn;
+
+  UPDATE stock_adjustments SET
+    status = 'posted',
+    value = _adjustment.value,
+    inventory_transaction_id = _txn.id,
+    approved_by = _approved_by,
+    approved_at = CASE WHEN _approved_by IS NULL THEN NULL ELSE now() END,
+    updated_at = now()
+  WHERE id = _id
+  RETURNING * INTO _adjustment;
+
+  RETURN jsonb_build_object(
+    'adjustment', to_jsonb(_adjustment),
+    'transaction', to_jsonb(_txn)
+  );
+END;
+$$;
+
+-- Record a stock adjustment; ones valued above _approval_threshold wait for
+-- approval, the rest post at once. The quantity is valued at the item's
+-- costing method, else its cost price. Stock added may carry the _unit_cost
+-- it came in at, but approval is decided on the greater of the two values.
+DROP FUNCTION IF EXISTS create_stock_adjustment(uuid, numeric, text, numeric, boolean, timestamptz, text, text, uuid);
+DROP FUNCTION IF EXISTS create_stock_adjustment(uuid, numeric, text, numeric, boolean, timestamptz, text, text, uuid, uuid);
+CREATE OR REPLACE FUNCTION create_stock_adjustment(
+  _item_id uuid,
+  _qty numeric,
+  _reason text,
+  _unit_cost numeric DEFAULT NULL,
+  _approval_threshold numeric DEFAULT 0,
+  _adjustment_date timestamptz DEFAULT NULL,
+  _reference_no text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL,
+  _location_id uuid DEFAULT NULL,
+  _costing_method text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _adjustment stock_adjustments%ROWTYPE;
+  _date timestamptz := COALESCE(_adjustment_date, now());
+  _value numeric;
+  _in_value numeric;
+BEGIN
+  _value := item_out_cost(_item_id, abs(_qty), _date, _costing_method);
+  IF _value = 0 THEN
+    SELECT round(abs(_qty) * COALESCE(cost_price, 0), 2) INTO _value
+    FROM inventory_items WHERE id = _item_id;
+  END IF;
+  IF _qty > 0 AND _unit_cost IS NOT NULL THEN
+    _in_value := round(_qty * _unit_cost, 2);
+  END IF;
+
+  INSERT INTO stock_adjustments (
+    item_id, qty, reason, value, adjustment_date, reference_no, notes, created_by,
+    location_id
+  )
+  VALUES (
+    _item_id, _qty, _reason, COALESCE(_in_value, _value),
+    _date, _reference_no, _notes, _created_by,
+    COALESCE(_location_id, default_location_id())
+  )
+  RETURNING * INTO _adjustment;
+
+  IF GREATEST(_value, COALESCE(_in_value, 0)) > COALESCE(_approval_threshold, 0) THEN
+    RETURN jsonb_build_object('adjustment', to_jsonb(_adjustment), 'transaction', NULL);
+  END IF;
+
+  RETURN post_stock_adjustment(_adjustment.id, NULL, _costing_method);
+END;
+$$;
+
+-- Flag movements posted against an item while it is on an open count
+CREATE OR REPLACE FUNCTION flag_stock_take_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.stock_take_session_id IS NULL THEN
+    SELECT l.session_id INTO NEW.stock_take_session_id
+    FROM stock_take_lines l
+    JOIN stock_take_sessions s ON s.id = l.session_id
+    WHERE l.item_id = NEW.item_id AND s.status = 'open'
+      AND (s.location_id IS NULL OR s.location_id = NEW.location_id)
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_transactions_flag_stock_take ON inventory_transactions;
+CREATE TRIGGER inventory_transactions_flag_stock_take
+  BEFORE INSERT ON inventory_transactions
+  FOR EACH ROW EXECUTE FUNCTION flag_stock_take_movement();
+
+-- Count sheet lines with their variance. Movements flagged against the count
+-- before an item was counted are already reflected on the shelf, so they
+-- move the expected quantity rather than showing up as a variance.
+DROP VIEW IF EXISTS stock_take_line_variances;
+CREATE OR REPLACE VIEW stock_take_line_variances AS
+SELECT
+  l.*,
+  COALESCE(m.movement_count, 0) AS movement_count,
+  COALESCE(m.qty_before_count, 0) AS qty_moved_before_count,
+  l.system_qty + COALESCE(m.qty_before_count, 0) AS expected_qty,
+  l.counted_qty - (l.system_qty + COALESCE(m.qty_before_count, 0)) AS variance_qty,
+  round((l.counted_qty - (l.system_qty + COALESCE(m.qty_before_count, 0))) * l.unit_cost, 2) AS variance_value
+FROM stock_take_lines l
+LEFT JOIN LATERAL (
+  SELECT
+    count(*) AS movement_count,
+    COALESCE(SUM(COALESCE(t.qty_in, 0) - COALESCE(t.qty_out, 0))
+      FILTER (WHERE t.status = 'completed' AND t.created_at <= COALESCE(l.counted_at, now())), 0) AS qty_before_count
+  FROM inventory_transactions t
+  WHERE t.stock_take_session_id = l.session_id AND t.item_id = l.item_id
+) m ON true;
+
+-- Open a count session, freezing system quantity and cost per item. With a
+-- location only the stock held there is counted; without one the whole pool
+-- is counted and variances post to the default location, so that is only
+-- allowed while none of the items has moved through another location.
+DROP FUNCTION IF EXISTS open_stock_take(uuid, uuid, uuid, text);
+CREATE OR REPLACE FUNCTION open_stock_take(
+  _opened_by uuid,
+  _category_id uuid DEFAULT NULL,
+  _sub_category_id uuid DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _session_id uuid;
+  _busy text;
+BEGIN
+  SELECT s.session_number INTO _busy
+  FROM stock_take_lines l
+  JOIN stock_take_sessions s ON s.id = l.session_id
+  JOIN inventory_items i ON i.id = l.item_id
+  WHERE s.status = 'open'
+    AND (_location_id IS NULL OR s.location_id IS NULL OR s.location_id = _location_id)
+    AND (_category_id IS NULL OR i.category_id = _category_id)
+    AND (_sub_category_id IS NULL OR i.sub_category_id = _sub_category_id)
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Some of these items are already being counted on %', _busy
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  IF _location_id IS NULL AND EXISTS (
+    SELECT 1
+    FROM inventory_transactions t
+    JOIN inventory_items i ON i.id = t.item_id
+    WHERE t.location_id IS DISTINCT FROM default_location_id()
+      AND (_category_id IS NULL OR i.category_id = _category_id)
+      AND (_sub_category_id IS NULL OR i.sub_category_id = _sub_category_id)
+  ) THEN
+    RAISE EXCEPTION 'Some of these items are held at more than one location; count each location on its own sheet'
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO stock_take_sessions (category_id, sub_category_id, notes, opened_by, location_id)
+  VALUES (_category_id, _sub_category_id, _notes, _opened_by, _location_id)
+  RETURNING id INTO _session_id;
+
+  IF _location_id IS NULL THEN
+    INSERT INTO stock_take_lines (session_id, item_id, system_qty, unit_cost)
+    SELECT _session_id, v.id, v.current_stock, v.cost_price
+    FROM inventory_item_summary v
+    WHERE (_category_id IS NULL OR v.category_id = _category_id)
+      AND (_sub_category_id IS NULL OR v.sub_category_id = _sub_category_id)
+      AND NOT v.has_variants
+      AND NOT v.is_kit;
+  ELSE
+    -- Items never held at the location are counted from zero
+    INSERT INTO stock_take_lines (session_id, item_id, system_qty, unit_cost)
+    SELECT _session_id, i.id, COALESCE(v.current_stock, 0), i.cost_price
+    FROM inventory_items i
+    LEFT JOIN inventory_location_summary v ON v.id = i.id AND v.location_id = _location_id
+    WHERE (_category_id IS NULL OR i.category_id = _category_id)
+      AND (_sub_category_id IS NULL OR i.sub_category_id = _sub_category_id)
+      AND NOT EXISTS (SELECT 1 FROM inventory_items c WHERE c.parent_item_id = i.id)
+      AND NOT EXISTS (SELECT 1 FROM kit_components k WHERE k.kit_item_id = i.id);
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No inventory items match this stock-take'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN _session_id;
+END;
+$$;
+
+-- Record counted quantities on an open count sheet. Each count names the
+-- item by item_id or barcode; _add sums repeated scans instead of replacing.
+CREATE OR REPLACE FUNCTION record_stock_take_counts(
+  _session_id uuid,
+  _counts jsonb,
+  _counted_by uuid DEFAULT NULL,
+  _add boolean DEFAULT false
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _session stock_take_sessions%ROWTYPE;
+  _count jsonb;
+  _item_id uuid;
+  _updated integer := 0;
+BEGIN
+  SELECT * INTO _session FROM stock_take_sessions WHERE id = _session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock-take % not found', _session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'Stock-take % is %', _session.session_number, _session.status
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  FOR _count IN SELECT * FROM jsonb_array_elements(_counts) LOOP
+    IF _count ? 'item_id' THEN
+      _item_id := (_count->>'item_id')::uuid;
+    ELSE
+      SELECT l.item_id INTO _item_id
+      FROM stock_take_lines l
+      JOIN inventory_items i ON i.id = l.item_id
+      WHERE l.session_id = _session_id AND i.barcode = _count->>'barcode'
+      LIMIT 1;
+    END IF;
+
+    UPDATE stock_take_lines SET
+      counted_qty = CASE WHEN _add THEN COALESCE(counted_qty, 0) ELSE 0 END
+        + (_count->>'counted_qty')::numeric,
+      counted_by = _counted_by,
+      counted_at = now(),
+      notes = COALESCE(_count->>'notes', notes)
+    WHERE session_id = _session_id AND item_id = _item_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not on count sheet %',
+        COALESCE(_count->>'item_id', 'with barcode ' || (_count->>'barcode')), _session.session_number
+        USING ERRCODE = 'P0002';
+    END IF;
+    _updated := _updated + 1;
+  END LOOP;
+
+  UPDATE stock_take_sessions SET updated_at = now() WHERE id = _session_id;
+  RETURN _updated;
+END;
+$$;
+
+-- Approve a count and post every counted variance as a count_variance
+-- stock adjustment, shortfalls costed with _costing_method as they post. The
+-- approver must not be the person who opened it.
+DROP FUNCTION IF EXISTS approve_stock_take(uuid, uuid);
+CREATE OR REPLACE FUNCTION approve_stock_take(
+  _session_id uuid,
+  _approved_by uuid,
+  _costing_method text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _session stock_take_sessions%ROWTYPE;
+  _line stock_take_line_variances%ROWTYPE;
+  _adjustment_id uuid;
+  _posted jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO _session FROM stock_take_sessions WHERE id = _session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock-take % not found', _session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'Stock-take % is already %', _session.session_number, _session.status
+      USING ERRCODE = 'PT409';
+  END IF;
+  IF _approved_by = _session.opened_by THEN
+    RAISE EXCEPTION 'A stock-take cannot be approved by the person who opened it'
+      USING ERRCODE = '42501';
+  END IF;
+  -- An all-location count posts to the default location, which is only right
+  -- while the items with a variance are held nowhere else
+  IF _session.location_id IS NULL AND EXISTS (
+    SELECT 1
+    FROM stock_take_line_variances v
+    JOIN inventory_transactions t ON t.item_id = v.item_id
+    WHERE v.session_id = _session_id
+      AND v.variance_qty <> 0
+      AND t.location_id IS DISTINCT FROM default_location_id()
+  ) THEN
+    RAISE EXCEPTION 'Stock-take % counted every location but some of its items are now held at more than one; cancel it and count each location', _session.session_number
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  -- Close the session first so the adjustments are not flagged against it
+  UPDATE stock_take_sessions SET
+    status = 'approved',
+    approved_by = _approved_by,
+    approved_at = now(),
+    updated_at = now()
+  WHERE id = _session_id
+  RETURNING * INTO _session;
+
+  FOR _line IN
+    SELECT * FROM stock_take_line_variances
+    WHERE session_id = _session_id AND variance_qty <> 0
+    ORDER BY item_id
+  LOOP
+    INSERT INTO stock_adjustments (
+      item_id, qty, reason, value, reference_no, notes, created_by, location_id
+    )
+    VALUES (
+      _line.item_id, _line.variance_qty, 'count_variance', abs(_line.variance_value),
+      _session.session_number, _line.notes, _session.opened_by,
+      COALESCE(_session.location_id, default_location_id())
+    )
+    RETURNING id INTO _adjustment_id;
+
+    _posted := _posted || jsonb_build_array(post_stock_adjustment(_adjustment_id, _approved_by, _costing_method));
+    UPDATE stock_take_lines SET stock_adjustment_id = _adjustment_id WHERE id = _line.id;
+  END LOOP;
+
+  RETURN jsonb_build_object('session', to_jsonb(_session), 'adjustments', _posted);
+END;
+$$;
+
+-- Move stock between locations as a paired out/in movement sharing a
+-- transfer_id. Each line carries the cost it leaves the source at.
+CREATE OR REPLACE FUNCTION post_stock_transfer(
+  _from_location_id uuid,
+  _to_location_id uuid,
+  _lines jsonb,
+  _transaction_date timestamptz DEFAULT NULL,
+  _reference_no text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _transfer_id uuid := gen_random_uuid();
+  _line jsonb;
+  _item_id uuid;
+  _qty numeric;
+  _cost numeric;
+  _available numeric;
+  _out inventory_transactions%ROWTYPE;
+  _in inventory_transactions%ROWTYPE;
+  _txns jsonb := '[]'::jsonb;
+BEGIN
+  IF _from_location_id = _to_location_id THEN
+    RAISE EXCEPTION 'Source and destination locations must differ'
+      USING ERRCODE = '22023';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM locations WHERE id = _to_location_id AND is_active) THEN
+    RAISE EXCEPTION 'Destination location % not found or inactive', _to_location_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF jsonb_typeof(_lines) <> 'array' OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'At least one line must be transferred'
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    _item_id := (_line->>'item_id')::uuid;
+    _qty := (_line->>'qty')::numeric;
+    _cost := COALESCE((_line->>'cost')::numeric, 0);
+    IF _qty IS NULL OR _qty <= 0 THEN
+      RAISE EXCEPTION 'qty must be greater than 0' USING ERRCODE = '22023';
+    END IF;
+
+    _available := lock_available_stock(_item_id, NULL, _from_location_id);
+    IF _available < _qty THEN
+      RAISE EXCEPTION 'Insufficient stock at source: % available, % requested', _available, _qty
+        USING ERRCODE = 'PT409', DETAIL = _available::text;
+    END IF;
+
+    INSERT INTO inventory_transactions (
+      item_id, transaction_type, qty_out, out_cost, status, reference_no, notes,
+      transaction_date, created_by, location_id, transfer_id
+    )
+    VALUES (
+      _item_id, 'transfer', _qty, _cost, 'completed', _reference_no, _notes,
+      COALESCE(_transaction_date, now()), _created_by, _from_location_id, _transfer_id
+    )
+    RETURNING * INTO _out;
+
+    INSERT INTO inventory_transactions (
+      item_id, transaction_type, qty_in, in_cost, status, reference_no, notes,
+      transaction_date, created_by, location_id, transfer_id
+    )
+    VALUES (
+      _item_id, 'transfer', _qty, _cost, 'completed', _reference_no, _notes,
+      _out.transaction_date, _created_by, _to_location_id, _transfer_id
+    )
+    RETURNING * INTO _in;
+
+    -- The lots drawn at the source arrive at the destination
+    INSERT INTO inventory_transaction_lots (transaction_id, lot_id, qty_in)
+    SELECT _in.id, lot_id, qty_out
+    FROM inventory_transaction_lots
+    WHERE transaction_id = _out.id;
+
+    _txns := _txns || jsonb_build_array(to_jsonb(_out), to_jsonb(_in));
+  END LOOP;
+
+  RETURN jsonb_build_object('transfer_id', _transfer_id, 'transactions', _txns);
+END;
+$$;
+
+-- Per-item demand inputs for replenishment: stock used since _since (at one
+-- location when given; transfers count as use only then), per-student
+-- entitlements for a term still to be handed to classes, and quantity
+-- outstanding on open purchase orders
+CREATE OR REPLACE FUNCTION replenishment_demand(
+  _since timestamptz,
+  _location_id uuid DEFAULT NULL,
+  _session_term_id uuid DEFAULT NULL,
+  _class_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  item_id uuid,
+  consumed_qty numeric,
+  entitled_qty numeric,
+  distributed_qty numeric,
+  on_order_qty numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH consumed AS (
+    SELECT t.item_id, SUM(t.qty_out) AS qty
+    FROM inventory_transactions t
+    WHERE t.qty_out > 0
+      AND t.status IN ('completed', 'pending')
+      AND t.transaction_date >= _since
+      AND t.transaction_type <> 'return'
+      AND (
+        (_location_id IS NULL AND t.transaction_type <> 'transfer')
+        OR t.location_id = _location_id
+      )
+    GROUP BY t.item_id
+  ),
+  entitled AS (
+    SELECT e.inventory_item_id AS item_id, SUM(e.quantity * s.students) AS qty
+    FROM class_inventory_entitlement_items e
+    JOIN (
+      SELECT class_id, COUNT(*) AS students
+      FROM students
+      WHERE status = 'active'
+      GROUP BY class_id
+    ) s ON s.class_id = e.class_id
+    WHERE e.session_term_id = _session_term_id
+      AND (_class_id IS NULL OR e.class_id = _class_id)
+    GROUP BY e.inventory_item_id
+  ),
+  distributed AS (
+    SELECT d.inventory_item_id AS item_id, SUM(d.distributed_quantity) AS qty
+    FROM class_inventory_distributions d
+    WHERE d.session_term_id = _session_term_id
+      AND (_class_id IS NULL OR d.class_id = _class_id)
+    GROUP BY d.inventory_item_id
+  ),
+  on_order AS (
+    SELECT b.item_id, SUM(b.qty_outstanding * b.uom_factor) AS qty
+    FROM purchase_order_line_balances b
+    JOIN purchase_orders po ON po.id = b.purchase_order_id
+    WHERE po.status IN ('draft', 'approved', 'partially_received')
+    GROUP BY b.item_id
+  )
+  SELECT
+    i.id,
+    COALESCE(c.qty, 0),
+    COALESCE(e.qty, 0),
+    COALESCE(d.qty, 0),
+    COALESCE(o.qty, 0)
+  FROM inventory_items i
+  LEFT JOIN consumed c ON c.item_id = i.id
+  LEFT JOIN entitled e ON e.item_id = i.id
+  LEFT JOIN distributed d ON d.item_id = i.id
+  LEFT JOIN on_order o ON o.item_id = i.id;
+$$;
+
+-- Stock held per lot and location
+DROP VIEW IF EXISTS inventory_lot_balances;
+CREATE OR REPLACE VIEW inventory_lot_balances AS
+SELECT
+  l.id AS lot_id,
+  l.item_id,
+  l.lot_number,
+  l.expiry_date,
+  l.expiry_alert_sent_at,
+  l.created_at,
+  t.location_id,
+  COALESCE(SUM(a.qty_in) FILTER (WHERE t.status = 'completed'), 0)
+    - COALESCE(SUM(a.qty_out) FILTER (WHERE t.status IN ('completed', 'pending')), 0) AS qty_on_hand
+FROM inventory_lots l
+JOIN inventory_transaction_lots a ON a.lot_id = l.id
+JOIN inventory_transactions t ON t.id = a.transaction_id
+GROUP BY l.id, t.location_id;
+
+-- Record the lot a stock-in brings in, creating the lot the first time it
+-- is seen for the item
+CREATE OR REPLACE FUNCTION attach_transaction_lot(
+  _transaction_id uuid,
+  _lot_number text,
+  _expiry_date date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _txn inventory_transactions%ROWTYPE;
+  _lot_id uuid;
+BEGIN
+  _lot_number := NULLIF(btrim(_lot_number), '');
+  IF _lot_number IS NULL AND _expiry_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _txn FROM inventory_transactions WHERE id = _transaction_id;
+  IF COALESCE(_txn.qty_in, 0) <= 0 THEN
+    RAISE EXCEPTION 'Lots can only be recorded on stock received'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO _lot_id
+  FROM inventory_lots
+  WHERE item_id = _txn.item_id
+    AND COALESCE(lot_number, '') = COALESCE(_lot_number, '')
+    AND COALESCE(expiry_date, 'infinity'::date) = COALESCE(_expiry_date, 'infinity'::date);
+  IF NOT FOUND THEN
+    INSERT INTO inventory_lots (item_id, lot_number, expiry_date)
+    VALUES (_txn.item_id, _lot_number, _expiry_date)
+    RETURNING id INTO _lot_id;
+  END IF;
+
+  DELETE FROM inventory_transaction_lots WHERE transaction_id = _txn.id;
+  INSERT INTO inventory_transaction_lots (transaction_id, lot_id, qty_in)
+  VALUES (_txn.id, _lot_id, _txn.qty_in);
+  RETURN _lot_id;
+END;
+$$;
+
+-- Draw a stock-out from the lots held at its location, earliest expiry
+-- first. Sales and distributions skip lots already expired, and are refused
+-- when the stock outside them is short; supplier returns draw from the
+-- returned purchase's lot first. Quantity beyond the tracked lots comes from
+-- stock recorded without a lot.
+CREATE OR REPLACE FUNCTION allocate_transaction_lots(_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _txn inventory_transactions%ROWTYPE;
+  _remaining numeric;
+  _lot record;
+  _take numeric;
+  _expired numeric;
+  _usable numeric;
+BEGIN
+  SELECT * INTO _txn FROM inventory_transactions WHERE id = _transaction_id;
+  DELETE FROM inventory_transaction_lots
+  WHERE transaction_id = _transaction_id AND qty_out > 0;
+
+  _remaining := COALESCE(_txn.qty_out, 0);
+  IF _remaining <= 0 OR _txn.status IN ('cancelled', 'deleted') THEN
+    RETURN;
+  END IF;
+
+  -- Expired lots cannot be sold or distributed, so they do not count as stock
+  -- for either
+  IF _txn.transaction_type IN ('sale', 'distribution') THEN
+    SELECT COALESCE(SUM(b.qty_on_hand), 0) INTO _expired
+    FROM inventory_lot_balances b
+    WHERE b.item_id = _txn.item_id
+      AND b.location_id = _txn.location_id
+      AND b.qty_on_hand > 0
+      AND b.expiry_date < _txn.transaction_date::date;
+    IF _expired > 0 THEN
+      _usable := lock_available_stock(_txn.item_id, _txn.id, _txn.location_id) - _expired;
+      IF _usable < _remaining THEN
+        RAISE EXCEPTION 'Insufficient unexpired stock: % available, % requested', GREATEST(_usable, 0), _remaining
+          USING ERRCODE = 'PT409', DETAIL = GREATEST(_usable, 0)::text;
+      END IF;
+    END IF;
+  END IF;
+
+  FOR _lot IN
+    SELECT b.lot_id, b.qty_on_hand
+    FROM inventory_lot_balances b
+    WHERE b.item_id = _txn.item_id
+      AND b.location_id = _txn.location_id
+      AND b.qty_on_hand > 0
+      AND (
+        _txn.transaction_type NOT IN ('sale', 'distribution')
+        OR b.expiry_date IS NULL
+        OR b.expiry_date >= _txn.transaction_date::date
+      )
+    ORDER BY
+      b.lot_id IN (
+        SELECT lot_id FROM inventory_transaction_lots
+        WHERE transaction_id = _txn.original_transaction_id
+      ) DESC,
+      b.expiry_date NULLS LAST,
+      b.created_at,
+      b.lot_id
+  LOOP
+    EXIT WHEN _remaining <= 0;
+    _take := LEAST(_remaining, _lot.qty_on_hand);
+    INSERT INTO inventory_transaction_lots (transaction_id, lot_id, qty_out)
+    VALUES (_txn.id, _lot.lot_id, _take);
+    _remaining := _remaining - _take;
+  END LOOP;
+END;
+$$;
+
+-- Keep lot records in step with the movement: stock-outs are (re)drawn
+-- when posted or edited, a stock-in's single lot follows its quantity
+CREATE OR REPLACE FUNCTION sync_transaction_lots()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF COALESCE(NEW.qty_out, 0) > 0 THEN
+    PERFORM allocate_transaction_lots(NEW.id);
+  ELSIF TG_OP = 'UPDATE' AND NEW.transfer_id IS NULL THEN
+    UPDATE inventory_transaction_lots
+    SET qty_in = COALESCE(NEW.qty_in, 0)
+    WHERE transaction_id = NEW.id AND qty_in > 0;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_transactions_sync_lots ON inventory_transactions;
+CREATE TRIGGER inventory_transactions_sync_lots
+  AFTER INSERT OR UPDATE OF item_id, qty_in, qty_out, location_id, status ON inventory_transactions
+  FOR EACH ROW EXECUTE FUNCTION sync_transaction_lots();
+
+-- Whether an item is serialized, checking the serial numbers given for a
+-- movement of _qty units: one distinct serial per unit, none for other items
+CREATE OR REPLACE FUNCTION check_serial_numbers(
+  _item_id uuid,
+  _qty numeric,
+  _serial_numbers text[]
+)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _serialized boolean;
+  _count int := COALESCE(cardinality(_serial_numbers), 0);
+BEGIN
+  SELECT is_serialized INTO _serialized FROM inventory_items WHERE id = _item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', _item_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT _serialized THEN
+    IF _count > 0 THEN
+      RAISE EXCEPTION 'Item % is not serialized; serial numbers are not accepted', _item_id
+        USING ERRCODE = '22023';
+    END IF;
+    RETURN false;
+  END IF;
+
+  IF _count <> COALESCE(_qty, 0) THEN
+    RAISE EXCEPTION 'Serialized items need one serial number per unit: % given for a quantity of %', _count, _qty
+      USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM unnest(_serial_numbers) n WHERE COALESCE(btrim(n), '') = '') THEN
+    RAISE EXCEPTION 'Serial numbers cannot be blank'
+      USING ERRCODE = '22023';
+  END IF;
+  IF (SELECT count(DISTINCT btrim(n)) FROM unnest(_serial_numbers) n) <> _count THEN
+    RAISE EXCEPTION 'Serial numbers must not repeat'
+      USING ERRCODE = '22023';
+  END IF;
+  RETURN true;
+END;
+$$;
+
+-- Add serials to the store with a 'received' custody entry each
+CREATE OR REPLACE FUNCTION register_serials(
+  _item_id uuid,
+  _serial_numbers text[],
+  _purchase_transaction_id uuid DEFAULT NULL,
+  _event_date timestamptz DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS SETOF inventory_serials
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _serial inventory_serials%ROWTYPE;
+  _number text;
+BEGIN
+  FOREACH _number IN ARRAY _serial_numbers LOOP
+    INSERT INTO inventory_serials (item_id, serial_number, purchase_transaction_id, notes)
+    VALUES (_item_id, btrim(_number), _purchase_transaction_id, _notes)
+    RETURNING * INTO _serial;
+
+    INSERT INTO inventory_serial_custody (
+      serial_id, event, status, event_date, notes, created_by
+    )
+    VALUES (
+      _serial.id, 'received', 'in_store', COALESCE(_event_date, now()), _notes,
+      _created_by
+    );
+
+    RETURN NEXT _serial;
+  END LOOP;
+END;
+$$;
+
+-- Serial numbers received on a purchase; serialized items need one per unit
+CREATE OR REPLACE FUNCTION register_purchase_serials(
+  _transaction_id uuid,
+  _serial_numbers text[]
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _txn inventory_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _txn FROM inventory_transactions WHERE id = _transaction_id;
+  IF check_serial_numbers(_txn.item_id, _txn.qty_in, _serial_numbers) THEN
+    PERFORM register_serials(
+      _txn.item_id, _serial_numbers, _txn.id, _txn.transaction_date, NULL,
+      _txn.created_by
+    );
+  END IF;
+END;
+$$;
+
+-- Serials received on a purchase go with it when it is deleted, unless some
+-- have already been handed out
+CREATE OR REPLACE FUNCTION remove_purchase_serials(_transaction_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM inventory_serials
+    WHERE purchase_transaction_id = _transaction_id AND status <> 'in_store'
+  ) THEN
+    RAISE EXCEPTION 'Cannot delete transaction %: some of its serial numbers have been handed out', _transaction_id
+      USING ERRCODE = 'PT409';
+  END IF;
+  DELETE FROM inventory_serials WHERE purchase_transaction_id = _transaction_id;
+END;
+$$;
+
+-- Serial numbers for units already in stock, e.g. when an item is first
+-- marked serialized. Serials in store cannot outnumber the stock on hand.
+CREATE OR REPLACE FUNCTION register_stock_serials(
+  _item_id uuid,
+  _serial_numbers text[],
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS SETOF inventory_serials
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _available numeric;
+  _unserialized numeric;
+BEGIN
+  IF COALESCE(cardinality(_serial_numbers), 0) = 0 THEN
+    RAISE EXCEPTION 'serial_numbers is required'
+      USING ERRCODE = '22023';
+  END IF;
+  _available := lock_available_stock(_item_id);
+  IF NOT check_serial_numbers(_item_id, cardinality(_serial_numbers), _serial_numbers) THEN
+    RAISE EXCEPTION 'Item % is not serialized', _item_id
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT _available - count(*) INTO _unserialized
+  FROM inventory_serials WHERE item_id = _item_id AND status = 'in_store';
+  IF cardinality(_serial_numbers) > _unserialized THEN
+    RAISE EXCEPTION 'Only % unit(s) in stock are without a serial number', GREATEST(_unserialized, 0)::int
+      USING ERRCODE = 'PT409', DETAIL = GREATEST(_unserialized, 0)::int::text;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM register_serials(_item_id, _serial_numbers, NULL, now(), _notes, _created_by);
+END;
+$$;
+
+-- Hand serials from their current holder to a new one, recording custody.
+-- Raises PT409 when a serial is not with the expected holder.
+CREATE OR REPLACE FUNCTION move_serials(
+  _item_id uuid,
+  _serial_numbers text[],
+  _from_statuses text[],
+  _status text,
+  _from_class_teacher_id uuid DEFAULT NULL,
+  _class_teacher_id uuid DEFAULT NULL,
+  _student_id uuid DEFAULT NULL,
+  _event text DEFAULT 'check_out',
+  _distribution_id uuid DEFAULT NULL,
+  _student_inventory_log_id uuid DEFAULT NULL,
+  _event_date timestamptz DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS SETOF inventory_serials
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _serial inventory_serials%ROWTYPE;
+  _number text;
+BEGIN
+  FOREACH _number IN ARRAY _serial_numbers LOOP
+    SELECT * INTO _serial FROM inventory_serials
+    WHERE item_id = _item_id AND serial_number = btrim(_number)
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Serial number % is not registered for this item', btrim(_number)
+        USING ERRCODE = '22023';
+    END IF;
+    IF _serial.status <> ALL (_from_statuses)
+      OR (_from_class_teacher_id IS NOT NULL
+        AND _serial.class_teacher_id IS DISTINCT FROM _from_class_teacher_id) THEN
+      RAISE EXCEPTION 'Serial number % is not available: it is %', _serial.serial_number, replace(_serial.status, '_', ' ')
+        USING ERRCODE = 'PT409';
+    END IF;
+
+    UPDATE inventory_serials SET
+      status = _status,
+      class_teacher_id = _class_teacher_id,
+      student_id = _student_id,
+      distribution_id = COALESCE(_distribution_id, distribution_id),
+      updated_at = now()
+    WHERE id = _serial.id
+    RETURNING * INTO _serial;
+
+    INSERT INTO inventory_serial_custody (
+      serial_id, event, status, class_teacher_id, student_id, distribution_id,
+      student_inventory_log_id, event_date, notes, created_by
+    )
+    VALUES (
+      _serial.id, _event, _status, _class_teacher_id, _student_id,
+      _distribution_id, _student_inventory_log_id, COALESCE(_event_date, now()),
+      _notes, _created_by
+    );
+
+    RETURN NEXT _serial;
+  END LOOP;
+END;
+$$;
+
+-- Lend serials from the store to a class teacher or a student. Custody only:
+-- no stock movement is posted.
+CREATE OR REPLACE FUNCTION check_out_serials(
+  _item_id uuid,
+  _serial_numbers text[],
+  _class_teacher_id uuid DEFAULT NULL,
+  _student_id uuid DEFAULT NULL,
+  _event_date timestamptz DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS SETOF inventory_serials
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (_class_teacher_id IS NULL) = (_student_id IS NULL) THEN
+    RAISE EXCEPTION 'Check out to either a class teacher or a student'
+      USING ERRCODE = '22023';
+  END IF;
+  IF COALESCE(cardinality(_serial_numbers), 0) = 0 THEN
+    RAISE EXCEPTION 'serial_numbers is required'
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM move_serials(
+    _item_id => _item_id,
+    _serial_numbers => _serial_numbers,
+    _from_statuses => ARRAY['in_store'],
+    _status => CASE WHEN _student_id IS NULL THEN 'with_teacher' ELSE 'with_student' END,
+    _class_teacher_id => _class_teacher_id,
+    _student_id => _student_id,
+    _event => 'check_out',
+    _event_date => _event_date,
+    _notes => _notes,
+    _created_by => _created_by
+  );
+END;
+$$;
+
+-- Take serials back into the store, or from a student back to a class
+-- teacher when one is given. Custody only: no stock movement is posted, so
+-- units distributed to a class can only go back to a class teacher.
+CREATE OR REPLACE FUNCTION check_in_serials(
+  _item_id uuid,
+  _serial_numbers text[],
+  _class_teacher_id uuid DEFAULT NULL,
+  _event_date timestamptz DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS SETOF inventory_serials
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _distributed text;
+BEGIN
+  IF COALESCE(cardinality(_serial_numbers), 0) = 0 THEN
+    RAISE EXCEPTION 'serial_numbers is required'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _class_teacher_id IS NULL THEN
+    SELECT serial_number INTO _distributed FROM inventory_serials
+    WHERE item_id = _item_id
+      AND serial_number IN (SELECT btrim(n) FROM unnest(_serial_numbers) n)
+      AND distribution_id IS NOT NULL
+    LIMIT 1;
+    IF FOUND THEN
+      RAISE EXCEPTION 'Serial number % was distributed to a class; check it in to a class teacher', _distributed
+        USING ERRCODE = 'PT409';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM move_serials(
+    _item_id => _item_id,
+    _serial_numbers => _serial_numbers,
+    _from_statuses => CASE WHEN _class_teacher_id IS NULL
+      THEN ARRAY['with_teacher', 'with_student']
+      ELSE ARRAY['with_student'] END,
+    _status => CASE WHEN _class_teacher_id IS NULL THEN 'in_store' ELSE 'with_teacher' END,
+    _class_teacher_id => _class_teacher_id,
+    _event => 'check_in',
+    _event_date => _event_date,
+    _notes => _notes,
+    _created_by => _created_by
+  );
+END;
+$$;
+
+-- Hand the serialized units of a student collection from the giving class
+-- teacher to the student, marking the collection received. An entitlement
+-- override is recorded with it, so it covers marking the collection received.
+DROP FUNCTION IF EXISTS issue_student_serials(uuid, text[], timestamptz, uuid);
+CREATE OR REPLACE FUNCTION issue_student_serials(
+  _student_inventory_log_id uuid,
+  _serial_numbers text[],
+  _received_date timestamptz DEFAULT NULL,
+  _created_by uuid DEFAULT NULL,
+  _entitlement_override_reason text DEFAULT NULL,
+  _entitlement_override_by uuid DEFAULT NULL
+)
+RETURNS SETOF inventory_serials
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _log student_inventory_log%ROWTYPE;
+  _lent text;
+BEGIN
+  SELECT * INTO _log FROM student_inventory_log
+  WHERE id = _student_inventory_log_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student inventory collection % not found', _student_inventory_log_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT check_serial_numbers(_log.inventory_item_id, _log.qty, _serial_numbers) THEN
+    RETURN;
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM inventory_serial_custody WHERE student_inventory_log_id = _log.id
+  ) THEN
+    RAISE EXCEPTION 'Serial numbers have already been issued for collection %', _log.id
+      USING ERRCODE = 'PT409';
+  END IF;
+  -- Collections draw on class stock, not on units lent to the teacher
+  SELECT serial_number INTO _lent FROM inventory_serials
+  WHERE item_id = _log.inventory_item_id
+    AND serial_number IN (SELECT btrim(n) FROM unnest(_serial_numbers) n)
+    AND status = 'with_teacher'
+    AND distribution_id IS NULL
+  LIMIT 1;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Serial number % is on loan, not class stock', _lent
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  UPDATE student_inventory_log SET
+    received = true,
+    received_date = COALESCE(_received_date, received_date, now()),
+    entitlement_override_reason = COALESCE(_entitlement_override_reason, entitlement_override_reason),
+    entitlement_override_by = CASE WHEN _entitlement_override_reason IS NULL
+      THEN entitlement_override_by ELSE _entitlement_override_by END,
+    updated_at = now()
+  WHERE id = _log.id
+  RETURNING * INTO _log;
+
+  RETURN QUERY
+  SELECT * FROM move_serials(
+    _item_id => _log.inventory_item_id,
+    _serial_numbers => _serial_numbers,
+    _from_statuses => ARRAY['with_teacher'],
+    _status => 'with_student',
+    _from_class_teacher_id => _log.given_by,
+    _student_id => _log.student_id,
+    _event => 'check_out',
+    _student_inventory_log_id => _log.id,
+    _event_date => _log.received_date,
+    _created_by => _created_by
+  );
+END;
+$$;
+
+-- Student collection of a serialized item, recorded and handed over together
+CREATE OR REPLACE FUNCTION post_student_issue(
+  _record jsonb,
+  _serial_numbers text[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _log student_inventory_log%ROWTYPE;
+  _serials jsonb;
+BEGIN
+  _log := jsonb_populate_record(NULL::student_inventory_log, _record);
+  INSERT INTO student_inventory_log (
+    student_id, class_id, session_term_id, inventory_item_id, qty, eligible,
+    given_by, created_by
+  )
+  VALUES (
+    _log.student_id, _log.class_id, _log.session_term_id, _log.inventory_item_id,
+    _log.qty, COALESCE(_log.eligible, true), _log.given_by, _log.created_by
+  )
+  RETURNING id INTO _log.id;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(s)), '[]'::jsonb) INTO _serials
+  FROM issue_student_serials(
+    _log.id, _serial_numbers, (_record->>'received_date')::timestamptz,
+    _log.created_by, _log.entitlement_override_reason, _log.entitlement_override_by
+  ) s;
+
+  RETURN jsonb_build_object(
+    'collection', (SELECT to_jsonb(l) FROM student_inventory_log l WHERE l.id = _log.id),
+    'serials', _serials
+  );
+END;
+$$;
+
+-- Add one scan to an open scan session. The code is matched against item
+-- barcodes, then SKUs, then registered serial numbers. Serialized items count
+-- one unit per serial number, given as the code or alongside the item's code.
+CREATE OR REPLACE FUNCTION record_scan(
+  _session_id uuid,
+  _code text,
+  _qty numeric DEFAULT 1,
+  _serial_number text DEFAULT NULL
+)
+RETURNS scan_session_lines
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _session scan_sessions%ROWTYPE;
+  _item inventory_items%ROWTYPE;
+  _serial text := NULLIF(btrim(_serial_number), '');
+  _matches integer;
+  _line scan_session_lines%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM scan_sessions WHERE id = _session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scan session % not found', _session_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'Scan session % is %', _session_id, _session.status
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  _code := btrim(_code);
+  IF COALESCE(_code, '') = '' THEN
+    RAISE EXCEPTION 'code is required' USING ERRCODE = '22023';
+  END IF;
+  IF COALESCE(_qty, 0) <= 0 THEN
+    RAISE EXCEPTION 'qty must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _item FROM inventory_items WHERE barcode = _code;
+  IF NOT FOUND THEN
+    SELECT * INTO _item FROM inventory_items WHERE sku = _code;
+  END IF;
+  IF NOT FOUND THEN
+    SELECT count(*) INTO _matches FROM inventory_serials WHERE serial_number = _code;
+    IF _matches > 1 THEN
+      RAISE EXCEPTION 'Serial number % belongs to more than one item; scan the item code with it', _code
+        USING ERRCODE = '22023';
+    END IF;
+    SELECT i.* INTO _item
+    FROM inventory_serials s
+    JOIN inventory_items i ON i.id = s.item_id
+    WHERE s.serial_number = _code;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'No item has barcode, SKU or serial number %', _code
+        USING ERRCODE = 'P0002';
+    END IF;
+    _serial := _code;
+  END IF;
+
+  IF _item.is_serialized THEN
+    IF _session.session_type = 'sale' THEN
+      RAISE EXCEPTION '% is serialized and is issued through distributions, not sales', _item.name
+        USING ERRCODE = '22023';
+    END IF;
+    IF _serial IS NULL THEN
+      RAISE EXCEPTION 'Scan the serial number of each % unit', _item.name
+        USING ERRCODE = '22023';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM scan_session_lines
+      WHERE scan_session_id = _session.id AND item_id = _item.id
+        AND _serial = ANY (serial_numbers)
+    ) THEN
+      RAISE EXCEPTION 'Serial number % has already been scanned', _serial
+        USING ERRCODE = 'PT409';
+    END IF;
+    IF _session.session_type = 'purchase' AND EXISTS (
+      SELECT 1 FROM inventory_serials WHERE item_id = _item.id AND serial_number = _serial
+    ) THEN
+      RAISE EXCEPTION 'Serial number % is already registered', _serial
+        USING ERRCODE = 'PT409';
+    END IF;
+    IF _session.session_type = 'distribution' AND NOT EXISTS (
+      SELECT 1 FROM inventory_serials
+      WHERE item_id = _item.id AND serial_number = _serial AND status = 'in_store'
+    ) THEN
+      RAISE EXCEPTION 'Serial number % is not in store', _serial
+        USING ERRCODE = 'PT409';
+    END IF;
+    _qty := 1;
+  ELSIF _serial IS NOT NULL THEN
+    RAISE EXCEPTION '% is not serialized; scan it without a serial number', _item.name
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO scan_session_lines (
+    scan_session_id, item_id, qty, unit_cost, serial_numbers, scan_count,
+    last_code, last_scanned_at
+  )
+  VALUES (
+    _session.id, _item.id, _qty,
+    CASE WHEN _session.session_type = 'purchase' THEN _item.cost_price END,
+    CASE WHEN _serial IS NULL THEN '{}'::text[] ELSE ARRAY[_serial] END,
+    1, _code, now()
+  )
+  ON CONFLICT (scan_session_id, item_id) DO UPDATE SET
+    qty = scan_session_lines.qty + EXCLUDED.qty,
+    serial_numbers = scan_session_lines.serial_numbers || EXCLUDED.serial_numbers,
+    scan_count = scan_session_lines.scan_count + 1,
+    last_code = EXCLUDED.last_code,
+    last_scanned_at = EXCLUDED.last_scanned_at,
+    updated_at = now()
+  RETURNING * INTO _line;
+
+  UPDATE scan_sessions SET updated_at = now() WHERE id = _session.id;
+  RETURN _line;
+END;
+$$;
+
+-- Post an open scan session as the document it drafts: purchase
+-- transactions, sale stock-outs, class distributions, or counts added to its
+-- stock-take. Purchases, sales and distributions post at the session's
+-- location. Sales and distributions are costed with _costing_method when the
+-- item sets none.
+DROP FUNCTION IF EXISTS commit_scan_session(uuid, jsonb, text, timestamptz, uuid);
+CREATE OR REPLACE FUNCTION commit_scan_session(
+  _id uuid,
+  _costing_method text DEFAULT NULL,
+  _status text DEFAULT NULL,
+  _transaction_date timestamptz DEFAULT NULL,
+  _committed_by uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _session scan_sessions%ROWTYPE;
+  _line scan_session_lines%ROWTYPE;
+  _notes text;
+  _result jsonb;
+  _txn inventory_transactions%ROWTYPE;
+  _documents jsonb := '[]'::jsonb;
+  _counts jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO _session FROM scan_sessions WHERE id = _id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Scan session % not found', _id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _session.status <> 'open' THEN
+    RAISE EXCEPTION 'Scan session % is %', _id, _session.status
+      USING ERRCODE = 'PT409';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM scan_session_lines WHERE scan_session_id = _id AND qty > 0) THEN
+    RAISE EXCEPTION 'Nothing has been scanned in session %', _id
+      USING ERRCODE = '22023';
+  END IF;
+  IF COALESCE(_status, 'completed') NOT IN ('pending', 'completed') THEN
+    RAISE EXCEPTION 'status must be pending or completed'
+      USING ERRCODE = '22023';
+  END IF;
+
+  _notes := COALESCE(_session.notes, 'Scanned in session ' || _session.id);
+
+  FOR _line IN
+    SELECT * FROM scan_session_lines
+    WHERE scan_session_id = _id AND qty > 0
+    ORDER BY created_at, id
+  LOOP
+    CASE _session.session_type
+      WHEN 'purchase' THEN
+        _result := post_purchase(
+          _item_id => _line.item_id,
+          _qty_in => _line.qty,
+          _in_cost => round(_line.qty * COALESCE(_line.unit_cost, 0), 2),
+          _supplier_id => _session.supplier_id,
+          _status => COALESCE(_status, 'completed'),
+          _reference_no => _session.reference_no,
+          _notes => _notes,
+          _transaction_date => _transaction_date,
+          _created_by => _committed_by,
+          _location_id => _session.location_id,
+          _serial_numbers => NULLIF(_line.serial_numbers, '{}'::text[])
+        );
+        _documents := _documents || jsonb_build_array(_result->'transaction');
+      WHEN 'sale' THEN
+        _txn := post_stock_out(
+          _item_id => _line.item_id,
+          _transaction_type => 'sale',
+          _qty_out => _line.qty,
+          _costing_method => _costing_method,
+          _status => COALESCE(_status, 'completed'),
+          _reference_no => _session.reference_no,
+          _notes => _notes,
+          _transaction_date => _transaction_date,
+          _created_by => _committed_by,
+          _location_id => _session.location_id
+        );
+        _documents := _documents || jsonb_build_array(to_jsonb(_txn));
+      WHEN 'distribution' THEN
+        IF _line.qty <> trunc(_line.qty) THEN
+          RAISE EXCEPTION 'Distributed quantities must be whole numbers'
+            USING ERRCODE = '22023';
+        END IF;
+        _result := post_distribution(
+          _class_id => _session.class_id,
+          _inventory_item_id => _line.item_id,
+          _session_term_id => _session.session_term_id,
+          _distributed_quantity => _line.qty::int,
+          _received_by => _session.received_by,
+          _notes => _session.notes,
+          _reference_no => _session.reference_no,
+          _costing_method => _costing_method,
+          _distribution_date => _transaction_date,
+          _created_by => _committed_by,
+          _serial_numbers => NULLIF(_line.serial_numbers, '{}'::text[]),
+          _location_id => _session.location_id
+        );
+        _documents := _documents || jsonb_build_array(_result->'distribution');
+      ELSE
+        _counts := _counts || jsonb_build_array(
+          jsonb_build_object('item_id', _line.item_id, 'counted_qty', _line.qty)
+        );
+    END CASE;
+  END LOOP;
+
+  -- Counts add to what other scanners have recorded on the same sheet
+  IF _session.session_type = 'stock_count' THEN
+    PERFORM record_stock_take_counts(_session.stock_take_id, _counts, _committed_by, true);
+  END IF;
+
+  UPDATE scan_sessions SET
+    status = 'committed',
+    committed_by = _committed_by,
+    committed_at = now(),
+    updated_at = now()
+  WHERE id = _id
+  RETURNING * INTO _session;
+
+  RETURN jsonb_build_object(
+    'session', to_jsonb(_session),
+    'documents', _documents
+  );
+END;
+$$;
+
+
+-- Check digit of a 12-digit EAN-13 body
+CREATE OR REPLACE FUNCTION ean13_check_digit(_body text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (10 - SUM(substr(_body, i, 1)::int * CASE WHEN i % 2 = 0 THEN 3 ELSE 1 END) % 10) % 10
+  FROM generate_series(1, 12) i;
+$$;
+
+-- Give the listed items that have no barcode an in-store EAN-13 (GS1
+-- prefix 20), skipping codes already used as another item's barcode or SKU
+CREATE OR REPLACE FUNCTION assign_item_barcodes(_item_ids uuid[])
+RETURNS SETOF inventory_items
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _item_id uuid;
+  _body text;
+  _code text;
+BEGIN
+  FOR _item_id IN
+    SELECT id FROM inventory_items
+    WHERE id = ANY (_item_ids) AND barcode IS NULL
+    ORDER BY id
+    FOR UPDATE
+  LOOP
+    LOOP
+      _body := '20' || lpad(nextval('item_barcode_seq')::text, 10, '0');
+      _code := _body || ean13_check_digit(_body);
+      EXIT WHEN NOT EXISTS (
+        SELECT 1 FROM inventory_items WHERE barcode = _code OR sku = _code
+      );
+    END LOOP;
+
+    UPDATE inventory_items
+    SET barcode = _code, updated_at = now()
+    WHERE id = _item_id;
+  END LOOP;
+
+  RETURN QUERY SELECT * FROM inventory_items WHERE id = ANY (_item_ids);
+END;
+$$;
+
+
+-- Base units in one _uom_id of an item: 1 for the item's own unit, else its
+-- conversion factor
+CREATE OR REPLACE FUNCTION item_uom_factor(_item_id uuid, _uom_id uuid)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  _item inventory_items%ROWTYPE;
+  _factor numeric;
+BEGIN
+  SELECT * INTO _item FROM inventory_items WHERE id = _item_id;
+  IF _uom_id IS NULL OR _uom_id = _item.uom_id THEN
+    RETURN 1;
+  END IF;
+
+  SELECT factor INTO _factor
+  FROM item_uom_conversions
+  WHERE item_id = _item_id AND uom_id = _uom_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION '% has no conversion from %', COALESCE(_item.name, _item_id::text),
+      COALESCE((SELECT name FROM uoms WHERE id = _uom_id), _uom_id::text)
+      USING ERRCODE = '22023';
+  END IF;
+  RETURN _factor;
+END;
+$$;
+
+-- Variants hang one level below a parent item, which holds stock only
+-- through its variants
+CREATE OR REPLACE FUNCTION check_item_variant()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _parent inventory_items%ROWTYPE;
+BEGIN
+  IF NEW.parent_item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.parent_item_id = NEW.id THEN
+    RAISE EXCEPTION 'An item cannot be a variant of itself'
+      USING ERRCODE = '22023';
+  END IF;
+  IF NEW.variant_attributes = '{}'::jsonb THEN
+    RAISE EXCEPTION 'A variant needs at least one attribute, such as size or colour'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _parent FROM inventory_items WHERE id = NEW.parent_item_id;
+  IF _parent.parent_item_id IS NOT NULL THEN
+    RAISE EXCEPTION '% is itself a variant', _parent.name
+      USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM inventory_items WHERE parent_item_id = NEW.id) THEN
+    RAISE EXCEPTION '% has variants of its own', NEW.name
+      USING ERRCODE = '22023';
+  END IF;
+  IF EXISTS (SELECT 1 FROM inventory_transactions WHERE item_id = _parent.id) THEN
+    RAISE EXCEPTION '% has stock movements of its own and cannot take variants', _parent.name
+      USING ERRCODE = 'PT409';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_items_check_variant ON inventory_items;
+CREATE TRIGGER inventory_items_check_variant
+  BEFORE INSERT OR UPDATE OF parent_item_id, variant_attributes ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION check_item_variant();
+
+-- Stock is moved, ordered and issued per variant and per kit component,
+-- never against a parent item or a kit. TG_ARGV[0] names the row's item
+-- column.
+DROP FUNCTION IF EXISTS reject_parent_item_stock() CASCADE;
+CREATE OR REPLACE FUNCTION reject_unstocked_item()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _item_id uuid := (to_jsonb(NEW)->>TG_ARGV[0])::uuid;
+  _name text;
+BEGIN
+  SELECT i.name INTO _name
+  FROM inventory_items i
+  WHERE i.id = _item_id
+    AND EXISTS (SELECT 1 FROM inventory_items v WHERE v.parent_item_id = i.id);
+  IF FOUND THEN
+    RAISE EXCEPTION '% has variants; choose the variant instead', _name
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT i.name INTO _name
+  FROM inventory_items i
+  WHERE i.id = _item_id
+    AND EXISTS (SELECT 1 FROM kit_components k WHERE k.kit_item_id = i.id);
+  IF FOUND THEN
+    RAISE EXCEPTION '% is a kit and holds no stock; issue it to a class or student to issue its components', _name
+      USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inventory_transactions_reject_parent_item ON inventory_transactions;
+CREATE TRIGGER inventory_transactions_reject_parent_item
+  BEFORE INSERT OR UPDATE OF item_id ON inventory_transactions
+  FOR EACH ROW EXECUTE FUNCTION reject_unstocked_item('item_id');
+
+DROP TRIGGER IF EXISTS purchase_order_lines_reject_parent_item ON purchase_order_lines;
+CREATE TRIGGER purchase_order_lines_reject_parent_item
+  BEFORE INSERT OR UPDATE OF item_id ON purchase_order_lines
+  FOR EACH ROW EXECUTE FUNCTION reject_unstocked_item('item_id');
+
+DROP TRIGGER IF EXISTS scan_session_lines_reject_parent_item ON scan_session_lines;
+CREATE TRIGGER scan_session_lines_reject_parent_item
+  BEFORE INSERT OR UPDATE OF item_id ON scan_session_lines
+  FOR EACH ROW EXECUTE FUNCTION reject_unstocked_item('item_id');
+
+DROP TRIGGER IF EXISTS class_inventory_distributions_reject_parent_item ON class_inventory_distributions;
+CREATE TRIGGER class_inventory_distributions_reject_parent_item
+  BEFORE INSERT OR UPDATE OF inventory_item_id ON class_inventory_distributions
+  FOR EACH ROW EXECUTE FUNCTION reject_unstocked_item('inventory_item_id');
+
+-- Entitlements may name the parent; the collection records the variant given
+DROP TRIGGER IF EXISTS student_inventory_log_reject_parent_item ON student_inventory_log;
+CREATE TRIGGER student_inventory_log_reject_parent_item
+  BEFORE INSERT OR UPDATE OF inventory_item_id ON student_inventory_log
+  FOR EACH ROW EXECUTE FUNCTION reject_unstocked_item('inventory_item_id');
+
+-- Replace a kit's components. A kit holds no stock of its own, so an item
+-- already stocked cannot become one; components must be stocked directly
+-- (not kits, parents of variants or serialized items).
+CREATE OR REPLACE FUNCTION save_kit_components(
+  _kit_item_id uuid,
+  _components jsonb,
+  _created_by uuid DEFAULT NULL
+)
+RETURNS SETOF kit_components
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _kit inventory_items%ROWTYPE;
+  _line jsonb;
+  _component inventory_items%ROWTYPE;
+BEGIN
+  SELECT * INTO _kit FROM inventory_items WHERE id = _kit_item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inventory item % not found', _kit_item_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF jsonb_typeof(_components) <> 'array' THEN
+    RAISE EXCEPTION 'components must be an array'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_array_length(_components) > 0 THEN
+    IF _kit.parent_item_id IS NOT NULL
+      OR EXISTS (SELECT 1 FROM inventory_items v WHERE v.parent_item_id = _kit_item_id) THEN
+      RAISE EXCEPTION '% has or is a variant and cannot be a kit', _kit.name
+        USING ERRCODE = '22023';
+    END IF;
+    IF _kit.is_serialized THEN
+      RAISE EXCEPTION '% is serialized and cannot be a kit', _kit.name
+        USING ERRCODE = '22023';
+    END IF;
+    IF EXISTS (SELECT 1 FROM inventory_transactions WHERE item_id = _kit_item_id) THEN
+      RAISE EXCEPTION '% has stock transactions and cannot become a kit', _kit.name
+        USING ERRCODE = 'PT409';
+    END IF;
+    IF EXISTS (SELECT 1 FROM kit_components WHERE component_item_id = _kit_item_id) THEN
+      RAISE EXCEPTION '% is a component of another kit', _kit.name
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  IF (SELECT COUNT(*) <> COUNT(DISTINCT c->>'component_item_id')
+      FROM jsonb_array_elements(_components) c) THEN
+    RAISE EXCEPTION 'Each component may be listed only once'
+      USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM kit_components WHERE kit_item_id = _kit_item_id;
+
+  FOR _line IN SELECT * FROM jsonb_array_elements(_components) LOOP
+    IF COALESCE((_line->>'qty')::int, 0) <= 0 THEN
+      RAISE EXCEPTION 'Each component needs a qty greater than 0'
+        USING ERRCODE = '22023';
+    END IF;
+    SELECT * INTO _component FROM inventory_items
+    WHERE id = (_line->>'component_item_id')::uuid;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item % not found', _line->>'component_item_id'
+        USING ERRCODE = 'P0002';
+    END IF;
+    IF EXISTS (SELECT 1 FROM kit_components WHERE kit_item_id = _component.id) THEN
+      RAISE EXCEPTION '% is a kit; kits cannot contain kits', _component.name
+        USING ERRCODE = '22023';
+    END IF;
+    IF EXISTS (SELECT 1 FROM inventory_items v WHERE v.parent_item_id = _component.id) THEN
+      RAISE EXCEPTION '% has variants; choose the variant instead', _component.name
+        USING ERRCODE = '22023';
+    END IF;
+    IF _component.is_serialized THEN
+      RAISE EXCEPTION '% is serialized and cannot be a kit component', _component.name
+        USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO kit_components (kit_item_id, component_item_id, qty, created_by)
+    VALUES (_kit_item_id, _component.id, (_line->>'qty')::int, _created_by);
+  END LOOP;
+
+  RETURN QUERY SELECT * FROM kit_components WHERE kit_item_id = _kit_item_id;
+END;
+$$;
+
+-- Distribute a kit to a class: one distribution and stock-out per component,
+-- all posted together from the given location or the default one.
+DROP FUNCTION IF EXISTS post_kit_distribution(uuid, uuid, uuid, int, uuid, text, text, text, jsonb, timestamptz, uuid);
+DROP FUNCTION IF EXISTS post_kit_distribution(uuid, uuid, uuid, int, uuid, text, text, text, text, timestamptz, uuid);
+CREATE OR REPLACE FUNCTION post_kit_distribution(
+  _class_id uuid,
+  _kit_item_id uuid,
+  _session_term_id uuid,
+  _distributed_quantity int,
+  _received_by uuid,
+  _receiver_name text DEFAULT NULL,
+  _notes text DEFAULT NULL,
+  _reference_no text DEFAULT NULL,
+  _costing_method text DEFAULT NULL,
+  _distribution_date timestamptz DEFAULT NULL,
+  _created_by uuid DEFAULT NULL,
+  _location_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _component record;
+  _posted jsonb;
+  _distributions jsonb := '[]'::jsonb;
+  _transactions jsonb := '[]'::jsonb;
+  _message text;
+  _detail text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM kit_components WHERE kit_item_id = _kit_item_id) THEN
+    RAISE EXCEPTION 'Inventory item % is not a kit', _kit_item_id
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR _component IN
+    SELECT k.component_item_id, k.qty, i.name
+    FROM kit_components k
+    JOIN inventory_items i ON i.id = k.component_item_id
+    WHERE k.kit_item_id = _kit_item_id
+    ORDER BY i.name
+  LOOP
+    BEGIN
+      _posted := post_distribution(
+        _class_id => _class_id,
+        _inventory_item_id => _component.component_item_id,
+        _session_term_id => _session_term_id,
+        _distributed_quantity => _distributed_quantity * _component.qty,
+        _received_by => _received_by,
+        _receiver_name => _receiver_name,
+        _notes => _notes,
+        _reference_no => _reference_no,
+        _costing_method => _costing_method,
+        _distribution_date => _distribution_date,
+        _created_by => _created_by,
+        _location_id => _location_id
+      );
+    EXCEPTION WHEN SQLSTATE 'PT409' THEN
+      -- Name the component that is short
+      GET STACKED DIAGNOSTICS _message = MESSAGE_TEXT, _detail = PG_EXCEPTION_DETAIL;
+      RAISE EXCEPTION '%: %', _component.name, _message
+        USING ERRCODE = 'PT409', DETAIL = _detail;
+    END;
+
+    UPDATE class_inventory_distributions SET kit_item_id = _kit_item_id
+    WHERE id = (_posted->'distribution'->>'id')::uuid;
+
+    _distributions := _distributions
+      || jsonb_set(_posted->'distribution', '{kit_item_id}', to_jsonb(_kit_item_id));
+    _transactions := _transactions || jsonb_build_array(_posted->'transaction');
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'distributions', _distributions,
+    'transactions', _transactions
+  );
+END;
+$$;
+
+-- The entitled item an issue of _item_id counts against in a class and term:
+-- the item itself when entitled, else its parent when the entitlement names
+-- the parent (a variant handed over for it)
+CREATE OR REPLACE FUNCTION entitlement_item_id(
+  _class_id uuid,
+  _session_term_id uuid,
+  _item_id uuid
+)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT e.inventory_item_id
+     FROM class_inventory_entitlement_items e
+     WHERE e.class_id = _class_id
+       AND e.session_term_id = _session_term_id
+       AND e.inventory_item_id = _item_id
+     LIMIT 1),
+    (SELECT e.inventory_item_id
+     FROM class_inventory_entitlement_items e
+     JOIN inventory_items i ON i.parent_item_id = e.inventory_item_id
+     WHERE e.class_id = _class_id
+       AND e.session_term_id = _session_term_id
+       AND i.id = _item_id
+     LIMIT 1),
+    _item_id
+  );
+$$;
+
+-- Per item, what a student is entitled to in each term through their class,
+-- what they have received and what is still to be given. Items received
+-- without an entitlement (by override) show with nothing entitled.
+CREATE OR REPLACE FUNCTION student_entitlements(
+  _student_id uuid,
+  _session_term_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  session_term_id uuid,
+  class_id uuid,
+  inventory_item_id uuid,
+  entitled_qty bigint,
+  received_qty bigint,
+  outstanding_qty bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH terms AS (
+    -- The class a student was entitled through: where they collected in a
+    -- term, else their current class
+    SELECT DISTINCT l.session_term_id, l.class_id
+    FROM student_inventory_log l
+    WHERE l.student_id = _student_id
+      AND (_session_term_id IS NULL OR l.session_term_id = _session_term_id)
+    UNION
+    SELECT e.session_term_id, e.class_id
+    FROM class_inventory_entitlements e
+    JOIN students s ON s.id = _student_id AND s.class_id = e.class_id
+    WHERE (_session_term_id IS NULL OR e.session_term_id = _session_term_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM student_inventory_log l
+        WHERE l.student_id = _student_id AND l.session_term_id = e.session_term_id
+      )
+  ),
+  entitled AS (
+    SELECT e.session_term_id, e.class_id, e.inventory_item_id, SUM(e.quantity) AS qty
+    FROM class_inventory_entitlement_items e
+    JOIN terms t ON t.session_term_id = e.session_term_id AND t.class_id = e.class_id
+    GROUP BY e.session_term_id, e.class_id, e.inventory_item_id
+  ),
+  received AS (
+    SELECT
+      l.session_term_id,
+      l.class_id,
+      entitlement_item_id(l.class_id, l.session_term_id, l.inventory_item_id) AS inventory_item_id,
+      SUM(l.qty) AS qty
+    FROM student_inventory_log l
+    WHERE l.student_id = _student_id
+      AND l.received
+      AND (_session_term_id IS NULL OR l.session_term_id = _session_term_id)
+    GROUP BY 1, 2, 3
+  )
+  SELECT
+    COALESCE(e.session_term_id, r.session_term_id),
+    COALESCE(e.class_id, r.class_id),
+    COALESCE(e.inventory_item_id, r.inventory_item_id),
+    COALESCE(e.qty, 0),
+    COALESCE(r.qty, 0),
+    GREATEST(COALESCE(e.qty, 0) - COALESCE(r.qty, 0), 0)
+  FROM entitled e
+  FULL JOIN received r
+    ON r.session_term_id = e.session_term_id
+    AND r.class_id = e.class_id
+    AND r.inventory_item_id = e.inventory_item_id;
+$$;
+
+-- A student may receive no more of an item in a term than their class is
+-- entitled to, less what they have already received, unless the write gives
+-- an override reason. A reason left on the row by an earlier write does not
+-- cover receiving more later; it is cleared and the change checked.
+CREATE OR REPLACE FUNCTION check_student_entitlement()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _entitled_item_id uuid;
+  _entitled bigint;
+  _received bigint;
+  _name text;
+BEGIN
+  IF NOT NEW.received THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' THEN
+    IF OLD.received
+      AND NEW.qty <= OLD.qty
+      AND NEW.student_id = OLD.student_id
+      AND NEW.class_id = OLD.class_id
+      AND NEW.session_term_id = OLD.session_term_id
+      AND NEW.inventory_item_id = OLD.inventory_item_id THEN
+      RETURN NEW;
+    END IF;
+    IF NEW.entitlement_override_reason IS NOT DISTINCT FROM OLD.entitlement_override_reason
+      AND NEW.entitlement_override_by IS NOT DISTINCT FROM OLD.entitlement_override_by THEN
+      NEW.entitlement_override_reason := NULL;
+      NEW.entitlement_override_by := NULL;
+    END IF;
+  END IF;
+  IF NEW.entitlement_override_reason IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  _entitled_item_id := entitlement_item_id(NEW.class_id, NEW.session_term_id, NEW.inventory_item_id);
+  -- One issue of an item to a student at a time, so two cannot both fit in
+  -- what is left of the entitlement
+  PERFORM pg_advisory_xact_lock(
+    hashtext(NEW.student_id::text), hashtext(_entitled_item_id::text)
+  );
+
+  SELECT COALESCE(SUM(e.quantity), 0) INTO _entitled
+  FROM class_inventory_entitlement_items e
+  WHERE e.class_id = NEW.class_id
+    AND e.session_term_id = NEW.session_term_id
+    AND e.inventory_item_id = _entitled_item_id;
+
+  SELECT COALESCE(SUM(l.qty), 0) INTO _received
+  FROM student_inventory_log l
+  WHERE l.student_id = NEW.student_id
+    AND l.session_term_id = NEW.session_term_id
+    AND l.received
+    AND l.id <> NEW.id
+    AND entitlement_item_id(l.class_id, l.session_term_id, l.inventory_item_id) = _entitled_item_id;
+
+  IF _received + NEW.qty > _entitled THEN
+    SELECT name INTO _name FROM inventory_items WHERE id = _entitled_item_id;
+    RAISE EXCEPTION 'Over-issue of %: the student is entitled to % and has received %, so % more cannot be given without an override reason',
+      _name, _entitled, _received, NEW.qty
+      USING ERRCODE = 'PT409', DETAIL = GREATEST(_entitled - _received, 0)::text;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS student_inventory_log_check_entitlement ON student_inventory_log;
+CREATE TRIGGER student_inventory_log_check_entitlement
+  BEFORE INSERT OR UPDATE ON student_inventory_log
+  FOR EACH ROW EXECUTE FUNCTION check_student_entitlement();
+
+-- Create the term's eligibility rows in student_inventory_log for a class:
+-- one per active student and entitled item (kits as their components), for
+-- the entitlement less what the student has already received that term.
+-- Re-running only adds rows for new students and items. Students who moved
+-- class lose their pending (not received) rows in the old class and get the
+-- new class's entitlement. Items with variants get no rows, as the variant
+-- handed over is not known until then.
+CREATE OR REPLACE FUNCTION generate_student_entitlement_rows(
+  _class_id uuid,
+  _session_term_id uuid,
+  _created_by uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _removed int;
+  _created jsonb;
+  _skipped jsonb;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM school_classes WHERE id = _class_id) THEN
+    RAISE EXCEPTION 'Class % not found', _class_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM academic_session_terms WHERE id = _session_term_id) THEN
+    RAISE EXCEPTION 'Session term % not found', _session_term_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Pending rows left behind by transfers, into or out of the class
+  DELETE FROM student_inventory_log l
+  USING students s
+  WHERE s.id = l.student_id
+    AND l.session_term_id = _session_term_id
+    AND NOT l.received
+    AND (
+      (l.class_id = _class_id AND s.class_id IS DISTINCT FROM _class_id)
+      OR (l.class_id <> _class_id AND s.class_id = _class_id AND s.status = 'active')
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM student_inventory_returns r WHERE r.student_inventory_log_id = l.id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM inventory_serial_custody c WHERE c.student_inventory_log_id = l.id
+    );
+  GET DIAGNOSTICS _removed = ROW_COUNT;
+
+  SELECT COALESCE(jsonb_agg(DISTINCT jsonb_build_object('inventory_item_id', i.id, 'name', i.name)), '[]'::jsonb)
+  INTO _skipped
+  FROM class_inventory_entitlement_items e
+  JOIN inventory_items i ON i.id = e.inventory_item_id
+  WHERE e.class_id = _class_id
+    AND e.session_term_id = _session_term_id
+    AND EXISTS (SELECT 1 FROM inventory_items v WHERE v.parent_item_id = i.id);
+
+  WITH entitled AS (
+    SELECT e.inventory_item_id, MIN(e.kit_item_id::text)::uuid AS kit_item_id,
+      SUM(e.quantity) AS qty
+    FROM class_inventory_entitlement_items e
+    WHERE e.class_id = _class_id
+      AND e.session_term_id = _session_term_id
+      AND NOT EXISTS (SELECT 1 FROM inventory_items v WHERE v.parent_item_id = e.inventory_item_id)
+    GROUP BY e.inventory_item_id
+  ),
+  due AS (
+    SELECT s.id AS student_id, e.inventory_item_id, e.kit_item_id,
+      e.qty - COALESCE((
+        SELECT SUM(l.qty) FROM student_inventory_log l
+        WHERE l.student_id = s.id
+          AND l.session_term_id = _session_term_id
+          AND l.received
+          AND l.inventory_item_id = e.inventory_item_id
+      ), 0) AS qty
+    FROM students s
+    CROSS JOIN entitled e
+    WHERE s.class_id = _class_id
+      AND s.status = 'active'
+      AND NOT EXISTS (
+        SELECT 1 FROM student_inventory_log l
+        WHERE l.student_id = s.id
+          AND l.class_id = _class_id
+          AND l.session_term_id = _session_term_id
+          AND l.inventory_item_id = e.inventory_item_id
+      )
+  ),
+  inserted AS (
+    INSERT INTO student_inventory_log (
+      student_id, class_id, session_term_id, inventory_item_id, qty,
+      eligible, received, kit_item_id, created_by
+    )
+    SELECT d.student_id, _class_id, _session_term_id, d.inventory_item_id, d.qty,
+      true, false, d.kit_item_id, _created_by
+    FROM due d
+    WHERE d.qty > 0
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(n)), '[]'::jsonb) INTO _created FROM inserted n;
+
+  RETURN jsonb_build_object(
+    'created', _created,
+    'removed', _removed,
+    'skipped_items', _skipped
+  );
+END;
+$$;
+
+-- Per class and entitled item (kits as their components), what a term's
+-- entitlements come to for the class's active students and how much has
+-- been distributed to the class. Distributions of a variant count towards
+-- an entitlement to its parent.
+CREATE OR REPLACE FUNCTION entitlement_shortfall(
+  _session_term_id uuid,
+  _class_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  class_id uuid,
+  item_id uuid,
+  students bigint,
+  required_qty numeric,
+  distributed_qty numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH enrolled AS (
+    SELECT s.class_id, COUNT(*) AS students
+    FROM students s
+    WHERE s.status = 'active'
+    GROUP BY s.class_id
+  ),
+  entitled AS (
+    SELECT e.class_id, e.inventory_item_id AS item_id, SUM(e.quantity) AS qty
+    FROM class_inventory_entitlement_items e
+    WHERE e.session_term_id = _session_term_id
+      AND (_class_id IS NULL OR e.class_id = _class_id)
+    GROUP BY e.class_id, e.inventory_item_id
+  )
+  SELECT
+    e.class_id,
+    e.item_id,
+    COALESCE(n.students, 0),
+    e.qty * COALESCE(n.students, 0),
+    COALESCE((
+      SELECT SUM(d.distributed_quantity)
+      FROM class_inventory_distributions d
+      JOIN inventory_items i ON i.id = d.inventory_item_id
+      WHERE d.class_id = e.class_id
+        AND d.session_term_id = _session_term_id
+        AND (d.inventory_item_id = e.item_id OR i.parent_item_id = e.item_id)
+    ), 0)
+  FROM entitled e
+  LEFT JOIN enrolled n ON n.class_id = e.class_id;
+$$;
+
+-- Roll a term over to the next: copy the source term's class entitlements
+-- to the target term (scaled by _quantity_change_percent, rows the target
+-- already has are kept), graduate the students of _graduating_class_ids,
+-- move students to their next class per _promotions
+-- ([{ from_class_id, to_class_id }]) and archive the source term. The target
+-- is an existing term or, when _target_term_id is null, created from
+-- _target_term. A dry run makes every change, reports it, then rolls it all
+-- back.
+CREATE OR REPLACE FUNCTION rollover_term(
+  _source_term_id uuid,
+  _target_term_id uuid,
+  _target_term jsonb,
+  _quantity_change_percent numeric,
+  _promotions jsonb,
+  _graduating_class_ids uuid[],
+  _dry_run boolean,
+  _created_by uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _source academic_session_terms;
+  _target academic_session_terms;
+  _target_created boolean := false;
+  _pct numeric := COALESCE(_quantity_change_percent, 0);
+  _graduating uuid[] := COALESCE(_graduating_class_ids, '{}');
+  _from uuid[];
+  _to uuid[];
+  _missing uuid;
+  _copied jsonb;
+  _skipped jsonb;
+  _unchanged jsonb;
+  _graduated jsonb;
+  _promoted jsonb;
+  _result jsonb;
+BEGIN
+  IF _pct < -100 THEN
+    RAISE EXCEPTION 'quantity_change_percent cannot be below -100'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(array_agg(p.from_class_id), '{}'), COALESCE(array_agg(p.to_class_id), '{}')
+  INTO _from, _to
+  FROM jsonb_to_recordset(COALESCE(_promotions, '[]'::jsonb))
+    AS p(from_class_id uuid, to_class_id uuid);
+  IF array_position(_from, NULL) IS NOT NULL OR array_position(_to, NULL) IS NOT NULL THEN
+    RAISE EXCEPTION 'Each promotion needs a from_class_id and a to_class_id'
+      USING ERRCODE = '22023';
+  END IF;
+  IF (SELECT COUNT(DISTINCT c) FROM unnest(_from) c) <> cardinality(_from) THEN
+    RAISE EXCEPTION 'A class can only be promoted to one class'
+      USING ERRCODE = '22023';
+  END IF;
+  IF _from && _graduating THEN
+    RAISE EXCEPTION 'A class cannot both be promoted and graduate'
+      USING ERRCODE = '22023';
+  END IF;
+  SELECT c INTO _missing
+  FROM unnest(_from || _to || _graduating) c
+  WHERE NOT EXISTS (SELECT 1 FROM school_classes sc WHERE sc.id = c)
+  LIMIT 1;
+  IF _missing IS NOT NULL THEN
+    RAISE EXCEPTION 'Class % not found', _missing
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _source FROM academic_session_terms WHERE id = _source_term_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session term % not found', _source_term_id
+      USING ERRCODE = 'P0002';
+  END IF;
+  IF _source.status = 'archived' THEN
+    RAISE EXCEPTION 'Term % % is archived and has already been rolled over', _source.session, _source.name
+      USING ERRCODE = 'PT409';
+  END IF;
+
+  BEGIN
+    IF _target_term_id IS NOT NULL THEN
+      SELECT * INTO _target FROM academic_session_terms WHERE id = _target_term_id;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Session term % not found', _target_term_id
+          USING ERRCODE = 'P0002';
+      END IF;
+    ELSE
+      INSERT INTO academic_session_terms (session, name, start_date, end_date, status)
+      VALUES (
+        _target_term->>'session',
+        _target_term->>'name',
+        (_target_term->>'start_date')::date,
+        (_target_term->>'end_date')::date,
+        COALESCE(_target_term->>'status', 'active')
+      )
+      RETURNING * INTO _target;
+      _target_created := true;
+    END IF;
+    IF _target.start_date <= _source.start_date THEN
+      RAISE EXCEPTION 'The target term must start after the source term'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Entitlements the target term already has are left as they are
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'class_id', e.class_id,
+      'class_name', c.name,
+      'inventory_item_id', e.inventory_item_id,
+      'item_name', i.name,
+      'quantity', t.quantity
+    ) ORDER BY c.name, i.name), '[]'::jsonb)
+    INTO _skipped
+    FROM class_inventory_entitlements e
+    JOIN class_inventory_entitlements t
+      ON t.class_id = e.class_id
+      AND t.inventory_item_id = e.inventory_item_id
+      AND t.session_term_id = _target.id
+    JOIN school_classes c ON c.id = e.class_id
+    JOIN inventory_items i ON i.id = e.inventory_item_id
+    WHERE e.session_term_id = _source.id;
+
+    WITH copied AS (
+      INSERT INTO class_inventory_entitlements (
+        class_id, inventory_item_id, session_term_id, quantity, notes, created_by
+      )
+      SELECT e.class_id, e.inventory_item_id, _target.id,
+        GREATEST(ROUND(e.quantity * (100 + _pct) / 100), 0)::int,
+        e.notes, _created_by
+      FROM class_inventory_entitlements e
+      WHERE e.session_term_id = _source.id
+      ON CONFLICT (class_id, inventory_item_id, session_term_id) DO NOTHING
+      RETURNING *
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'class_id', n.class_id,
+      'class_name', c.name,
+      'inventory_item_id', n.inventory_item_id,
+      'item_name', i.name,
+      'source_quantity', e.quantity,
+      'quantity', n.quantity
+    ) ORDER BY c.name, i.name), '[]'::jsonb)
+    INTO _copied
+    FROM copied n
+    JOIN class_inventory_entitlements e
+      ON e.class_id = n.class_id
+      AND e.inventory_item_id = n.inventory_item_id
+      AND e.session_term_id = _source.id
+    JOIN school_classes c ON c.id = n.class_id
+    JOIN inventory_items i ON i.id = n.inventory_item_id;
+
+    -- Classes whose students stay where they are
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'class_id', c.id,
+      'class_name', c.name,
+      'students', n.students
+    ) ORDER BY c.name), '[]'::jsonb)
+    INTO _unchanged
+    FROM (
+      SELECT s.class_id, COUNT(*) AS students
+      FROM students s
+      WHERE s.status IN ('active', 'inactive', 'suspended')
+        AND s.class_id IS NOT NULL
+        AND NOT s.class_id = ANY(_from || _graduating)
+      GROUP BY s.class_id
+    ) n
+    JOIN school_classes c ON c.id = n.class_id;
+
+    -- Graduate first, so a graduating class can take the class below it
+    WITH graduated AS (
+      UPDATE students s
+      SET status = 'graduated', updated_at = now()
+      WHERE s.class_id = ANY(_graduating)
+        AND s.status IN ('active', 'inactive', 'suspended')
+      RETURNING s.*
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'student_id', g.id,
+      'admission_number', g.admission_number,
+      'name', concat_ws(' ', g.first_name, g.last_name),
+      'class_id', g.class_id,
+      'class_name', c.name
+    ) ORDER BY c.name, g.admission_number), '[]'::jsonb)
+    INTO _graduated
+    FROM graduated g
+    JOIN school_classes c ON c.id = g.class_id;
+
+    -- One statement, so a student moves up one class only
+    WITH promotion AS (
+      SELECT * FROM unnest(_from, _to) AS m(from_class_id, to_class_id)
+    ),
+    promoted AS (
+      UPDATE students s
+      SET class_id = m.to_class_id, updated_at = now()
+      FROM promotion m
+      WHERE s.class_id = m.from_class_id
+        AND s.status IN ('active', 'inactive', 'suspended')
+      RETURNING s.id, s.admission_number, s.first_name, s.last_name,
+        m.from_class_id, m.to_class_id
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'student_id', p.id,
+      'admission_number', p.admission_number,
+      'name', concat_ws(' ', p.first_name, p.last_name),
+      'from_class_id', p.from_class_id,
+      'from_class_name', f.name,
+      'to_class_id', p.to_class_id,
+      'to_class_name', t.name
+    ) ORDER BY f.name, p.admission_number), '[]'::jsonb)
+    INTO _promoted
+    FROM promoted p
+    JOIN school_classes f ON f.id = p.from_class_id
+    JOIN school_classes t ON t.id = p.to_class_id;
+
+    UPDATE academic_session_terms SET status = 'archived' WHERE id = _source.id;
+
+    _result := jsonb_build_object(
+      'dry_run', COALESCE(_dry_run, false),
+      'source_term', to_jsonb(_source) || jsonb_build_object('status', 'archived'),
+      'target_term', to_jsonb(_target),
+      'target_term_created', _target_created,
+      'entitlements', jsonb_build_object('copied', _copied, 'skipped', _skipped),
+      'graduations', _graduated,
+      'promotions', _promoted,
+      'unchanged_classes', _unchanged
+    );
+
+    IF _dry_run THEN
+      RAISE EXCEPTION 'Dry run' USING ERRCODE = 'PTDRY';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'PTDRY' THEN
+    -- Undo the block's changes; _result keeps what they would have been
+    NULL;
+  END;
+
+  RETURN _result;
+END;
+$$;
 `;
 
 async function run() {
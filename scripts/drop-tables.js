@@ -5,17 +5,37 @@ const connectionString = process.env.SUPABASE_DB_URL;
 
 const dropSQL = `
 DROP VIEW IF EXISTS inventory_item_summary;
+DROP VIEW IF EXISTS class_inventory_entitlement_items;
 
 DROP TABLE IF EXISTS
   class_teachers,
+  student_inventory_returns,
+  inventory_write_offs,
   student_inventory_log,
   class_inventory_distributions,
   class_inventory_entitlements,
   students,
   school_classes,
   academic_session_terms,
+  goods_received_notes,
+  purchase_order_lines,
+  purchase_orders,
+  scan_session_lines,
+  scan_sessions,
+  stock_take_lines,
+  stock_take_sessions,
+  inventory_serial_custody,
+  inventory_serials,
+  inventory_transaction_lots,
+  inventory_lots,
+  stock_adjustments,
+  item_reorder_points,
   inventory_transactions,
+  kit_components,
+  supplier_payment_allocations,
+  supplier_payments,
   suppliers,
+  locations,
   inventory_items,
   uoms,
   brands,
@@ -0,0 +1,127 @@
+const { Client, Pool } = require("pg");
+require("dotenv").config({ path: ".env" });
+
+// Point this at a local Postgres that has had `npm run migrate:create` applied.
+// Never run it against production: it creates and removes its own test rows.
+const connectionString = process.env.TEST_DB_URL;
+
+const OPENING_STOCK = 10;
+const PARALLEL_REQUESTS = 25;
+const QTY_PER_REQUEST = 1;
+
+async function run() {
+  if (!connectionString) {
+    console.error("TEST_DB_URL environment variable is not set.");
+    process.exit(1);
+  }
+
+  const client = new Client({ connectionString });
+  const pool = new Pool({ connectionString, max: PARALLEL_REQUESTS });
+  let categoryId;
+  let itemId;
+  let failed = false;
+
+  try {
+    await client.connect();
+
+    const { rows: users } = await client.query(
+      "SELECT id FROM auth.users LIMIT 1"
+    );
+    if (!users.length) {
+      throw new Error("At least one auth.users row is required for created_by");
+    }
+    const userId = users[0].id;
+
+    const suffix = Date.now();
+    ({
+      rows: [{ id: categoryId }],
+    } = await client.query(
+      "INSERT INTO categories (name) VALUES ($1) RETURNING id",
+      [`concurrency-test-${suffix}`]
+    ));
+    ({
+      rows: [{ id: itemId }],
+    } = await client.query(
+      `INSERT INTO inventory_items (name, category_id, cost_price, selling_price)
+       VALUES ($1, $2, 1, 1) RETURNING id`,
+      [`concurrency-test-${suffix}`, categoryId]
+    ));
+    await client.query(
+      "SELECT post_purchase(_item_id => $1, _qty_in => $2, _status => 'completed', _created_by => $3)",
+      [itemId, OPENING_STOCK, userId]
+    );
+
+    console.log(
+      `Firing ${PARALLEL_REQUESTS} parallel sales of ${QTY_PER_REQUEST} against stock of ${OPENING_STOCK}...`
+    );
+    const results = await Promise.allSettled(
+      Array.from({ length: PARALLEL_REQUESTS }, () =>
+        pool.query(
+          "SELECT post_stock_out(_item_id => $1, _transaction_type => 'sale', _qty_out => $2, _status => 'completed', _created_by => $3)",
+          [itemId, QTY_PER_REQUEST, userId]
+        )
+      )
+    );
+
+    const succeeded = results.filter((r) => r.status === "fulfilled").length;
+    const rejected = results.filter(
+      (r) => r.status === "rejected" && r.reason.code === "PT409"
+    ).length;
+    const unexpected = results.filter(
+      (r) => r.status === "rejected" && r.reason.code !== "PT409"
+    );
+
+    const {
+      rows: [{ stock }],
+    } = await client.query(
+      `SELECT COALESCE(SUM(qty_in) FILTER (WHERE status = 'completed'), 0)
+            - COALESCE(SUM(qty_out) FILTER (WHERE status IN ('completed', 'pending')), 0) AS stock
+       FROM inventory_transactions WHERE item_id = $1`,
+      [itemId]
+    );
+
+    console.log(
+      `Succeeded: ${succeeded}, rejected with 409: ${rejected}, remaining stock: ${stock}`
+    );
+
+    const expectedSuccesses = Math.floor(OPENING_STOCK / QTY_PER_REQUEST);
+    if (unexpected.length) {
+      failed = true;
+      console.error(
+        "❌ Unexpected errors:",
+        unexpected.map((r) => r.reason.message)
+      );
+    }
+    if (Number(stock) < 0) {
+      failed = true;
+      console.error("❌ Stock went below zero");
+    }
+    if (succeeded !== expectedSuccesses) {
+      failed = true;
+      console.error(
+        `❌ Expected ${expectedSuccesses} successful sales, got ${succeeded}`
+      );
+    }
+    if (!failed) console.log("✅ Stock never went below zero");
+  } catch (err) {
+    failed = true;
+    console.error("❌ Error running concurrency test:", err);
+  } finally {
+    if (itemId) {
+      await client.query(
+        "DELETE FROM inventory_transactions WHERE item_id = $1",
+        [itemId]
+      );
+      await client.query("DELETE FROM inventory_items WHERE id = $1", [itemId]);
+    }
+    if (categoryId) {
+      await client.query("DELETE FROM categories WHERE id = $1", [categoryId]);
+    }
+    await pool.end();
+    await client.end();
+  }
+
+  process.exit(failed ? 1 : 0);
+}
+
+run();
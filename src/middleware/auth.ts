@@ -1,6 +1,11 @@
 import { Request, Response, NextFunction } from "express";
 import jwt, { JwtPayload } from "jsonwebtoken";
 import { supabase } from "../supabaseClient";
+import { matchRoute } from "../utils/routeMatcher";
+import {
+  privilegeService,
+  UNRESTRICTED_ROLES,
+} from "../services/privilegeService";
 export async function authenticateSupabaseToken(
   req: Request,
   res: Response,
@@ -69,6 +74,72 @@ export function authorize(requiredRole: string[]) {
   };
 }
 
+/**
+ * Enforces role_privileges for the route being called. The request is matched
+ * against the routesJson catalogue; routes outside the catalogue are denied,
+ * so a route mounted behind this check must have an entry there.
+ */
+export async function authorizeRoutePrivilege(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (!req.user?.id) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const route = matchRoute(req.method, req.originalUrl);
+  if (!route) {
+    return res.status(403).json({
+      error: "Forbidden: this route has no privilege defined",
+    });
+  }
+
+  try {
+    const roleCode = await privilegeService.getUserRoleCode(req.user.id);
+    if (!roleCode) {
+      return res.status(403).json({
+        error: "No role is assigned to this user",
+        privilege: route.description,
+      });
+    }
+    if (UNRESTRICTED_ROLES.includes(roleCode)) return next();
+
+    const privileges = await privilegeService.getActivePrivileges(roleCode);
+    if (!privileges.has(route.description)) {
+      return res.status(403).json({
+        error: `Forbidden: missing privilege "${route.description}"`,
+        privilege: route.description,
+      });
+    }
+    next();
+  } catch (err) {
+    console.error("Error authorizing route privilege:", err);
+    res.status(500).json({ error: "Unable to verify privileges" });
+  }
+}
+
+/**
+ * Allow only users whose role in user_roles is one of roleCodes
+ */
+export function authorizeUserRole(roleCodes: string[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    try {
+      const roleCode = await privilegeService.getUserRoleCode(req.user.id);
+      if (!roleCode || !roleCodes.includes(roleCode)) {
+        return res.status(403).json({ error: "Forbidden" });
+      }
+      next();
+    } catch (err) {
+      console.error("Error authorizing user role:", err);
+      res.status(500).json({ error: "Unable to verify role" });
+    }
+  };
+}
+
 export async function authenticateSupabaseUserTeacherId(
   req: Request,
   res: Response,
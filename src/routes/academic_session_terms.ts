@@ -1,5 +1,10 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
+import {
+  TermRolloverInput,
+  termRolloverService,
+} from "../services/termRolloverService";
+import { sendDbError } from "../utils/dbError";
 
 const router = Router();
 
@@ -191,6 +196,98 @@ router.delete("/:id", async (req: Request, res: Response) => {
   res.status(204).send();
 });
 
+/**
+ * @openapi
+ * /api/v1/academic_session_terms/{id}/rollover:
+ *   post:
+ *     summary: Roll a term over to the next term
+ *     description: >
+ *       Copies the term's class entitlements to the target term, scaled by
+ *       quantity_change_percent and rounded; entitlements the target already
+ *       has are kept. Students of graduating classes are marked graduated,
+ *       then students move up per class_promotions (transferred, graduated
+ *       and archived students stay as they are), and the term is archived.
+ *       The target is an existing term or a new one given as target_term.
+ *       With dry_run the response lists every change and nothing is saved.
+ *     tags:
+ *       - AcademicSessionTerms
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The term being closed
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TermRolloverInput'
+ *     responses:
+ *       200:
+ *         description: Rollover made, or previewed when dry_run is true
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TermRollover'
+ *       400:
+ *         description: Invalid input, e.g. a class both promoted and graduating or a target term that does not start after this one
+ *       404:
+ *         description: Term or class not found
+ *       409:
+ *         description: The term is archived and has already been rolled over, or the new term's session and name are taken
+ */
+router.post("/:id/rollover", async (req: Request, res: Response) => {
+  const body: TermRolloverInput = req.body ?? {};
+  if (!body.target_term_id && !body.target_term) {
+    return res
+      .status(400)
+      .json({ error: "target_term_id or target_term is required" });
+  }
+  if (
+    body.target_term &&
+    (!body.target_term.session ||
+      !body.target_term.name ||
+      !body.target_term.start_date ||
+      !body.target_term.end_date)
+  ) {
+    return res.status(400).json({
+      error: "target_term needs session, name, start_date and end_date",
+    });
+  }
+  if (
+    body.quantity_change_percent !== undefined &&
+    (typeof body.quantity_change_percent !== "number" ||
+      !Number.isFinite(body.quantity_change_percent))
+  ) {
+    return res
+      .status(400)
+      .json({ error: "quantity_change_percent must be a number" });
+  }
+  if (
+    (body.class_promotions !== undefined &&
+      !Array.isArray(body.class_promotions)) ||
+    (body.graduating_class_ids !== undefined &&
+      !Array.isArray(body.graduating_class_ids))
+  ) {
+    return res.status(400).json({
+      error: "class_promotions and graduating_class_ids must be arrays",
+    });
+  }
+  try {
+    const rollover = await termRolloverService.rollover(
+      req.params.id,
+      body,
+      req.user?.id
+    );
+    res.json(rollover);
+  } catch (error) {
+    sendDbError(res, error, "rolling over academic session term");
+  }
+});
+
 export default router;
 
 /**
@@ -241,4 +338,164 @@ export default router;
  *         status:
  *           type: string
  *           enum: [active, inactive, archived]
+ *     TermRolloverInput:
+ *       type: object
+ *       properties:
+ *         target_term_id:
+ *           type: string
+ *           format: uuid
+ *           description: Existing term to roll over to
+ *         target_term:
+ *           type: object
+ *           description: Term to create, when target_term_id is left out
+ *           required:
+ *             - session
+ *             - name
+ *             - start_date
+ *             - end_date
+ *           properties:
+ *             session:
+ *               type: string
+ *             name:
+ *               type: string
+ *             start_date:
+ *               type: string
+ *               format: date
+ *             end_date:
+ *               type: string
+ *               format: date
+ *             status:
+ *               type: string
+ *               enum: [active, inactive]
+ *               default: active
+ *         quantity_change_percent:
+ *           type: number
+ *           default: 0
+ *           description: Change copied entitlement quantities by this percentage, e.g. -10 for 10% less
+ *         class_promotions:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required:
+ *               - from_class_id
+ *               - to_class_id
+ *             properties:
+ *               from_class_id:
+ *                 type: string
+ *                 format: uuid
+ *               to_class_id:
+ *                 type: string
+ *                 format: uuid
+ *         graduating_class_ids:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: uuid
+ *         dry_run:
+ *           type: boolean
+ *           default: false
+ *           description: Preview the changes without saving them
+ *     TermRollover:
+ *       type: object
+ *       properties:
+ *         dry_run:
+ *           type: boolean
+ *         source_term:
+ *           $ref: '#/components/schemas/AcademicSessionTerm'
+ *         target_term:
+ *           $ref: '#/components/schemas/AcademicSessionTerm'
+ *         target_term_created:
+ *           type: boolean
+ *         entitlements:
+ *           type: object
+ *           properties:
+ *             copied:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   class_id:
+ *                     type: string
+ *                     format: uuid
+ *                   class_name:
+ *                     type: string
+ *                   inventory_item_id:
+ *                     type: string
+ *                     format: uuid
+ *                   item_name:
+ *                     type: string
+ *                   source_quantity:
+ *                     type: integer
+ *                   quantity:
+ *                     type: integer
+ *             skipped:
+ *               type: array
+ *               description: Entitlements the target term already had
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   class_id:
+ *                     type: string
+ *                     format: uuid
+ *                   class_name:
+ *                     type: string
+ *                   inventory_item_id:
+ *                     type: string
+ *                     format: uuid
+ *                   item_name:
+ *                     type: string
+ *                   quantity:
+ *                     type: integer
+ *         graduations:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               student_id:
+ *                 type: string
+ *                 format: uuid
+ *               admission_number:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               class_id:
+ *                 type: string
+ *                 format: uuid
+ *               class_name:
+ *                 type: string
+ *         promotions:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               student_id:
+ *                 type: string
+ *                 format: uuid
+ *               admission_number:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               from_class_id:
+ *                 type: string
+ *                 format: uuid
+ *               from_class_name:
+ *                 type: string
+ *               to_class_id:
+ *                 type: string
+ *                 format: uuid
+ *               to_class_name:
+ *                 type: string
+ *         unchanged_classes:
+ *           type: array
+ *           description: Classes with students that are neither promoted nor graduating
+ *           items:
+ *             type: object
+ *             properties:
+ *               class_id:
+ *                 type: string
+ *                 format: uuid
+ *               class_name:
+ *                 type: string
+ *               students:
+ *                 type: integer
  */
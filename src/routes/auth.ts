@@ -1,5 +1,9 @@
 import { Router, Request, Response } from "express";
-import { authenticateSupabaseToken, getUser } from "../middleware/auth";
+import {
+  authenticateSupabaseToken,
+  authorizeRoutePrivilege,
+  getUser,
+} from "../middleware/auth";
 import fetch from "node-fetch";
 import { supabase } from "../supabaseClient";
 import {
@@ -287,6 +291,7 @@ router.get("/protected", getUser, (req: Request, res: Response) => {
 router.get(
   "/users",
   authenticateSupabaseToken,
+  authorizeRoutePrivilege,
   async (_req: Request, res: Response) => {
     try {
       const { data, error } = await supabase.auth.admin.listUsers();
@@ -349,6 +354,7 @@ router.get(
 router.post(
   "/create-user",
   authenticateSupabaseToken,
+  authorizeRoutePrivilege,
   async (req: Request, res: Response) => {
     const { email, password, name, role_code, email_confirm } = req.body;
 
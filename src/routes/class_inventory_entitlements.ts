@@ -1,5 +1,8 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
+import { kitService } from "../services/kitService";
+import { studentEntitlementService } from "../services/studentEntitlementService";
+import { sendDbError } from "../utils/dbError";
 
 const router = Router();
 
@@ -32,6 +35,14 @@ const router = Router();
  *           format: uuid
  *         required: false
  *         description: Filter by session_term_id
+ *       - in: query
+ *         name: expand_kits
+ *         schema:
+ *           type: boolean
+ *         required: false
+ *         description: >
+ *           Replace each kit entitlement with one per component, the quantity
+ *           multiplied by the component quantity and kit_item_id set to the kit
  *     responses:
  *       200:
  *         description: List of class inventory entitlements
@@ -60,7 +71,8 @@ const router = Router();
  *               $ref: '#/components/schemas/ClassInventoryEntitlement'
  */
 router.get("/", async (req: Request, res: Response) => {
-  const { class_id, inventory_item_id, session_term_id } = req.query;
+  const { class_id, inventory_item_id, session_term_id, expand_kits } =
+    req.query;
   let query = supabase.from("class_inventory_entitlements").select(`
     *,
     inventory_items(id, name, categories(id, name)),
@@ -73,7 +85,32 @@ router.get("/", async (req: Request, res: Response) => {
   if (session_term_id) query = query.eq("session_term_id", session_term_id);
   const { data, error } = await query;
   if (error) return res.status(500).json({ error: error.message });
-  res.json(data);
+  if (expand_kits !== "true" || !data?.length) return res.json(data);
+
+  // Component entitlements stand in for each kit's
+  try {
+    const kits = await kitService.getComponents([
+      ...new Set(data.map((entitlement: any) => entitlement.inventory_item_id)),
+    ]);
+    res.json(
+      data.flatMap((entitlement: any) => {
+        const components = kits.get(entitlement.inventory_item_id);
+        if (!components) return [entitlement];
+        return components.map((component) => ({
+          ...entitlement,
+          inventory_item_id: component.component_item_id,
+          quantity: entitlement.quantity * component.qty,
+          kit_item_id: entitlement.inventory_item_id,
+          inventory_items: {
+            id: component.component_item_id,
+            name: component.name,
+          },
+        }));
+      })
+    );
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
 });
 
 // Single create endpoint (unchanged)
@@ -278,6 +315,64 @@ router.delete("/:id", async (req: Request, res: Response) => {
     .json({ message: "Class inventory entitlement deleted successfully" });
 });
 
+/**
+ * @openapi
+ * /api/v1/class_inventory_entitlements/{class_id}/generate:
+ *   post:
+ *     summary: Generate students' eligibility rows from a class's entitlements
+ *     description: >
+ *       Creates a student inventory collection, eligible and not yet
+ *       received, for every active student in the class and every item the
+ *       class is entitled to in the term (kits as their components), for the
+ *       entitlement less what the student already received that term. Safe
+ *       to run again: only students and items without a row get one.
+ *       Students who moved class lose their pending rows in the old class
+ *       and get rows for the new one. Items with variants get no rows and are
+ *       listed in skipped_items, as the variant is chosen when handed over.
+ *     tags:
+ *       - ClassInventoryEntitlements
+ *     parameters:
+ *       - in: path
+ *         name: class_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: session_term_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rows generated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GeneratedEntitlementRows'
+ *       400:
+ *         description: session_term_id missing or invalid
+ *       404:
+ *         description: Class or session term not found
+ */
+router.post("/:class_id/generate", async (req: Request, res: Response) => {
+  const { session_term_id } = req.query;
+  if (!session_term_id) {
+    return res.status(400).json({ error: "session_term_id is required" });
+  }
+  try {
+    const generated = await studentEntitlementService.generate(
+      req.params.class_id,
+      session_term_id as string,
+      req.user?.id
+    );
+    res.json(generated);
+  } catch (error) {
+    sendDbError(res, error, "generating student entitlement rows");
+  }
+});
+
 export default router;
 
 /**
@@ -301,6 +396,10 @@ export default router;
  *           format: uuid
  *         quantity:
  *           type: integer
+ *         kit_item_id:
+ *           type: string
+ *           format: uuid
+ *           description: With expand_kits, the kit a component entitlement comes from
  *         notes:
  *           type: string
  *         created_by:
@@ -318,6 +417,27 @@ export default router;
  *           $ref: '#/components/schemas/AcademicSessionTerm'
  *         school_classes:
  *           $ref: '#/components/schemas/SchoolClass'
+ *     GeneratedEntitlementRows:
+ *       type: object
+ *       properties:
+ *         created:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/StudentInventoryCollection'
+ *         removed:
+ *           type: integer
+ *           description: Pending rows removed for students who moved class
+ *         skipped_items:
+ *           type: array
+ *           description: Entitled items with variants, which get no rows
+ *           items:
+ *             type: object
+ *             properties:
+ *               inventory_item_id:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
  *     ClassInventoryEntitlementInput:
  *       type: object
  *       required:
@@ -332,6 +452,10 @@ export default router;
  *         inventory_item_id:
  *           type: string
  *           format: uuid
+ *           description: >
+ *             May be a parent item such as a uniform; each student's collection
+ *             then records the variant given. May be a kit, entitling each
+ *             student to its components.
  *         session_term_id:
  *           type: string
  *           format: uuid
@@ -6,14 +6,24 @@ import inventoryTransactionsRouter from "./inventory_transactions";
 import { Router } from "express";
 import usersRouter from "./users";
 import authRouter from "./auth";
-import { authenticateSupabaseToken } from "../middleware/auth";
+import {
+  authenticateSupabaseToken,
+  authorizeRoutePrivilege,
+} from "../middleware/auth";
 import categoriesRouter from "./categories";
 import subCategoriesRouter from "./sub_categories";
 import brandsRouter from "./brands";
 import uomsRouter from "./uoms";
 import inventoryItemsRouter from "./inventory_items";
+import locationsRouter from "./locations";
+import inventoryLotsRouter from "./inventory_lots";
+import inventorySerialsRouter from "./inventory_serials";
+import scanSessionsRouter from "./scan_sessions";
 import suppliersRouter from "./suppliers";
 import supplierTransactionsRouter from "./supplier_transactions";
+import purchaseOrdersRouter from "./purchase_orders";
+import stockAdjustmentsRouter from "./stock_adjustments";
+import stockTakesRouter from "./stock_takes";
 import academicSessionTermsRouter from "./academic_session_terms";
 import classInventoryEntitlementsRouter from "./class_inventory_entitlements";
 import studentInventoryLogRouter from "./student_inventory_log";
@@ -27,53 +37,43 @@ import roleMenusRouter from "./role_menus";
 
 const router = Router();
 
-router.use("/users", authenticateSupabaseToken, usersRouter);
+// Authenticate the caller, then enforce role_privileges for the matched route
+const protect = [authenticateSupabaseToken, authorizeRoutePrivilege];
+
+router.use("/users", protect, usersRouter);
 router.use("/auth", authRouter);
-router.use("/categories", authenticateSupabaseToken, categoriesRouter);
-router.use("/sub_categories", authenticateSupabaseToken, subCategoriesRouter);
-router.use("/brands", authenticateSupabaseToken, brandsRouter);
-router.use("/uoms", authenticateSupabaseToken, uomsRouter);
-router.use("/inventory_items", authenticateSupabaseToken, inventoryItemsRouter);
-router.use("/suppliers", authenticateSupabaseToken, suppliersRouter);
-router.use(
-  "/supplier_transactions",
-  authenticateSupabaseToken,
-  supplierTransactionsRouter
-);
-router.use(
-  "/inventory_transactions",
-  authenticateSupabaseToken,
-  inventoryTransactionsRouter
-);
-router.use("/school_classes", authenticateSupabaseToken, schoolClassesRouter);
-router.use("/students", authenticateSupabaseToken, studentsRouter);
+router.use("/categories", protect, categoriesRouter);
+router.use("/sub_categories", protect, subCategoriesRouter);
+router.use("/brands", protect, brandsRouter);
+router.use("/uoms", protect, uomsRouter);
+router.use("/inventory_items", protect, inventoryItemsRouter);
+router.use("/locations", protect, locationsRouter);
+router.use("/inventory_lots", protect, inventoryLotsRouter);
+router.use("/inventory_serials", protect, inventorySerialsRouter);
+router.use("/scan_sessions", protect, scanSessionsRouter);
+router.use("/suppliers", protect, suppliersRouter);
+router.use("/supplier_transactions", protect, supplierTransactionsRouter);
+router.use("/purchase_orders", protect, purchaseOrdersRouter);
+router.use("/inventory_transactions", protect, inventoryTransactionsRouter);
+router.use("/stock_adjustments", protect, stockAdjustmentsRouter);
+router.use("/stock_takes", protect, stockTakesRouter);
+router.use("/school_classes", protect, schoolClassesRouter);
+router.use("/students", protect, studentsRouter);
 
-router.use(
-  "/academic_session_terms",
-  authenticateSupabaseToken,
-  academicSessionTermsRouter
-);
+router.use("/academic_session_terms", protect, academicSessionTermsRouter);
 router.use(
   "/class_inventory_entitlements",
-  authenticateSupabaseToken,
+  protect,
   classInventoryEntitlementsRouter
 );
-router.use(
-  "/student_inventory_collection",
-  authenticateSupabaseToken,
-  studentInventoryLogRouter
-);
-router.use(
-  "/inventory_summary",
-  authenticateSupabaseToken,
-  inventorySummaryRouter
-);
+router.use("/student_inventory_collection", protect, studentInventoryLogRouter);
+router.use("/inventory_summary", protect, inventorySummaryRouter);
 router.use("/notifications", notificationsRouter);
-router.use("/class_teachers", authenticateSupabaseToken, classTeachersRouter);
-router.use("/roles", authenticateSupabaseToken, rolesRouter);
-router.use("/role_privileges", authenticateSupabaseToken, rolePrivilegesRouter);
-router.use("/menus", authenticateSupabaseToken, menusRouter);
-router.use("/role_menus", authenticateSupabaseToken, roleMenusRouter);
-router.use("/user_roles", userRolesRouter);
+router.use("/class_teachers", protect, classTeachersRouter);
+router.use("/roles", protect, rolesRouter);
+router.use("/role_privileges", protect, rolePrivilegesRouter);
+router.use("/menus", protect, menusRouter);
+router.use("/role_menus", protect, roleMenusRouter);
+router.use("/user_roles", protect, userRolesRouter);
 
 export default router;
@@ -1,8 +1,28 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
+import { COSTING_METHODS, costingService } from "../services/costingService";
+import { inventoryService } from "../services/inventoryService";
+import { replenishmentService } from "../services/replenishmentService";
+import { uomConversionService } from "../services/uomConversionService";
+import {
+  itemVariantService,
+  validateVariantAttributes,
+} from "../services/itemVariantService";
+import {
+  itemLabelService,
+  LABEL_TEMPLATE_NAMES,
+} from "../services/itemLabelService";
+import { labelsToPdf } from "../services/itemLabelExport";
+import { kitService } from "../services/kitService";
+import { dbErrorStatus, sendDbError } from "../utils/dbError";
 
 const router = Router();
 
+const MAX_LABEL_ITEMS = 500;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
  * @openapi
  * /api/v1/inventory_items:
@@ -32,6 +52,35 @@ const router = Router();
  *           format: uuid
  *         required: false
  *         description: Filter by brand ID
+ *       - in: query
+ *         name: location_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Only items held at this location, with current_stock counted there
+ *       - in: query
+ *         name: by_location
+ *         schema:
+ *           type: boolean
+ *         required: false
+ *         description: Add each item's stock per location alongside its all-location current_stock
+ *       - in: query
+ *         name: include_variants
+ *         schema:
+ *           type: boolean
+ *         required: false
+ *         description: >
+ *           List variants alongside their parents. By default only parent and
+ *           standalone items are listed, with a parent's stock rolled up from
+ *           its variants.
+ *       - in: query
+ *         name: parent_item_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Only the variants of this item
  *     responses:
  *       200:
  *         description: List of inventory items
@@ -78,6 +127,36 @@ const router = Router();
  *                 type: string
  *               low_stock_threshold:
  *                 type: integer
+ *               reorder_point:
+ *                 type: number
+ *                 description: Stock level at which to reorder; overrides low_stock_threshold for replenishment
+ *               reorder_qty:
+ *                 type: number
+ *                 description: Minimum quantity to order when reordering
+ *               preferred_supplier_id:
+ *                 type: string
+ *                 format: uuid
+ *               costing_method:
+ *                 type: string
+ *                 enum: [weighted_average, fifo]
+ *                 nullable: true
+ *                 description: Overrides INVENTORY_COSTING_METHOD for this item
+ *               is_serialized:
+ *                 type: boolean
+ *                 description: Track each unit by serial number; purchases and issues must list the serials
+ *               purchase_uom_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Unit the item is usually bought in; uom_id, or a unit it has a conversion for
+ *               parent_item_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Make the item a variant of this item, which must hold no stock of its own
+ *               variant_attributes:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Required for variants, e.g. {"size":"M","colour":"Navy"}
  *               cost_price:
  *                 type: number
  *               selling_price:
@@ -94,19 +173,45 @@ const router = Router();
  *               $ref: '#/components/schemas/InventoryItem'
  */
 router.get("/", async (req: Request, res: Response) => {
-  const { category_id, sub_category_id, brand_id } = req.query;
+  const {
+    category_id,
+    sub_category_id,
+    brand_id,
+    location_id,
+    by_location,
+    include_variants,
+    parent_item_id,
+  } = req.query;
   let query = supabase
     // .from("inventory_items")
-    .from("inventory_item_summary")
+    .from(location_id ? "inventory_location_summary" : "inventory_item_summary")
     .select(
-      `*, categories(id, name),sub_categories(id, name), uoms(id, name), brands(id, name)`
+      `*, categories(id, name),sub_categories(id, name), uoms!uom_id(id, name), brands(id, name)`
     );
   if (category_id) query = query.eq("category_id", category_id);
   if (sub_category_id) query = query.eq("sub_category_id", sub_category_id);
   if (brand_id) query = query.eq("brand_id", brand_id);
+  if (location_id) query = query.eq("location_id", location_id);
+  if (parent_item_id) query = query.eq("parent_item_id", parent_item_id);
+  else if (include_variants !== "true")
+    query = query.is("parent_item_id", null);
   const { data, error } = await query;
   if (error) return res.status(500).json({ error: error.message });
-  res.json(data);
+
+  if (location_id || by_location !== "true" || !data?.length) {
+    return res.json(data);
+  }
+  try {
+    const stock = await inventoryService.getLocationStock();
+    res.json(
+      data.map((item: any) => ({
+        ...item,
+        locations: stock.filter((row) => row.item_id === item.id),
+      }))
+    );
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
 });
 
 router.post("/", async (req: Request, res: Response) => {
@@ -121,10 +226,37 @@ router.post("/", async (req: Request, res: Response) => {
     cost_price,
     selling_price,
     low_stock_threshold: low_stock_threshold = 0,
+    reorder_point,
+    reorder_qty,
+    preferred_supplier_id,
+    costing_method,
+    is_serialized,
+    purchase_uom_id,
+    parent_item_id,
+    variant_attributes,
   } = req.body;
 
   if (!name || !category_id)
     return res.status(400).json({ error: "Missing required fields" });
+  if (costing_method && !COSTING_METHODS.includes(costing_method))
+    return res.status(400).json({
+      error: `costing_method must be one of: ${COSTING_METHODS.join(", ")}`,
+    });
+  if (purchase_uom_id) {
+    try {
+      await uomConversionService.assertPurchaseUom(
+        null,
+        purchase_uom_id,
+        uom_id
+      );
+    } catch (error: any) {
+      return res.status(400).json({ error: error.message });
+    }
+  }
+  if (parent_item_id) {
+    const invalid = validateVariantAttributes(variant_attributes);
+    if (invalid) return res.status(400).json({ error: invalid });
+  }
   const { data, error } = await supabase
     .from("inventory_items")
     .insert([
@@ -140,14 +272,229 @@ router.post("/", async (req: Request, res: Response) => {
         selling_price,
         created_by: req.user?.id || "",
         low_stock_threshold,
+        reorder_point,
+        reorder_qty,
+        preferred_supplier_id,
+        costing_method,
+        is_serialized,
+        purchase_uom_id,
+        parent_item_id,
+        variant_attributes,
       },
     ])
     .select()
     .single();
-  if (error) return res.status(500).json({ error: error.message });
+  if (error) return sendDbError(res, error, "creating inventory item");
   res.status(201).json(data);
 });
 
+/**
+ * @openapi
+ * /api/v1/inventory_items/lookup:
+ *   get:
+ *     summary: Look up an inventory item by barcode or SKU
+ *     description: >
+ *       Resolves a scanned code to the item with its live stock. The code is
+ *       matched against barcodes, then SKUs, then registered serial numbers.
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: query
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: by_location
+ *         schema:
+ *           type: boolean
+ *         description: Add the item's stock per location
+ *     responses:
+ *       200:
+ *         description: The matching item
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/InventoryItem'
+ *                 - type: object
+ *                   properties:
+ *                     matched_on:
+ *                       type: string
+ *                       enum: [barcode, sku, serial_number]
+ *                     serial:
+ *                       $ref: '#/components/schemas/InventorySerial'
+ *                     locations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/LocationStock'
+ *       400:
+ *         description: code is required
+ *       404:
+ *         description: No item matches the code
+ */
+router.get("/lookup", async (req: Request, res: Response) => {
+  const code = typeof req.query.code === "string" ? req.query.code.trim() : "";
+  if (!code) return res.status(400).json({ error: "code is required" });
+  try {
+    const item = await inventoryService.lookupItemByCode(code, {
+      by_location: req.query.by_location === "true",
+    });
+    if (!item) {
+      return res.status(404).json({ error: `No item matches code ${code}` });
+    }
+    res.json(item);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_items/label_templates:
+ *   get:
+ *     summary: Get the label stocks labels can be printed on
+ *     tags:
+ *       - InventoryItems
+ *     responses:
+ *       200:
+ *         description: Label templates; sizes are in millimetres
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LabelTemplate'
+ */
+router.get("/label_templates", (_req: Request, res: Response) => {
+  res.json(itemLabelService.getTemplates());
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_items/labels:
+ *   get:
+ *     summary: Print barcode and QR labels for inventory items
+ *     description: >
+ *       Each label shows the item name, a barcode (EAN-13/EAN-8 when the code
+ *       is a valid EAN, Code128 otherwise), a QR code of the item id and the
+ *       selling price per unit. Items without a barcode are first assigned an
+ *       in-store EAN-13 starting with 20, which is saved on the item.
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: query
+ *         name: ids
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Comma-separated item ids, printed in this order
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, pdf]
+ *           default: json
+ *       - in: query
+ *         name: template
+ *         schema:
+ *           type: string
+ *           enum: [a4_24, a4_40, thermal]
+ *         description: Label stock; defaults to LABEL_TEMPLATE, else a4_24
+ *       - in: query
+ *         name: copies
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *         description: Labels per item
+ *       - in: query
+ *         name: barcode_from
+ *         schema:
+ *           type: string
+ *           enum: [barcode, sku]
+ *           default: barcode
+ *         description: Encode the SKU instead of the barcode where the item has one
+ *     responses:
+ *       200:
+ *         description: Label contents, or the printable PDF
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ItemLabel'
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid ids, format, template or copies
+ *       404:
+ *         description: Some of the items were not found
+ */
+router.get("/labels", async (req: Request, res: Response) => {
+  const ids = String(req.query.ids ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const format = ((req.query.format as string) || "json").toLowerCase();
+  const copies = req.query.copies === undefined ? 1 : Number(req.query.copies);
+  const barcodeFrom = (req.query.barcode_from as string) || "barcode";
+
+  if (!ids.length) return res.status(400).json({ error: "ids is required" });
+  if (ids.length > MAX_LABEL_ITEMS) {
+    return res.status(400).json({
+      error: `At most ${MAX_LABEL_ITEMS} items can be labelled at once`,
+    });
+  }
+  if (ids.some((id) => !UUID_PATTERN.test(id))) {
+    return res.status(400).json({ error: "ids must be item UUIDs" });
+  }
+  if (!["json", "pdf"].includes(format)) {
+    return res.status(400).json({ error: "format must be json or pdf" });
+  }
+  if (!Number.isInteger(copies) || copies < 1 || copies > 100) {
+    return res
+      .status(400)
+      .json({ error: "copies must be a whole number from 1 to 100" });
+  }
+  if (barcodeFrom !== "barcode" && barcodeFrom !== "sku") {
+    return res
+      .status(400)
+      .json({ error: "barcode_from must be barcode or sku" });
+  }
+  const template = itemLabelService.getTemplate(req.query.template as string);
+  if (!template) {
+    return res.status(400).json({
+      error: `template must be one of ${LABEL_TEMPLATE_NAMES.join(", ")}`,
+    });
+  }
+
+  try {
+    const uniqueIds = Array.from(new Set(ids));
+    const { labels, missing } = await itemLabelService.getLabels(uniqueIds, {
+      barcode_from: barcodeFrom,
+    });
+    if (missing.length) {
+      return res
+        .status(404)
+        .json({ error: `Inventory items not found: ${missing.join(", ")}` });
+    }
+    if (format === "json") return res.json(labels);
+
+    const pdf = await labelsToPdf(labels, template, copies);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="item-labels-${template.name}.pdf"`
+    );
+    res.send(pdf);
+  } catch (error) {
+    console.error("Error printing item labels:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 /**
  * @openapi
  * /api/v1/inventory_items/{id}:
@@ -207,6 +554,36 @@ router.post("/", async (req: Request, res: Response) => {
  *                 type: string
  *               low_stock_threshold:
  *                 type: integer
+ *               reorder_point:
+ *                 type: number
+ *                 description: Stock level at which to reorder; overrides low_stock_threshold for replenishment
+ *               reorder_qty:
+ *                 type: number
+ *                 description: Minimum quantity to order when reordering
+ *               preferred_supplier_id:
+ *                 type: string
+ *                 format: uuid
+ *               costing_method:
+ *                 type: string
+ *                 enum: [weighted_average, fifo]
+ *                 nullable: true
+ *                 description: Overrides INVENTORY_COSTING_METHOD for this item
+ *               is_serialized:
+ *                 type: boolean
+ *                 description: Track each unit by serial number; purchases and issues must list the serials
+ *               purchase_uom_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Unit the item is usually bought in; uom_id, or a unit it has a conversion for
+ *               parent_item_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Make the item a variant of this item, which must hold no stock of its own
+ *               variant_attributes:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 description: Required for variants, e.g. {"size":"M","colour":"Navy"}
  *               cost_price:
  *                 type: number
  *               selling_price:
@@ -263,7 +640,30 @@ router.put("/:id", async (req: Request, res: Response) => {
     cost_price,
     selling_price,
     created_by,
+    reorder_point,
+    reorder_qty,
+    preferred_supplier_id,
+    costing_method,
+    is_serialized,
+    purchase_uom_id,
+    parent_item_id,
+    variant_attributes,
   } = req.body;
+  if (costing_method && !COSTING_METHODS.includes(costing_method))
+    return res.status(400).json({
+      error: `costing_method must be one of: ${COSTING_METHODS.join(", ")}`,
+    });
+  if (purchase_uom_id) {
+    try {
+      await uomConversionService.assertPurchaseUom(id, purchase_uom_id, uom_id);
+    } catch (error: any) {
+      return sendDbError(res, error, "checking purchase unit");
+    }
+  }
+  if (variant_attributes !== undefined) {
+    const invalid = validateVariantAttributes(variant_attributes);
+    if (invalid) return res.status(400).json({ error: invalid });
+  }
   const { data, error } = await supabase
     .from("inventory_items")
     .update({
@@ -277,10 +677,20 @@ router.put("/:id", async (req: Request, res: Response) => {
       cost_price,
       selling_price,
       created_by,
+      reorder_point,
+      reorder_qty,
+      preferred_supplier_id,
+      costing_method,
+      is_serialized,
+      purchase_uom_id,
+      parent_item_id,
+      variant_attributes,
     })
     .eq("id", id)
     .select()
     .single();
+  if (dbErrorStatus(error))
+    return sendDbError(res, error, "updating inventory item");
   if (error)
     return res
       .status(404)
@@ -309,43 +719,644 @@ router.delete("/:id", async (req: Request, res: Response) => {
   res.status(200).json({ message: "Inventory item deleted successfully" });
 });
 
-export default router;
-
 /**
  * @openapi
- * components:
- *   schemas:
- *     InventoryItem:
- *       type: object
- *       properties:
- *         id:
+ * /api/v1/inventory_items/{id}/recalculate_costs:
+ *   post:
+ *     summary: Recalculate stock-out costs for an inventory item
+ *     description: Costs every stock-out again from the item's transactions in date order, using its costing method (weighted average or FIFO), and rewrites out_cost where it changed. The item is locked while this runs. Use after inserting a back-dated purchase.
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
  *           type: string
  *           format: uuid
- *         sku:
- *           type: string
- *         name:
- *           type: string
- *         category_id:
+ *     responses:
+ *       200:
+ *         description: Costs recalculated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CostRecalculationResult'
+ *       404:
+ *         description: Inventory item not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post("/:id/recalculate_costs", async (req: Request, res: Response) => {
+  const { id } = req.params;
+  try {
+    const result = await costingService.recalculateItemCosts(id);
+    res.json(result);
+  } catch (error: any) {
+    return sendDbError(res, error, "recalculating item costs", {
+      P0002: "Inventory item not found",
+    });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_items/{id}/reorder_points:
+ *   get:
+ *     summary: Get the reorder point overrides for an inventory item
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
  *           type: string
  *           format: uuid
- *         sub_category_id:
+ *     responses:
+ *       200:
+ *         description: Reorder point overrides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ItemReorderPoint'
+ *   put:
+ *     summary: Set a reorder point for a location and/or term
+ *     description: >
+ *       Replaces the override already set for the same location and term.
+ *       Leave both out to override the item's own reorder point.
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
  *           type: string
  *           format: uuid
- *         brand_id:
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reorder_point
+ *             properties:
+ *               location_id:
+ *                 type: string
+ *                 format: uuid
+ *               session_term_id:
+ *                 type: string
+ *                 format: uuid
+ *               reorder_point:
+ *                 type: number
+ *               reorder_qty:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Reorder point saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ItemReorderPoint'
+ *       400:
+ *         description: Invalid input or unknown item, location or term
+ */
+router.get("/:id/reorder_points", async (req: Request, res: Response) => {
+  try {
+    res.json(await replenishmentService.listReorderPoints(req.params.id));
+  } catch (error) {
+    console.error("Error fetching reorder points:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.put("/:id/reorder_points", async (req: Request, res: Response) => {
+  const { location_id, session_term_id, reorder_point, reorder_qty } = req.body;
+  if (!(Number(reorder_point) >= 0)) {
+    return res.status(400).json({ error: "reorder_point must be 0 or more" });
+  }
+  if (reorder_qty !== undefined && !(Number(reorder_qty) >= 0)) {
+    return res.status(400).json({ error: "reorder_qty must be 0 or more" });
+  }
+  try {
+    const saved = await replenishmentService.saveReorderPoint(req.params.id, {
+      location_id,
+      session_term_id,
+      reorder_point: Number(reorder_point),
+      reorder_qty: reorder_qty === undefined ? undefined : Number(reorder_qty),
+      created_by: req.user?.id,
+    });
+    res.json(saved);
+  } catch (error) {
+    sendDbError(res, error, "saving reorder point");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_items/{id}/reorder_points/{reorderPointId}:
+ *   delete:
+ *     summary: Remove a reorder point override
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
  *           type: string
  *           format: uuid
- *         uom_id:
+ *       - in: path
+ *         name: reorderPointId
+ *         required: true
+ *         schema:
  *           type: string
  *           format: uuid
- *         barcode:
- *           type: string
- *         cost_price:
- *           type: number
- *         selling_price:
- *           type: number
- *         low_stock_threshold:
- *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reorder point removed
+ *       404:
+ *         description: Reorder point not found
+ */
+router.delete(
+  "/:id/reorder_points/:reorderPointId",
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await replenishmentService.deleteReorderPoint(
+        req.params.id,
+        req.params.reorderPointId
+      );
+      if (!deleted) {
+        return res.status(404).json({ error: "Reorder point not found" });
+      }
+      res.json({ message: "Reorder point deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting reorder point:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/v1/inventory_items/{id}/uom_conversions:
+ *   get:
+ *     summary: Get the units an inventory item can be bought in
+ *     description: >
+ *       Each conversion gives how many of the item's base unit (uom_id) make
+ *       one of another unit, e.g. 1 carton = 48 pieces. Stock, costs and
+ *       issues are always in the base unit.
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: UOM conversions, smallest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ItemUomConversion'
+ *   put:
+ *     summary: Set the conversion from a unit to the item's base unit
+ *     description: >
+ *       Replaces the factor already set for the same unit. Purchases already
+ *       posted keep the base quantity they were recorded with.
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - uom_id
+ *               - factor
+ *             properties:
+ *               uom_id:
+ *                 type: string
+ *                 format: uuid
+ *               factor:
+ *                 type: number
+ *                 description: Base units in one uom_id
+ *     responses:
+ *       200:
+ *         description: Conversion saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ItemUomConversion'
+ *       400:
+ *         description: Invalid input, unknown unit, or the item's base unit
+ *       404:
+ *         description: Inventory item not found
+ */
+router.get("/:id/uom_conversions", async (req: Request, res: Response) => {
+  try {
+    res.json(await uomConversionService.list(req.params.id));
+  } catch (error) {
+    console.error("Error fetching UOM conversions:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.put("/:id/uom_conversions", async (req: Request, res: Response) => {
+  const { uom_id, factor } = req.body;
+  if (!uom_id) return res.status(400).json({ error: "uom_id is required" });
+  if (!(Number(factor) > 0)) {
+    return res.status(400).json({ error: "factor must be greater than 0" });
+  }
+  try {
+    const saved = await uomConversionService.save(req.params.id, {
+      uom_id,
+      factor: Number(factor),
+      created_by: req.user?.id,
+    });
+    res.json(saved);
+  } catch (error) {
+    sendDbError(res, error, "saving UOM conversion");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_items/{id}/uom_conversions/{conversionId}:
+ *   delete:
+ *     summary: Remove a UOM conversion
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: conversionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Conversion removed
+ *       404:
+ *         description: Conversion not found
+ *       409:
+ *         description: The unit is the item's purchase unit
+ */
+router.delete(
+  "/:id/uom_conversions/:conversionId",
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await uomConversionService.remove(
+        req.params.id,
+        req.params.conversionId
+      );
+      if (!deleted) {
+        return res.status(404).json({ error: "UOM conversion not found" });
+      }
+      res.json({ message: "UOM conversion deleted successfully" });
+    } catch (error) {
+      sendDbError(res, error, "deleting UOM conversion");
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/v1/inventory_items/{id}/variants:
+ *   get:
+ *     summary: Get the variants of an inventory item with their stock
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Variants, by name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ItemVariant'
+ *   post:
+ *     summary: Add a variant to an inventory item
+ *     description: >
+ *       The variant takes the item's category, brand, unit, prices, costing
+ *       method, serial tracking and reorder settings. Stock is then held by
+ *       the variants, so an item with stock movements of its own cannot take
+ *       variants. Class entitlements can name the parent item; collections
+ *       record the variant handed over.
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - variant_attributes
+ *             properties:
+ *               variant_attributes:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: string
+ *                 example: {"size": "M", "colour": "Navy"}
+ *               name:
+ *                 type: string
+ *                 description: Defaults to the item name followed by the attribute values
+ *               sku:
+ *                 type: string
+ *               barcode:
+ *                 type: string
+ *               cost_price:
+ *                 type: number
+ *               selling_price:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Variant created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InventoryItem'
+ *       400:
+ *         description: Invalid attributes, or the item is itself a variant
+ *       404:
+ *         description: Inventory item not found
+ *       409:
+ *         description: >
+ *           A sibling has the same attributes, the SKU or barcode is taken, or
+ *           the item has stock movements of its own
+ */
+router.get("/:id/variants", async (req: Request, res: Response) => {
+  try {
+    res.json(await itemVariantService.list(req.params.id));
+  } catch (error) {
+    console.error("Error fetching item variants:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/:id/variants", async (req: Request, res: Response) => {
+  const { variant_attributes, name, sku, barcode, cost_price, selling_price } =
+    req.body;
+  const invalid = validateVariantAttributes(variant_attributes);
+  if (invalid) return res.status(400).json({ error: invalid });
+  try {
+    const variant = await itemVariantService.create(req.params.id, {
+      variant_attributes,
+      name,
+      sku,
+      barcode,
+      cost_price,
+      selling_price,
+      created_by: req.user?.id,
+    });
+    res.status(201).json(variant);
+  } catch (error) {
+    sendDbError(res, error, "creating item variant", {
+      "23505":
+        "A variant with these attributes, or an item with this SKU or barcode, already exists",
+    });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_items/{id}/kit_components:
+ *   get:
+ *     summary: Get the components of a kit
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Components, by name; empty when the item is not a kit
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/KitComponent'
+ *   put:
+ *     summary: Set the components of a kit
+ *     description: >
+ *       Replaces the item's components, making it a kit such as a starter
+ *       pack. A kit holds no stock: entitling, distributing or collecting it
+ *       does so for each component, the kit quantity times the component
+ *       quantity. Components must be stocked items, not kits, items with
+ *       variants or serialized items. An empty list makes the item a plain
+ *       item again.
+ *     tags:
+ *       - InventoryItems
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - components
+ *             properties:
+ *               components:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - component_item_id
+ *                     - qty
+ *                   properties:
+ *                     component_item_id:
+ *                       type: string
+ *                       format: uuid
+ *                     qty:
+ *                       type: integer
+ *                       minimum: 1
+ *     responses:
+ *       200:
+ *         description: Components saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/KitComponent'
+ *       400:
+ *         description: Invalid components, or the item cannot be a kit
+ *       404:
+ *         description: Inventory item not found
+ *       409:
+ *         description: The item has stock movements of its own
+ */
+router.get("/:id/kit_components", async (req: Request, res: Response) => {
+  try {
+    res.json(await kitService.list(req.params.id));
+  } catch (error) {
+    console.error("Error fetching kit components:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.put("/:id/kit_components", async (req: Request, res: Response) => {
+  const { components } = req.body;
+  if (!Array.isArray(components)) {
+    return res.status(400).json({ error: "components must be an array" });
+  }
+  if (
+    components.some(
+      (component: any) =>
+        !component?.component_item_id ||
+        !Number.isInteger(Number(component.qty)) ||
+        Number(component.qty) <= 0
+    )
+  ) {
+    return res.status(400).json({
+      error: "Each component needs a component_item_id and a whole qty above 0",
+    });
+  }
+  try {
+    const saved = await kitService.save(
+      req.params.id,
+      components.map((component: any) => ({
+        component_item_id: component.component_item_id,
+        qty: Number(component.qty),
+      })),
+      req.user?.id
+    );
+    res.json(saved);
+  } catch (error) {
+    sendDbError(res, error, "saving kit components");
+  }
+});
+
+export default router;
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     InventoryItem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         sku:
+ *           type: string
+ *         name:
+ *           type: string
+ *         category_id:
+ *           type: string
+ *           format: uuid
+ *         sub_category_id:
+ *           type: string
+ *           format: uuid
+ *         brand_id:
+ *           type: string
+ *           format: uuid
+ *         uom_id:
+ *           type: string
+ *           format: uuid
+ *         barcode:
+ *           type: string
+ *         cost_price:
+ *           type: number
+ *         selling_price:
+ *           type: number
+ *         low_stock_threshold:
+ *           type: integer
+ *           nullable: true
+ *         reorder_point:
+ *           type: number
+ *           nullable: true
+ *         reorder_qty:
+ *           type: number
  *           nullable: true
+ *         preferred_supplier_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         costing_method:
+ *           type: string
+ *           enum: [weighted_average, fifo]
+ *           nullable: true
+ *         is_serialized:
+ *           type: boolean
+ *         purchase_uom_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: >
+ *             Unit the item is usually bought in. Replenishment orders it in
+ *             whole purchase units.
+ *         parent_item_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Set on variants
+ *         variant_attributes:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *           description: What sets a variant apart from its siblings, e.g. size and colour
+ *         has_variants:
+ *           type: boolean
+ *           description: >
+ *             Parent items hold stock only through their variants; their
+ *             current_stock and costs roll the variants up
+ *         is_kit:
+ *           type: boolean
+ *           description: >
+ *             Kits hold no stock; they are issued as their components (see
+ *             kit_components)
  *         created_by:
  *           type: string
  *           format: uuid
@@ -377,6 +1388,56 @@ export default router;
  *           $ref: '#/components/schemas/UOM'
  *         brands:
  *           $ref: '#/components/schemas/Brand'
+ *     ItemLabel:
+ *       type: object
+ *       properties:
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         sku:
+ *           type: string
+ *           nullable: true
+ *         code:
+ *           type: string
+ *           description: Value encoded in the barcode
+ *         symbology:
+ *           type: string
+ *           enum: [ean13, ean8, code128]
+ *         uom_symbol:
+ *           type: string
+ *           nullable: true
+ *         selling_price:
+ *           type: number
+ *     LabelTemplate:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           enum: [a4_24, a4_40, thermal]
+ *         description:
+ *           type: string
+ *         page_width_mm:
+ *           type: number
+ *         page_height_mm:
+ *           type: number
+ *         columns:
+ *           type: integer
+ *         rows:
+ *           type: integer
+ *         label_width_mm:
+ *           type: number
+ *         label_height_mm:
+ *           type: number
+ *         margin_top_mm:
+ *           type: number
+ *         margin_left_mm:
+ *           type: number
+ *         gap_x_mm:
+ *           type: number
+ *         gap_y_mm:
+ *           type: number
  *     Category:
  *       type: object
  *       properties:
@@ -409,4 +1470,159 @@ export default router;
  *           format: uuid
  *         name:
  *           type: string
+ *     ItemVariant:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         sku:
+ *           type: string
+ *           nullable: true
+ *         barcode:
+ *           type: string
+ *           nullable: true
+ *         variant_attributes:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *         cost_price:
+ *           type: number
+ *         selling_price:
+ *           type: number
+ *         low_stock_threshold:
+ *           type: integer
+ *         current_stock:
+ *           type: number
+ *         total_in_cost:
+ *           type: number
+ *         total_out_cost:
+ *           type: number
+ *     KitComponent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         kit_item_id:
+ *           type: string
+ *           format: uuid
+ *         component_item_id:
+ *           type: string
+ *           format: uuid
+ *         qty:
+ *           type: integer
+ *           description: Units of the component in one kit
+ *         inventory_items:
+ *           type: object
+ *           description: The component item
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             sku:
+ *               type: string
+ *             cost_price:
+ *               type: number
+ *             selling_price:
+ *               type: number
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     ItemUomConversion:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         uom_id:
+ *           type: string
+ *           format: uuid
+ *         factor:
+ *           type: number
+ *           description: Base units of the item in one uom_id
+ *         uoms:
+ *           $ref: '#/components/schemas/UOM'
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     ItemReorderPoint:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         session_term_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         reorder_point:
+ *           type: number
+ *         reorder_qty:
+ *           type: number
+ *         locations:
+ *           $ref: '#/components/schemas/Location'
+ *         academic_session_terms:
+ *           $ref: '#/components/schemas/AcademicSessionTerm'
+ *         created_by:
+ *           type: string
+ *           format: uuid
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     CostRecalculationResult:
+ *       type: object
+ *       properties:
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         costing_method:
+ *           type: string
+ *           enum: [weighted_average, fifo]
+ *         transactions_checked:
+ *           type: integer
+ *         transactions_updated:
+ *           type: integer
+ *         updated:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *                 format: uuid
+ *               transaction_type:
+ *                 type: string
+ *               transaction_date:
+ *                 type: string
+ *                 format: date-time
+ *               qty_out:
+ *                 type: number
+ *               previous_out_cost:
+ *                 type: number
+ *               out_cost:
+ *                 type: number
  */
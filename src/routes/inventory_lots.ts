@@ -0,0 +1,266 @@
+import { Router, Request, Response } from "express";
+import { inventoryLotService } from "../services/inventoryLotService";
+
+const router = Router();
+
+/**
+ * Parse an optional whole number of days from a query or body value
+ * @returns The number, undefined when absent, or NaN when invalid
+ */
+function parseDays(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 0 ? days : NaN;
+}
+
+/**
+ * @openapi
+ * /api/v1/inventory_lots:
+ *   get:
+ *     summary: Get stock held per lot and location
+ *     description: Lots are listed earliest expiry first, the order stock-outs draw them in.
+ *     tags:
+ *       - InventoryLots
+ *     parameters:
+ *       - in: query
+ *         name: item_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: location_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: include_empty
+ *         schema:
+ *           type: boolean
+ *         description: Include lots that have been fully used
+ *     responses:
+ *       200:
+ *         description: Lot balances
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/LotBalance'
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { item_id, location_id, include_empty } = req.query as Record<
+    string,
+    string
+  >;
+  try {
+    res.json(
+      await inventoryLotService.list({
+        item_id,
+        location_id,
+        include_empty: include_empty === "true",
+      })
+    );
+  } catch (error) {
+    console.error("Error fetching inventory lots:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_lots/expiring:
+ *   get:
+ *     summary: Get lots expiring soon
+ *     description: Lots still in stock that expire within `days` (default LOT_EXPIRY_ALERT_DAYS), including lots already expired.
+ *     tags:
+ *       - InventoryLots
+ *     parameters:
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: item_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: location_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Expiring lots, earliest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ExpiringLot'
+ *       400:
+ *         description: Invalid days
+ */
+router.get("/expiring", async (req: Request, res: Response) => {
+  const days = parseDays(req.query.days);
+  if (Number.isNaN(days)) {
+    return res.status(400).json({ error: "days must be a whole number" });
+  }
+  try {
+    res.json(
+      await inventoryLotService.getExpiring({
+        days,
+        item_id: req.query.item_id as string,
+        location_id: req.query.location_id as string,
+      })
+    );
+  } catch (error) {
+    console.error("Error fetching expiring lots:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_lots/expiry_alerts:
+ *   post:
+ *     summary: Email an alert for lots expiring soon
+ *     description: >
+ *       Sends one email listing the lots that expire within `days` (default
+ *       LOT_EXPIRY_ALERT_DAYS) to `recipients` (default LOT_EXPIRY_ALERT_EMAILS).
+ *       Each lot is alerted on once unless resend is true, so this can be
+ *       called daily from a scheduler.
+ *     tags:
+ *       - InventoryLots
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               days:
+ *                 type: integer
+ *               recipients:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: email
+ *               resend:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Alert result; sent is false when there was nothing to send
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 sent:
+ *                   type: boolean
+ *                 recipients:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 days:
+ *                   type: integer
+ *                 lots:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ExpiringLot'
+ *       400:
+ *         description: Invalid input or no recipients configured
+ *       500:
+ *         description: Email could not be sent
+ */
+router.post("/expiry_alerts", async (req: Request, res: Response) => {
+  const { recipients, resend } = req.body ?? {};
+  const days = parseDays(req.body?.days);
+  if (Number.isNaN(days)) {
+    return res.status(400).json({ error: "days must be a whole number" });
+  }
+  if (recipients !== undefined && !Array.isArray(recipients)) {
+    return res.status(400).json({ error: "recipients must be an array" });
+  }
+  if (!recipients?.length && !inventoryLotService.getAlertRecipients().length) {
+    return res.status(400).json({
+      error: "recipients is required when LOT_EXPIRY_ALERT_EMAILS is not set",
+    });
+  }
+  try {
+    const result = await inventoryLotService.sendExpiryAlerts({
+      days,
+      recipients,
+      resend: resend === true,
+    });
+    if (!result.sent && result.lots.length) {
+      return res.status(500).json({ error: "Failed to send expiry alert" });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error("Error sending expiry alerts:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     LotBalance:
+ *       type: object
+ *       properties:
+ *         lot_id:
+ *           type: string
+ *           format: uuid
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         lot_number:
+ *           type: string
+ *           nullable: true
+ *         expiry_date:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         expiry_alert_sent_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *         qty_on_hand:
+ *           type: number
+ *         inventory_items:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             sku:
+ *               type: string
+ *         locations:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             code:
+ *               type: string
+ *             name:
+ *               type: string
+ *     ExpiringLot:
+ *       allOf:
+ *         - $ref: '#/components/schemas/LotBalance'
+ *         - type: object
+ *           properties:
+ *             days_to_expiry:
+ *               type: integer
+ *               description: Negative once the lot has expired
+ *             is_expired:
+ *               type: boolean
+ */
@@ -0,0 +1,414 @@
+import { Router, Request, Response } from "express";
+import {
+  inventorySerialService,
+  SERIAL_STATUSES,
+} from "../services/inventorySerialService";
+import { sendDbError } from "../utils/dbError";
+import { isOneOf } from "../utils/isOneOf";
+
+const router = Router();
+
+/** Unique violations are reported in terms of the request */
+const SERIAL_ERRORS = {
+  "23505": "A serial number is already registered for this item",
+};
+
+/**
+ * Check the item_id and serial_numbers every serial request carries
+ * @returns An error message, or null when the body is usable
+ */
+function validateSerialBody(body: any): string | null {
+  if (!body?.item_id) return "item_id is required";
+  if (
+    !Array.isArray(body.serial_numbers) ||
+    !body.serial_numbers.length ||
+    body.serial_numbers.some((serial: unknown) => typeof serial !== "string")
+  ) {
+    return "serial_numbers must be a non-empty array of strings";
+  }
+  return null;
+}
+
+/**
+ * @openapi
+ * /api/v1/inventory_serials:
+ *   get:
+ *     summary: Get serial-numbered units and who holds them
+ *     tags:
+ *       - InventorySerials
+ *     parameters:
+ *       - in: query
+ *         name: item_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [in_store, with_teacher, with_student]
+ *       - in: query
+ *         name: class_teacher_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: student_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: serial_number
+ *         schema:
+ *           type: string
+ *         description: Partial, case-insensitive match
+ *     responses:
+ *       200:
+ *         description: Serials
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/InventorySerial'
+ *   post:
+ *     summary: Register serial numbers for units already in stock
+ *     description: >
+ *       Purchases of serialized items capture their serial numbers as they are
+ *       received. Use this for stock held before the item was marked
+ *       serialized; serials in store cannot outnumber the stock on hand.
+ *     tags:
+ *       - InventorySerials
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - item_id
+ *               - serial_numbers
+ *             properties:
+ *               item_id:
+ *                 type: string
+ *                 format: uuid
+ *               serial_numbers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Serials registered in store
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/InventorySerial'
+ *       400:
+ *         description: Invalid input or item not serialized
+ *       409:
+ *         description: Serial already registered, or more serials than unserialized stock
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { item_id, status, class_teacher_id, student_id, serial_number } =
+    req.query as Record<string, string>;
+  if (status && !isOneOf(SERIAL_STATUSES, status)) {
+    return res.status(400).json({
+      error: `status must be one of ${SERIAL_STATUSES.join(", ")}`,
+    });
+  }
+  try {
+    res.json(
+      await inventorySerialService.list({
+        item_id,
+        status,
+        class_teacher_id,
+        student_id,
+        serial_number,
+      })
+    );
+  } catch (error) {
+    sendDbError(res, error, "fetching serials", SERIAL_ERRORS);
+  }
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  const invalid = validateSerialBody(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+  try {
+    const serials = await inventorySerialService.register({
+      item_id: req.body.item_id,
+      serial_numbers: req.body.serial_numbers,
+      notes: req.body.notes,
+      created_by: req.user?.id,
+    });
+    res.status(201).json(serials);
+  } catch (error) {
+    sendDbError(res, error, "registering serials", SERIAL_ERRORS);
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_serials/check_out:
+ *   post:
+ *     summary: Check serials out of the store to a class teacher or a student
+ *     description: >
+ *       Lends units without a stock movement; the units stay part of store
+ *       stock and come back with check_in. Units issued to a class go through
+ *       class distributions, and to students through student collections.
+ *     tags:
+ *       - InventorySerials
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SerialMovementInput'
+ *     responses:
+ *       200:
+ *         description: Serials checked out
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/InventorySerial'
+ *       400:
+ *         description: Invalid input, or not exactly one of class_teacher_id and student_id
+ *       409:
+ *         description: A serial is not in store
+ */
+router.post("/check_out", async (req: Request, res: Response) => {
+  const invalid = validateSerialBody(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+  const { item_id, serial_numbers, class_teacher_id, student_id } = req.body;
+  if (!class_teacher_id === !student_id) {
+    return res.status(400).json({
+      error: "Provide either class_teacher_id or student_id",
+    });
+  }
+  try {
+    res.json(
+      await inventorySerialService.checkOut({
+        item_id,
+        serial_numbers,
+        class_teacher_id,
+        student_id,
+        event_date: req.body.event_date,
+        notes: req.body.notes,
+        created_by: req.user?.id,
+      })
+    );
+  } catch (error) {
+    sendDbError(res, error, "checking out serials", SERIAL_ERRORS);
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_serials/check_in:
+ *   post:
+ *     summary: Check serials back in
+ *     description: >
+ *       Without class_teacher_id the units go back to the store. With it, units
+ *       held by students go back to that class teacher. Units distributed to a
+ *       class are class stock and can only be checked in to a class teacher.
+ *     tags:
+ *       - InventorySerials
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SerialMovementInput'
+ *     responses:
+ *       200:
+ *         description: Serials checked in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/InventorySerial'
+ *       400:
+ *         description: Invalid input
+ *       409:
+ *         description: A serial cannot be checked in from where it is
+ */
+router.post("/check_in", async (req: Request, res: Response) => {
+  const invalid = validateSerialBody(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+  try {
+    res.json(
+      await inventorySerialService.checkIn({
+        item_id: req.body.item_id,
+        serial_numbers: req.body.serial_numbers,
+        class_teacher_id: req.body.class_teacher_id,
+        event_date: req.body.event_date,
+        notes: req.body.notes,
+        created_by: req.user?.id,
+      })
+    );
+  } catch (error) {
+    sendDbError(res, error, "checking in serials", SERIAL_ERRORS);
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_serials/{id}:
+ *   get:
+ *     summary: Get a serial with its custody history
+ *     tags:
+ *       - InventorySerials
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Serial with custody history, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/InventorySerial'
+ *                 - type: object
+ *                   properties:
+ *                     custody:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/InventorySerialCustody'
+ *       404:
+ *         description: Serial not found
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const serial = await inventorySerialService.getById(req.params.id);
+    if (!serial) return res.status(404).json({ error: "Serial not found" });
+    res.json(serial);
+  } catch (error) {
+    sendDbError(res, error, "fetching serial", SERIAL_ERRORS);
+  }
+});
+
+export default router;
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     InventorySerial:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         serial_number:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [in_store, with_teacher, with_student]
+ *         class_teacher_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Class teacher holding the unit
+ *         student_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Student holding the unit
+ *         purchase_transaction_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         distribution_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Class distribution that took the unit out of store stock
+ *         notes:
+ *           type: string
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     InventorySerialCustody:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         serial_id:
+ *           type: string
+ *           format: uuid
+ *         event:
+ *           type: string
+ *           enum: [received, check_out, check_in]
+ *         status:
+ *           type: string
+ *           enum: [in_store, with_teacher, with_student]
+ *           description: Where the unit was after the event
+ *         class_teacher_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         student_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         distribution_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         student_inventory_log_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         event_date:
+ *           type: string
+ *           format: date-time
+ *         notes:
+ *           type: string
+ *         created_by:
+ *           type: string
+ *           format: uuid
+ *     SerialMovementInput:
+ *       type: object
+ *       required:
+ *         - item_id
+ *         - serial_numbers
+ *       properties:
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         serial_numbers:
+ *           type: array
+ *           items:
+ *             type: string
+ *         class_teacher_id:
+ *           type: string
+ *           format: uuid
+ *         student_id:
+ *           type: string
+ *           format: uuid
+ *           description: Check-out only
+ *         event_date:
+ *           type: string
+ *           format: date-time
+ *         notes:
+ *           type: string
+ */
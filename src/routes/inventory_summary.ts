@@ -1,8 +1,458 @@
 import { Router, Request, Response } from "express";
-import { inventoryService } from "../services/inventoryService";
+import {
+  inventoryService,
+  SummaryTransactionType,
+} from "../services/inventoryService";
+import {
+  ReplenishmentOptions,
+  replenishmentService,
+} from "../services/replenishmentService";
+import {
+  EntitlementShortfallOptions,
+  entitlementShortfallService,
+} from "../services/entitlementShortfallService";
+import { shortfallToCsv } from "../services/entitlementShortfallExport";
+import { sendDbError } from "../utils/dbError";
 
 const router = Router();
 
+/**
+ * Read replenishment options from a query string or request body
+ * @returns The options, or an error message for the first invalid one
+ */
+function parseReplenishmentOptions(
+  source: Record<string, any>
+): ReplenishmentOptions | string {
+  const options: ReplenishmentOptions = {
+    location_id: source.location_id || undefined,
+    session_term_id: source.session_term_id || undefined,
+    supplier_id: source.supplier_id || undefined,
+    category_id: source.category_id || undefined,
+    include_all: source.include_all === true || source.include_all === "true",
+  };
+  for (const key of ["days", "cover_days"] as const) {
+    if (source[key] === undefined || source[key] === "") continue;
+    const value = Number(source[key]);
+    if (!Number.isInteger(value) || value < 0) {
+      return `${key} must be a whole number of days`;
+    }
+    options[key] = value;
+  }
+  return options;
+}
+
+/**
+ * Read entitlement shortfall options from a query string or request body
+ * @returns The options, or an error message when the term is missing
+ */
+function parseShortfallOptions(
+  source: Record<string, any>
+): EntitlementShortfallOptions | string {
+  if (!source.session_term_id) return "session_term_id is required";
+  return {
+    session_term_id: source.session_term_id,
+    class_id: source.class_id || undefined,
+  };
+}
+
+/**
+ * @openapi
+ * /api/v1/inventory_summary/valuation:
+ *   get:
+ *     summary: Get stock valuation as of a date
+ *     description: Quantity on hand, unit cost and extended value for every inventory item, computed from transactions dated on or before as_of using each item's costing method. Includes category and sub-category subtotals.
+ *     tags:
+ *       - InventorySummary
+ *     parameters:
+ *       - in: query
+ *         name: as_of
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Valuation date (YYYY-MM-DD), inclusive
+ *       - in: query
+ *         name: category_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filter by category ID
+ *       - in: query
+ *         name: brand_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filter by brand ID
+ *     responses:
+ *       200:
+ *         description: Stock valuation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockValuationReport'
+ *       400:
+ *         description: Missing or invalid as_of date
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/valuation", async (req: Request, res: Response) => {
+  try {
+    const { as_of, category_id, brand_id } = req.query;
+
+    if (
+      typeof as_of !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(as_of) ||
+      isNaN(new Date(as_of).getTime())
+    ) {
+      return res
+        .status(400)
+        .json({ error: "as_of is required in YYYY-MM-DD format" });
+    }
+
+    const valuation = await inventoryService.getStockValuation({
+      as_of,
+      category_id: category_id as string,
+      brand_id: brand_id as string,
+    });
+    res.json(valuation);
+  } catch (error) {
+    console.error("Error fetching stock valuation:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_summary/replenishment:
+ *   get:
+ *     summary: Get replenishment suggestions
+ *     description: >
+ *       Suggests an order quantity for each item whose stock on hand plus open
+ *       purchase orders, less expected demand, is at or below its reorder point.
+ *       Demand is the average daily qty_out over the last `days` projected over
+ *       `cover_days`, plus class entitlements for the term (entitled quantity per
+ *       active student) not yet distributed. The reorder point used is the most
+ *       specific of location and term, location, term, the item's own setting,
+ *       then its low_stock_threshold.
+ *     tags:
+ *       - InventorySummary
+ *     parameters:
+ *       - in: query
+ *         name: location_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Suggest for stock held at this location; transfers out count as consumption
+ *       - in: query
+ *         name: session_term_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Term whose entitlements to include; defaults to the next active term
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           default: 90
+ *         description: Days of consumption history to average
+ *       - in: query
+ *         name: cover_days
+ *         schema:
+ *           type: integer
+ *           default: 30
+ *         description: Days of average consumption to order ahead
+ *       - in: query
+ *         name: supplier_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only items with this preferred supplier
+ *       - in: query
+ *         name: category_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: include_all
+ *         schema:
+ *           type: boolean
+ *         description: Also list items that do not need reordering
+ *     responses:
+ *       200:
+ *         description: Replenishment suggestions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReplenishmentReport'
+ *       400:
+ *         description: Invalid days or cover_days
+ *       404:
+ *         description: Location or term not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/replenishment", async (req: Request, res: Response) => {
+  const options = parseReplenishmentOptions(req.query);
+  if (typeof options === "string") {
+    return res.status(400).json({ error: options });
+  }
+  try {
+    res.json(await replenishmentService.getSuggestions(options));
+  } catch (error) {
+    sendDbError(res, error, "fetching replenishment suggestions");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_summary/replenishment/purchase_orders:
+ *   post:
+ *     summary: Create draft purchase orders from replenishment suggestions
+ *     description: >
+ *       Builds the suggestions with the same options as GET /replenishment and
+ *       creates one draft purchase order per preferred supplier at each item's
+ *       cost_price. Items without a preferred supplier are returned as
+ *       unassigned. Draft orders count as on order, so suggestions already
+ *       ordered are not ordered again.
+ *     tags:
+ *       - InventorySummary
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               location_id:
+ *                 type: string
+ *                 format: uuid
+ *               session_term_id:
+ *                 type: string
+ *                 format: uuid
+ *               days:
+ *                 type: integer
+ *               cover_days:
+ *                 type: integer
+ *               supplier_id:
+ *                 type: string
+ *                 format: uuid
+ *               category_id:
+ *                 type: string
+ *                 format: uuid
+ *               item_ids:
+ *                 type: array
+ *                 description: Only order these suggested items
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       201:
+ *         description: Draft purchase orders created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 purchase_orders:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PurchaseOrder'
+ *                 unassigned:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ReplenishmentSuggestion'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Location or term not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/replenishment/purchase_orders",
+  async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const options = parseReplenishmentOptions(body);
+    if (typeof options === "string") {
+      return res.status(400).json({ error: options });
+    }
+    if (body.item_ids !== undefined && !Array.isArray(body.item_ids)) {
+      return res.status(400).json({ error: "item_ids must be an array" });
+    }
+    try {
+      const result = await replenishmentService.createPurchaseOrders(
+        options,
+        body.item_ids,
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (error) {
+      sendDbError(res, error, "creating replenishment orders");
+    }
+  }
+);
+
+/**
+ * @openapi
+ * /api/v1/inventory_summary/entitlement_shortfall:
+ *   get:
+ *     summary: Compare class entitlements with distributions and stock
+ *     description: >
+ *       For each item entitled in the term (kits as their components):
+ *       required is the entitled quantity times each class's active
+ *       students, outstanding is required less what has been distributed to
+ *       the classes, and shortfall is outstanding less current stock. The
+ *       shortfall not already on order is the suggested purchase quantity.
+ *       Items with variants count their variants' stock and distributions.
+ *       Largest shortfall first.
+ *     tags:
+ *       - InventorySummary
+ *     parameters:
+ *       - in: query
+ *         name: session_term_id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: class_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only this class's entitlements
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Entitlement shortfall report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EntitlementShortfallReport'
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Missing session_term_id or invalid format
+ *       404:
+ *         description: Term or class not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/entitlement_shortfall", async (req: Request, res: Response) => {
+  const options = parseShortfallOptions(req.query);
+  if (typeof options === "string") {
+    return res.status(400).json({ error: options });
+  }
+  const format = ((req.query.format as string) || "json").toLowerCase();
+  if (!["json", "csv"].includes(format)) {
+    return res.status(400).json({ error: "format must be json or csv" });
+  }
+  try {
+    const report = await entitlementShortfallService.getReport(options);
+    if (format === "csv") {
+      const filename = `entitlement-shortfall-${report.session_term.id}${
+        report.school_class ? `-${report.school_class.id}` : ""
+      }.csv`;
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+      return res.send(shortfallToCsv(report));
+    }
+    res.json(report);
+  } catch (error) {
+    sendDbError(res, error, "building entitlement shortfall");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_summary/entitlement_shortfall/purchase_orders:
+ *   post:
+ *     summary: Create draft purchase orders for an entitlement shortfall
+ *     description: >
+ *       Builds the shortfall report for the term (and class) and orders each
+ *       item's suggested quantity, the shortfall not already on order, on
+ *       one draft purchase order per preferred supplier at cost_price.
+ *       Items bought in another unit are ordered in whole purchase units.
+ *       Items with variants are left out, as their variants are what is
+ *       bought; items without a preferred supplier are returned as
+ *       unassigned.
+ *     tags:
+ *       - InventorySummary
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - session_term_id
+ *             properties:
+ *               session_term_id:
+ *                 type: string
+ *                 format: uuid
+ *               class_id:
+ *                 type: string
+ *                 format: uuid
+ *               item_ids:
+ *                 type: array
+ *                 description: Only order these items
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *     responses:
+ *       201:
+ *         description: Draft purchase orders created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 purchase_orders:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PurchaseOrder'
+ *                 unassigned:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ShortfallItem'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Term or class not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post(
+  "/entitlement_shortfall/purchase_orders",
+  async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const options = parseShortfallOptions(body);
+    if (typeof options === "string") {
+      return res.status(400).json({ error: options });
+    }
+    if (body.item_ids !== undefined && !Array.isArray(body.item_ids)) {
+      return res.status(400).json({ error: "item_ids must be an array" });
+    }
+    try {
+      const result = await entitlementShortfallService.createPurchaseOrders(
+        options,
+        body.item_ids,
+        req.user?.id
+      );
+      res.status(201).json(result);
+    } catch (error) {
+      sendDbError(res, error, "creating shortfall orders");
+    }
+  }
+);
+
 /**
  * @openapi
  * /api/v1/inventory_summary/{inventoryId}:
@@ -18,6 +468,17 @@ const router = Router();
  *           type: string
  *           format: uuid
  *         description: The UUID of the inventory item
+ *       - in: query
+ *         name: location_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Limit the figures to stock held at this location
+ *       - in: query
+ *         name: by_location
+ *         schema:
+ *           type: boolean
+ *         description: Add a per-location breakdown to the all-location totals
  *     responses:
  *       200:
  *         description: Inventory summary retrieved successfully
@@ -38,7 +499,10 @@ router.get("/:inventoryId", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Inventory ID is required" });
     }
 
-    const summary = await inventoryService.getInventorySummary(inventoryId);
+    const summary = await inventoryService.getInventorySummary(inventoryId, {
+      location_id: req.query.location_id as string,
+      by_location: req.query.by_location === "true",
+    });
 
     if (!summary) {
       return res.status(404).json({ error: "Inventory item not found" });
@@ -58,6 +522,18 @@ router.get("/:inventoryId", async (req: Request, res: Response) => {
  *     summary: Get inventory summaries for multiple items
  *     tags:
  *       - InventorySummary
+ *     parameters:
+ *       - in: query
+ *         name: location_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Limit the figures to stock held at this location
+ *       - in: query
+ *         name: by_location
+ *         schema:
+ *           type: boolean
+ *         description: Add a per-location breakdown to the all-location totals
  *     requestBody:
  *       required: true
  *       content:
@@ -111,7 +587,10 @@ router.post("/bulk", async (req: Request, res: Response) => {
       });
     }
 
-    const summaries = await inventoryService.getBulkInventorySummary(ids);
+    const summaries = await inventoryService.getBulkInventorySummary(ids, {
+      location_id: req.query.location_id as string,
+      by_location: req.query.by_location === "true",
+    });
     res.json(summaries);
   } catch (error) {
     console.error("Error fetching bulk inventory summaries:", error);
@@ -139,7 +618,7 @@ router.post("/bulk", async (req: Request, res: Response) => {
  *         required: true
  *         schema:
  *           type: string
- *           enum: [purchase, sale]
+ *           enum: [purchase, sale, adjustment]
  *         description: The type of transaction
  *     responses:
  *       200:
@@ -163,15 +642,16 @@ router.get(
         return res.status(400).json({ error: "Inventory ID is required" });
       }
 
-      if (!["purchase", "sale"].includes(transactionType)) {
+      if (!["purchase", "sale", "adjustment"].includes(transactionType)) {
         return res.status(400).json({
-          error: "Transaction type must be 'purchase' or 'sale'",
+          error:
+            "Transaction type must be 'purchase', 'sale' or 'adjustment'",
         });
       }
 
       const summary = await inventoryService.getTransactionSummaryByType(
         inventoryId,
-        transactionType as "purchase" | "sale"
+        transactionType as SummaryTransactionType
       );
 
       if (!summary) {
@@ -195,6 +675,13 @@ router.get(
  *     summary: Get all low stock inventory items
  *     tags:
  *       - InventorySummary
+ *     parameters:
+ *       - in: query
+ *         name: location_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only items held at this location at or below their threshold there
  *     responses:
  *       200:
  *         description: Low stock items retrieved successfully
@@ -209,7 +696,9 @@ router.get(
  */
 router.get("/low/stock", async (req: Request, res: Response) => {
   try {
-    const lowStockItems = await inventoryService.getLowStockItems();
+    const lowStockItems = await inventoryService.getLowStockItems(
+      req.query.location_id as string
+    );
     res.json(lowStockItems);
   } catch (error) {
     console.error("Error fetching low stock items:", error);
@@ -222,6 +711,9 @@ router.get("/low/stock", async (req: Request, res: Response) => {
  * /api/v1/inventory_summary/distribution-collection/query:
  *   get:
  *     summary: Get distribution summary for class inventory and student logs
+ *     description: >
+ *       Kits are counted through their components. Filtering by a kit returns
+ *       the kit alone; otherwise kits made up of the listed items follow them.
  *     tags:
  *       - InventorySummary
  *     parameters:
@@ -331,12 +823,203 @@ export default router;
  *         last_sale_date:
  *           type: string
  *           format: date-time
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *           description: Present when the figures cover a single location
+ *         locations:
+ *           type: array
+ *           description: Stock per location, when by_location=true
+ *           items:
+ *             $ref: '#/components/schemas/LocationStock'
+ *         variants:
+ *           type: array
+ *           description: >
+ *             A parent item's variants and their stock, which the item's own
+ *             totals roll up. Left out when the summary covers one location.
+ *           items:
+ *             $ref: '#/components/schemas/ItemVariant'
+ *     LocationStock:
+ *       type: object
+ *       properties:
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *         location_code:
+ *           type: string
+ *         location_name:
+ *           type: string
+ *         current_stock:
+ *           type: number
+ *         is_low_stock:
+ *           type: boolean
+ *     ReplenishmentSuggestion:
+ *       type: object
+ *       properties:
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         sku:
+ *           type: string
+ *         uom_name:
+ *           type: string
+ *         category_id:
+ *           type: string
+ *           format: uuid
+ *         preferred_supplier_id:
+ *           type: string
+ *           format: uuid
+ *         supplier_name:
+ *           type: string
+ *         unit_cost:
+ *           type: number
+ *         current_stock:
+ *           type: number
+ *         on_order_qty:
+ *           type: number
+ *           description: Outstanding on draft and open purchase orders
+ *         consumed_qty:
+ *           type: number
+ *           description: qty_out over the consumption window
+ *         avg_daily_consumption:
+ *           type: number
+ *         consumption_demand:
+ *           type: number
+ *         entitlement_demand:
+ *           type: number
+ *         reorder_point:
+ *           type: number
+ *         reorder_qty:
+ *           type: number
+ *         reorder_point_source:
+ *           type: string
+ *           enum: [location_term, location, term, item, low_stock_threshold]
+ *         suggested_qty:
+ *           type: number
+ *         suggested_value:
+ *           type: number
+ *     ReplenishmentReport:
+ *       type: object
+ *       properties:
+ *         location:
+ *           nullable: true
+ *           $ref: '#/components/schemas/Location'
+ *         session_term:
+ *           nullable: true
+ *           $ref: '#/components/schemas/AcademicSessionTerm'
+ *         days:
+ *           type: integer
+ *         cover_days:
+ *           type: integer
+ *         suggestions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ReplenishmentSuggestion'
+ *         totals:
+ *           type: object
+ *           properties:
+ *             items:
+ *               type: integer
+ *             suggested_value:
+ *               type: number
+ *     ShortfallItem:
+ *       type: object
+ *       properties:
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         name:
+ *           type: string
+ *         sku:
+ *           type: string
+ *         uom_name:
+ *           type: string
+ *         preferred_supplier_id:
+ *           type: string
+ *           format: uuid
+ *         supplier_name:
+ *           type: string
+ *         unit_cost:
+ *           type: number
+ *         required_qty:
+ *           type: number
+ *           description: Entitled quantity times active students
+ *         distributed_qty:
+ *           type: number
+ *         outstanding_qty:
+ *           type: number
+ *         current_stock:
+ *           type: number
+ *         shortfall_qty:
+ *           type: number
+ *           description: Outstanding quantity not covered by current stock
+ *         on_order_qty:
+ *           type: number
+ *           description: Outstanding on draft and open purchase orders
+ *         suggested_qty:
+ *           type: number
+ *           description: Shortfall not yet on order
+ *         suggested_value:
+ *           type: number
+ *         classes:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               class_id:
+ *                 type: string
+ *                 format: uuid
+ *               class_name:
+ *                 type: string
+ *               students:
+ *                 type: integer
+ *               required_qty:
+ *                 type: number
+ *               distributed_qty:
+ *                 type: number
+ *               outstanding_qty:
+ *                 type: number
+ *     EntitlementShortfallReport:
+ *       type: object
+ *       properties:
+ *         session_term:
+ *           $ref: '#/components/schemas/AcademicSessionTerm'
+ *         school_class:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *         items:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ShortfallItem'
+ *         totals:
+ *           type: object
+ *           properties:
+ *             items:
+ *               type: integer
+ *               description: Items with a shortfall
+ *             outstanding_qty:
+ *               type: number
+ *             shortfall_qty:
+ *               type: number
+ *             suggested_value:
+ *               type: number
  *     InventoryTransactionSummary:
  *       type: object
  *       properties:
  *         transaction_type:
  *           type: string
- *           enum: [purchase, sale]
+ *           enum: [purchase, sale, adjustment]
  *         total_quantity:
  *           type: integer
  *         total_cost:
@@ -376,11 +1059,105 @@ export default router;
  *         total_received:
  *           type: integer
  *           description: Total quantity received by students
+ *         total_returned_quantity:
+ *           type: integer
+ *           description: Reusable quantity students handed back to class stock
  *         balance_quantity:
  *           type: integer
- *           description: Remaining quantity (distributed - received)
+ *           description: Remaining quantity (distributed - received + returned)
  *         last_distribution_date:
  *           type: string
  *           format: date-time
  *           description: Date of last distribution
+ *         kit_components:
+ *           type: array
+ *           description: >
+ *             Set on kit rows, whose quantities are whole kits made up from the
+ *             components' figures; balance_quantity is what the scarcest
+ *             component allows
+ *           items:
+ *             type: object
+ *             properties:
+ *               inventory_item_id:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *               qty:
+ *                 type: integer
+ *                 description: Units of the component in one kit
+ *               balance_quantity:
+ *                 type: integer
+  *     StockValuationSubtotal:
+ *       type: object
+ *       properties:
+ *         quantity_on_hand:
+ *           type: number
+ *         extended_value:
+ *           type: number
+ *     StockValuationReport:
+ *       type: object
+ *       properties:
+ *         as_of:
+ *           type: string
+ *           format: date
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               item_id:
+ *                 type: string
+ *                 format: uuid
+ *               name:
+ *                 type: string
+ *               sku:
+ *                 type: string
+ *               category_id:
+ *                 type: string
+ *                 format: uuid
+ *               category_name:
+ *                 type: string
+ *               sub_category_id:
+ *                 type: string
+ *                 format: uuid
+ *               sub_category_name:
+ *                 type: string
+ *               brand_name:
+ *                 type: string
+ *               costing_method:
+ *                 type: string
+ *                 enum: [weighted_average, fifo]
+ *               quantity_on_hand:
+ *                 type: number
+ *               unit_cost:
+ *                 type: number
+ *               extended_value:
+ *                 type: number
+ *         categories:
+ *           type: array
+ *           items:
+ *             allOf:
+ *               - $ref: '#/components/schemas/StockValuationSubtotal'
+ *               - type: object
+ *                 properties:
+ *                   category_id:
+ *                     type: string
+ *                     format: uuid
+ *                   category_name:
+ *                     type: string
+ *                   sub_categories:
+ *                     type: array
+ *                     items:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/StockValuationSubtotal'
+ *                         - type: object
+ *                           properties:
+ *                             sub_category_id:
+ *                               type: string
+ *                               format: uuid
+ *                             sub_category_name:
+ *                               type: string
+ *         total:
+ *           $ref: '#/components/schemas/StockValuationSubtotal'
  */
@@ -1,10 +1,10 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
 import { InventoryService } from "../services/inventoryService";
-import SupplierTransactionsService from "../services/supplierTransactionsService";
+import { kitService } from "../services/kitService";
+import { conflictResponse, sendDbError } from "../utils/dbError";
 const router = Router();
 const inventoryService = new InventoryService();
-const supplierTransactionsService = new SupplierTransactionsService();
 /**
  * @openapi
  * /api/v1/inventory_transactions:
@@ -31,10 +31,17 @@ const supplierTransactionsService = new SupplierTransactionsService();
  *         name: transaction_type
  *         schema:
  *           type: string
- *           enum: [purchase, sale, distribution, return]
+ *           enum: [purchase, sale, distribution, return, adjustment, transfer]
  *         required: false
  *         description: Filter by transaction type
  *       - in: query
+ *         name: location_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Filter by the location the stock moved in or out of
+ *       - in: query
  *         name: from_date
  *         schema:
  *           type: string
@@ -74,18 +81,33 @@ const supplierTransactionsService = new SupplierTransactionsService();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/InventoryTransaction'
+ *       409:
+ *         description: Insufficient stock for the sale
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InsufficientStockError'
  */
 router.get("/", async (_req: Request, res: Response) => {
-  const { item_id, transaction_type, from_date, to_date, supplier_id } =
-    _req.query;
+  const {
+    item_id,
+    transaction_type,
+    from_date,
+    to_date,
+    supplier_id,
+    location_id,
+  } = _req.query;
 
   let query = supabase.from("inventory_transactions").select(`
     *,
-    inventory_items(id, name, categories(id, name), uoms(id, name)),
-    suppliers(id, name)
+    inventory_items(id, name, categories(id, name), uoms!uom_id(id, name)),
+    suppliers(id, name),
+    locations(id, code, name),
+    inventory_transaction_lots(lot_id, qty_in, qty_out, inventory_lots(lot_number, expiry_date))
   `);
   if (item_id) query = query.eq("item_id", item_id);
   if (supplier_id) query = query.eq("supplier_id", supplier_id);
+  if (location_id) query = query.eq("location_id", location_id);
   if (transaction_type) query = query.eq("transaction_type", transaction_type);
   if (from_date) query = query.gte("transaction_date", from_date);
   if (to_date) query = query.lte("transaction_date", to_date);
@@ -124,17 +146,6 @@ router.post("/", async (req: Request, res: Response) => {
     return res.status(400).json({ error: "qty_out is required for sales" });
   }
 
-  if (body.transaction_type === "sale") {
-    // check current stock level if enough for the sale
-
-    const inventorySummary = await inventoryService.getInventorySummary(
-      body.item_id
-    );
-    if ((inventorySummary?.current_stock || 0) < (Number(body.qty_out) || 0)) {
-      return res.status(400).json({ error: "Insufficient stock for the sale" });
-    }
-  }
-
   if (
     body.transaction_type === "purchase" &&
     (!body.qty_in || body.qty_in <= 0)
@@ -149,49 +160,337 @@ router.post("/", async (req: Request, res: Response) => {
     });
   }
 
-  const { data, error } = await supabase
-    .from("inventory_transactions")
-    .insert([
-      {
-        ...body,
-        created_by: req.user?.id || body.created_by || "",
-      },
-    ])
-    .select(
-      `*, inventory_items(id, name, categories(id, name)), suppliers(id, name)`
-    )
-    .single();
-  if (error) return res.status(500).json({ error: error.message });
-  if (
-    body.transaction_type === "purchase" &&
-    body.supplier_id &&
-    body.in_cost
-  ) {
-    //record amount paid as supplier transaction
-    supplierTransactionsService.create({
-      supplier_id: body?.supplier_id,
-      transaction_date: body?.transaction_date || new Date().toISOString(),
-      credit: body?.in_cost,
-      debit: 0,
-      reference_no: data.id,
-      notes: `Being cost of purchase transaction ${data.id}`,
+  if (body.expiry_date && isNaN(new Date(body.expiry_date).getTime())) {
+    return res.status(400).json({ error: "expiry_date must be a valid date" });
+  }
+  if (body.serial_numbers != null && !Array.isArray(body.serial_numbers)) {
+    return res
+      .status(400)
+      .json({ error: "serial_numbers must be an array of strings" });
+  }
+
+  const created_by = req.user?.id || body.created_by || "";
+
+  if (body.transaction_type === "purchase") {
+    try {
+      const posted = await inventoryService.postPurchase({
+        item_id: body.item_id,
+        uom_id: body.uom_id,
+        qty_in: Number(body.qty_in),
+        in_cost: Number(body.in_cost) || 0,
+        supplier_id: body.supplier_id,
+        amount_paid,
+        status: body.status,
+        reference_no: body.reference_no,
+        notes: body.notes,
+        receiver_id: body.receiver_id,
+        supplier_receiver: body.supplier_receiver,
+        transaction_date: body.transaction_date,
+        created_by,
+        location_id: body.location_id,
+        lot_number: body.lot_number,
+        expiry_date: body.expiry_date,
+        serial_numbers: body.serial_numbers,
+      });
+
+      const { data } = await supabase
+        .from("inventory_transactions")
+        .select(
+          `*, inventory_items(id, name, categories(id, name)), suppliers(id, name),
+          inventory_transaction_lots(lot_id, qty_in, qty_out, inventory_lots(lot_number, expiry_date)),
+          inventory_serials(id, serial_number, status)`
+        )
+        .eq("id", posted.transaction.id)
+        .single();
+
+      return res.status(201).json({
+        ...(data ?? posted.transaction),
+        supplier_transactions: posted.supplier_transactions,
+      });
+    } catch (error: any) {
+      if (error?.code === "22023") {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error?.code === "23505") {
+        return res.status(409).json({
+          error: "A serial number is already registered for this item",
+        });
+      }
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
+  try {
+    // Stock is checked, decremented and costed under a row lock on the item;
+    // out_cost comes from the item's costing method, not the client
+    const transaction = await inventoryService.postStockOut({
+      item_id: body.item_id,
+      transaction_type: "sale",
+      qty_out: Number(body.qty_out),
+      status: body.status,
+      reference_no: body.reference_no,
+      notes: body.notes,
+      receiver_id: body.receiver_id,
+      supplier_id: body.supplier_id,
+      supplier_receiver: body.supplier_receiver,
+      transaction_date: body.transaction_date,
+      created_by,
+      location_id: body.location_id,
+    });
+
+    const { data } = await supabase
+      .from("inventory_transactions")
+      .select(
+        `*, inventory_items(id, name, categories(id, name)), suppliers(id, name)`
+      )
+      .eq("id", transaction.id)
+      .single();
+
+    res.status(201).json(data ?? transaction);
+  } catch (error: any) {
+    const shortage = conflictResponse(error);
+    if (shortage) return res.status(409).json(shortage);
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_transactions/returns:
+ *   post:
+ *     summary: Return goods from a purchase to its supplier
+ *     description: >
+ *       Posts a 'return' transaction that reduces stock and debits the supplier
+ *       ledger with a credit note valued at the original purchase price. The
+ *       quantity cannot exceed what was bought on the purchase less earlier
+ *       returns, nor what is currently in stock.
+ *     tags:
+ *       - InventoryTransactions
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - original_transaction_id
+ *               - qty_out
+ *             properties:
+ *               original_transaction_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: The completed purchase the goods are returned against
+ *               qty_out:
+ *                 type: number
+ *               status:
+ *                 type: string
+ *                 enum: [pending, completed]
+ *                 default: completed
+ *               reference_no:
+ *                 type: string
+ *                 description: Supplier credit note or return authorisation number
+ *               notes:
+ *                 type: string
+ *               transaction_date:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Return posted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/InventoryTransaction'
+ *                 - type: object
+ *                   properties:
+ *                     supplier_transaction:
+ *                       $ref: '#/components/schemas/SupplierTransaction'
+ *       400:
+ *         description: Invalid input or the original is not a completed purchase
+ *       404:
+ *         description: Original purchase not found
+ *       409:
+ *         description: More than the returnable quantity requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InsufficientStockError'
+ */
+router.post("/returns", async (req: Request, res: Response) => {
+  const body = req.body;
+  if (!body.original_transaction_id) {
+    return res
+      .status(400)
+      .json({ error: "original_transaction_id is required" });
+  }
+  if (!(Number(body.qty_out) > 0)) {
+    return res.status(400).json({ error: "qty_out must be greater than 0" });
+  }
+  if (body.status && !["pending", "completed"].includes(body.status)) {
+    return res
+      .status(400)
+      .json({ error: "status must be 'pending' or 'completed'" });
+  }
+
+  try {
+    const posted = await inventoryService.postSupplierReturn({
+      original_transaction_id: body.original_transaction_id,
+      qty_out: Number(body.qty_out),
+      status: body.status,
+      reference_no: body.reference_no,
+      notes: body.notes,
+      transaction_date: body.transaction_date,
       created_by: req.user?.id || body.created_by || "",
     });
+
+    const { data } = await supabase
+      .from("inventory_transactions")
+      .select(
+        `*, inventory_items(id, name, categories(id, name)), suppliers(id, name)`
+      )
+      .eq("id", posted.transaction.id)
+      .single();
+
+    res.status(201).json({
+      ...(data ?? posted.transaction),
+      supplier_transaction: posted.supplier_transaction,
+    });
+  } catch (error: any) {
+    const shortage = conflictResponse(error);
+    if (shortage) return res.status(409).json(shortage);
+    if (error?.code === "P0002") {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error?.code === "22023") {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/inventory_transactions/transfers:
+ *   post:
+ *     summary: Transfer stock between locations
+ *     description: >
+ *       Posts a paired 'transfer' movement per line: out of the source
+ *       location and into the destination, sharing one transfer_id and valued
+ *       at the item's current cost. Deleting either leg deletes the transfer.
+ *     tags:
+ *       - InventoryTransactions
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - from_location_id
+ *               - to_location_id
+ *               - lines
+ *             properties:
+ *               from_location_id:
+ *                 type: string
+ *                 format: uuid
+ *               to_location_id:
+ *                 type: string
+ *                 format: uuid
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - item_id
+ *                     - qty
+ *                   properties:
+ *                     item_id:
+ *                       type: string
+ *                       format: uuid
+ *                     qty:
+ *                       type: number
+ *               reference_no:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               transaction_date:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Transfer posted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 transfer_id:
+ *                   type: string
+ *                   format: uuid
+ *                 transactions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/InventoryTransaction'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Destination location not found or inactive
+ *       409:
+ *         description: Not enough stock at the source location
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InsufficientStockError'
+ */
+router.post("/transfers", async (req: Request, res: Response) => {
+  const body = req.body;
+  if (!body.from_location_id || !body.to_location_id) {
+    return res
+      .status(400)
+      .json({ error: "from_location_id and to_location_id are required" });
+  }
+  if (body.from_location_id === body.to_location_id) {
+    return res
+      .status(400)
+      .json({ error: "Source and destination locations must differ" });
+  }
+  if (!Array.isArray(body.lines) || !body.lines.length) {
+    return res.status(400).json({ error: "lines must be a non-empty array" });
+  }
+  for (const line of body.lines) {
+    if (!line?.item_id || !(Number(line.qty) > 0)) {
+      return res
+        .status(400)
+        .json({ error: "Each line needs an item_id and qty greater than 0" });
+    }
   }
 
-  if (body.transaction_type === "purchase" && body.supplier_id && amount_paid) {
-    //record amount paid as supplier transaction
-    supplierTransactionsService.create({
-      supplier_id: body?.supplier_id,
-      credit: 0,
-      debit: amount_paid,
-      transaction_date: body?.transaction_date || new Date().toISOString(),
-      reference_no: data.id,
-      notes: `Payment for purchase transaction ${data.id}`,
+  try {
+    const transfer = await inventoryService.postTransfer({
+      from_location_id: body.from_location_id,
+      to_location_id: body.to_location_id,
+      lines: body.lines.map((line: any) => ({
+        item_id: line.item_id,
+        qty: Number(line.qty),
+      })),
+      reference_no: body.reference_no,
+      notes: body.notes,
+      transaction_date: body.transaction_date,
       created_by: req.user?.id || body.created_by || "",
     });
+    res.status(201).json(transfer);
+  } catch (error: any) {
+    const shortage = conflictResponse(error);
+    if (shortage) return res.status(409).json(shortage);
+    if (error?.code === "P0002") {
+      return res.status(404).json({ error: error.message });
+    }
+    if (["22023", "22P02", "23503"].includes(error?.code)) {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: error.message });
   }
-  res.status(201).json(data);
 });
 
 /**
@@ -218,6 +517,10 @@ router.post("/", async (req: Request, res: Response) => {
  *         description: Inventory transaction not found
  *   put:
  *     summary: Update an inventory transaction by ID
+ *     description: >
+ *       out_cost cannot be set directly. A stock-out whose item, quantity or
+ *       date changes is costed again with the item's costing method; supplier
+ *       returns stay at the purchase price.
  *     tags:
  *       - InventoryTransactions
  *     parameters:
@@ -239,8 +542,16 @@ router.post("/", async (req: Request, res: Response) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/InventoryTransaction'
+ *       400:
+ *         description: Invalid change
  *       404:
  *         description: Inventory transaction not found
+ *       409:
+ *         description: The change would leave less stock than has been issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InsufficientStockError'
  *   delete:
  *     summary: Delete an inventory transaction by ID
  *     tags:
@@ -256,6 +567,12 @@ router.post("/", async (req: Request, res: Response) => {
  *         description: Inventory transaction deleted
  *       404:
  *         description: Inventory transaction not found
+ *       409:
+ *         description: Deleting it would leave less stock than has been issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InsufficientStockError'
  */
 router.get("/:id", async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -281,32 +598,33 @@ router.put("/:id", async (req: Request, res: Response) => {
     delete body.amount_paid;
   }
 
-  const { data, error } = await supabase
-    .from("inventory_transactions")
-    .update({ ...body })
-    .eq("id", id)
-    .select()
-    .single();
-
-  if (error)
-    return res
-      .status(404)
-      .json({ error: "Inventory transaction not found or update failed" });
-
-  res.json(data);
+  try {
+    // Linked supplier entries are adjusted in the same database transaction
+    const updated = await inventoryService.updateTransaction(id, {
+      ...body,
+    });
+    res.json({
+      ...updated.transaction,
+      supplier_transactions: updated.supplier_transactions,
+    });
+  } catch (error) {
+    return sendDbError(res, error, "updating inventory transaction", {
+      P0002: "Inventory transaction not found",
+    });
+  }
 });
 
 router.delete("/:id", async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { error } = await supabase
-    .from("inventory_transactions")
-    .delete()
-    .eq("id", id);
 
-  if (error)
-    return res
-      .status(404)
-      .json({ error: "Inventory transaction not found or delete failed" });
+  try {
+    // Linked supplier entries are reversed in the same database transaction
+    await inventoryService.deleteTransaction(id);
+  } catch (error) {
+    return sendDbError(res, error, "deleting inventory transaction", {
+      P0002: "Inventory transaction not found",
+    });
+  }
 
   res
     .status(200)
@@ -378,6 +696,10 @@ router.delete("/:id", async (req: Request, res: Response) => {
  * /api/v1/inventory_transactions/distributions:
  *   post:
  *     summary: Distribute inventory items to to the specified class
+ *     description: >
+ *       Distributing a kit distributes each of its components, the kit
+ *       quantity times the component quantity, in one go. The response then
+ *       lists one distribution per component.
  *     tags:
  *       - ClassInventoryDistributions
  *     requestBody:
@@ -392,7 +714,15 @@ router.delete("/:id", async (req: Request, res: Response) => {
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/ClassInventoryDistribution'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/ClassInventoryDistribution'
+ *                 - $ref: '#/components/schemas/KitDistribution'
+ *       409:
+ *         description: Insufficient stock at the location for the distribution, or of a kit component
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InsufficientStockError'
  */
 router.get("/distributions/query", async (req: Request, res: Response) => {
   try {
@@ -484,53 +814,66 @@ router.post("/distributions", async (req: Request, res: Response) => {
       .status(400)
       .json({ error: "distributed_quantity must be greater than 0" });
   }
-  const inventorySummary = await inventoryService.getInventorySummary(
-    body.inventory_item_id
-  );
-  if (
-    (inventorySummary?.current_stock ?? 0) <
-    (Number(body.distributed_quantity) ?? 0)
-  ) {
+  if (body.serial_numbers != null && !Array.isArray(body.serial_numbers)) {
     return res
       .status(400)
-      .json({ error: "Insufficient stock for the distribution" });
+      .json({ error: "serial_numbers must be an array of strings" });
   }
-  const insertData = {
-    ...body,
-    distribution_date: body.distribution_date || new Date().toISOString(),
-    created_by: req.user?.id || body.created_by || "",
-  };
-
-  const { data, error } = await supabase
-    .from("class_inventory_distributions")
-    .insert([insertData])
-    .select()
-    .single();
-  //i current stock of inventory transaction table for sale
-  const { data: inventoryData, error: inventoryError } = await supabase
-    .from("inventory_transactions")
-    .insert([
-      {
-        item_id: insertData.inventory_item_id,
-        // receiver_id: insertData.received_by,
-        transaction_type: "distribution",
-        qty_out: insertData.distributed_quantity,
-        out_cost: insertData?.out_cost || 0,
-        status: "completed",
-        reference_no: insertData?.reference_no,
-        notes: insertData?.notes,
-        transaction_date: insertData.distribution_date,
-        created_by: insertData.created_by,
-        distribution_id: data.id,
-      },
-    ])
-    .select()
-    .single();
-  if (inventoryError)
-    return res.status(500).json({ error: inventoryError.message });
+  try {
+    const components = (
+      await kitService.getComponents([body.inventory_item_id])
+    ).get(body.inventory_item_id);
+    if (components) {
+      if (body.serial_numbers?.length) {
+        return res
+          .status(400)
+          .json({ error: "Kits cannot be distributed by serial number" });
+      }
+      const posted = await inventoryService.postKitDistribution({
+        class_id: body.class_id,
+        inventory_item_id: body.inventory_item_id,
+        session_term_id: body.session_term_id,
+        distributed_quantity: Number(body.distributed_quantity),
+        received_by: body.received_by,
+        receiver_name: body.receiver_name,
+        notes: body.notes,
+        reference_no: body.reference_no,
+        distribution_date: body.distribution_date,
+        created_by: req.user?.id || body.created_by || "",
+        location_id: body.location_id,
+      });
+      return res.status(201).json({
+        kit_item_id: body.inventory_item_id,
+        distributions: posted.distributions,
+      });
+    }
 
-  if (error) return res.status(500).json({ error: error.message });
-  res.status(201).json(data);
+    // The distribution and its stock-out are posted under a row lock on the item
+    const posted = await inventoryService.postDistribution({
+      class_id: body.class_id,
+      inventory_item_id: body.inventory_item_id,
+      session_term_id: body.session_term_id,
+      distributed_quantity: Number(body.distributed_quantity),
+      received_by: body.received_by,
+      receiver_name: body.receiver_name,
+      notes: body.notes,
+      reference_no: body.reference_no,
+      distribution_date: body.distribution_date,
+      created_by: req.user?.id || body.created_by || "",
+      location_id: body.location_id,
+      serial_numbers: body.serial_numbers,
+    });
+    res
+      .status(201)
+      .json({ ...posted.distribution, inventory_serials: posted.serials });
+  } catch (error: any) {
+    const shortage = conflictResponse(error);
+    if (shortage) return res.status(409).json(shortage);
+    if (error?.code === "22023") {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: error.message });
+  }
 });
 
 /**
@@ -559,38 +902,32 @@ router.post("/distributions", async (req: Request, res: Response) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ClassInventoryDistribution'
+ *       400:
+ *         description: Invalid quantity
  *       404:
  *         description: Class inventory distribution not found
+ *       409:
+ *         description: Insufficient stock for the new quantity, or serial numbers were handed out
  */
 router.put("/distributions/:id", async (req: Request, res: Response) => {
   const { id } = req.params;
-  const body = req.body;
 
-  const { data, error } = await supabase
-    .from("class_inventory_distributions")
-    .update({ ...body, updated_at: new Date().toISOString() })
-    .eq("id", id)
-    .select()
-    .single();
-  if (error) {
-    return res.status(404).json({
-      error: "Class inventory distribution not found or update failed",
-    });
+  try {
+    const updated = await inventoryService.updateDistribution(id, req.body);
+    res.json(updated.distribution);
+  } catch (error: any) {
+    const shortage = conflictResponse(error);
+    if (shortage) return res.status(409).json(shortage);
+    if (error?.code === "P0002") {
+      return res
+        .status(404)
+        .json({ error: "Class inventory distribution not found" });
+    }
+    if (error?.code === "22023") {
+      return res.status(400).json({ error: error.message });
+    }
+    return res.status(500).json({ error: error.message });
   }
-
-  const { data: inventoryData, error: inventoryError } = await supabase
-    .from("inventory_transactions")
-    .update({
-      qty_out: body.distributed_quantity,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("distribution_id", id)
-    .select()
-    .single();
-  if (inventoryError)
-    return res.status(500).json({ error: inventoryError.message });
-
-  res.json(data);
 });
 
 /**
@@ -624,6 +961,11 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *           type: string
  *         notes:
  *           type: string
+ *         kit_item_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: The kit this component was distributed as part of
  *         created_by:
  *           type: string
  *           format: uuid
@@ -633,6 +975,22 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *         updated_at:
  *           type: string
  *           format: date-time
+ *         inventory_serials:
+ *           type: array
+ *           description: Serialized units handed over (returned on create)
+ *           items:
+ *             $ref: '#/components/schemas/InventorySerial'
+ *     KitDistribution:
+ *       type: object
+ *       properties:
+ *         kit_item_id:
+ *           type: string
+ *           format: uuid
+ *         distributions:
+ *           type: array
+ *           description: One per component, each with kit_item_id set
+ *           items:
+ *             $ref: '#/components/schemas/ClassInventoryDistribution'
  *     ClassInventoryDistributionWithDetails:
  *       type: object
  *       properties:
@@ -708,6 +1066,7 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *         inventory_item_id:
  *           type: string
  *           format: uuid
+ *           description: An item, or a kit to distribute each of its components
  *         session_term_id:
  *           type: string
  *           format: uuid
@@ -723,6 +1082,15 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *           type: string
  *         notes:
  *           type: string
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *           description: Location the stock is drawn from, e.g. a class cupboard; defaults to the default location. Cannot be changed once distributed.
+ *         serial_numbers:
+ *           type: array
+ *           description: Units handed to the receiving teacher, one per unit; required for serialized items
+ *           items:
+ *             type: string
  *         created_by:
  *           type: string
  *           format: uuid
@@ -747,15 +1115,25 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *           nullable: true
  *         transaction_type:
  *           type: string
- *           enum: [purchase, sale, distribution, return]
+ *           enum: [purchase, sale, distribution, return, adjustment, transfer]
  *         qty_in:
  *           type: number
+ *           description: In the item's base unit
  *         in_cost:
  *           type: number
  *         qty_out:
  *           type: number
  *         out_cost:
  *           type: number
+ *         uom_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Unit a purchase was entered in
+ *         uom_qty:
+ *           type: number
+ *           nullable: true
+ *           description: Quantity purchased in uom_id
  *         status:
  *           type: string
  *           enum: [pending, cancelled, deleted, completed]
@@ -765,6 +1143,34 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *         notes:
  *           type: string
  *           nullable: true
+ *         purchase_order_line_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Purchase order line this receipt was posted against
+ *         goods_received_note_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         original_transaction_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Purchase a supplier return was sent back against
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *           description: Location the stock moved in or out of
+ *         transfer_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Shared by the out and in legs of an inter-location transfer
+ *         stock_take_session_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: Set when the movement was posted while the item was being counted
  *         transaction_date:
  *           type: string
  *           format: date-time
@@ -782,6 +1188,42 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *         suppliers:
  *           $ref: '#/components/schemas/Supplier'
  *           nullable: true
+ *         inventory_transaction_lots:
+ *           type: array
+ *           description: Lots received by a stock-in, or drawn first-expiry-first-out by a stock-out
+ *           items:
+ *             $ref: '#/components/schemas/InventoryTransactionLot'
+ *         supplier_transactions:
+ *           type: array
+ *           description: Supplier ledger entries linked to a purchase by reference_no (returned on create and update)
+ *           items:
+ *             $ref: '#/components/schemas/SupplierTransaction'
+ *     InventoryTransactionLot:
+ *       type: object
+ *       properties:
+ *         lot_id:
+ *           type: string
+ *           format: uuid
+ *         qty_in:
+ *           type: number
+ *         qty_out:
+ *           type: number
+ *         inventory_lots:
+ *           type: object
+ *           properties:
+ *             lot_number:
+ *               type: string
+ *             expiry_date:
+ *               type: string
+ *               format: date
+ *     InsufficientStockError:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *         available_quantity:
+ *           type: number
+ *           description: Quantity that can still be issued for the item
  *     InventoryItemWithCategory:
  *       type: object
  *       properties:
@@ -827,15 +1269,23 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *           type: string
  *         transaction_type:
  *           type: string
- *           enum: [purchase, sale, distribution, return]
+ *           enum: [purchase, sale, distribution, return, adjustment, transfer]
+ *         uom_id:
+ *           type: string
+ *           format: uuid
+ *           description: >
+ *             Purchases only; unit qty_in is entered in, the item's base unit
+ *             or one it has a conversion for. Defaults to the base unit.
  *         qty_in:
  *           type: number
+ *           description: In uom_id for purchases; stored in the base unit
  *         in_cost:
  *           type: number
  *         qty_out:
  *           type: number
  *         out_cost:
  *           type: number
+ *           description: Ignored for sales; computed from the item costing method
  *         status:
  *           type: string
  *           enum: [pending, cancelled, deleted, completed]
@@ -845,6 +1295,22 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *           type: string
  *         amount_paid:
  *           type: number
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *           description: Location receiving the purchase or issuing the sale; defaults to the main store
+ *         lot_number:
+ *           type: string
+ *           description: Lot or batch the purchase belongs to
+ *         expiry_date:
+ *           type: string
+ *           format: date
+ *           description: Expiry date of the purchased lot
+ *         serial_numbers:
+ *           type: array
+ *           description: Serial numbers received, one per unit; required when purchasing a serialized item
+ *           items:
+ *             type: string
  *         transaction_date:
  *           type: string
  *           format: date-time
@@ -864,15 +1330,13 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *           type: string
  *         transaction_type:
  *           type: string
- *           enum: [purchase, sale, distribution, return]
+ *           enum: [purchase, sale, distribution, return, adjustment, transfer]
  *         qty_in:
  *           type: number
  *         in_cost:
  *           type: number
  *         qty_out:
  *           type: number
- *         out_cost:
- *           type: number
  *         status:
  *           type: string
  *           enum: [pending, cancelled, deleted, completed]
@@ -880,6 +1344,9 @@ router.put("/distributions/:id", async (req: Request, res: Response) => {
  *           type: string
  *         notes:
  *           type: string
+ *         location_id:
+ *           type: string
+ *           format: uuid
  *         transaction_date:
  *           type: string
  *           format: date-time
@@ -0,0 +1,376 @@
+import { Router, Request, Response } from "express";
+import { supabase } from "../supabaseClient";
+import { sendDbError } from "../utils/dbError";
+
+const router = Router();
+
+/** Unique violations are reported in terms of the request */
+const LOCATION_ERRORS = { "23505": "A location with this code already exists" };
+
+const LOCATION_TYPES = ["store", "warehouse", "building", "class_cupboard"];
+
+/**
+ * Clear the current default so another location can take it; the partial
+ * unique index allows only one default at a time
+ */
+async function clearDefaultLocation(exceptId?: string) {
+  let query = supabase
+    .from("locations")
+    .update({ is_default: false, updated_at: new Date().toISOString() })
+    .eq("is_default", true);
+  if (exceptId) query = query.neq("id", exceptId);
+  return query;
+}
+
+/**
+ * @openapi
+ * /api/v1/locations:
+ *   get:
+ *     summary: Get all stock locations
+ *     tags:
+ *       - Locations
+ *     parameters:
+ *       - in: query
+ *         name: location_type
+ *         schema:
+ *           type: string
+ *           enum: [store, warehouse, building, class_cupboard]
+ *       - in: query
+ *         name: is_active
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of locations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Location'
+ *   post:
+ *     summary: Create a stock location
+ *     tags:
+ *       - Locations
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - name
+ *             properties:
+ *               code:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               location_type:
+ *                 type: string
+ *                 enum: [store, warehouse, building, class_cupboard]
+ *               school_class_id:
+ *                 type: string
+ *                 format: uuid
+ *               is_default:
+ *                 type: boolean
+ *                 description: Make this the location used when a movement does not name one
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Location created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Location'
+ *       400:
+ *         description: Invalid input
+ *       409:
+ *         description: Location code already in use
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { location_type, is_active } = req.query as Record<string, string>;
+  if (location_type && !LOCATION_TYPES.includes(location_type)) {
+    return res.status(400).json({
+      error: `location_type must be one of ${LOCATION_TYPES.join(", ")}`,
+    });
+  }
+  let query = supabase.from("locations").select("*");
+  if (location_type) query = query.eq("location_type", location_type);
+  if (is_active !== undefined)
+    query = query.eq("is_active", is_active === "true");
+
+  const { data, error } = await query.order("name", { ascending: true });
+  if (error)
+    return sendDbError(res, error, "fetching locations", LOCATION_ERRORS);
+  res.json(data);
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  const { code, name, location_type, school_class_id, is_default, notes } =
+    req.body;
+  if (!code || !name) {
+    return res.status(400).json({ error: "code and name are required" });
+  }
+  if (location_type && !LOCATION_TYPES.includes(location_type)) {
+    return res.status(400).json({
+      error: `location_type must be one of ${LOCATION_TYPES.join(", ")}`,
+    });
+  }
+
+  if (is_default === true) {
+    const { error } = await clearDefaultLocation();
+    if (error)
+      return sendDbError(
+        res,
+        error,
+        "clearing default location",
+        LOCATION_ERRORS
+      );
+  }
+  const { data, error } = await supabase
+    .from("locations")
+    .insert([
+      {
+        code,
+        name,
+        location_type: location_type ?? "store",
+        school_class_id: school_class_id ?? null,
+        is_default: is_default === true,
+        notes: notes ?? null,
+        created_by: req.user?.id ?? null,
+      },
+    ])
+    .select()
+    .single();
+  if (error)
+    return sendDbError(res, error, "creating location", LOCATION_ERRORS);
+  res.status(201).json(data);
+});
+
+/**
+ * @openapi
+ * /api/v1/locations/{id}:
+ *   get:
+ *     summary: Get a stock location by ID
+ *     tags:
+ *       - Locations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Location found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Location'
+ *       404:
+ *         description: Location not found
+ *   put:
+ *     summary: Update a stock location
+ *     description: >
+ *       Setting is_default to true moves the default from the current default
+ *       location. The default location cannot be deactivated.
+ *     tags:
+ *       - Locations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               location_type:
+ *                 type: string
+ *                 enum: [store, warehouse, building, class_cupboard]
+ *               school_class_id:
+ *                 type: string
+ *                 format: uuid
+ *               is_default:
+ *                 type: boolean
+ *               is_active:
+ *                 type: boolean
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Location updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Location'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Location not found
+ *       409:
+ *         description: Location code already in use
+ *   delete:
+ *     summary: Delete a stock location
+ *     tags:
+ *       - Locations
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Location deleted
+ *       400:
+ *         description: Location is the default or has stock movements
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  const { data, error } = await supabase
+    .from("locations")
+    .select("*")
+    .eq("id", req.params.id)
+    .single();
+  if (error) return res.status(404).json({ error: "Location not found" });
+  res.json(data);
+});
+
+router.put("/:id", async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const {
+    code,
+    name,
+    location_type,
+    school_class_id,
+    is_default,
+    is_active,
+    notes,
+  } = req.body;
+  if (location_type && !LOCATION_TYPES.includes(location_type)) {
+    return res.status(400).json({
+      error: `location_type must be one of ${LOCATION_TYPES.join(", ")}`,
+    });
+  }
+
+  const { data: existing } = await supabase
+    .from("locations")
+    .select("id, is_default")
+    .eq("id", id)
+    .maybeSingle();
+  if (!existing) return res.status(404).json({ error: "Location not found" });
+  if (existing.is_default && (is_default === false || is_active === false)) {
+    return res.status(400).json({
+      error: "Make another location the default before changing this one",
+    });
+  }
+
+  if (is_default === true && !existing.is_default) {
+    const { error } = await clearDefaultLocation(id);
+    if (error)
+      return sendDbError(
+        res,
+        error,
+        "clearing default location",
+        LOCATION_ERRORS
+      );
+  }
+  const { data, error } = await supabase
+    .from("locations")
+    .update({
+      code,
+      name,
+      location_type,
+      school_class_id,
+      is_default: is_default === true ? true : undefined,
+      is_active,
+      notes,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select()
+    .single();
+  if (error)
+    return sendDbError(res, error, "updating location", LOCATION_ERRORS);
+  res.json(data);
+});
+
+router.delete("/:id", async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { data: existing } = await supabase
+    .from("locations")
+    .select("is_default")
+    .eq("id", id)
+    .maybeSingle();
+  if (existing?.is_default) {
+    return res
+      .status(400)
+      .json({ error: "The default location cannot be deleted" });
+  }
+
+  const { error } = await supabase.from("locations").delete().eq("id", id);
+  if (error) {
+    if (error.code === "23503") {
+      return res.status(400).json({
+        error:
+          "Unable to delete location because it still has stock movements. Deactivate it instead.",
+      });
+    }
+    return res
+      .status(500)
+      .json({ error: "An unexpected error occurred while deleting location." });
+  }
+  res.status(200).json({ message: "Location deleted successfully" });
+});
+
+export default router;
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     Location:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         code:
+ *           type: string
+ *         name:
+ *           type: string
+ *         location_type:
+ *           type: string
+ *           enum: [store, warehouse, building, class_cupboard]
+ *         school_class_id:
+ *           type: string
+ *           format: uuid
+ *         is_default:
+ *           type: boolean
+ *         is_active:
+ *           type: boolean
+ *         notes:
+ *           type: string
+ *         created_by:
+ *           type: string
+ *           format: uuid
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
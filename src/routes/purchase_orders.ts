@@ -0,0 +1,611 @@
+import { Router, Request, Response } from "express";
+import {
+  PURCHASE_ORDER_STATUSES,
+  PurchaseOrderInput,
+  purchaseOrderService,
+} from "../services/purchaseOrderService";
+import { sendDbError } from "../utils/dbError";
+import { isOneOf } from "../utils/isOneOf";
+
+const router = Router();
+
+/**
+ * Validate a create/update body, returning an error message or null
+ */
+function validatePurchaseOrder(body: any): string | null {
+  if (!body.supplier_id) return "supplier_id is required";
+  if (!Array.isArray(body.lines) || !body.lines.length) {
+    return "lines must be a non-empty array";
+  }
+  for (const line of body.lines) {
+    if (!line?.item_id) return "Each line needs an item_id";
+    if (!(Number(line.qty_ordered) > 0)) {
+      return "Each line needs qty_ordered greater than 0";
+    }
+    if (line.unit_cost !== undefined && !(Number(line.unit_cost) >= 0)) {
+      return "unit_cost must be 0 or more";
+    }
+  }
+  return null;
+}
+
+const toPurchaseOrderInput = (
+  body: any,
+  created_by?: string
+): PurchaseOrderInput => ({
+  supplier_id: body.supplier_id,
+  order_date: body.order_date,
+  expected_date: body.expected_date ?? null,
+  notes: body.notes ?? null,
+  lines: body.lines.map((line: any) => ({
+    item_id: line.item_id,
+    uom_id: line.uom_id ?? null,
+    qty_ordered: Number(line.qty_ordered),
+    unit_cost: Number(line.unit_cost) || 0,
+    notes: line.notes,
+  })),
+  created_by,
+});
+
+/**
+ * @openapi
+ * /api/v1/purchase_orders:
+ *   get:
+ *     summary: Get all purchase orders
+ *     tags:
+ *       - PurchaseOrders
+ *     parameters:
+ *       - in: query
+ *         name: supplier_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, approved, partially_received, closed]
+ *     responses:
+ *       200:
+ *         description: List of purchase orders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PurchaseOrder'
+ *   post:
+ *     summary: Create a draft purchase order
+ *     tags:
+ *       - PurchaseOrders
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PurchaseOrderInput'
+ *     responses:
+ *       201:
+ *         description: Purchase order created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       400:
+ *         description: Invalid input
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { supplier_id, status } = req.query as Record<string, string>;
+  if (status && !isOneOf(PURCHASE_ORDER_STATUSES, status)) {
+    return res.status(400).json({
+      error: `status must be one of ${PURCHASE_ORDER_STATUSES.join(", ")}`,
+    });
+  }
+  try {
+    res.json(await purchaseOrderService.list({ supplier_id, status }));
+  } catch (error) {
+    sendDbError(res, error, "fetching purchase orders");
+  }
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  const invalid = validatePurchaseOrder(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+  try {
+    const order = await purchaseOrderService.save(
+      null,
+      toPurchaseOrderInput(req.body, req.user?.id)
+    );
+    res.status(201).json(order);
+  } catch (error) {
+    sendDbError(res, error, "creating purchase order");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/purchase_orders/{id}:
+ *   get:
+ *     summary: Get a purchase order with its lines and outstanding quantities
+ *     tags:
+ *       - PurchaseOrders
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Purchase order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       404:
+ *         description: Purchase order not found
+ *   put:
+ *     summary: Replace a draft purchase order's header and lines
+ *     tags:
+ *       - PurchaseOrders
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PurchaseOrderInput'
+ *     responses:
+ *       200:
+ *         description: Purchase order updated
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: Purchase order is no longer a draft
+ *   delete:
+ *     summary: Delete a draft purchase order
+ *     tags:
+ *       - PurchaseOrders
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Purchase order deleted
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: Purchase order is no longer a draft
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const order = await purchaseOrderService.getById(req.params.id);
+    if (!order) {
+      return res.status(404).json({ error: "Purchase order not found" });
+    }
+    res.json(order);
+  } catch (error) {
+    sendDbError(res, error, "fetching purchase order");
+  }
+});
+
+router.put("/:id", async (req: Request, res: Response) => {
+  const invalid = validatePurchaseOrder(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+  try {
+    const order = await purchaseOrderService.save(
+      req.params.id,
+      toPurchaseOrderInput(req.body)
+    );
+    res.json(order);
+  } catch (error) {
+    sendDbError(res, error, "updating purchase order");
+  }
+});
+
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    await purchaseOrderService.remove(req.params.id);
+    res.status(200).json({ message: "Purchase order deleted successfully" });
+  } catch (error) {
+    sendDbError(res, error, "deleting purchase order");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/purchase_orders/{id}/approve:
+ *   post:
+ *     summary: Approve a draft purchase order
+ *     tags:
+ *       - PurchaseOrders
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Purchase order approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: Purchase order is not a draft
+ */
+router.post("/:id/approve", async (req: Request, res: Response) => {
+  try {
+    res.json(await purchaseOrderService.approve(req.params.id, req.user?.id));
+  } catch (error) {
+    sendDbError(res, error, "approving purchase order");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/purchase_orders/{id}/close:
+ *   post:
+ *     summary: Close a purchase order without receiving the outstanding balance
+ *     tags:
+ *       - PurchaseOrders
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Purchase order closed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PurchaseOrder'
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: Purchase order is not approved or partially received
+ */
+router.post("/:id/close", async (req: Request, res: Response) => {
+  try {
+    res.json(await purchaseOrderService.close(req.params.id, req.user?.id));
+  } catch (error) {
+    sendDbError(res, error, "closing purchase order");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/purchase_orders/{id}/receipts:
+ *   get:
+ *     summary: Get goods received notes posted against a purchase order
+ *     tags:
+ *       - PurchaseOrders
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Goods received notes with their purchase transactions
+ *   post:
+ *     summary: Receive goods against an approved purchase order
+ *     description: >
+ *       Posts a completed purchase transaction per line received and credits the
+ *       supplier ledger with the received value (qty_received x unit_cost).
+ *       Receiving more than a line's outstanding quantity is refused.
+ *     tags:
+ *       - PurchaseOrders
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GoodsReceiptInput'
+ *     responses:
+ *       201:
+ *         description: Goods received
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/GoodsReceipt'
+ *       400:
+ *         description: Invalid input or line not on this purchase order
+ *       404:
+ *         description: Purchase order not found
+ *       409:
+ *         description: Purchase order is not approved, or a line would be over-received
+ */
+router.get("/:id/receipts", async (req: Request, res: Response) => {
+  try {
+    res.json(await purchaseOrderService.getReceipts(req.params.id));
+  } catch (error) {
+    sendDbError(res, error, "fetching goods received notes");
+  }
+});
+
+router.post("/:id/receipts", async (req: Request, res: Response) => {
+  const { lines, received_date, reference_no, notes, location_id } = req.body;
+  if (!Array.isArray(lines) || !lines.length) {
+    return res.status(400).json({ error: "lines must be a non-empty array" });
+  }
+  for (const line of lines) {
+    if (!line?.purchase_order_line_id || !(Number(line.qty_received) > 0)) {
+      return res.status(400).json({
+        error:
+          "Each line needs a purchase_order_line_id and qty_received greater than 0",
+      });
+    }
+  }
+
+  try {
+    const receipt = await purchaseOrderService.receive(req.params.id, {
+      received_date,
+      reference_no,
+      notes,
+      location_id,
+      lines: lines.map((line: any) => ({
+        purchase_order_line_id: line.purchase_order_line_id,
+        qty_received: Number(line.qty_received),
+        lot_number: line.lot_number,
+        expiry_date: line.expiry_date,
+        serial_numbers: line.serial_numbers,
+      })),
+      created_by: req.user?.id,
+    });
+    res.status(201).json(receipt);
+  } catch (error) {
+    sendDbError(res, error, "receiving goods");
+  }
+});
+
+export default router;
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     PurchaseOrderLine:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         purchase_order_id:
+ *           type: string
+ *           format: uuid
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         uom_id:
+ *           type: string
+ *           format: uuid
+ *           description: Unit the line is ordered and received in
+ *         uom_factor:
+ *           type: number
+ *           description: Base units of the item in one uom_id
+ *         qty_ordered:
+ *           type: number
+ *         unit_cost:
+ *           type: number
+ *           description: Cost of one uom_id
+ *         notes:
+ *           type: string
+ *         qty_received:
+ *           type: number
+ *           description: In uom_id
+ *         value_received:
+ *           type: number
+ *         qty_outstanding:
+ *           type: number
+ *           description: In uom_id
+ *         uoms:
+ *           $ref: '#/components/schemas/UOM'
+ *         inventory_items:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *     PurchaseOrder:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         po_number:
+ *           type: string
+ *         supplier_id:
+ *           type: string
+ *           format: uuid
+ *         status:
+ *           type: string
+ *           enum: [draft, approved, partially_received, closed]
+ *         order_date:
+ *           type: string
+ *           format: date
+ *         expected_date:
+ *           type: string
+ *           format: date
+ *         notes:
+ *           type: string
+ *         approved_by:
+ *           type: string
+ *           format: uuid
+ *         approved_at:
+ *           type: string
+ *           format: date-time
+ *         closed_by:
+ *           type: string
+ *           format: uuid
+ *           description: Set when the order was closed by hand rather than fully received
+ *         closed_at:
+ *           type: string
+ *           format: date-time
+ *         created_by:
+ *           type: string
+ *           format: uuid
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *         suppliers:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *         lines:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PurchaseOrderLine'
+ *     PurchaseOrderInput:
+ *       type: object
+ *       required:
+ *         - supplier_id
+ *         - lines
+ *       properties:
+ *         supplier_id:
+ *           type: string
+ *           format: uuid
+ *         order_date:
+ *           type: string
+ *           format: date
+ *         expected_date:
+ *           type: string
+ *           format: date
+ *         notes:
+ *           type: string
+ *         lines:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required:
+ *               - item_id
+ *               - qty_ordered
+ *             properties:
+ *               item_id:
+ *                 type: string
+ *                 format: uuid
+ *               uom_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: >
+ *                   Unit to order in, the item's base unit or one it has a
+ *                   conversion for; defaults to the base unit
+ *               qty_ordered:
+ *                 type: number
+ *               unit_cost:
+ *                 type: number
+ *                 description: Cost of one uom_id
+ *               notes:
+ *                 type: string
+ *     GoodsReceiptInput:
+ *       type: object
+ *       required:
+ *         - lines
+ *       properties:
+ *         received_date:
+ *           type: string
+ *           format: date-time
+ *         reference_no:
+ *           type: string
+ *           description: Supplier delivery note number
+ *         notes:
+ *           type: string
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *           description: Location receiving the stock; defaults to the default location
+ *         lines:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required:
+ *               - purchase_order_line_id
+ *               - qty_received
+ *             properties:
+ *               purchase_order_line_id:
+ *                 type: string
+ *                 format: uuid
+ *               qty_received:
+ *                 type: number
+ *                 description: In the line's unit; stock is received in base units
+ *               lot_number:
+ *                 type: string
+ *               expiry_date:
+ *                 type: string
+ *                 format: date
+ *               serial_numbers:
+ *                 type: array
+ *                 description: Serial numbers received, one per unit; required for serialized items
+ *                 items:
+ *                   type: string
+ *     GoodsReceipt:
+ *       type: object
+ *       properties:
+ *         goods_received_note:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             grn_number:
+ *               type: string
+ *             purchase_order_id:
+ *               type: string
+ *               format: uuid
+ *             received_date:
+ *               type: string
+ *               format: date-time
+ *             reference_no:
+ *               type: string
+ *             notes:
+ *               type: string
+ *         transactions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/InventoryTransaction'
+ *         supplier_transactions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SupplierTransaction'
+ *         purchase_order_status:
+ *           type: string
+ *           enum: [draft, approved, partially_received, closed]
+ */
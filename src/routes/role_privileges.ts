@@ -1,6 +1,7 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
 import { generatePrivileges, UserPrivilege } from "../utils/routeMatcher";
+import { privilegeService } from "../services/privilegeService";
 
 const router = Router();
 
@@ -133,6 +134,7 @@ router.post("/", async (req: Request, res: Response) => {
     .single();
 
   if (error) return res.status(500).json({ error: error.message });
+  privilegeService.invalidateRole(role_code);
   res.status(201).json(data);
 });
 
@@ -233,6 +235,7 @@ router.post("/upsert", async (req: Request, res: Response) => {
     .select();
 
   if (error) return res.status(500).json({ error: error.message });
+  privilegeService.invalidateRole(sanitizedRole);
   res.json(data);
 });
 
@@ -341,6 +344,8 @@ router.put("/:id", async (req: Request, res: Response) => {
     return res
       .status(404)
       .json({ error: "Role privilege not found or update failed" });
+  // The role may have changed too, so drop every cached role
+  privilegeService.invalidateRole();
   res.json(data);
 });
 
@@ -356,6 +361,7 @@ router.delete("/:id", async (req: Request, res: Response) => {
       .status(404)
       .json({ error: "Role privilege not found or delete failed" });
 
+  privilegeService.invalidateRole();
   res.status(204).send();
 });
 
@@ -0,0 +1,636 @@
+import { Router, Request, Response } from "express";
+import {
+  SCAN_SESSION_STATUSES,
+  SCAN_SESSION_TYPES,
+  scanSessionService,
+} from "../services/scanSessionService";
+import { sendDbError } from "../utils/dbError";
+import { isOneOf } from "../utils/isOneOf";
+
+const router = Router();
+
+const isPositiveNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/**
+ * @openapi
+ * /api/v1/scan_sessions:
+ *   get:
+ *     summary: Get scan sessions
+ *     tags:
+ *       - ScanSessions
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, committed, cancelled]
+ *       - in: query
+ *         name: session_type
+ *         schema:
+ *           type: string
+ *           enum: [purchase, sale, distribution, stock_count]
+ *     responses:
+ *       200:
+ *         description: Scan sessions, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ScanSession'
+ *   post:
+ *     summary: Open a scan session
+ *     description: >
+ *       A scan session collects codes scanned at the counter or on a handheld
+ *       into a draft purchase, sale, distribution or stock count, which is
+ *       posted on commit. Distributions need class_id, session_term_id and
+ *       received_by; stock counts need an open stock_take_id.
+ *     tags:
+ *       - ScanSessions
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - session_type
+ *             properties:
+ *               session_type:
+ *                 type: string
+ *                 enum: [purchase, sale, distribution, stock_count]
+ *               location_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Location purchases are received into or sales taken from
+ *               supplier_id:
+ *                 type: string
+ *                 format: uuid
+ *               class_id:
+ *                 type: string
+ *                 format: uuid
+ *               session_term_id:
+ *                 type: string
+ *                 format: uuid
+ *               received_by:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Class teacher receiving a distribution
+ *               stock_take_id:
+ *                 type: string
+ *                 format: uuid
+ *               reference_no:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Scan session opened
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScanSession'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Stock-take not found
+ *       409:
+ *         description: Stock-take is not open
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { status, session_type } = req.query as Record<string, string>;
+  if (status && !isOneOf(SCAN_SESSION_STATUSES, status)) {
+    return res.status(400).json({
+      error: `status must be one of ${SCAN_SESSION_STATUSES.join(", ")}`,
+    });
+  }
+  if (session_type && !isOneOf(SCAN_SESSION_TYPES, session_type)) {
+    return res.status(400).json({
+      error: `session_type must be one of ${SCAN_SESSION_TYPES.join(", ")}`,
+    });
+  }
+  try {
+    res.json(await scanSessionService.list({ status, session_type }));
+  } catch (error) {
+    sendDbError(res, error, "fetching scan sessions");
+  }
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  const {
+    session_type,
+    location_id,
+    supplier_id,
+    class_id,
+    session_term_id,
+    received_by,
+    stock_take_id,
+    reference_no,
+    notes,
+  } = req.body ?? {};
+  if (!SCAN_SESSION_TYPES.includes(session_type)) {
+    return res.status(400).json({
+      error: `session_type must be one of ${SCAN_SESSION_TYPES.join(", ")}`,
+    });
+  }
+  if (
+    session_type === "distribution" &&
+    (!class_id || !session_term_id || !received_by)
+  ) {
+    return res.status(400).json({
+      error:
+        "class_id, session_term_id and received_by are required for distributions",
+    });
+  }
+  if (session_type === "stock_count" && !stock_take_id) {
+    return res.status(400).json({
+      error: "stock_take_id is required for stock counts",
+    });
+  }
+  try {
+    const session = await scanSessionService.open({
+      session_type,
+      location_id,
+      supplier_id,
+      class_id,
+      session_term_id,
+      received_by,
+      stock_take_id,
+      reference_no,
+      notes,
+      opened_by: req.user?.id,
+    });
+    res.status(201).json(session);
+  } catch (error) {
+    sendDbError(res, error, "opening scan session");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/scan_sessions/{id}:
+ *   get:
+ *     summary: Get a scan session with its scanned lines
+ *     tags:
+ *       - ScanSessions
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Scan session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ScanSession'
+ *                 - type: object
+ *                   properties:
+ *                     lines:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ScanSessionLine'
+ *       404:
+ *         description: Scan session not found
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const session = await scanSessionService.getById(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: "Scan session not found" });
+    }
+    res.json(session);
+  } catch (error) {
+    sendDbError(res, error, "fetching scan session");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/scan_sessions/{id}/scans:
+ *   post:
+ *     summary: Record a scanned code
+ *     description: >
+ *       The code is matched against item barcodes, then SKUs, then registered
+ *       serial numbers, and its quantity is added to the item's line.
+ *       Serialized items count one unit per scan and need a serial number,
+ *       either as the code or in serial_number.
+ *     tags:
+ *       - ScanSessions
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *               qty:
+ *                 type: number
+ *                 default: 1
+ *               serial_number:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: The item's line and its live stock
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 line:
+ *                   $ref: '#/components/schemas/ScanSessionLine'
+ *                 item:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                       format: uuid
+ *                     name:
+ *                       type: string
+ *                     sku:
+ *                       type: string
+ *                     barcode:
+ *                       type: string
+ *                     is_serialized:
+ *                       type: boolean
+ *                     current_stock:
+ *                       type: number
+ *       400:
+ *         description: Invalid input, or a serial number is missing or not expected
+ *       404:
+ *         description: Scan session not found, or no item matches the code
+ *       409:
+ *         description: Session is not open, or the serial number cannot be scanned again
+ */
+router.post("/:id/scans", async (req: Request, res: Response) => {
+  const { code, qty, serial_number } = req.body ?? {};
+  if (typeof code !== "string" || !code.trim()) {
+    return res.status(400).json({ error: "code is required" });
+  }
+  if (qty !== undefined && !isPositiveNumber(qty)) {
+    return res.status(400).json({ error: "qty must be a positive number" });
+  }
+  try {
+    res.json(
+      await scanSessionService.recordScan(req.params.id, {
+        code,
+        qty,
+        serial_number,
+      })
+    );
+  } catch (error) {
+    sendDbError(res, error, "recording scan");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/scan_sessions/{id}/lines/{lineId}:
+ *   put:
+ *     summary: Correct a scanned line
+ *     description: Serialized lines are corrected through serial_numbers, which also sets their qty.
+ *     tags:
+ *       - ScanSessions
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               qty:
+ *                 type: number
+ *               unit_cost:
+ *                 type: number
+ *                 description: Purchases only
+ *               serial_numbers:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Line updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScanSessionLine'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Scan session or line not found
+ *       409:
+ *         description: Session is not open
+ *   delete:
+ *     summary: Remove a scanned line
+ *     tags:
+ *       - ScanSessions
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       204:
+ *         description: Line removed
+ *       404:
+ *         description: Scan session or line not found
+ *       409:
+ *         description: Session is not open
+ */
+router.put("/:id/lines/:lineId", async (req: Request, res: Response) => {
+  const { qty, unit_cost, serial_numbers } = req.body ?? {};
+  if (qty !== undefined && !isPositiveNumber(qty)) {
+    return res.status(400).json({ error: "qty must be a positive number" });
+  }
+  if (
+    unit_cost !== undefined &&
+    unit_cost !== null &&
+    !(typeof unit_cost === "number" && unit_cost >= 0)
+  ) {
+    return res
+      .status(400)
+      .json({ error: "unit_cost must be a non-negative number" });
+  }
+  if (
+    serial_numbers !== undefined &&
+    (!Array.isArray(serial_numbers) ||
+      serial_numbers.some((serial: unknown) => typeof serial !== "string"))
+  ) {
+    return res
+      .status(400)
+      .json({ error: "serial_numbers must be an array of strings" });
+  }
+  try {
+    res.json(
+      await scanSessionService.updateLine(req.params.id, req.params.lineId, {
+        qty,
+        unit_cost,
+        serial_numbers,
+      })
+    );
+  } catch (error) {
+    sendDbError(res, error, "updating scan session line");
+  }
+});
+
+router.delete("/:id/lines/:lineId", async (req: Request, res: Response) => {
+  try {
+    await scanSessionService.removeLine(req.params.id, req.params.lineId);
+    res.status(204).send();
+  } catch (error) {
+    sendDbError(res, error, "deleting scan session line");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/scan_sessions/{id}/commit:
+ *   post:
+ *     summary: Post a scan session as the document it drafts
+ *     description: >
+ *       Purchases post one purchase transaction per line at the line's
+ *       unit_cost, registering scanned serial numbers. Sales post sale
+ *       stock-outs and distributions post class distributions, both costed
+ *       with the item's costing method. Stock counts add the scanned
+ *       quantities to the stock-take's counts. Everything posts or nothing does.
+ *     tags:
+ *       - ScanSessions
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [pending, completed]
+ *                 default: completed
+ *                 description: Status of purchase and sale transactions
+ *               transaction_date:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: >
+ *           The committed session and the documents posted: transactions for
+ *           purchases and sales, distributions for distributions, none for
+ *           stock counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 session:
+ *                   $ref: '#/components/schemas/ScanSession'
+ *                 documents:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Nothing scanned, or invalid input
+ *       404:
+ *         description: Scan session not found
+ *       409:
+ *         description: Session is not open, or stock is insufficient
+ */
+router.post("/:id/commit", async (req: Request, res: Response) => {
+  const { status, transaction_date } = req.body ?? {};
+  if (status !== undefined && !["pending", "completed"].includes(status)) {
+    return res
+      .status(400)
+      .json({ error: "status must be pending or completed" });
+  }
+  try {
+    res.json(
+      await scanSessionService.commit(req.params.id, {
+        status,
+        transaction_date,
+        committed_by: req.user?.id,
+      })
+    );
+  } catch (error) {
+    sendDbError(res, error, "committing scan session");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/scan_sessions/{id}/cancel:
+ *   post:
+ *     summary: Cancel an open scan session without posting anything
+ *     tags:
+ *       - ScanSessions
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Scan session cancelled
+ *       404:
+ *         description: Scan session not found
+ *       409:
+ *         description: Session is not open
+ */
+router.post("/:id/cancel", async (req: Request, res: Response) => {
+  try {
+    res.json(await scanSessionService.cancel(req.params.id));
+  } catch (error) {
+    sendDbError(res, error, "cancelling scan session");
+  }
+});
+
+export default router;
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     ScanSession:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         session_type:
+ *           type: string
+ *           enum: [purchase, sale, distribution, stock_count]
+ *         status:
+ *           type: string
+ *           enum: [open, committed, cancelled]
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         supplier_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         class_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         session_term_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         received_by:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         stock_take_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         reference_no:
+ *           type: string
+ *         notes:
+ *           type: string
+ *         opened_by:
+ *           type: string
+ *           format: uuid
+ *         committed_by:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *         committed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     ScanSessionLine:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         scan_session_id:
+ *           type: string
+ *           format: uuid
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         qty:
+ *           type: number
+ *         unit_cost:
+ *           type: number
+ *           nullable: true
+ *           description: Purchase price per unit; defaults to the item's cost_price
+ *         serial_numbers:
+ *           type: array
+ *           items:
+ *             type: string
+ *         scan_count:
+ *           type: integer
+ *         last_code:
+ *           type: string
+ *         last_scanned_at:
+ *           type: string
+ *           format: date-time
+ *         inventory_items:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             sku:
+ *               type: string
+ *             barcode:
+ *               type: string
+ *             is_serialized:
+ *               type: boolean
+ */
@@ -0,0 +1,353 @@
+import { Router, Request, Response } from "express";
+import {
+  ADJUSTMENT_REASONS,
+  ADJUSTMENT_STATUSES,
+  stockAdjustmentService,
+} from "../services/stockAdjustmentService";
+import { sendDbError } from "../utils/dbError";
+import { isOneOf } from "../utils/isOneOf";
+
+const router = Router();
+
+/**
+ * @openapi
+ * /api/v1/stock_adjustments:
+ *   get:
+ *     summary: Get all stock adjustments
+ *     tags:
+ *       - StockAdjustments
+ *     parameters:
+ *       - in: query
+ *         name: item_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [damage, loss, count_variance, expiry, donation]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending_approval, posted, rejected]
+ *     responses:
+ *       200:
+ *         description: List of stock adjustments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StockAdjustment'
+ *   post:
+ *     summary: Record a stock adjustment
+ *     description: >
+ *       Adjustments valued above STOCK_ADJUSTMENT_APPROVAL_THRESHOLD are held
+ *       as pending_approval; the rest post immediately as an 'adjustment'
+ *       inventory transaction. Write-offs are costed again when they post.
+ *     tags:
+ *       - StockAdjustments
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - item_id
+ *               - qty
+ *               - reason
+ *             properties:
+ *               item_id:
+ *                 type: string
+ *                 format: uuid
+ *               qty:
+ *                 type: number
+ *                 description: Positive adds stock, negative removes it
+ *               reason:
+ *                 type: string
+ *                 enum: [damage, loss, count_variance, expiry, donation]
+ *               unit_cost:
+ *                 type: number
+ *                 description: >
+ *                   Cost per unit for stock added, posted as its cost; defaults to
+ *                   the item's current cost. Whether approval is needed is decided
+ *                   on the item's own valuation, or this if it is higher.
+ *               adjustment_date:
+ *                 type: string
+ *                 format: date-time
+ *               reference_no:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               location_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Location whose stock is adjusted; defaults to the default location
+ *     responses:
+ *       201:
+ *         description: Adjustment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockAdjustmentResult'
+ *       400:
+ *         description: Invalid input
+ *       409:
+ *         description: Not enough stock to write off
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { item_id, reason, status } = req.query as Record<string, string>;
+  if (reason && !isOneOf(ADJUSTMENT_REASONS, reason)) {
+    return res.status(400).json({
+      error: `reason must be one of ${ADJUSTMENT_REASONS.join(", ")}`,
+    });
+  }
+  if (status && !isOneOf(ADJUSTMENT_STATUSES, status)) {
+    return res.status(400).json({
+      error: `status must be one of ${ADJUSTMENT_STATUSES.join(", ")}`,
+    });
+  }
+  try {
+    res.json(await stockAdjustmentService.list({ item_id, reason, status }));
+  } catch (error) {
+    sendDbError(res, error, "fetching stock adjustments");
+  }
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  const {
+    item_id,
+    reason,
+    unit_cost,
+    adjustment_date,
+    reference_no,
+    notes,
+    location_id,
+  } = req.body;
+  const qty = Number(req.body.qty);
+  if (!item_id) return res.status(400).json({ error: "item_id is required" });
+  if (!Number.isFinite(qty) || qty === 0) {
+    return res.status(400).json({ error: "qty must be a non-zero number" });
+  }
+  if (!ADJUSTMENT_REASONS.includes(reason)) {
+    return res.status(400).json({
+      error: `reason must be one of ${ADJUSTMENT_REASONS.join(", ")}`,
+    });
+  }
+  if (unit_cost !== undefined && !(Number(unit_cost) >= 0)) {
+    return res.status(400).json({ error: "unit_cost must be 0 or more" });
+  }
+  try {
+    const result = await stockAdjustmentService.create({
+      item_id,
+      qty,
+      reason,
+      unit_cost: unit_cost === undefined ? undefined : Number(unit_cost),
+      adjustment_date,
+      reference_no,
+      notes,
+      location_id,
+      created_by: req.user?.id,
+    });
+    res.status(201).json(result);
+  } catch (error) {
+    sendDbError(res, error, "creating stock adjustment");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/stock_adjustments/{id}:
+ *   get:
+ *     summary: Get a stock adjustment by ID
+ *     tags:
+ *       - StockAdjustments
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stock adjustment
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockAdjustment'
+ *       404:
+ *         description: Stock adjustment not found
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const adjustment = await stockAdjustmentService.getById(req.params.id);
+    if (!adjustment) {
+      return res.status(404).json({ error: "Stock adjustment not found" });
+    }
+    res.json(adjustment);
+  } catch (error) {
+    sendDbError(res, error, "fetching stock adjustment");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/stock_adjustments/{id}/approve:
+ *   post:
+ *     summary: Approve a pending stock adjustment and post it to stock
+ *     tags:
+ *       - StockAdjustments
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Adjustment approved and posted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockAdjustmentResult'
+ *       403:
+ *         description: The requester cannot approve their own adjustment
+ *       404:
+ *         description: Stock adjustment not found
+ *       409:
+ *         description: Adjustment is not pending, or not enough stock to write off
+ */
+router.post("/:id/approve", async (req: Request, res: Response) => {
+  try {
+    res.json(await stockAdjustmentService.approve(req.params.id, req.user?.id));
+  } catch (error) {
+    sendDbError(res, error, "approving stock adjustment");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/stock_adjustments/{id}/reject:
+ *   post:
+ *     summary: Reject a pending stock adjustment
+ *     tags:
+ *       - StockAdjustments
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Adjustment rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockAdjustment'
+ *       404:
+ *         description: Stock adjustment not found
+ *       409:
+ *         description: Adjustment is not pending
+ */
+router.post("/:id/reject", async (req: Request, res: Response) => {
+  try {
+    res.json(
+      await stockAdjustmentService.reject(
+        req.params.id,
+        req.user?.id,
+        req.body?.reason
+      )
+    );
+  } catch (error) {
+    sendDbError(res, error, "rejecting stock adjustment");
+  }
+});
+
+export default router;
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     StockAdjustment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         adjustment_number:
+ *           type: string
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         qty:
+ *           type: number
+ *         reason:
+ *           type: string
+ *           enum: [damage, loss, count_variance, expiry, donation]
+ *         value:
+ *           type: number
+ *         status:
+ *           type: string
+ *           enum: [pending_approval, posted, rejected]
+ *         adjustment_date:
+ *           type: string
+ *           format: date-time
+ *         reference_no:
+ *           type: string
+ *         notes:
+ *           type: string
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *         inventory_transaction_id:
+ *           type: string
+ *           format: uuid
+ *         approved_by:
+ *           type: string
+ *           format: uuid
+ *         approved_at:
+ *           type: string
+ *           format: date-time
+ *         rejected_by:
+ *           type: string
+ *           format: uuid
+ *         rejected_at:
+ *           type: string
+ *           format: date-time
+ *         rejection_reason:
+ *           type: string
+ *         created_by:
+ *           type: string
+ *           format: uuid
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ *     StockAdjustmentResult:
+ *       type: object
+ *       properties:
+ *         adjustment:
+ *           $ref: '#/components/schemas/StockAdjustment'
+ *         transaction:
+ *           nullable: true
+ *           description: The 'adjustment' inventory transaction, or null while pending approval
+ *           $ref: '#/components/schemas/InventoryTransaction'
+ */
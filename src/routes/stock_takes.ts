@@ -0,0 +1,483 @@
+import { Router, Request, Response } from "express";
+import {
+  STOCK_TAKE_STATUSES,
+  stockTakeService,
+} from "../services/stockTakeService";
+import { sendDbError } from "../utils/dbError";
+import { isOneOf } from "../utils/isOneOf";
+
+const router = Router();
+
+/**
+ * @openapi
+ * /api/v1/stock_takes:
+ *   get:
+ *     summary: Get all stock-take sessions
+ *     tags:
+ *       - StockTakes
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, approved, cancelled]
+ *     responses:
+ *       200:
+ *         description: List of stock-take sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StockTakeSession'
+ *   post:
+ *     summary: Open a stock-take session
+ *     description: >
+ *       Freezes the current system quantity and cost_price of every item, or
+ *       of the items in one category or sub-category, onto a count sheet.
+ *     tags:
+ *       - StockTakes
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               category_id:
+ *                 type: string
+ *                 format: uuid
+ *               sub_category_id:
+ *                 type: string
+ *                 format: uuid
+ *               location_id:
+ *                 type: string
+ *                 format: uuid
+ *                 description: >
+ *                   Count one location. Omitted counts stock across all
+ *                   locations, which is refused once any of the items has been
+ *                   held somewhere other than the default location.
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Stock-take opened
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockTakeSession'
+ *       400:
+ *         description: No items match the filter, or the items are held at more than one location and no location_id was given
+ *       409:
+ *         description: Some of the items are already on an open stock-take
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { status } = req.query as Record<string, string>;
+  if (status && !isOneOf(STOCK_TAKE_STATUSES, status)) {
+    return res.status(400).json({
+      error: `status must be one of ${STOCK_TAKE_STATUSES.join(", ")}`,
+    });
+  }
+  try {
+    res.json(await stockTakeService.list({ status }));
+  } catch (error) {
+    sendDbError(res, error, "fetching stock-takes");
+  }
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const session = await stockTakeService.open({
+      category_id: req.body?.category_id,
+      sub_category_id: req.body?.sub_category_id,
+      location_id: req.body?.location_id,
+      notes: req.body?.notes,
+      opened_by: req.user?.id,
+    });
+    res.status(201).json(session);
+  } catch (error) {
+    sendDbError(res, error, "opening stock-take");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/stock_takes/{id}:
+ *   get:
+ *     summary: Get a stock-take session with its count sheet
+ *     tags:
+ *       - StockTakes
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stock-take session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockTakeSession'
+ *       404:
+ *         description: Stock-take not found
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const session = await stockTakeService.getById(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: "Stock-take not found" });
+    }
+    res.json(session);
+  } catch (error) {
+    sendDbError(res, error, "fetching stock-take");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/stock_takes/{id}/counts:
+ *   put:
+ *     summary: Enter counted quantities on an open stock-take
+ *     description: >
+ *       Each count names its item by item_id or barcode. With mode "add" the
+ *       quantity is added to what was already counted, so a scanner can post
+ *       one count per unit scanned.
+ *     tags:
+ *       - StockTakes
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - counts
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [set, add]
+ *                 default: set
+ *               counts:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - counted_qty
+ *                   properties:
+ *                     item_id:
+ *                       type: string
+ *                       format: uuid
+ *                     barcode:
+ *                       type: string
+ *                     counted_qty:
+ *                       type: number
+ *                     notes:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Counts recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockTakeSession'
+ *       400:
+ *         description: Invalid input
+ *       404:
+ *         description: Stock-take not found, or item not on the count sheet
+ *       409:
+ *         description: Stock-take is no longer open
+ */
+router.put("/:id/counts", async (req: Request, res: Response) => {
+  const { counts, mode = "set" } = req.body ?? {};
+  if (!Array.isArray(counts) || !counts.length) {
+    return res.status(400).json({ error: "counts must be a non-empty array" });
+  }
+  if (!["set", "add"].includes(mode)) {
+    return res.status(400).json({ error: "mode must be 'set' or 'add'" });
+  }
+  for (const count of counts) {
+    if (!count?.item_id && !count?.barcode) {
+      return res
+        .status(400)
+        .json({ error: "Each count needs an item_id or barcode" });
+    }
+    if (!(Number(count.counted_qty) >= 0)) {
+      return res.status(400).json({ error: "counted_qty must be 0 or more" });
+    }
+  }
+  try {
+    const session = await stockTakeService.recordCounts(
+      req.params.id,
+      counts.map((count: any) => ({
+        ...(count.item_id
+          ? { item_id: count.item_id }
+          : { barcode: String(count.barcode) }),
+        counted_qty: Number(count.counted_qty),
+        notes: count.notes,
+      })),
+      req.user?.id,
+      mode === "add"
+    );
+    res.json(session);
+  } catch (error) {
+    sendDbError(res, error, "recording stock-take counts");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/stock_takes/{id}/variance_report:
+ *   get:
+ *     summary: Get the variance report for a stock-take
+ *     description: >
+ *       Counted items with expected quantity, variance and its value at
+ *       cost_price, plus the movements posted while the count was open.
+ *     tags:
+ *       - StockTakes
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Variance report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/StockTakeVarianceReport'
+ *       404:
+ *         description: Stock-take not found
+ */
+router.get("/:id/variance_report", async (req: Request, res: Response) => {
+  try {
+    res.json(await stockTakeService.getVarianceReport(req.params.id));
+  } catch (error) {
+    sendDbError(res, error, "fetching stock-take variance report");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/stock_takes/{id}/approve:
+ *   post:
+ *     summary: Approve a stock-take and post its variances
+ *     description: >
+ *       Each counted variance is posted as a count_variance stock adjustment.
+ *       Uncounted items are left unchanged.
+ *     tags:
+ *       - StockTakes
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stock-take approved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 session:
+ *                   $ref: '#/components/schemas/StockTakeSession'
+ *                 adjustments:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/StockAdjustmentResult'
+ *       403:
+ *         description: The person who opened the stock-take cannot approve it
+ *       404:
+ *         description: Stock-take not found
+ *       409:
+ *         description: Stock-take is not open, a shortage exceeds available stock, or an all-location count covers items now held at more than one location
+ */
+router.post("/:id/approve", async (req: Request, res: Response) => {
+  try {
+    res.json(await stockTakeService.approve(req.params.id, req.user?.id));
+  } catch (error) {
+    sendDbError(res, error, "approving stock-take");
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/stock_takes/{id}/cancel:
+ *   post:
+ *     summary: Cancel an open stock-take without posting anything
+ *     tags:
+ *       - StockTakes
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stock-take cancelled
+ *       404:
+ *         description: Stock-take not found
+ *       409:
+ *         description: Stock-take is not open
+ */
+router.post("/:id/cancel", async (req: Request, res: Response) => {
+  try {
+    res.json(await stockTakeService.cancel(req.params.id, req.user?.id));
+  } catch (error) {
+    sendDbError(res, error, "cancelling stock-take");
+  }
+});
+
+export default router;
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     StockTakeLine:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         session_id:
+ *           type: string
+ *           format: uuid
+ *         item_id:
+ *           type: string
+ *           format: uuid
+ *         system_qty:
+ *           type: number
+ *           description: Quantity on hand when the stock-take was opened
+ *         unit_cost:
+ *           type: number
+ *           description: Item cost_price when the stock-take was opened
+ *         counted_qty:
+ *           type: number
+ *           nullable: true
+ *         counted_by:
+ *           type: string
+ *           format: uuid
+ *         counted_at:
+ *           type: string
+ *           format: date-time
+ *         notes:
+ *           type: string
+ *         stock_adjustment_id:
+ *           type: string
+ *           format: uuid
+ *         movement_count:
+ *           type: integer
+ *           description: Movements posted against the item during the count
+ *         qty_moved_before_count:
+ *           type: number
+ *         expected_qty:
+ *           type: number
+ *           description: system_qty plus movements posted before the item was counted
+ *         variance_qty:
+ *           type: number
+ *         variance_value:
+ *           type: number
+ *         inventory_items:
+ *           type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             name:
+ *               type: string
+ *             sku:
+ *               type: string
+ *             barcode:
+ *               type: string
+ *     StockTakeSession:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         session_number:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [open, approved, cancelled]
+ *         category_id:
+ *           type: string
+ *           format: uuid
+ *         sub_category_id:
+ *           type: string
+ *           format: uuid
+ *         location_id:
+ *           type: string
+ *           format: uuid
+ *         notes:
+ *           type: string
+ *         opened_by:
+ *           type: string
+ *           format: uuid
+ *         opened_at:
+ *           type: string
+ *           format: date-time
+ *         approved_by:
+ *           type: string
+ *           format: uuid
+ *         approved_at:
+ *           type: string
+ *           format: date-time
+ *         cancelled_by:
+ *           type: string
+ *           format: uuid
+ *         cancelled_at:
+ *           type: string
+ *           format: date-time
+ *         lines:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/StockTakeLine'
+ *     StockTakeVarianceReport:
+ *       type: object
+ *       properties:
+ *         session:
+ *           $ref: '#/components/schemas/StockTakeSession'
+ *         lines:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/StockTakeLine'
+ *         totals:
+ *           type: object
+ *           properties:
+ *             items_on_sheet:
+ *               type: integer
+ *             items_counted:
+ *               type: integer
+ *             items_uncounted:
+ *               type: integer
+ *             items_with_variance:
+ *               type: integer
+ *             shortage_value:
+ *               type: number
+ *             surplus_value:
+ *               type: number
+ *             net_variance_value:
+ *               type: number
+ *         flagged_movements:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/InventoryTransaction'
+ */
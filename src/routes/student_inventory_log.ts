@@ -1,9 +1,50 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
 import { inventoryService } from "../services/inventoryService";
+import { inventorySerialService } from "../services/inventorySerialService";
+import { itemVariantService } from "../services/itemVariantService";
+import { kitService } from "../services/kitService";
+import { privilegeService } from "../services/privilegeService";
+import { conflictResponse, sendDbError } from "../utils/dbError";
 
 const router = Router();
 
+/**
+ * Stamp collections given beyond the student's entitlement with the admin
+ * allowing it. Only admins may give entitlement_override_reason.
+ * @returns An error response, or null when the records may be saved
+ */
+async function applyEntitlementOverride(
+  records: any[],
+  userId?: string
+): Promise<{ status: number; error: string } | null> {
+  for (const rec of records) delete rec.entitlement_override_by;
+  const overriding = records.filter(
+    (rec) => rec.entitlement_override_reason != null
+  );
+  if (!overriding.length) return null;
+  if (
+    overriding.some(
+      (rec) =>
+        typeof rec.entitlement_override_reason !== "string" ||
+        !rec.entitlement_override_reason.trim()
+    )
+  ) {
+    return {
+      status: 400,
+      error: "entitlement_override_reason must be a non-blank string",
+    };
+  }
+  if (!userId || !(await privilegeService.isAdmin(userId))) {
+    return {
+      status: 403,
+      error: "Only an admin can issue beyond a student's entitlement",
+    };
+  }
+  for (const rec of overriding) rec.entitlement_override_by = userId;
+  return null;
+}
+
 /**
  * @openapi
  * /api/v1/student_inventory_collection:
@@ -63,6 +104,13 @@ const router = Router();
  *                 $ref: '#/components/schemas/StudentInventoryCollection'
  *   post:
  *     summary: Create a new student inventory collection
+ *     description: >
+ *       A collection marked received may not take the student past their
+ *       class entitlement for the term, net of what they already received
+ *       (see GET /students/{id}/entitlements), unless an admin gives
+ *       entitlement_override_reason. Collecting a kit records a collection
+ *       of each component, the kit quantity times the component quantity,
+ *       and returns them all.
  *     tags:
  *       - StudentInventoryCollection
  *     requestBody:
@@ -77,7 +125,20 @@ const router = Router();
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/StudentInventoryCollection'
+ *               oneOf:
+ *                 - $ref: '#/components/schemas/StudentInventoryCollection'
+ *                 - type: array
+ *                   description: One collection per component of a kit
+ *                   items:
+ *                     $ref: '#/components/schemas/StudentInventoryCollection'
+ *       403:
+ *         description: entitlement_override_reason given by a user who is not an admin
+ *       409:
+ *         description: More than the student's outstanding entitlement was marked received
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OverIssueError'
  */
 router.get("/", async (req: Request, res: Response) => {
   const {
@@ -93,7 +154,7 @@ router.get("/", async (req: Request, res: Response) => {
     students(id, first_name, last_name, admission_number),
     school_classes(id, name),
     academic_session_terms(id, name),
-    inventory_items(id, name, categories(id, name))
+    inventory_items(id, name, parent_item_id, variant_attributes, categories(id, name))
   `);
   if (student_id) query = query.eq("student_id", student_id);
   if (class_id) query = query.eq("class_id", class_id);
@@ -109,7 +170,7 @@ router.get("/", async (req: Request, res: Response) => {
 
 // Single create endpoint
 router.post("/", async (req: Request, res: Response) => {
-  const body = req.body;
+  const { serial_numbers, ...body } = req.body;
   if (
     !body.student_id ||
     !body.class_id ||
@@ -126,6 +187,24 @@ router.post("/", async (req: Request, res: Response) => {
   if (body.qty <= 0) {
     return res.status(400).json({ error: "qty must be greater than 0" });
   }
+  if (serial_numbers !== undefined && !Array.isArray(serial_numbers)) {
+    return res
+      .status(400)
+      .json({ error: "serial_numbers must be an array of strings" });
+  }
+  const overrideError = await applyEntitlementOverride([body], req.user?.id);
+  if (overrideError) {
+    return res
+      .status(overrideError.status)
+      .json({ error: overrideError.error });
+  }
+  // Entitlements may name a parent item, but the student receives a variant
+  const parents = await itemVariantService.getParents([body.inventory_item_id]);
+  if (parents.size) {
+    return res.status(400).json({
+      error: `${parents.get(body.inventory_item_id)} has variants; record the variant given as inventory_item_id`,
+    });
+  }
 
   const { data: teacherData, error: teacherError } = await supabase
     .from("class_teachers")
@@ -154,11 +233,66 @@ router.post("/", async (req: Request, res: Response) => {
       error: `There is no sufficient stock to update this record. Only ${currentItemAvailable?.[0]?.balance_quantity} items are available`,
     });
   }
+
+  // A kit is collected as its components, recorded together
+  const components = (
+    await kitService.getComponents([body.inventory_item_id])
+  ).get(body.inventory_item_id);
+  if (components) {
+    if (serial_numbers?.length) {
+      return res
+        .status(400)
+        .json({ error: "Kits cannot be collected by serial number" });
+    }
+    const { data, error } = await supabase
+      .from("student_inventory_log")
+      .insert(
+        components.map((component) => ({
+          ...body,
+          inventory_item_id: component.component_item_id,
+          qty: Number(body.qty) * component.qty,
+          kit_item_id: body.inventory_item_id,
+          created_by: req.user?.id,
+          given_by: teacherData?.id,
+        }))
+      )
+      .select();
+    const overIssue = conflictResponse(error);
+    if (overIssue) return res.status(409).json(overIssue);
+    if (error) return res.status(500).json({ error: error.message });
+    return res.status(201).json(data);
+  }
+
+  // Serialized units are handed over as the collection is recorded
+  if (
+    serial_numbers !== undefined ||
+    (await inventorySerialService.isSerialized(body.inventory_item_id))
+  ) {
+    try {
+      const issued = await inventorySerialService.postStudentIssue(
+        { ...body, created_by: req.user?.id, given_by: teacherData?.id },
+        serial_numbers ?? []
+      );
+      return res
+        .status(201)
+        .json({ ...issued.collection, inventory_serials: issued.serials });
+    } catch (error: any) {
+      const overIssue = conflictResponse(error);
+      if (overIssue) return res.status(409).json(overIssue);
+      if (error?.code === "22023") {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(500).json({ error: error.message });
+    }
+  }
+
   const { data, error } = await supabase
     .from("student_inventory_log")
     .insert([{ ...body, created_by: req.user?.id, given_by: teacherData?.id }])
     .select()
     .single();
+  const overIssue = conflictResponse(error);
+  if (overIssue) return res.status(409).json(overIssue);
   if (error) return res.status(500).json({ error: error.message });
   res.status(201).json(data);
 });
@@ -170,7 +304,7 @@ router.post("/", async (req: Request, res: Response) => {
  *     summary: Bulk upsert student inventory collections
  *     tags:
  *       - StudentInventoryCollection
- *     description: Upsert (insert or update) multiple student inventory collections at once. Records are matched on (student_id, class_id, session_term_id, inventory_item_id).
+ *     description: Upsert (insert or update) multiple student inventory collections at once. Records are matched on (student_id, class_id, session_term_id, inventory_item_id). A record for a kit is saved as one record per component.
  *     requestBody:
  *       required: true
  *       content:
@@ -188,6 +322,14 @@ router.post("/", async (req: Request, res: Response) => {
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/StudentInventoryCollection'
+ *       403:
+ *         description: entitlement_override_reason given by a user who is not an admin
+ *       409:
+ *         description: More than the student's outstanding entitlement was marked received
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OverIssueError'
  */
 router.post("/bulk_upsert", async (req: Request, res: Response) => {
   const records = req.body;
@@ -208,11 +350,40 @@ router.post("/bulk_upsert", async (req: Request, res: Response) => {
         "You are not authorized to perform this action. You must be a teacher to perform this action",
     });
   }
-  const finalRecords = records.map((rec) => ({
-    ...rec,
-    created_by: req.user?.id,
-    given_by: teacherData?.id,
-  }));
+  // Kits are recorded as their components
+  const kits = await kitService.getComponents([
+    ...new Set(
+      records.map((rec) => rec?.inventory_item_id).filter(Boolean) as string[]
+    ),
+  ]);
+  const finalRecords = records
+    .flatMap((rec) => {
+      const components = kits.get(rec?.inventory_item_id);
+      if (!components) return [rec];
+      return components.map((component) => ({
+        ...rec,
+        inventory_item_id: component.component_item_id,
+        qty:
+          rec.qty === undefined || rec.qty === null
+            ? rec.qty
+            : Number(rec.qty) * component.qty,
+        kit_item_id: rec.inventory_item_id,
+      }));
+    })
+    .map((rec) => ({
+      ...rec,
+      created_by: req.user?.id,
+      given_by: teacherData?.id,
+    }));
+  const overrideError = await applyEntitlementOverride(
+    finalRecords,
+    req.user?.id
+  );
+  if (overrideError) {
+    return res
+      .status(overrideError.status)
+      .json({ error: overrideError.error });
+  }
   // GET sum of qty for each inventory item
   let itemWithQty: Record<string, number> = {};
   for (const rec of finalRecords) {
@@ -222,6 +393,12 @@ router.post("/bulk_upsert", async (req: Request, res: Response) => {
       itemWithQty[rec.inventory_item_id as string] = Number(rec.qty);
     }
   }
+  const parents = await itemVariantService.getParents(Object.keys(itemWithQty));
+  if (parents.size) {
+    return res.status(400).json({
+      error: `Record the variant given as inventory_item_id for items with variants: ${[...parents.values()].join(", ")}`,
+    });
+  }
   for (const item of Object.keys(itemWithQty)) {
     const currentItemAvailable = await inventoryService.getDistributionSummary({
       teacher_id: teacherData?.id,
@@ -261,6 +438,22 @@ router.post("/bulk_upsert", async (req: Request, res: Response) => {
       });
     }
   }
+  // Handing over serialized units needs their serial numbers, one record at a time
+  const serializedItems = await inventorySerialService.getSerializedItemIds(
+    Object.keys(itemWithQty)
+  );
+  if (
+    finalRecords.some(
+      (rec) =>
+        rec.serial_numbers !== undefined ||
+        (rec.received === true && serializedItems.has(rec.inventory_item_id))
+    )
+  ) {
+    return res.status(400).json({
+      error:
+        "Serialized items must be received through POST /student_inventory_collection with serial_numbers",
+    });
+  }
   const currentItemAvailable = await inventoryService.getDistributionSummary({
     teacher_id: teacherData?.id,
   });
@@ -269,10 +462,201 @@ router.post("/bulk_upsert", async (req: Request, res: Response) => {
     .from("student_inventory_log")
     .upsert(finalRecords)
     .select();
+  const overIssue = conflictResponse(error);
+  if (overIssue) return res.status(409).json(overIssue);
   if (error) return res.status(500).json({ error: error.message });
   res.json(data);
 });
 
+/**
+ * @openapi
+ * /api/v1/student_inventory_collection/returns:
+ *   get:
+ *     summary: Get items returned by students
+ *     tags:
+ *       - StudentInventoryCollection
+ *     parameters:
+ *       - in: query
+ *         name: student_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: class_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: session_term_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: inventory_item_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: condition
+ *         schema:
+ *           type: string
+ *           enum: [reusable, damaged]
+ *     responses:
+ *       200:
+ *         description: Student returns
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StudentInventoryReturn'
+ */
+router.get("/returns", async (req: Request, res: Response) => {
+  const {
+    student_id,
+    class_id,
+    session_term_id,
+    inventory_item_id,
+    condition,
+  } = req.query as Record<string, string>;
+  try {
+    const returns = await inventoryService.getStudentReturns({
+      student_id,
+      class_id,
+      session_term_id,
+      inventory_item_id,
+      condition,
+    });
+    res.json(returns);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/student_inventory_collection/{id}/returns:
+ *   get:
+ *     summary: Get returns made against a student inventory collection
+ *     tags:
+ *       - StudentInventoryCollection
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Returns for the collection
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StudentInventoryReturn'
+ *   post:
+ *     summary: Record items a student hands back
+ *     description: >
+ *       Keeps the original collection and records the return alongside it.
+ *       Reusable items are added back to the class balance; damaged items are
+ *       written off. The quantity cannot exceed what is still with the student.
+ *     tags:
+ *       - StudentInventoryCollection
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - qty
+ *               - condition
+ *             properties:
+ *               qty:
+ *                 type: integer
+ *               condition:
+ *                 type: string
+ *                 enum: [reusable, damaged]
+ *               returned_date:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Return recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 return:
+ *                   $ref: '#/components/schemas/StudentInventoryReturn'
+ *                 write_off:
+ *                   $ref: '#/components/schemas/InventoryWriteOff'
+ *       400:
+ *         description: Invalid input or the items were never received
+ *       404:
+ *         description: Student inventory collection not found
+ *       409:
+ *         description: More than the student still holds
+ */
+router.get("/:id/returns", async (req: Request, res: Response) => {
+  try {
+    const returns = await inventoryService.getStudentReturns({
+      student_inventory_log_id: req.params.id,
+    });
+    res.json(returns);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post("/:id/returns", async (req: Request, res: Response) => {
+  const { qty, condition, returned_date, notes } = req.body;
+  if (!Number.isInteger(Number(qty)) || Number(qty) <= 0) {
+    return res
+      .status(400)
+      .json({ error: "qty must be a whole number greater than 0" });
+  }
+  if (!["reusable", "damaged"].includes(condition)) {
+    return res
+      .status(400)
+      .json({ error: "condition must be 'reusable' or 'damaged'" });
+  }
+
+  // Teachers receive returns into their class stock; others record them unassigned
+  const { data: teacherData } = await supabase
+    .from("class_teachers")
+    .select("id")
+    .eq("teacher_id", req.user?.id)
+    .maybeSingle();
+
+  try {
+    const posted = await inventoryService.postStudentReturn({
+      student_inventory_log_id: req.params.id,
+      qty: Number(qty),
+      condition,
+      returned_date,
+      received_by: teacherData?.id ?? null,
+      notes,
+      created_by: req.user?.id,
+    });
+    res.status(201).json(posted);
+  } catch (error) {
+    sendDbError(res, error, "recording student return", {
+      P0002: "Student inventory collection not found",
+    });
+  }
+});
+
 /**
  * @openapi
  * /api/v1/student_inventory_collection/{id}:
@@ -320,6 +704,14 @@ router.post("/bulk_upsert", async (req: Request, res: Response) => {
  *               $ref: '#/components/schemas/StudentInventoryCollection'
  *       404:
  *         description: Student inventory collection not found
+ *       403:
+ *         description: entitlement_override_reason given by a user who is not an admin
+ *       409:
+ *         description: More than the student's outstanding entitlement was marked received
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OverIssueError'
  *   delete:
  *     summary: Delete a student inventory collection by ID
  *     tags:
@@ -361,15 +753,95 @@ router.get("/:id", async (req: Request, res: Response) => {
 router.put("/:id", async (req: Request, res: Response) => {
   const { id } = req.params;
 
-  const { received, received_date, qty, student_id, inventory_item_id } =
-    req.body;
+  const {
+    received,
+    received_date,
+    qty,
+    student_id,
+    inventory_item_id,
+    serial_numbers,
+    entitlement_override_reason,
+  } = req.body;
+
+  // Saved with the change it allows, never on its own
+  const override: any = {};
+  if (entitlement_override_reason !== undefined) {
+    override.entitlement_override_reason = entitlement_override_reason;
+    const overrideError = await applyEntitlementOverride(
+      [override],
+      req.user?.id
+    );
+    if (overrideError) {
+      return res
+        .status(overrideError.status)
+        .json({ error: overrideError.error });
+    }
+    override.entitlement_override_by =
+      override.entitlement_override_by ?? null;
+  }
+
+  if (serial_numbers !== undefined) {
+    if (!Array.isArray(serial_numbers)) {
+      return res
+        .status(400)
+        .json({ error: "serial_numbers must be an array of strings" });
+    }
+    // Hands the units over and marks the collection received
+    try {
+      await inventorySerialService.issueToStudent(id, serial_numbers, {
+        received_date,
+        created_by: req.user?.id,
+        ...override,
+      });
+    } catch (error: any) {
+      if (error?.code === "P0002") {
+        return res
+          .status(404)
+          .json({ error: "Student inventory collection not found" });
+      }
+      if (error?.code === "PT409") {
+        return res.status(409).json({ error: error.message });
+      }
+      if (error?.code === "22023") {
+        return res.status(400).json({ error: error.message });
+      }
+      return res.status(500).json({ error: error.message });
+    }
+  } else if (received === true) {
+    const { data: existing } = await supabase
+      .from("student_inventory_log")
+      .select("received, inventory_items(is_serialized)")
+      .eq("id", id)
+      .maybeSingle();
+    if (
+      existing &&
+      !existing.received &&
+      (existing.inventory_items as any)?.is_serialized
+    ) {
+      return res.status(400).json({
+        error: "serial_numbers is required to mark a serialized item received",
+      });
+    }
+  }
 
   const { data, error } = await supabase
     .from("student_inventory_log")
-    .update({ received, received_date, qty, student_id, inventory_item_id })
+    .update({
+      received: serial_numbers !== undefined ? undefined : received,
+      received_date: serial_numbers !== undefined ? undefined : received_date,
+      qty,
+      student_id,
+      inventory_item_id,
+      ...(serial_numbers !== undefined ? {} : override),
+      updated_at: new Date().toISOString(),
+    })
     .eq("id", id)
     .select()
     .single();
+  if (error?.code === "22023")
+    return res.status(400).json({ error: error.message });
+  const overIssue = conflictResponse(error);
+  if (overIssue) return res.status(409).json(overIssue);
   if (error)
     return res.status(404).json({
       error: "Student inventory collection not found or update failed",
@@ -430,6 +902,20 @@ export default router;
  *           type: string
  *           format: uuid
  *           nullable: true
+ *         kit_item_id:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: The kit this component was collected as part of
+ *         entitlement_override_reason:
+ *           type: string
+ *           nullable: true
+ *           description: Why the student was given more than their entitlement
+ *         entitlement_override_by:
+ *           type: string
+ *           format: uuid
+ *           nullable: true
+ *           description: The admin who allowed the over-issue
  *         created_by:
  *           type: string
  *           format: uuid
@@ -447,6 +933,11 @@ export default router;
  *           $ref: '#/components/schemas/AcademicSessionTerm'
  *         inventory_items:
  *           $ref: '#/components/schemas/InventoryItemWithCategory'
+ *         inventory_serials:
+ *           type: array
+ *           description: Serialized units handed over (returned on create)
+ *           items:
+ *             $ref: '#/components/schemas/InventorySerial'
  *     StudentInventoryCollectionInput:
  *       type: object
  *       required:
@@ -468,6 +959,10 @@ export default router;
  *         inventory_item_id:
  *           type: string
  *           format: uuid
+ *           description: >
+ *             The item handed over. For items with variants, such as uniforms
+ *             entitled by the parent item, this is the variant given. A kit
+ *             is recorded as a collection of each of its components.
  *         qty:
  *           type: integer
  *         eligible:
@@ -480,6 +975,29 @@ export default router;
  *         given_by:
  *           type: string
  *           format: uuid
+ *         entitlement_override_reason:
+ *           type: string
+ *           description: >
+ *             Admins only. Allows the collection to go beyond the student's
+ *             outstanding entitlement, and is kept on the record. It covers only
+ *             the change it is sent with: raising the quantity or changing the
+ *             student, item or term later needs a new reason.
+ *         serial_numbers:
+ *           type: array
+ *           description: >
+ *             Units handed to the student from the class teacher's stock, one per
+ *             unit. Required for serialized items, whose collections are marked
+ *             received when the serials are given.
+ *           items:
+ *             type: string
+ *     OverIssueError:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *         available_quantity:
+ *           type: integer
+ *           description: What the student may still be given of the item
  *     Student:
  *       type: object
  *       properties:
@@ -526,4 +1044,76 @@ export default router;
  *           format: uuid
  *         name:
  *           type: string
+ *     StudentInventoryReturn:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         student_inventory_log_id:
+ *           type: string
+ *           format: uuid
+ *         student_id:
+ *           type: string
+ *           format: uuid
+ *         class_id:
+ *           type: string
+ *           format: uuid
+ *         session_term_id:
+ *           type: string
+ *           format: uuid
+ *         inventory_item_id:
+ *           type: string
+ *           format: uuid
+ *         qty:
+ *           type: integer
+ *         condition:
+ *           type: string
+ *           enum: [reusable, damaged]
+ *         returned_date:
+ *           type: string
+ *           format: date-time
+ *         received_by:
+ *           type: string
+ *           format: uuid
+ *           description: Class teacher who took the items back
+ *         notes:
+ *           type: string
+ *         created_by:
+ *           type: string
+ *           format: uuid
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *     InventoryWriteOff:
+ *       type: object
+ *       nullable: true
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         inventory_item_id:
+ *           type: string
+ *           format: uuid
+ *         qty:
+ *           type: number
+ *         value:
+ *           type: number
+ *           description: Cost of the written-off quantity
+ *         reason:
+ *           type: string
+ *         class_id:
+ *           type: string
+ *           format: uuid
+ *         session_term_id:
+ *           type: string
+ *           format: uuid
+ *         student_inventory_return_id:
+ *           type: string
+ *           format: uuid
+ *         written_off_date:
+ *           type: string
+ *           format: date-time
+ *         notes:
+ *           type: string
  */
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
+import { studentEntitlementService } from "../services/studentEntitlementService";
+import { sendDbError } from "../utils/dbError";
 
 const router = Router();
 
@@ -205,6 +207,56 @@ router.delete("/:id", async (req: Request, res: Response) => {
   res.status(200).json({ message: "Student deleted successfully" });
 });
 
+/**
+ * @openapi
+ * /api/v1/students/{id}/entitlements:
+ *   get:
+ *     summary: Get what a student is entitled to, has received and is still owed
+ *     description: >
+ *       Entitlements come from the student's class in each term. Items with
+ *       variants count the variants received, and kits are listed as their
+ *       components. Items received beyond any entitlement, by admin
+ *       override, show with nothing entitled.
+ *     tags:
+ *       - Students
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: session_term_id
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         required: false
+ *         description: Only this term; every term when left out
+ *     responses:
+ *       200:
+ *         description: Entitlements by term and item name
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StudentEntitlement'
+ *       404:
+ *         description: Student not found
+ */
+router.get("/:id/entitlements", async (req: Request, res: Response) => {
+  try {
+    const entitlements = await studentEntitlementService.list(
+      req.params.id,
+      req.query.session_term_id as string | undefined
+    );
+    res.json(entitlements);
+  } catch (error) {
+    sendDbError(res, error, "fetching student entitlements");
+  }
+});
+
 export default router;
 
 /**
@@ -297,6 +349,31 @@ export default router;
  *         status:
  *           type: string
  *           enum: [active, inactive, graduated, transferred, suspended, archived]
+ *     StudentEntitlement:
+ *       type: object
+ *       properties:
+ *         session_term_id:
+ *           type: string
+ *           format: uuid
+ *         class_id:
+ *           type: string
+ *           format: uuid
+ *           description: The class the student was entitled through
+ *         inventory_item_id:
+ *           type: string
+ *           format: uuid
+ *         item_name:
+ *           type: string
+ *         sku:
+ *           type: string
+ *           nullable: true
+ *         entitled_qty:
+ *           type: integer
+ *         received_qty:
+ *           type: integer
+ *         outstanding_qty:
+ *           type: integer
+ *           description: Still to be given; never below 0
  *     SchoolClass:
  *       type: object
  *       properties:
@@ -1,6 +1,13 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
-import SupplierTransactionsService from "../services/supplierTransactionsService";
+import SupplierTransactionsService, {
+  PAYMENT_METHODS,
+} from "../services/supplierTransactionsService";
+import {
+  statementToCsv,
+  statementToPdf,
+} from "../services/supplierStatementExport";
+import { sendDbError } from "../utils/dbError";
 
 const router = Router();
 const supplierTransactionsService = new SupplierTransactionsService();
@@ -146,6 +153,12 @@ router.post("/", async (req: Request, res: Response) => {
  *     description: Returns a list of all suppliers with their calculated balance from transactions
  *     tags:
  *       - Suppliers
+ *     parameters:
+ *       - in: query
+ *         name: include_open_items
+ *         schema:
+ *           type: boolean
+ *         description: Break each balance down into its purchase open items and unallocated payments
  *     responses:
  *       200:
  *         description: List of supplier balances
@@ -154,13 +167,29 @@ router.post("/", async (req: Request, res: Response) => {
  *             schema:
  *               type: array
  *               items:
- *                 $ref: '#/components/schemas/SupplierBalance'
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/SupplierBalance'
+ *                   - type: object
+ *                     properties:
+ *                       open_items:
+ *                         $ref: '#/components/schemas/SupplierOpenItems'
  *       500:
  *         description: Internal server error
  */
-router.get("/balances", async (_req: Request, res: Response) => {
+router.get("/balances", async (req: Request, res: Response) => {
   try {
     const balances = await supplierTransactionsService.getSupplierBalances();
+    if (req.query.include_open_items === "true") {
+      const detailed = await Promise.all(
+        balances.map(async (balance) => ({
+          ...balance,
+          open_items: await supplierTransactionsService.getOpenItems(
+            balance.supplier_id
+          ),
+        }))
+      );
+      return res.json(detailed);
+    }
     res.json(balances);
   } catch (error) {
     console.error("Error fetching supplier balances:", error);
@@ -168,6 +197,337 @@ router.get("/balances", async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * @openapi
+ * /api/v1/suppliers/{id}/statement:
+ *   get:
+ *     summary: Get a supplier statement of account
+ *     description: >
+ *       Opening balance, every supplier transaction in the period with a running
+ *       balance and its originating inventory transaction (matched by reference_no),
+ *       closing balance and aging of unpaid purchase credits as of the end of the period.
+ *     tags:
+ *       - Suppliers
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Start of the period (inclusive). Omit to start from the first transaction.
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: End of the period (inclusive). Defaults to today.
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, csv, pdf]
+ *           default: json
+ *     responses:
+ *       200:
+ *         description: Supplier statement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SupplierStatement'
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid date range or format
+ *       404:
+ *         description: Supplier not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:id/statement", async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const from = req.query.from as string | undefined;
+  const to = req.query.to as string | undefined;
+  const format = ((req.query.format as string) || "json").toLowerCase();
+
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+  if ((from && !datePattern.test(from)) || (to && !datePattern.test(to))) {
+    return res
+      .status(400)
+      .json({ error: "from and to must be dates in YYYY-MM-DD format" });
+  }
+  if (from && to && from > to) {
+    return res.status(400).json({ error: "from must not be after to" });
+  }
+  if (!["json", "csv", "pdf"].includes(format)) {
+    return res.status(400).json({ error: "format must be json, csv or pdf" });
+  }
+
+  try {
+    const statement = await supplierTransactionsService.getStatement(id, {
+      from,
+      to,
+    });
+    if (!statement)
+      return res.status(404).json({ error: "Supplier not found" });
+
+    const filename = `supplier-statement-${id}-${statement.to}.${format}`;
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+      return res.send(statementToCsv(statement));
+    }
+    if (format === "pdf") {
+      const pdf = await statementToPdf(statement);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}"`
+      );
+      return res.send(pdf);
+    }
+    res.json(statement);
+  } catch (error) {
+    console.error("Error building supplier statement:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/suppliers/{id}/open_items:
+ *   get:
+ *     summary: Get a supplier's purchases with their paid and unpaid amounts
+ *     tags:
+ *       - Suppliers
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Purchase open items
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SupplierOpenItems'
+ *       500:
+ *         description: Internal server error
+ */
+router.get("/:id/open_items", async (req: Request, res: Response) => {
+  try {
+    res.json(await supplierTransactionsService.getOpenItems(req.params.id));
+  } catch (error) {
+    console.error("Error fetching supplier open items:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/suppliers/{id}/payments:
+ *   get:
+ *     summary: Get payments made to a supplier with their allocations
+ *     tags:
+ *       - Suppliers
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Supplier payments
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SupplierPayment'
+ *   post:
+ *     summary: Record a payment to a supplier
+ *     description: >
+ *       Posts a debit to the supplier ledger and allocates it to open purchase
+ *       credits. Pass allocations to choose the purchases (by supplier_transaction_id
+ *       or by the purchase's reference_no), or auto_allocate to settle the oldest
+ *       open purchases first. Any amount not allocated stays on account.
+ *     tags:
+ *       - Suppliers
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SupplierPaymentInput'
+ *     responses:
+ *       201:
+ *         description: Payment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 payment:
+ *                   $ref: '#/components/schemas/SupplierPayment'
+ *                 supplier_transaction:
+ *                   $ref: '#/components/schemas/SupplierTransaction'
+ *                 allocations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SupplierPaymentAllocation'
+ *                 unallocated:
+ *                   type: number
+ *       400:
+ *         description: Invalid payment or allocation
+ *       404:
+ *         description: Supplier not found
+ *       409:
+ *         description: An allocation exceeds the purchase's outstanding amount
+ */
+router.get("/:id/payments", async (req: Request, res: Response) => {
+  try {
+    res.json(await supplierTransactionsService.getPayments(req.params.id));
+  } catch (error) {
+    console.error("Error fetching supplier payments:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+router.post("/:id/payments", async (req: Request, res: Response) => {
+  const {
+    amount,
+    method,
+    reference,
+    payment_date,
+    notes,
+    allocations,
+    auto_allocate,
+  } = req.body;
+
+  if (!(Number(amount) > 0)) {
+    return res.status(400).json({ error: "amount must be greater than 0" });
+  }
+  if (!PAYMENT_METHODS.includes(method)) {
+    return res.status(400).json({
+      error: `method must be one of ${PAYMENT_METHODS.join(", ")}`,
+    });
+  }
+  if (allocations !== undefined) {
+    if (!Array.isArray(allocations)) {
+      return res.status(400).json({ error: "allocations must be an array" });
+    }
+    for (const allocation of allocations) {
+      if (
+        !(allocation?.supplier_transaction_id || allocation?.reference_no) ||
+        !(Number(allocation.amount) > 0)
+      ) {
+        return res.status(400).json({
+          error:
+            "Each allocation needs a supplier_transaction_id or reference_no and an amount greater than 0",
+        });
+      }
+    }
+    if (allocations.length && auto_allocate) {
+      return res.status(400).json({
+        error: "Use either allocations or auto_allocate, not both",
+      });
+    }
+  }
+
+  try {
+    const posted = await supplierTransactionsService.postPayment(
+      req.params.id,
+      {
+        amount: Number(amount),
+        method,
+        reference,
+        payment_date,
+        notes,
+        allocations: (allocations ?? []).map((allocation: any) => ({
+          supplier_transaction_id: allocation.supplier_transaction_id,
+          reference_no: allocation.reference_no,
+          amount: Number(allocation.amount),
+        })),
+        auto_allocate: !!auto_allocate,
+        created_by: req.user?.id,
+      }
+    );
+    res.status(201).json(posted);
+  } catch (error) {
+    sendDbError(res, error, "recording supplier payment", {
+      P0002: "Supplier not found",
+    });
+  }
+});
+
+/**
+ * @openapi
+ * /api/v1/suppliers/{id}/payments/{paymentId}:
+ *   delete:
+ *     summary: Delete a supplier payment with its ledger entry and allocations
+ *     tags:
+ *       - Suppliers
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Payment deleted
+ *       404:
+ *         description: Payment not found
+ */
+router.delete(
+  "/:id/payments/:paymentId",
+  async (req: Request, res: Response) => {
+    try {
+      const deleted = await supplierTransactionsService.deletePayment(
+        req.params.id,
+        req.params.paymentId
+      );
+      if (!deleted) return res.status(404).json({ error: "Payment not found" });
+      res.json({ message: "Payment deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting supplier payment:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
+
 /**
  * @openapi
  * /api/v1/suppliers/{id}:
@@ -377,4 +737,226 @@ export default router;
  *           type: number
  *           format: numeric
  *           description: Calculated balance (credit - debit). Positive means supplier owes us, negative means we owe supplier.
+ *     SupplierStatementEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         transaction_date:
+ *           type: string
+ *           format: date-time
+ *         reference_no:
+ *           type: string
+ *         notes:
+ *           type: string
+ *         credit:
+ *           type: number
+ *         debit:
+ *           type: number
+ *         balance:
+ *           type: number
+ *           description: Running balance (credit - debit) after this entry
+ *         inventory_transaction:
+ *           type: object
+ *           nullable: true
+ *           description: Originating inventory transaction, when reference_no is its ID
+ *           properties:
+ *             id:
+ *               type: string
+ *               format: uuid
+ *             transaction_type:
+ *               type: string
+ *             transaction_date:
+ *               type: string
+ *               format: date-time
+ *             qty_in:
+ *               type: number
+ *             qty_out:
+ *               type: number
+ *             in_cost:
+ *               type: number
+ *             item_id:
+ *               type: string
+ *               format: uuid
+ *             item_name:
+ *               type: string
+ *     SupplierStatement:
+ *       type: object
+ *       properties:
+ *         supplier:
+ *           $ref: '#/components/schemas/Supplier'
+ *         from:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *         to:
+ *           type: string
+ *           format: date
+ *         opening_balance:
+ *           type: number
+ *         entries:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SupplierStatementEntry'
+ *         total_credit:
+ *           type: number
+ *         total_debit:
+ *           type: number
+ *         closing_balance:
+ *           type: number
+ *         aging:
+ *           type: object
+ *           description: Unpaid purchase credits as of the end of the period by age in days
+ *           properties:
+ *             0_30:
+ *               type: number
+ *             31_60:
+ *               type: number
+ *             61_90:
+ *               type: number
+ *             90_plus:
+ *               type: number
+ *             total:
+ *               type: number
+ *             open_items:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   supplier_transaction_id:
+ *                     type: string
+ *                     format: uuid
+ *                   reference_no:
+ *                     type: string
+ *                   transaction_date:
+ *                     type: string
+ *                     format: date-time
+ *                   credit:
+ *                     type: number
+ *                   paid:
+ *                     type: number
+ *                   outstanding:
+ *                     type: number
+ *                   age_days:
+ *                     type: integer
+ *                   bucket:
+ *                     type: string
+ *                     enum: [0_30, 31_60, 61_90, 90_plus]
+ *     SupplierOpenItems:
+ *       type: object
+ *       properties:
+ *         supplier_id:
+ *           type: string
+ *           format: uuid
+ *         items:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               supplier_transaction_id:
+ *                 type: string
+ *                 format: uuid
+ *               reference_no:
+ *                 type: string
+ *                 description: Originating inventory transaction ID
+ *               transaction_date:
+ *                 type: string
+ *                 format: date-time
+ *               credit:
+ *                 type: number
+ *               paid:
+ *                 type: number
+ *               outstanding:
+ *                 type: number
+ *               status:
+ *                 type: string
+ *                 enum: [paid, partially_paid, unpaid]
+ *         total_outstanding:
+ *           type: number
+ *         unallocated:
+ *           type: number
+ *           description: Payments and debits not linked to a purchase (on account)
+ *         balance:
+ *           type: number
+ *           description: Credit - debit; equals total_outstanding - unallocated
+ *     SupplierPaymentInput:
+ *       type: object
+ *       required:
+ *         - amount
+ *         - method
+ *       properties:
+ *         amount:
+ *           type: number
+ *         method:
+ *           type: string
+ *           enum: [cash, bank_transfer, cheque, mobile_money, card, other]
+ *         reference:
+ *           type: string
+ *           description: Cheque number, bank reference and the like
+ *         payment_date:
+ *           type: string
+ *           format: date-time
+ *         notes:
+ *           type: string
+ *         auto_allocate:
+ *           type: boolean
+ *           description: Settle the oldest open purchases first
+ *         allocations:
+ *           type: array
+ *           items:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               supplier_transaction_id:
+ *                 type: string
+ *                 format: uuid
+ *               reference_no:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *     SupplierPaymentAllocation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         payment_id:
+ *           type: string
+ *           format: uuid
+ *         credit_transaction_id:
+ *           type: string
+ *           format: uuid
+ *         amount:
+ *           type: number
+ *     SupplierPayment:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         payment_number:
+ *           type: string
+ *         supplier_id:
+ *           type: string
+ *           format: uuid
+ *         supplier_transaction_id:
+ *           type: string
+ *           format: uuid
+ *         payment_date:
+ *           type: string
+ *           format: date-time
+ *         amount:
+ *           type: number
+ *         method:
+ *           type: string
+ *         reference:
+ *           type: string
+ *         notes:
+ *           type: string
+ *         allocations:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SupplierPaymentAllocation'
  */
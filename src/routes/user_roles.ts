@@ -1,11 +1,32 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../supabaseClient";
-import { authenticateSupabaseToken, authorize } from "../middleware/auth";
+import { authorizeUserRole } from "../middleware/auth";
+import {
+  ADMIN_ROLES,
+  privilegeService,
+  UNRESTRICTED_ROLES,
+} from "../services/privilegeService";
 
 const router = Router();
 
-router.use(authenticateSupabaseToken);
-// router.use(authorize(["admin", "super-admin"]));
+router.use(authorizeUserRole(ADMIN_ROLES));
+
+/**
+ * Only a user with an unrestricted role may grant or remove one
+ * @returns An error message, or null when the change is allowed
+ */
+async function checkRoleGrant(
+  req: Request,
+  roleCode: string
+): Promise<string | null> {
+  if (!UNRESTRICTED_ROLES.includes(roleCode)) return null;
+  const callerRole = req.user?.id
+    ? await privilegeService.getUserRoleCode(req.user.id)
+    : null;
+  return callerRole && UNRESTRICTED_ROLES.includes(callerRole)
+    ? null
+    : `Only ${UNRESTRICTED_ROLES.join(", ")} users can assign or remove the ${roleCode} role`;
+}
 
 /**
  * @openapi
@@ -68,6 +89,8 @@ router.use(authenticateSupabaseToken);
  *               $ref: '#/components/schemas/UserRole'
  *       400:
  *         description: Missing or invalid request body
+ *       403:
+ *         description: Caller is not an admin, or is granting or replacing SUPER_ADMIN without being one
  */
 router
   .route("/")
@@ -124,6 +147,22 @@ router
         .status(400)
         .json({ error: "user_id and role_code are required" });
     }
+    const grantError = await checkRoleGrant(req, role_code);
+    if (grantError) return res.status(403).json({ error: grantError });
+
+    // Replacing an unrestricted role is removing it
+    const { data: current, error: currentError } = await supabase
+      .from("user_roles")
+      .select("role_code")
+      .eq("user_id", user_id)
+      .maybeSingle();
+    if (currentError) {
+      return res.status(500).json({ error: currentError.message });
+    }
+    if (current && current.role_code !== role_code) {
+      const removeError = await checkRoleGrant(req, current.role_code);
+      if (removeError) return res.status(403).json({ error: removeError });
+    }
 
     const { data, error } = await supabase
       .from("user_roles")
@@ -158,6 +197,7 @@ router
       return res.status(500).json({ error: error.message });
     }
 
+    privilegeService.invalidateUser(user_id);
     res.status(200).json(data);
   });
 
@@ -243,11 +283,15 @@ router.get("/:user_id", async (req: Request, res: Response) => {
  *     responses:
  *       204:
  *         description: Role removed from user
+ *       403:
+ *         description: Caller is not an admin, or is removing SUPER_ADMIN without being one
  *       404:
  *         description: Assignment not found
  */
 router.delete("/:user_id/:role_code", async (req: Request, res: Response) => {
   const { user_id, role_code } = req.params;
+  const grantError = await checkRoleGrant(req, role_code);
+  if (grantError) return res.status(403).json({ error: grantError });
 
   const { data, error } = await supabase
     .from("user_roles")
@@ -262,6 +306,7 @@ router.delete("/:user_id/:role_code", async (req: Request, res: Response) => {
     return res.status(404).json({ error: "Assignment not found" });
   }
 
+  privilegeService.invalidateUser(user_id);
   res.status(204).send();
 });
 
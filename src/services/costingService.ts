@@ -0,0 +1,322 @@
+import { supabase } from "../supabaseClient";
+
+export type CostingMethod = "weighted_average" | "fifo";
+
+export const COSTING_METHODS: CostingMethod[] = ["weighted_average", "fifo"];
+
+export interface CostedTransaction {
+  id: string;
+  transaction_type: string;
+  transaction_date: string;
+  qty_in: number;
+  qty_out: number;
+  previous_out_cost: number;
+  out_cost: number;
+}
+
+export interface CostRecalculationResult {
+  item_id: string;
+  costing_method: CostingMethod;
+  transactions_checked: number;
+  transactions_updated: number;
+  updated: CostedTransaction[];
+}
+
+type CostLayer = {
+  qty: number;
+  unit_cost: number;
+};
+
+type LedgerRow = {
+  id: string;
+  item_id: string;
+  transaction_type: string;
+  transaction_date: string;
+  created_at: string;
+  qty_in: number | null;
+  in_cost: number | null;
+  qty_out: number | null;
+  out_cost: number | null;
+  status: string;
+};
+
+/**
+ * Running cost position for an item, replayed from its stock movements to
+ * value stock on hand. Weighted average keeps a single pooled layer; FIFO
+ * keeps one layer per stock-in and consumes the oldest first. Stock-outs are
+ * costed in the database by item_out_cost.
+ */
+class CostPosition {
+  private layers: CostLayer[] = [];
+
+  constructor(private method: CostingMethod) {}
+
+  receive(qty: number, totalCost: number): void {
+    if (qty <= 0) return;
+    const unitCost = totalCost / qty;
+
+    if (this.method === "fifo") {
+      this.layers.push({ qty, unit_cost: unitCost });
+      return;
+    }
+
+    const current = this.layers[0] ?? { qty: 0, unit_cost: 0 };
+    const newQty = current.qty + qty;
+    // Stock at or below zero carries no value, so the receipt sets the average
+    this.layers = [
+      {
+        qty: newQty,
+        unit_cost:
+          current.qty > 0
+            ? (current.qty * current.unit_cost + totalCost) / newQty
+            : unitCost,
+      },
+    ];
+  }
+
+  /**
+   * Quantity and value currently held in the position
+   */
+  onHand(): { qty: number; value: number } {
+    return this.layers.reduce(
+      (sum, layer) => ({
+        qty: sum.qty + layer.qty,
+        value: sum.value + Math.max(layer.qty, 0) * layer.unit_cost,
+      }),
+      { qty: 0, value: 0 }
+    );
+  }
+
+  /**
+   * Remove qty from the position and return its cost
+   */
+  issue(qty: number): number {
+    if (qty <= 0) return 0;
+
+    if (this.method === "weighted_average") {
+      const current = this.layers[0] ?? { qty: 0, unit_cost: 0 };
+      this.layers = [{ qty: current.qty - qty, unit_cost: current.unit_cost }];
+      return qty * current.unit_cost;
+    }
+
+    let remaining = qty;
+    let cost = 0;
+    let lastUnitCost = 0;
+    while (remaining > 0 && this.layers.length) {
+      const layer = this.layers[0];
+      const taken = Math.min(layer.qty, remaining);
+      cost += taken * layer.unit_cost;
+      lastUnitCost = layer.unit_cost;
+      layer.qty -= taken;
+      remaining -= taken;
+      if (layer.qty <= 0) this.layers.shift();
+    }
+    // Issuing beyond recorded layers: cost the excess at the last known price
+    return cost + remaining * lastUnitCost;
+  }
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export interface StockPosition {
+  item_id: string;
+  costing_method: CostingMethod;
+  quantity_on_hand: number;
+  unit_cost: number;
+  extended_value: number;
+}
+
+const PAGE_SIZE = 1000;
+
+type LedgerFilter = {
+  /** Limit to items in a category or of a brand */
+  category_id?: string;
+  brand_id?: string;
+  /** Only movements dated before this instant */
+  before?: Date;
+};
+
+export class CostingService {
+  /**
+   * Global costing method used when an item does not set its own
+   */
+  getDefaultMethod(): CostingMethod {
+    const configured = process.env.INVENTORY_COSTING_METHOD as CostingMethod;
+    return COSTING_METHODS.includes(configured)
+      ? configured
+      : "weighted_average";
+  }
+
+  /**
+   * Resolve the costing method for an item (item setting, else global)
+   * @param itemId - The UUID of the inventory item
+   * @returns Promise<CostingMethod>
+   */
+  async getMethodForItem(itemId: string): Promise<CostingMethod> {
+    const { data, error } = await supabase
+      .from("inventory_items")
+      .select("costing_method")
+      .eq("id", itemId)
+      .single();
+
+    if (error) {
+      console.error("Error fetching item costing method:", error);
+      throw error;
+    }
+
+    return (data?.costing_method as CostingMethod) || this.getDefaultMethod();
+  }
+
+  /**
+   * Compute the cost of issuing qty of an item on a date from the stock-in
+   * layers recorded on or before that date (item_out_cost, which stock-outs
+   * also use under the item lock)
+   * @param itemId - The UUID of the inventory item
+   * @param qty - Quantity being issued
+   * @param transactionDate - Date of the stock-out (defaults to now)
+   * @returns Promise<number> - total out_cost rounded to 2 decimals
+   */
+  async computeOutCost(
+    itemId: string,
+    qty: number,
+    transactionDate?: string
+  ): Promise<number> {
+    const { data, error } = await supabase.rpc("item_out_cost", {
+      _item_id: itemId,
+      _qty: qty,
+      _as_of: transactionDate ?? null,
+      _default_costing_method: this.getDefaultMethod(),
+    });
+
+    if (error) {
+      console.error("Error calling item_out_cost:", error);
+      throw error;
+    }
+
+    return Number(data) || 0;
+  }
+
+  /**
+   * Cost every stock-out of an item again from its full history
+   * (recalculate_item_costs, under the item lock), e.g. after a back-dated
+   * purchase is inserted
+   * @param itemId - The UUID of the inventory item
+   * @returns Promise<CostRecalculationResult>
+   */
+  async recalculateItemCosts(itemId: string): Promise<CostRecalculationResult> {
+    const { data, error } = await supabase.rpc("recalculate_item_costs", {
+      _item_id: itemId,
+      _default_costing_method: this.getDefaultMethod(),
+    });
+
+    if (error) {
+      console.error("Error calling recalculate_item_costs:", error);
+      throw error;
+    }
+
+    return data as CostRecalculationResult;
+  }
+
+  /**
+   * Quantity on hand and cost value per item from movements dated before a
+   * cut-off, each item valued with its own costing method. Quantities count
+   * the movements inventory_item_summary counts.
+   * @param items - Items to value with their costing_method setting
+   * @param before - Exclusive cut-off for transaction_date
+   * @param filters - The category and brand the items were selected by, so
+   *   only their movements are read
+   * @returns Promise<Map<string, StockPosition>> keyed by item ID
+   */
+  async getStockPositions(
+    items: { id: string; costing_method?: CostingMethod | null }[],
+    before: Date,
+    filters: { category_id?: string; brand_id?: string } = {}
+  ): Promise<Map<string, StockPosition>> {
+    const positions = new Map<string, CostPosition>();
+    const methods = new Map<string, CostingMethod>();
+    for (const item of items) {
+      const method = item.costing_method || this.getDefaultMethod();
+      methods.set(item.id, method);
+      positions.set(item.id, new CostPosition(method));
+    }
+
+    const ledger = await this.getLedger({ ...filters, before });
+    for (const row of ledger) {
+      const position = positions.get(row.item_id);
+      if (position) this.apply(position, row);
+    }
+
+    const result = new Map<string, StockPosition>();
+    for (const [itemId, position] of positions) {
+      const { qty, value } = position.onHand();
+      result.set(itemId, {
+        item_id: itemId,
+        costing_method: methods.get(itemId)!,
+        quantity_on_hand: qty,
+        unit_cost: qty > 0 ? roundMoney(value / qty) : 0,
+        extended_value: roundMoney(value),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Apply one movement to the position
+   */
+  private apply(position: CostPosition, row: LedgerRow): void {
+    // Transfers move stock between locations; the item's cost pool is global
+    if (row.transaction_type === "transfer") return;
+
+    const qtyIn = Number(row.qty_in) || 0;
+    const qtyOut = Number(row.qty_out) || 0;
+
+    if (qtyIn > 0) position.receive(qtyIn, Number(row.in_cost) || 0);
+    else if (qtyOut > 0) position.issue(qtyOut);
+  }
+
+  /**
+   * Completed stock movements, oldest first: the movements
+   * inventory_item_summary counts
+   * @param filter - Items and dates to read; every item when empty
+   */
+  private async getLedger(filter: LedgerFilter = {}): Promise<LedgerRow[]> {
+    const rows: LedgerRow[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from("inventory_transactions")
+        .select(
+          "id, item_id, transaction_type, transaction_date, created_at, qty_in, in_cost, qty_out, out_cost, status, inventory_items!inner(category_id, brand_id)"
+        )
+        .eq("status", "completed");
+      if (filter.category_id) {
+        query = query.eq("inventory_items.category_id", filter.category_id);
+      }
+      if (filter.brand_id) {
+        query = query.eq("inventory_items.brand_id", filter.brand_id);
+      }
+      if (filter.before) {
+        query = query.lt("transaction_date", filter.before.toISOString());
+      }
+
+      const { data, error } = await query
+        .order("transaction_date", { ascending: true })
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        console.error("Error fetching item ledger:", error);
+        throw error;
+      }
+
+      rows.push(...((data ?? []) as LedgerRow[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+}
+
+// Export a singleton instance
+export const costingService = new CostingService();
@@ -1,4 +1,5 @@
 import nodemailer, { Transporter } from "nodemailer";
+import { EmailTemplates } from "./emailTemplates";
 
 export interface EmailConfig {
   driver: string;
@@ -168,6 +169,28 @@ export class EmailService {
     return await this.sendNotification(data);
   }
 
+  /**
+   * Send an alert listing lots that expire within the alert window
+   * @param recipientEmail - Recipient email address(es)
+   * @param days - Days ahead of expiry the alert covers
+   * @param lots - Lots expiring, with the quantity still held
+   * @returns Promise<boolean>
+   */
+  async sendLotExpiryAlert(
+    recipientEmail: string | string[],
+    days: number,
+    lots: Parameters<typeof EmailTemplates.lotExpiryAlert>[0]["lots"]
+  ): Promise<boolean> {
+    const template = EmailTemplates.lotExpiryAlert({ days, lots });
+
+    return await this.sendEmail({
+      to: recipientEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    });
+  }
+
   /**
    * Send welcome email to new users
    * @param recipientEmail - Recipient email address
@@ -50,6 +50,68 @@ export class EmailTemplates {
     };
   }
 
+  /**
+   * Lot Expiry Alert Template
+   */
+  static lotExpiryAlert(data: {
+    days: number;
+    lots: {
+      itemName: string;
+      lotNumber?: string | null;
+      expiryDate: string;
+      quantity: number;
+      location?: string | null;
+    }[];
+  }): EmailTemplate {
+    const rows = data.lots
+      .map(
+        (lot) => `
+            <tr>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${lot.itemName}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${lot.lotNumber || "-"}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${lot.location || "-"}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6;">${lot.expiryDate}</td>
+              <td style="padding: 8px; border: 1px solid #dee2e6; text-align: right;">${lot.quantity}</td>
+            </tr>`
+      )
+      .join("");
+
+    return {
+      subject: `Expiry Alert: ${data.lots.length} lot(s) expiring within ${data.days} days`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #e67e22;">⏰ Lot Expiry Alert</h2>
+          
+          <p>The following stock expires within the next ${data.days} days or has already expired.</p>
+          
+          <table style="border-collapse: collapse; width: 100%; margin: 20px 0;">
+            <tr style="background-color: #f8f9fa;">
+              <th style="padding: 8px; border: 1px solid #dee2e6; text-align: left;">Item</th>
+              <th style="padding: 8px; border: 1px solid #dee2e6; text-align: left;">Lot</th>
+              <th style="padding: 8px; border: 1px solid #dee2e6; text-align: left;">Location</th>
+              <th style="padding: 8px; border: 1px solid #dee2e6; text-align: left;">Expires</th>
+              <th style="padding: 8px; border: 1px solid #dee2e6; text-align: right;">Quantity</th>
+            </tr>${rows}
+          </table>
+          
+          <div style="background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; margin: 20px 0; border-radius: 5px;">
+            <p style="margin: 0; color: #856404;">
+              <strong>Action Required:</strong> Issue these lots first, or write off expired stock with an expiry adjustment.
+            </p>
+          </div>
+        </div>
+      `,
+      text: `Lot Expiry Alert\n\n${data.lots
+        .map(
+          (lot) =>
+            `${lot.itemName} (lot ${lot.lotNumber || "-"}, ${
+              lot.location || "-"
+            }): ${lot.quantity} expiring ${lot.expiryDate}`
+        )
+        .join("\n")}`,
+    };
+  }
+
   /**
    * Welcome Email Template
    */
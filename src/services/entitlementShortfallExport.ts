@@ -0,0 +1,77 @@
+import { toCsv } from "../utils/csv";
+import { EntitlementShortfallReport } from "./entitlementShortfallService";
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+/**
+ * Render an entitlement shortfall report as CSV: header block, one row per
+ * item, then the per-class breakdown
+ */
+export function shortfallToCsv(report: EntitlementShortfallReport): string {
+  const rows: unknown[][] = [
+    [
+      "Term",
+      `${report.session_term.session} ${report.session_term.name}`.trim(),
+    ],
+    ["Class", report.school_class?.name ?? "All classes"],
+    [],
+    [
+      "Item",
+      "SKU",
+      "Unit",
+      "Supplier",
+      "Required",
+      "Distributed",
+      "Outstanding",
+      "In stock",
+      "Shortfall",
+      "On order",
+      "To order",
+      "Unit cost",
+      "Order value",
+    ],
+    ...report.items.map((item) => [
+      item.name,
+      item.sku ?? "",
+      item.uom_name ?? "",
+      item.supplier_name ?? "",
+      item.required_qty,
+      item.distributed_qty,
+      item.outstanding_qty,
+      item.current_stock,
+      item.shortfall_qty,
+      item.on_order_qty,
+      item.suggested_qty,
+      formatAmount(item.unit_cost),
+      formatAmount(item.suggested_value),
+    ]),
+    [
+      "Total",
+      "",
+      "",
+      "",
+      "",
+      "",
+      report.totals.outstanding_qty,
+      "",
+      report.totals.shortfall_qty,
+      "",
+      "",
+      "",
+      formatAmount(report.totals.suggested_value),
+    ],
+    [],
+    ["Item", "Class", "Students", "Required", "Distributed", "Outstanding"],
+    ...report.items.flatMap((item) =>
+      item.classes.map((row) => [
+        item.name,
+        row.class_name,
+        row.students,
+        row.required_qty,
+        row.distributed_qty,
+        row.outstanding_qty,
+      ])
+    ),
+  ];
+  return toCsv(rows);
+}
@@ -0,0 +1,307 @@
+import { supabase } from "../supabaseClient";
+import { replenishmentService } from "./replenishmentService";
+import { dbError } from "../utils/dbError";
+
+export interface EntitlementShortfallOptions {
+  session_term_id: string;
+  /** Limit the report to one class */
+  class_id?: string;
+}
+
+/** One class's share of an item's entitlement demand */
+export interface ShortfallClass {
+  class_id: string;
+  class_name: string;
+  /** Active students in the class */
+  students: number;
+  required_qty: number;
+  distributed_qty: number;
+  outstanding_qty: number;
+}
+
+export interface ShortfallItem {
+  item_id: string;
+  name: string;
+  sku: string | null;
+  uom_name: string | null;
+  preferred_supplier_id: string | null;
+  supplier_name: string | null;
+  unit_cost: number;
+  /** Entitled quantity times active students, over the classes */
+  required_qty: number;
+  /** Already distributed to the classes this term */
+  distributed_qty: number;
+  outstanding_qty: number;
+  current_stock: number;
+  /** Outstanding quantity that stock on hand does not cover */
+  shortfall_qty: number;
+  /** Outstanding on draft and open purchase orders */
+  on_order_qty: number;
+  /** Shortfall not yet on order */
+  suggested_qty: number;
+  suggested_value: number;
+  classes: ShortfallClass[];
+}
+
+export interface EntitlementShortfallReport {
+  session_term: any;
+  school_class: any | null;
+  items: ShortfallItem[];
+  totals: {
+    /** Items with a shortfall */
+    items: number;
+    outstanding_qty: number;
+    shortfall_qty: number;
+    suggested_value: number;
+  };
+}
+
+export interface EntitlementShortfallOrders {
+  purchase_orders: any[];
+  /** Items left out because they have no preferred supplier */
+  unassigned: ShortfallItem[];
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const OPEN_ORDER_STATUSES = ["draft", "approved", "partially_received"];
+
+export class EntitlementShortfallService {
+  /**
+   * Compare a term's class entitlements with what has been distributed and
+   * with stock on hand. Per item: required is the entitled quantity times
+   * each class's active students, outstanding is required less distributed,
+   * and shortfall is outstanding less current stock. Kits are reported as
+   * their components, and items with variants count the variants' stock and
+   * distributions.
+   */
+  async getReport(
+    options: EntitlementShortfallOptions
+  ): Promise<EntitlementShortfallReport> {
+    const term = await this.getTerm(options.session_term_id);
+    const schoolClass = options.class_id
+      ? await this.getClass(options.class_id)
+      : null;
+
+    const { data: demand, error: demandError } = await supabase.rpc(
+      "entitlement_shortfall",
+      {
+        _session_term_id: term.id,
+        _class_id: schoolClass?.id ?? null,
+      }
+    );
+    if (demandError) {
+      console.error("Error calling entitlement_shortfall:", demandError);
+      throw demandError;
+    }
+    const rows = (demand ?? []) as any[];
+    const itemIds = [...new Set(rows.map((row) => row.item_id as string))];
+    if (!itemIds.length) {
+      return {
+        session_term: term,
+        school_class: schoolClass,
+        items: [],
+        totals: {
+          items: 0,
+          outstanding_qty: 0,
+          shortfall_qty: 0,
+          suggested_value: 0,
+        },
+      };
+    }
+
+    const { data: items, error: itemsError } = await supabase
+      .from("inventory_item_summary")
+      .select(
+        "id, name, sku, uom_name, cost_price, current_stock, preferred_supplier_id, suppliers(id, name)"
+      )
+      .in("id", itemIds);
+    if (itemsError) {
+      console.error("Error fetching items for shortfall:", itemsError);
+      throw itemsError;
+    }
+
+    const { data: classes, error: classesError } = await supabase
+      .from("school_classes")
+      .select("id, name")
+      .in("id", [...new Set(rows.map((row) => row.class_id as string))]);
+    if (classesError) {
+      console.error("Error fetching classes for shortfall:", classesError);
+      throw classesError;
+    }
+    const classNames = new Map(
+      (classes ?? []).map((row: any) => [row.id, row.name])
+    );
+
+    const onOrder = await this.getOnOrder(itemIds);
+
+    const report: ShortfallItem[] = [];
+    for (const item of (items ?? []) as any[]) {
+      const itemClasses = rows
+        .filter((row) => row.item_id === item.id)
+        .map((row) => {
+          const required = Number(row.required_qty) || 0;
+          const distributed = Number(row.distributed_qty) || 0;
+          return {
+            class_id: row.class_id,
+            class_name: classNames.get(row.class_id) ?? "",
+            students: Number(row.students) || 0,
+            required_qty: required,
+            distributed_qty: distributed,
+            outstanding_qty: Math.max(required - distributed, 0),
+          };
+        })
+        .sort((a, b) => a.class_name.localeCompare(b.class_name));
+
+      const sum = (
+        key: "required_qty" | "distributed_qty" | "outstanding_qty"
+      ) => itemClasses.reduce((total, row) => total + row[key], 0);
+      const outstanding = sum("outstanding_qty");
+      const currentStock = Number(item.current_stock) || 0;
+      const shortfall = Math.max(outstanding - currentStock, 0);
+      const itemOnOrder = onOrder.get(item.id) ?? 0;
+      const suggested = Math.ceil(Math.max(shortfall - itemOnOrder, 0));
+      const unitCost = Number(item.cost_price) || 0;
+
+      report.push({
+        item_id: item.id,
+        name: item.name,
+        sku: item.sku ?? null,
+        uom_name: item.uom_name ?? null,
+        preferred_supplier_id: item.preferred_supplier_id ?? null,
+        supplier_name: item.suppliers?.name ?? null,
+        unit_cost: unitCost,
+        required_qty: sum("required_qty"),
+        distributed_qty: sum("distributed_qty"),
+        outstanding_qty: outstanding,
+        current_stock: currentStock,
+        shortfall_qty: shortfall,
+        on_order_qty: itemOnOrder,
+        suggested_qty: suggested,
+        suggested_value: roundMoney(suggested * unitCost),
+        classes: itemClasses,
+      });
+    }
+
+    // Largest shortfall first, then by name
+    report.sort(
+      (a, b) =>
+        b.shortfall_qty - a.shortfall_qty || a.name.localeCompare(b.name)
+    );
+
+    return {
+      session_term: term,
+      school_class: schoolClass,
+      items: report,
+      totals: {
+        items: report.filter((row) => row.shortfall_qty > 0).length,
+        outstanding_qty: report.reduce(
+          (total, row) => total + row.outstanding_qty,
+          0
+        ),
+        shortfall_qty: report.reduce(
+          (total, row) => total + row.shortfall_qty,
+          0
+        ),
+        suggested_value: roundMoney(
+          report.reduce((total, row) => total + row.suggested_value, 0)
+        ),
+      },
+    };
+  }
+
+  /**
+   * Order the shortfall not yet on order: one draft purchase order per
+   * preferred supplier, as replenishment does. Items with variants are left
+   * out, as they are bought as their variants.
+   * @param itemIds - Only order these items
+   */
+  async createPurchaseOrders(
+    options: EntitlementShortfallOptions,
+    itemIds?: string[],
+    userId?: string
+  ): Promise<EntitlementShortfallOrders> {
+    const report = await this.getReport(options);
+    const { data: parents, error } = await supabase
+      .from("inventory_item_summary")
+      .select("id")
+      .in(
+        "id",
+        report.items.map((row) => row.item_id)
+      )
+      .eq("has_variants", true);
+    if (error) {
+      console.error("Error fetching parent items:", error);
+      throw error;
+    }
+    const parentIds = new Set((parents ?? []).map((row: any) => row.id));
+
+    const selected = report.items.filter(
+      (row) =>
+        row.suggested_qty > 0 &&
+        !parentIds.has(row.item_id) &&
+        (!itemIds || itemIds.includes(row.item_id))
+    );
+    const notes = report.school_class
+      ? `Entitlement shortfall for ${report.school_class.name}, ${report.session_term.name}`
+      : `Entitlement shortfall for ${report.session_term.name}`;
+    return replenishmentService.draftPurchaseOrders(selected, notes, userId);
+  }
+
+  /**
+   * Base-unit quantity outstanding on open purchase orders, by item
+   */
+  private async getOnOrder(itemIds: string[]): Promise<Map<string, number>> {
+    const { data, error } = await supabase
+      .from("purchase_order_line_balances")
+      .select(
+        "item_id, qty_outstanding, uom_factor, purchase_orders!inner(status)"
+      )
+      .in("item_id", itemIds)
+      .in("purchase_orders.status", OPEN_ORDER_STATUSES);
+    if (error) {
+      console.error("Error fetching purchase order lines:", error);
+      throw error;
+    }
+    const onOrder = new Map<string, number>();
+    for (const row of (data ?? []) as any[]) {
+      onOrder.set(
+        row.item_id,
+        (onOrder.get(row.item_id) ?? 0) +
+          (Number(row.qty_outstanding) || 0) * (Number(row.uom_factor) || 1)
+      );
+    }
+    return onOrder;
+  }
+
+  private async getTerm(id: string) {
+    const { data, error } = await supabase
+      .from("academic_session_terms")
+      .select("id, session, name, start_date, end_date")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching academic term:", error);
+      throw error;
+    }
+    if (!data) throw dbError("Academic term not found", "P0002");
+    return data;
+  }
+
+  private async getClass(id: string) {
+    const { data, error } = await supabase
+      .from("school_classes")
+      .select("id, name")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching class:", error);
+      throw error;
+    }
+    if (!data) throw dbError("Class not found", "P0002");
+    return data;
+  }
+}
+
+// Export a singleton instance
+export const entitlementShortfallService = new EntitlementShortfallService();
@@ -0,0 +1,182 @@
+import { supabase } from "../supabaseClient";
+import { emailService } from "./emailService";
+
+export interface LotBalance {
+  lot_id: string;
+  item_id: string;
+  lot_number: string | null;
+  expiry_date: string | null;
+  expiry_alert_sent_at: string | null;
+  location_id: string;
+  qty_on_hand: number;
+  inventory_items?: { id: string; name: string; sku: string | null };
+  locations?: { id: string; code: string; name: string };
+}
+
+export interface ExpiringLot extends LotBalance {
+  days_to_expiry: number;
+  is_expired: boolean;
+}
+
+export interface ExpiryAlertResult {
+  sent: boolean;
+  recipients: string[];
+  days: number;
+  lots: ExpiringLot[];
+}
+
+export const DEFAULT_EXPIRY_ALERT_DAYS = 30;
+
+const LOT_SELECT =
+  "*, inventory_items(id, name, sku), locations(id, code, name)";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export class InventoryLotService {
+  /**
+   * Days ahead of expiry that lots are reported and alerted on
+   */
+  getAlertDays(): number {
+    const configured = Number(process.env.LOT_EXPIRY_ALERT_DAYS);
+    return Number.isInteger(configured) && configured >= 0
+      ? configured
+      : DEFAULT_EXPIRY_ALERT_DAYS;
+  }
+
+  /**
+   * Addresses expiry alerts go to when the caller does not name any
+   */
+  getAlertRecipients(): string[] {
+    return (process.env.LOT_EXPIRY_ALERT_EMAILS || "")
+      .split(",")
+      .map((email) => email.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Stock held per lot and location, earliest expiry first
+   * @param filters - Optional item_id and location_id; include_empty keeps
+   *   lots that have been fully used
+   */
+  async list(
+    filters: {
+      item_id?: string;
+      location_id?: string;
+      include_empty?: boolean;
+    } = {}
+  ): Promise<LotBalance[]> {
+    let query = supabase.from("inventory_lot_balances").select(LOT_SELECT);
+    if (filters.item_id) query = query.eq("item_id", filters.item_id);
+    if (filters.location_id) {
+      query = query.eq("location_id", filters.location_id);
+    }
+    if (!filters.include_empty) query = query.gt("qty_on_hand", 0);
+
+    const { data, error } = await query
+      .order("expiry_date", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Error fetching inventory lots:", error);
+      throw error;
+    }
+    return (data ?? []).map((row: any) => ({
+      ...row,
+      qty_on_hand: Number(row.qty_on_hand) || 0,
+    }));
+  }
+
+  /**
+   * Lots still in stock that expire within `days`, including those already
+   * expired
+   */
+  async getExpiring(
+    filters: { days?: number; item_id?: string; location_id?: string } = {}
+  ): Promise<ExpiringLot[]> {
+    const days = filters.days ?? this.getAlertDays();
+    const until = new Date(`${today()}T00:00:00.000Z`);
+    until.setUTCDate(until.getUTCDate() + days);
+
+    let query = supabase
+      .from("inventory_lot_balances")
+      .select(LOT_SELECT)
+      .gt("qty_on_hand", 0)
+      .not("expiry_date", "is", null)
+      .lte("expiry_date", until.toISOString().slice(0, 10));
+    if (filters.item_id) query = query.eq("item_id", filters.item_id);
+    if (filters.location_id) {
+      query = query.eq("location_id", filters.location_id);
+    }
+
+    const { data, error } = await query.order("expiry_date", {
+      ascending: true,
+    });
+    if (error) {
+      console.error("Error fetching expiring lots:", error);
+      throw error;
+    }
+
+    const start = new Date(`${today()}T00:00:00.000Z`).getTime();
+    return (data ?? []).map((row: any) => {
+      const daysToExpiry = Math.round(
+        (new Date(`${row.expiry_date}T00:00:00.000Z`).getTime() - start) /
+          DAY_MS
+      );
+      return {
+        ...row,
+        qty_on_hand: Number(row.qty_on_hand) || 0,
+        days_to_expiry: daysToExpiry,
+        is_expired: daysToExpiry < 0,
+      };
+    });
+  }
+
+  /**
+   * Email the lots expiring within the alert window. Each lot is alerted
+   * once; pass resend to include lots already alerted on.
+   */
+  async sendExpiryAlerts(
+    options: { days?: number; recipients?: string[]; resend?: boolean } = {}
+  ): Promise<ExpiryAlertResult> {
+    const days = options.days ?? this.getAlertDays();
+    const recipients = options.recipients?.length
+      ? options.recipients
+      : this.getAlertRecipients();
+    const lots = (await this.getExpiring({ days })).filter(
+      (lot) => options.resend || !lot.expiry_alert_sent_at
+    );
+
+    if (!lots.length || !recipients.length) {
+      return { sent: false, recipients, days, lots };
+    }
+
+    const sent = await emailService.sendLotExpiryAlert(
+      recipients,
+      days,
+      lots.map((lot) => ({
+        itemName: lot.inventory_items?.name ?? lot.item_id,
+        lotNumber: lot.lot_number,
+        expiryDate: lot.expiry_date!,
+        quantity: lot.qty_on_hand,
+        location: lot.locations?.name ?? null,
+      }))
+    );
+
+    if (sent) {
+      const { error } = await supabase
+        .from("inventory_lots")
+        .update({ expiry_alert_sent_at: new Date().toISOString() })
+        .in("id", Array.from(new Set(lots.map((lot) => lot.lot_id))));
+      if (error) {
+        console.error("Error marking lots as alerted:", error);
+        throw error;
+      }
+    }
+
+    return { sent, recipients, days, lots };
+  }
+}
+
+// Export a singleton instance
+export const inventoryLotService = new InventoryLotService();
@@ -0,0 +1,245 @@
+import { supabase } from "../supabaseClient";
+
+export type SerialStatus = "in_store" | "with_teacher" | "with_student";
+
+export const SERIAL_STATUSES: SerialStatus[] = [
+  "in_store",
+  "with_teacher",
+  "with_student",
+];
+
+/** Serials of one item changing hands */
+export interface SerialMovementInput {
+  item_id: string;
+  serial_numbers: string[];
+  /** Check out to, or check in from a student to, this class teacher */
+  class_teacher_id?: string | null;
+  /** Check out to this student */
+  student_id?: string | null;
+  event_date?: string | null;
+  notes?: string | null;
+  created_by?: string;
+}
+
+const SERIAL_SELECT = `*,
+  inventory_items(id, name, sku),
+  class_teachers(id, name, class_id),
+  students(id, first_name, last_name, admission_number)`;
+
+const CUSTODY_SELECT = `*,
+  class_teachers(id, name),
+  students(id, first_name, last_name, admission_number)`;
+
+export class InventorySerialService {
+  /**
+   * Whether an item is tracked by serial number
+   * @returns Promise<boolean | null> - null when the item does not exist
+   */
+  async isSerialized(itemId: string): Promise<boolean | null> {
+    const { data, error } = await supabase
+      .from("inventory_items")
+      .select("is_serialized")
+      .eq("id", itemId)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching item:", error);
+      throw error;
+    }
+    return data ? Boolean(data.is_serialized) : null;
+  }
+
+  /**
+   * IDs of the serialized items among those given
+   */
+  async getSerializedItemIds(itemIds: string[]): Promise<Set<string>> {
+    if (!itemIds.length) return new Set();
+    const { data, error } = await supabase
+      .from("inventory_items")
+      .select("id")
+      .in("id", itemIds)
+      .eq("is_serialized", true);
+    if (error) {
+      console.error("Error fetching serialized items:", error);
+      throw error;
+    }
+    return new Set((data ?? []).map((row: any) => row.id));
+  }
+
+  /**
+   * List serials with their current holder
+   */
+  async list(
+    filters: {
+      item_id?: string;
+      status?: string;
+      class_teacher_id?: string;
+      student_id?: string;
+      serial_number?: string;
+    } = {}
+  ) {
+    let query = supabase.from("inventory_serials").select(SERIAL_SELECT);
+    if (filters.item_id) query = query.eq("item_id", filters.item_id);
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.class_teacher_id) {
+      query = query.eq("class_teacher_id", filters.class_teacher_id);
+    }
+    if (filters.student_id) query = query.eq("student_id", filters.student_id);
+    if (filters.serial_number) {
+      query = query.ilike("serial_number", `%${filters.serial_number}%`);
+    }
+
+    const { data, error } = await query.order("serial_number", {
+      ascending: true,
+    });
+    if (error) {
+      console.error("Error fetching serials:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Get a serial with its custody history, oldest first
+   * @returns Promise<any | null> - null when the serial does not exist
+   */
+  async getById(id: string) {
+    const { data: serial, error } = await supabase
+      .from("inventory_serials")
+      .select(SERIAL_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching serial:", error);
+      throw error;
+    }
+    if (!serial) return null;
+
+    const { data: custody, error: custodyError } = await supabase
+      .from("inventory_serial_custody")
+      .select(CUSTODY_SELECT)
+      .eq("serial_id", id)
+      .order("event_date", { ascending: true })
+      .order("created_at", { ascending: true });
+    if (custodyError) {
+      console.error("Error fetching serial custody:", custodyError);
+      throw custodyError;
+    }
+    return { ...serial, custody: custody ?? [] };
+  }
+
+  /**
+   * Register serial numbers for units already in stock (register_stock_serials)
+   */
+  async register(input: {
+    item_id: string;
+    serial_numbers: string[];
+    notes?: string | null;
+    created_by?: string;
+  }) {
+    const { data, error } = await supabase.rpc("register_stock_serials", {
+      _item_id: input.item_id,
+      _serial_numbers: input.serial_numbers,
+      _notes: input.notes ?? null,
+      _created_by: input.created_by ?? null,
+    });
+    if (error) {
+      console.error("Error calling register_stock_serials:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Lend serials from the store to a class teacher or a student
+   * (check_out_serials). Custody only; stock levels are unchanged.
+   */
+  async checkOut(input: SerialMovementInput) {
+    const { data, error } = await supabase.rpc("check_out_serials", {
+      _item_id: input.item_id,
+      _serial_numbers: input.serial_numbers,
+      _class_teacher_id: input.class_teacher_id ?? null,
+      _student_id: input.student_id ?? null,
+      _event_date: input.event_date ?? null,
+      _notes: input.notes ?? null,
+      _created_by: input.created_by ?? null,
+    });
+    if (error) {
+      console.error("Error calling check_out_serials:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Take serials back into the store, or from a student back to the class
+   * teacher given (check_in_serials)
+   */
+  async checkIn(input: Omit<SerialMovementInput, "student_id">) {
+    const { data, error } = await supabase.rpc("check_in_serials", {
+      _item_id: input.item_id,
+      _serial_numbers: input.serial_numbers,
+      _class_teacher_id: input.class_teacher_id ?? null,
+      _event_date: input.event_date ?? null,
+      _notes: input.notes ?? null,
+      _created_by: input.created_by ?? null,
+    });
+    if (error) {
+      console.error("Error calling check_in_serials:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Record a student collection of a serialized item and hand the serials
+   * over from the giving teacher in one transaction (post_student_issue)
+   * @returns Promise<{ collection: any; serials: any[] }>
+   */
+  async postStudentIssue(
+    record: Record<string, any>,
+    serialNumbers: string[]
+  ): Promise<{ collection: any; serials: any[] }> {
+    const { data, error } = await supabase.rpc("post_student_issue", {
+      _record: record,
+      _serial_numbers: serialNumbers,
+    });
+    if (error) {
+      console.error("Error calling post_student_issue:", error);
+      throw error;
+    }
+    return data as { collection: any; serials: any[] };
+  }
+
+  /**
+   * Hand the serials of an existing student collection to the student and
+   * mark it received (issue_student_serials), with any entitlement override
+   * allowing it
+   */
+  async issueToStudent(
+    studentInventoryLogId: string,
+    serialNumbers: string[],
+    options: {
+      received_date?: string | null;
+      created_by?: string;
+      entitlement_override_reason?: string | null;
+      entitlement_override_by?: string | null;
+    } = {}
+  ) {
+    const { data, error } = await supabase.rpc("issue_student_serials", {
+      _student_inventory_log_id: studentInventoryLogId,
+      _serial_numbers: serialNumbers,
+      _received_date: options.received_date ?? null,
+      _created_by: options.created_by ?? null,
+      _entitlement_override_reason: options.entitlement_override_reason ?? null,
+      _entitlement_override_by: options.entitlement_override_by ?? null,
+    });
+    if (error) {
+      console.error("Error calling issue_student_serials:", error);
+      throw error;
+    }
+    return data;
+  }
+}
+
+// Export a singleton instance
+export const inventorySerialService = new InventorySerialService();
@@ -1,4 +1,8 @@
 import { supabase } from "../supabaseClient";
+import { SupplierTransaction } from "./supplierTransactionsService";
+import { costingService, StockPosition } from "./costingService";
+import { itemVariantService, ItemVariantStock } from "./itemVariantService";
+import { kitService, KitComponent } from "./kitService";
 
 export interface InventorySummary {
   id: string;
@@ -18,11 +22,42 @@ export interface InventorySummary {
   last_transaction_date?: string;
   last_purchase_date?: string;
   last_sale_date?: string;
+  /** Set when the summary covers a single location */
+  location_id?: string;
+  /** Stock per location, when requested alongside the all-location totals */
+  locations?: LocationStock[];
+  /** A parent item's variants; the totals above roll them up */
+  variants?: ItemVariantStock[];
 }
+
+export interface LocationStock {
+  item_id: string;
+  location_id: string;
+  location_code: string;
+  location_name: string;
+  current_stock: number;
+  is_low_stock: boolean;
+}
+
+/** An item found by a scanned code, as in inventory_item_summary */
+export interface ItemLookup {
+  id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  current_stock: number;
+  matched_on: "barcode" | "sku" | "serial_number";
+  /** The registered unit, when the code was a serial number */
+  serial?: any;
+  locations?: LocationStock[];
+  [column: string]: any;
+}
+
 export interface InventoryBalance {
   inventory_item_id: string;
   total_distributed: number;
   total_received: number;
+  total_returned_by_students: number;
   balance_quantity: number;
 }
 
@@ -37,25 +72,169 @@ export interface DistributionSummary {
   };
   total_received_quantity: number;
   total_distributed_quantity: number;
+  total_returned_quantity: number;
   balance_quantity: number;
   last_distribution_date?: string;
+  /**
+   * Set on kit rows, whose quantities are whole kits: what the scarcest
+   * component makes up
+   */
+  kit_components?: Array<{
+    inventory_item_id: string;
+    name: string;
+    qty: number;
+    balance_quantity: number;
+  }>;
 }
+export type SummaryTransactionType = "purchase" | "sale" | "adjustment";
+
 export interface InventoryTransactionSummary {
-  transaction_type: "purchase" | "sale";
+  transaction_type: SummaryTransactionType;
   total_quantity: number;
   total_cost: number;
   transaction_count: number;
   last_transaction_date: string;
 }
 
+export interface StockValuationLine extends StockPosition {
+  name: string;
+  sku?: string;
+  category_id?: string | null;
+  category_name?: string | null;
+  sub_category_id?: string | null;
+  sub_category_name?: string | null;
+  brand_id?: string | null;
+  brand_name?: string | null;
+}
+
+export interface StockValuationSubtotal {
+  quantity_on_hand: number;
+  extended_value: number;
+}
+
+export interface StockValuationReport {
+  as_of: string;
+  items: StockValuationLine[];
+  categories: (StockValuationSubtotal & {
+    category_id: string | null;
+    category_name: string | null;
+    sub_categories: (StockValuationSubtotal & {
+      sub_category_id: string | null;
+      sub_category_name: string | null;
+    })[];
+  })[];
+  total: StockValuationSubtotal;
+}
+
+export interface PurchaseInput {
+  item_id: string;
+  /** Unit bought in; defaults to the item's base unit */
+  uom_id?: string | null;
+  /** In uom_id; stock is recorded in base units */
+  qty_in: number;
+  in_cost?: number;
+  supplier_id?: string | null;
+  amount_paid?: number;
+  status?: string;
+  reference_no?: string;
+  notes?: string;
+  receiver_id?: string | null;
+  supplier_receiver?: string;
+  transaction_date?: string;
+  created_by?: string;
+  location_id?: string | null;
+  /** Lot or batch received; stock-outs draw lots first-expiry-first-out */
+  lot_number?: string | null;
+  expiry_date?: string | null;
+  /** One per unit; required for serialized items */
+  serial_numbers?: string[] | null;
+}
+
+export interface PostedInventoryTransaction {
+  transaction: Record<string, any>;
+  supplier_transactions: SupplierTransaction[];
+}
+
+export interface StockOutInput {
+  item_id: string;
+  transaction_type: string;
+  qty_out: number;
+  status?: string;
+  reference_no?: string;
+  notes?: string;
+  receiver_id?: string | null;
+  supplier_id?: string | null;
+  supplier_receiver?: string;
+  transaction_date?: string;
+  created_by?: string;
+  location_id?: string | null;
+}
+
+export interface TransferInput {
+  from_location_id: string;
+  to_location_id: string;
+  lines: { item_id: string; qty: number }[];
+  reference_no?: string;
+  notes?: string;
+  transaction_date?: string;
+  created_by?: string;
+}
+
+export interface DistributionInput {
+  class_id: string;
+  inventory_item_id: string;
+  session_term_id: string;
+  distributed_quantity: number;
+  received_by: string;
+  receiver_name?: string;
+  notes?: string;
+  reference_no?: string;
+  distribution_date?: string;
+  created_by?: string;
+  /** Location the stock is drawn from; defaults to the default location */
+  location_id?: string | null;
+  /** Units handed to the receiving teacher; required for serialized items */
+  serial_numbers?: string[] | null;
+}
+
+/** A kit distribution; inventory_item_id is the kit */
+export type KitDistributionInput = Omit<DistributionInput, "serial_numbers">;
+
+export interface SupplierReturnInput {
+  original_transaction_id: string;
+  qty_out: number;
+  status?: string;
+  reference_no?: string;
+  notes?: string;
+  transaction_date?: string;
+  created_by?: string;
+}
+
+export type ReturnCondition = "reusable" | "damaged";
+
+export interface StudentReturnInput {
+  student_inventory_log_id: string;
+  qty: number;
+  condition: ReturnCondition;
+  returned_date?: string;
+  received_by?: string | null;
+  notes?: string;
+  created_by?: string;
+}
+
+const PAGE_SIZE = 1000;
+
 export class InventoryService {
   /**
    * Get comprehensive inventory summary by inventory item ID
    * @param inventoryId - The UUID of the inventory item
+   * @param options - location_id limits the figures to one location;
+   * by_location adds per-location stock to the all-location totals
    * @returns Promise<InventorySummary | null>
    */
   async getInventorySummary(
-    inventoryId: string
+    inventoryId: string,
+    options: { location_id?: string; by_location?: boolean } = {}
   ): Promise<InventorySummary | null> {
     try {
       // Get basic inventory item information with related data
@@ -70,7 +249,7 @@ export class InventoryService {
           low_stock_threshold,
           category_name,
           sub_category_name,
-          brand_name,uom_name, total_in_cost, total_out_cost
+          brand_name,uom_name, total_in_cost, total_out_cost, has_variants
         `
         )
         .eq("id", inventoryId)
@@ -81,8 +260,13 @@ export class InventoryService {
         return null;
       }
 
+      // A parent item's stock is held by its variants
+      const variants = itemData.has_variants
+        ? await itemVariantService.list(inventoryId)
+        : [];
+
       // Get transaction summary data
-      const { data: transactionData, error: transactionError } = await supabase
+      let transactionQuery = supabase
         .from("inventory_transactions")
         .select(
           `
@@ -95,8 +279,16 @@ export class InventoryService {
           status
         `
         )
-        .eq("item_id", inventoryId)
+        .in("item_id", [inventoryId, ...variants.map((variant) => variant.id)])
         .eq("status", "completed");
+      if (options.location_id) {
+        transactionQuery = transactionQuery.eq(
+          "location_id",
+          options.location_id
+        );
+      }
+      const { data: transactionData, error: transactionError } =
+        await transactionQuery;
 
       if (transactionError) {
         console.error("Error fetching transactions:", transactionError);
@@ -105,6 +297,15 @@ export class InventoryService {
 
       // Calculate summary statistics
       const summary = this.calculateInventorySummary(itemData, transactionData);
+      if (variants.length && !options.location_id) summary.variants = variants;
+
+      if (options.location_id) {
+        summary.location_id = options.location_id;
+      } else if (options.by_location) {
+        summary.locations = await this.getLocationStock({
+          item_ids: [inventoryId],
+        });
+      }
 
       return summary;
     } catch (error) {
@@ -116,14 +317,16 @@ export class InventoryService {
   /**
    * Get inventory summary for multiple items
    * @param inventoryIds - Array of inventory item UUIDs
+   * @param options - Same location options as getInventorySummary
    * @returns Promise<InventorySummary[]>
    */
   async getBulkInventorySummary(
-    inventoryIds: string[]
+    inventoryIds: string[],
+    options: { location_id?: string; by_location?: boolean } = {}
   ): Promise<InventorySummary[]> {
     try {
       const summaries = await Promise.all(
-        inventoryIds.map((id) => this.getInventorySummary(id))
+        inventoryIds.map((id) => this.getInventorySummary(id, options))
       );
 
       return summaries.filter(
@@ -138,12 +341,13 @@ export class InventoryService {
   /**
    * Get inventory transaction summary by type
    * @param inventoryId - The UUID of the inventory item
-   * @param transactionType - 'purchase' or 'sale'
+   * @param transactionType - 'purchase', 'sale' or 'adjustment'. Adjustments
+   * report net quantity and cost, so shrinkage comes out negative.
    * @returns Promise<InventoryTransactionSummary | null>
    */
   async getTransactionSummaryByType(
     inventoryId: string,
-    transactionType: "purchase" | "sale"
+    transactionType: SummaryTransactionType
   ): Promise<InventoryTransactionSummary | null> {
     try {
       const { data, error } = await supabase
@@ -173,15 +377,24 @@ export class InventoryService {
         return null;
       }
 
+      const totalIn = data.reduce((sum, t) => sum + (t.qty_in || 0), 0);
+      const totalOut = data.reduce((sum, t) => sum + (t.qty_out || 0), 0);
+      const costIn = data.reduce((sum, t) => sum + (t.in_cost || 0), 0);
+      const costOut = data.reduce((sum, t) => sum + (t.out_cost || 0), 0);
+
       const totalQuantity =
         transactionType === "purchase"
-          ? data.reduce((sum, t) => sum + (t.qty_in || 0), 0)
-          : data.reduce((sum, t) => sum + (t.qty_out || 0), 0);
+          ? totalIn
+          : transactionType === "sale"
+            ? totalOut
+            : totalIn - totalOut;
 
       const totalCost =
         transactionType === "purchase"
-          ? data.reduce((sum, t) => sum + (t.in_cost || 0), 0)
-          : data.reduce((sum, t) => sum + (t.out_cost || 0), 0);
+          ? costIn
+          : transactionType === "sale"
+            ? costOut
+            : costIn - costOut;
 
       return {
         transaction_type: transactionType,
@@ -275,10 +488,12 @@ export class InventoryService {
   }
 
   /**
-   * Get low stock items across all inventory
+   * Get low stock items across all inventory, or at one location when
+   * locationId is given (items held there at or below their threshold)
    * @returns Promise<InventorySummary[]>
    */
-  async getLowStockItems(): Promise<InventorySummary[]> {
+  async getLowStockItems(locationId?: string): Promise<InventorySummary[]> {
+    if (locationId) return this.getLowStockItemsAtLocation(locationId);
     try {
       const { data: items, error } = await supabase
         .from("low_stock_items")
@@ -312,8 +527,135 @@ export class InventoryService {
     }
   }
 
+  private async getLowStockItemsAtLocation(
+    locationId: string
+  ): Promise<InventorySummary[]> {
+    const { data, error } = await supabase
+      .from("inventory_location_summary")
+      .select(
+        "id, name, sku, low_stock_threshold, category_name, sub_category_name, brand_name, uom_name, current_stock, total_in_cost, total_out_cost, location_id, location_code, location_name, is_low_stock"
+      )
+      .eq("location_id", locationId)
+      .eq("is_low_stock", true);
+
+    if (error) {
+      console.error("Error fetching low stock items at location:", error);
+      return [];
+    }
+    return data as unknown as InventorySummary[];
+  }
+
+  /**
+   * Stock held per item and location
+   * @param filters - Optional item_ids and location_id to narrow the rows
+   * @returns Promise<LocationStock[]>
+   */
+  async getLocationStock(
+    filters: { item_ids?: string[]; location_id?: string } = {}
+  ): Promise<LocationStock[]> {
+    const rows: LocationStock[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from("inventory_location_summary")
+        .select(
+          "item_id:id, location_id, location_code, location_name, current_stock, is_low_stock"
+        );
+      if (filters.item_ids) query = query.in("id", filters.item_ids);
+      if (filters.location_id) {
+        query = query.eq("location_id", filters.location_id);
+      }
+
+      const { data, error } = await query
+        .order("location_code", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) {
+        console.error("Error fetching stock by location:", error);
+        throw error;
+      }
+
+      rows.push(
+        ...(data ?? []).map((row: any) => ({
+          ...row,
+          current_stock: Number(row.current_stock) || 0,
+        }))
+      );
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Resolve a scanned code to an item with its live stock, matching
+   * barcodes, then SKUs, then registered serial numbers
+   * @param code - Barcode, SKU or serial number
+   * @param options - by_location adds per-location stock
+   * @returns Promise<ItemLookup | null> - null when nothing matches
+   */
+  async lookupItemByCode(
+    code: string,
+    options: { by_location?: boolean } = {}
+  ): Promise<ItemLookup | null> {
+    const findItem = async (
+      column: "barcode" | "sku" | "id",
+      value: string
+    ) => {
+      const { data, error } = await supabase
+        .from("inventory_item_summary")
+        .select("*, categories(id, name), uoms!uom_id(id, name)")
+        .eq(column, value)
+        .maybeSingle();
+      if (error) {
+        console.error("Error looking up inventory item:", error);
+        throw error;
+      }
+      return data;
+    };
+
+    let result: ItemLookup | null = null;
+    for (const column of ["barcode", "sku"] as const) {
+      const item = await findItem(column, code);
+      if (item) {
+        result = { ...item, matched_on: column } as ItemLookup;
+        break;
+      }
+    }
+
+    if (!result) {
+      const { data: serial, error } = await supabase
+        .from("inventory_serials")
+        .select("*")
+        .eq("serial_number", code)
+        .limit(1)
+        .maybeSingle();
+      if (error) {
+        console.error("Error looking up serial number:", error);
+        throw error;
+      }
+      if (!serial) return null;
+      const item = await findItem("id", serial.item_id);
+      if (!item) return null;
+      result = {
+        ...item,
+        matched_on: "serial_number",
+        serial,
+      } as ItemLookup;
+    }
+
+    if (options.by_location) {
+      result.locations = await this.getLocationStock({
+        item_ids: [result.id],
+      });
+    }
+    return result;
+  }
+
   /**
-   * Get distribution summary for class inventory and student logs
+   * Get distribution summary for class inventory and student logs. Kits are
+   * counted through their components: filtering by a kit returns the kit's
+   * row alone, and kits made up of the items listed are added after them.
    * @param filters - Optional filters: inventory_item_id, class_id, session_term_id, teacher_id
    * @returns Promise<DistributionSummary[]>
    */
@@ -327,6 +669,18 @@ export class InventoryService {
       filters;
 
     try {
+      // A kit's stock with a class is its components'
+      const kitComponents = inventory_item_id
+        ? (await kitService.getComponents([inventory_item_id])).get(
+            inventory_item_id
+          )
+        : undefined;
+      const itemIds = kitComponents
+        ? kitComponents.map((component) => component.component_item_id)
+        : inventory_item_id
+          ? [inventory_item_id]
+          : [];
+
       // Base query builder for class_inventory_distributions
       let distQuery = supabase.from("class_inventory_distributions").select(
         `
@@ -341,7 +695,7 @@ export class InventoryService {
 
       // Apply optional filters
       if (inventory_item_id)
-        distQuery = distQuery.eq("inventory_item_id", inventory_item_id);
+        distQuery = distQuery.in("inventory_item_id", itemIds);
       if (class_id) distQuery = distQuery.eq("class_id", class_id);
       if (session_term_id)
         distQuery = distQuery.eq("session_term_id", session_term_id);
@@ -370,7 +724,7 @@ export class InventoryService {
         .eq("received", true); // only received items
 
       if (inventory_item_id)
-        logQuery = logQuery.eq("inventory_item_id", inventory_item_id);
+        logQuery = logQuery.in("inventory_item_id", itemIds);
       if (class_id) logQuery = logQuery.eq("class_id", class_id);
       if (session_term_id)
         logQuery = logQuery.eq("session_term_id", session_term_id);
@@ -383,6 +737,26 @@ export class InventoryService {
         return [];
       }
 
+      // Reusable items students handed back are in class stock again
+      let returnQuery = supabase
+        .from("student_inventory_returns")
+        .select("inventory_item_id, qty")
+        .eq("condition", "reusable");
+
+      if (inventory_item_id)
+        returnQuery = returnQuery.in("inventory_item_id", itemIds);
+      if (class_id) returnQuery = returnQuery.eq("class_id", class_id);
+      if (session_term_id)
+        returnQuery = returnQuery.eq("session_term_id", session_term_id);
+      if (teacher_id) returnQuery = returnQuery.eq("received_by", teacher_id);
+
+      const { data: returns, error: returnError } = await returnQuery;
+
+      if (returnError) {
+        console.error("Error fetching student inventory returns:", returnError);
+        return [];
+      }
+
       // Aggregate data by inventory_item_id
       const summaryMap: Record<string, DistributionSummary> = {};
 
@@ -394,6 +768,7 @@ export class InventoryService {
             inventory_item_id: key,
             total_received_quantity: 0,
             total_distributed_quantity: 0,
+            total_returned_quantity: 0,
             balance_quantity: 0,
           };
         }
@@ -432,26 +807,131 @@ export class InventoryService {
             inventory_item_id: key,
             total_received_quantity: 0,
             total_distributed_quantity: 0,
+            total_returned_quantity: 0,
             balance_quantity: 0,
           };
         }
         summaryMap[key].total_distributed_quantity += log.qty || 0;
       }
 
+      // Process student returns
+      for (const ret of returns || []) {
+        const item = summaryMap[ret.inventory_item_id];
+        if (item) item.total_returned_quantity += ret.qty || 0;
+      }
+
       // Compute balance
       for (const key of Object.keys(summaryMap)) {
         const item = summaryMap[key];
         item.balance_quantity =
-          item.total_received_quantity - item.total_distributed_quantity;
+          item.total_received_quantity -
+          item.total_distributed_quantity +
+          item.total_returned_quantity;
       }
 
-      return Object.values(summaryMap);
+      if (kitComponents) {
+        return this.kitDistributionSummaries(
+          new Map([[inventory_item_id!, kitComponents]]),
+          summaryMap
+        );
+      }
+      const kits = await kitService.getComponents(
+        await kitService.getKitsContaining(Object.keys(summaryMap))
+      );
+      return [
+        ...Object.values(summaryMap),
+        ...(await this.kitDistributionSummaries(kits, summaryMap)),
+      ];
     } catch (error) {
       console.error("Error in getDistributionSummary:", error);
       throw error;
     }
   }
 
+  /**
+   * Distribution summary rows for kits from their components' rows, in
+   * whole kits
+   */
+  private async kitDistributionSummaries(
+    kits: Map<string, KitComponent[]>,
+    summaryMap: Record<string, DistributionSummary>
+  ): Promise<DistributionSummary[]> {
+    if (!kits.size) return [];
+
+    const { data: items, error } = await supabase
+      .from("inventory_items")
+      .select("id, name, sku, categories(id, name)")
+      .in("id", [...kits.keys()]);
+    if (error) {
+      console.error("Error fetching kits:", error);
+      throw error;
+    }
+
+    const wholeKits = (
+      components: KitComponent[],
+      field: keyof Pick<
+        DistributionSummary,
+        | "total_received_quantity"
+        | "total_distributed_quantity"
+        | "total_returned_quantity"
+        | "balance_quantity"
+      >
+    ) =>
+      Math.max(
+        0,
+        Math.min(
+          ...components.map((component) =>
+            Math.floor(
+              (summaryMap[component.component_item_id]?.[field] ?? 0) /
+                component.qty
+            )
+          )
+        )
+      );
+
+    return (items ?? []).map((item: any) => {
+      const components = kits.get(item.id)!;
+      const dates = components
+        .map(
+          (component) =>
+            summaryMap[component.component_item_id]?.last_distribution_date
+        )
+        .filter((date): date is string => !!date)
+        .sort();
+      return {
+        inventory_item_id: item.id,
+        item_name: item.name,
+        inventory_items: {
+          id: item.id,
+          name: item.name,
+          sku: item.sku,
+          categories: item.categories ?? null,
+        },
+        total_received_quantity: wholeKits(
+          components,
+          "total_received_quantity"
+        ),
+        total_distributed_quantity: wholeKits(
+          components,
+          "total_distributed_quantity"
+        ),
+        total_returned_quantity: wholeKits(
+          components,
+          "total_returned_quantity"
+        ),
+        balance_quantity: wholeKits(components, "balance_quantity"),
+        last_distribution_date: dates[dates.length - 1],
+        kit_components: components.map((component) => ({
+          inventory_item_id: component.component_item_id,
+          name: component.name,
+          qty: component.qty,
+          balance_quantity:
+            summaryMap[component.component_item_id]?.balance_quantity ?? 0,
+        })),
+      };
+    });
+  }
+
   async getInventoryBalance(filters: {
     inventory_item_id?: string;
     class_id?: string;
@@ -481,6 +961,455 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Post a purchase together with its supplier cost credit and payment debit
+   * in a single database transaction (post_purchase)
+   * @param input - Purchase details
+   * @returns Promise<PostedInventoryTransaction>
+   */
+  async postPurchase(
+    input: PurchaseInput
+  ): Promise<PostedInventoryTransaction> {
+    const { data, error } = await supabase.rpc("post_purchase", {
+      _item_id: input.item_id,
+      _qty_in: input.qty_in,
+      _in_cost: input.in_cost ?? 0,
+      _supplier_id: input.supplier_id ?? null,
+      _amount_paid: input.amount_paid ?? 0,
+      _status: input.status ?? null,
+      _reference_no: input.reference_no ?? null,
+      _notes: input.notes ?? null,
+      _receiver_id: input.receiver_id ?? null,
+      _supplier_receiver: input.supplier_receiver ?? null,
+      _transaction_date: input.transaction_date ?? null,
+      _created_by: input.created_by ?? null,
+      _location_id: input.location_id ?? null,
+      _lot_number: input.lot_number ?? null,
+      _expiry_date: input.expiry_date ?? null,
+      _serial_numbers: input.serial_numbers ?? null,
+      _uom_id: input.uom_id ?? null,
+    });
+
+    if (error) {
+      console.error("Error calling post_purchase:", error);
+      throw error;
+    }
+
+    return data as PostedInventoryTransaction;
+  }
+
+  /**
+   * Post a stock-out (sale, distribution, ...) through post_stock_out, which
+   * locks the item, checks available stock, costs the issue with the item's
+   * costing method and inserts in one statement
+   * @param input - Stock-out details
+   * @returns Promise<any> - the inserted inventory transaction
+   */
+  async postStockOut(input: StockOutInput): Promise<any> {
+    const { data, error } = await supabase.rpc("post_stock_out", {
+      _item_id: input.item_id,
+      _transaction_type: input.transaction_type,
+      _qty_out: input.qty_out,
+      _costing_method: costingService.getDefaultMethod(),
+      _status: input.status ?? null,
+      _reference_no: input.reference_no ?? null,
+      _notes: input.notes ?? null,
+      _receiver_id: input.receiver_id ?? null,
+      _supplier_id: input.supplier_id ?? null,
+      _supplier_receiver: input.supplier_receiver ?? null,
+      _transaction_date: input.transaction_date ?? null,
+      _created_by: input.created_by ?? null,
+      _location_id: input.location_id ?? null,
+    });
+
+    if (error) {
+      console.error("Error calling post_stock_out:", error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Move stock between locations (post_stock_transfer). Each line is valued
+   * at the item's current cost so both legs carry the same value.
+   * @param input - Transfer details
+   * @returns Promise<{ transfer_id: string; transactions: any[] }>
+   */
+  async postTransfer(
+    input: TransferInput
+  ): Promise<{ transfer_id: string; transactions: any[] }> {
+    const lines = await Promise.all(
+      input.lines.map(async (line) => ({
+        ...line,
+        cost: await costingService.computeOutCost(
+          line.item_id,
+          line.qty,
+          input.transaction_date
+        ),
+      }))
+    );
+
+    const { data, error } = await supabase.rpc("post_stock_transfer", {
+      _from_location_id: input.from_location_id,
+      _to_location_id: input.to_location_id,
+      _lines: lines,
+      _transaction_date: input.transaction_date ?? null,
+      _reference_no: input.reference_no ?? null,
+      _notes: input.notes ?? null,
+      _created_by: input.created_by ?? null,
+    });
+
+    if (error) {
+      console.error("Error calling post_stock_transfer:", error);
+      throw error;
+    }
+
+    return data as { transfer_id: string; transactions: any[] };
+  }
+
+  /**
+   * Post a class distribution and its stock-out together (post_distribution)
+   * @param input - Distribution details
+   * @returns Promise<{ distribution: any; transaction: any; serials: any[] }>
+   */
+  async postDistribution(
+    input: DistributionInput
+  ): Promise<{ distribution: any; transaction: any; serials: any[] }> {
+    const { data, error } = await supabase.rpc("post_distribution", {
+      _class_id: input.class_id,
+      _inventory_item_id: input.inventory_item_id,
+      _session_term_id: input.session_term_id,
+      _distributed_quantity: input.distributed_quantity,
+      _received_by: input.received_by,
+      _receiver_name: input.receiver_name ?? null,
+      _notes: input.notes ?? null,
+      _reference_no: input.reference_no ?? null,
+      _costing_method: costingService.getDefaultMethod(),
+      _distribution_date: input.distribution_date ?? null,
+      _created_by: input.created_by ?? null,
+      _serial_numbers: input.serial_numbers ?? null,
+      _location_id: input.location_id ?? null,
+    });
+
+    if (error) {
+      console.error("Error calling post_distribution:", error);
+      throw error;
+    }
+
+    return data as { distribution: any; transaction: any; serials: any[] };
+  }
+
+  /**
+   * Update a class distribution and its stock-out together
+   * (update_distribution). Only the quantity, date and receiver details can
+   * change.
+   * @param id - The UUID of the distribution
+   * @param changes - Columns to update
+   * @returns Promise<{ distribution: any; transaction: any }>
+   */
+  async updateDistribution(
+    id: string,
+    changes: Record<string, any>
+  ): Promise<{ distribution: any; transaction: any }> {
+    const { data, error } = await supabase.rpc("update_distribution", {
+      _id: id,
+      _changes: changes,
+      _costing_method: costingService.getDefaultMethod(),
+    });
+
+    if (error) {
+      console.error("Error calling update_distribution:", error);
+      throw error;
+    }
+
+    return data as { distribution: any; transaction: any };
+  }
+
+  /**
+   * Post a kit distribution: a distribution and stock-out for each
+   * component, all together (post_kit_distribution)
+   * @param input - Distribution details; inventory_item_id is the kit
+   * @returns Promise<{ distributions: any[]; transactions: any[] }>
+   */
+  async postKitDistribution(
+    input: KitDistributionInput
+  ): Promise<{ distributions: any[]; transactions: any[] }> {
+    const { data, error } = await supabase.rpc("post_kit_distribution", {
+      _class_id: input.class_id,
+      _kit_item_id: input.inventory_item_id,
+      _session_term_id: input.session_term_id,
+      _distributed_quantity: input.distributed_quantity,
+      _received_by: input.received_by,
+      _receiver_name: input.receiver_name ?? null,
+      _notes: input.notes ?? null,
+      _reference_no: input.reference_no ?? null,
+      _costing_method: costingService.getDefaultMethod(),
+      _distribution_date: input.distribution_date ?? null,
+      _created_by: input.created_by ?? null,
+      _location_id: input.location_id ?? null,
+    });
+
+    if (error) {
+      console.error("Error calling post_kit_distribution:", error);
+      throw error;
+    }
+
+    return data as { distributions: any[]; transactions: any[] };
+  }
+
+  /**
+   * Return goods from a purchase to its supplier (post_supplier_return). The
+   * quantity is capped at what was bought less earlier returns and what is in
+   * stock, and a credit note at the purchase price is debited to the supplier.
+   * @param input - Return details
+   * @returns Promise<{ transaction: any; supplier_transaction: SupplierTransaction | null }>
+   */
+  async postSupplierReturn(input: SupplierReturnInput): Promise<{
+    transaction: any;
+    supplier_transaction: SupplierTransaction | null;
+  }> {
+    const { data, error } = await supabase.rpc("post_supplier_return", {
+      _original_transaction_id: input.original_transaction_id,
+      _qty_out: input.qty_out,
+      _status: input.status ?? null,
+      _reference_no: input.reference_no ?? null,
+      _notes: input.notes ?? null,
+      _transaction_date: input.transaction_date ?? null,
+      _created_by: input.created_by ?? null,
+    });
+
+    if (error) {
+      console.error("Error calling post_supplier_return:", error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Record items a student hands back against the collection they were issued
+   * on (post_student_return). Reusable items go back into class stock;
+   * damaged items are written off at their current cost.
+   * @param input - Return details
+   * @returns Promise<{ return: any; write_off: any | null }>
+   */
+  async postStudentReturn(
+    input: StudentReturnInput
+  ): Promise<{ return: any; write_off: any | null }> {
+    let write_off_value = 0;
+    if (input.condition === "damaged") {
+      const { data: log, error: logError } = await supabase
+        .from("student_inventory_log")
+        .select("inventory_item_id")
+        .eq("id", input.student_inventory_log_id)
+        .maybeSingle();
+      if (logError) throw logError;
+      if (log) {
+        write_off_value = await costingService.computeOutCost(
+          log.inventory_item_id,
+          input.qty,
+          input.returned_date
+        );
+      }
+    }
+
+    const { data, error } = await supabase.rpc("post_student_return", {
+      _student_inventory_log_id: input.student_inventory_log_id,
+      _qty: input.qty,
+      _condition: input.condition,
+      _returned_date: input.returned_date ?? null,
+      _received_by: input.received_by ?? null,
+      _notes: input.notes ?? null,
+      _write_off_value: write_off_value,
+      _created_by: input.created_by ?? null,
+    });
+
+    if (error) {
+      console.error("Error calling post_student_return:", error);
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Items returned by students, newest first, with any write-off
+   * @param filters - Optional student, class, term, item, condition and collection filters
+   */
+  async getStudentReturns(filters: {
+    student_inventory_log_id?: string;
+    student_id?: string;
+    class_id?: string;
+    session_term_id?: string;
+    inventory_item_id?: string;
+    condition?: string;
+  }) {
+    let query = supabase.from("student_inventory_returns").select(`
+      *,
+      students(id, first_name, last_name, admission_number),
+      inventory_items(id, name),
+      inventory_write_offs(*)
+    `);
+    for (const [column, value] of Object.entries(filters)) {
+      if (value) query = query.eq(column, value);
+    }
+
+    const { data, error } = await query.order("returned_date", {
+      ascending: false,
+    });
+    if (error) {
+      console.error("Error fetching student inventory returns:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Update an inventory transaction and adjust the supplier entries linked to
+   * it by reference_no when it is a purchase or supplier return
+   * (update_inventory_transaction). A stock-out whose item, quantity or date
+   * changes is costed again.
+   * @param id - The UUID of the inventory transaction
+   * @param changes - Columns to update
+   * @returns Promise<PostedInventoryTransaction>
+   */
+  async updateTransaction(
+    id: string,
+    changes: Record<string, any>
+  ): Promise<PostedInventoryTransaction> {
+    const { data, error } = await supabase.rpc("update_inventory_transaction", {
+      _id: id,
+      _changes: changes,
+      _costing_method: costingService.getDefaultMethod(),
+    });
+
+    if (error) {
+      console.error("Error calling update_inventory_transaction:", error);
+      throw error;
+    }
+
+    return data as PostedInventoryTransaction;
+  }
+
+  /**
+   * Delete an inventory transaction and reverse its linked supplier entries
+   * (delete_inventory_transaction)
+   * @param id - The UUID of the inventory transaction
+   */
+  async deleteTransaction(id: string): Promise<void> {
+    const { error } = await supabase.rpc("delete_inventory_transaction", {
+      _id: id,
+    });
+
+    if (error) {
+      console.error("Error calling delete_inventory_transaction:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stock valuation as of the end of a date: quantity on hand, unit cost and
+   * extended value per item, with category and sub-category subtotals
+   * @param filters - as_of (YYYY-MM-DD), optional category_id and brand_id
+   * @returns Promise<StockValuationReport>
+   */
+  async getStockValuation(filters: {
+    as_of: string;
+    category_id?: string;
+    brand_id?: string;
+  }): Promise<StockValuationReport> {
+    const { as_of, category_id, brand_id } = filters;
+
+    let itemQuery = supabase
+      .from("inventory_items")
+      .select(
+        `id, name, sku, costing_method, category_id, sub_category_id, brand_id,
+        categories(name), sub_categories(name), brands(name)`
+      )
+      .order("name", { ascending: true });
+    if (category_id) itemQuery = itemQuery.eq("category_id", category_id);
+    if (brand_id) itemQuery = itemQuery.eq("brand_id", brand_id);
+
+    const { data: items, error } = await itemQuery;
+    if (error) {
+      console.error("Error fetching items for valuation:", error);
+      throw error;
+    }
+
+    // as_of is inclusive, so stop at the start of the following day
+    const before = new Date(`${as_of}T00:00:00.000Z`);
+    before.setUTCDate(before.getUTCDate() + 1);
+
+    const positions = await costingService.getStockPositions(
+      (items ?? []) as any[],
+      before,
+      { category_id, brand_id }
+    );
+
+    const lines: StockValuationLine[] = (items ?? []).map((item: any) => ({
+      ...positions.get(item.id)!,
+      name: item.name,
+      sku: item.sku,
+      category_id: item.category_id,
+      category_name: item.categories?.name ?? null,
+      sub_category_id: item.sub_category_id,
+      sub_category_name: item.sub_categories?.name ?? null,
+      brand_id: item.brand_id,
+      brand_name: item.brands?.name ?? null,
+    }));
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const categories = new Map<
+      string,
+      StockValuationReport["categories"][number]
+    >();
+    const total: StockValuationSubtotal = {
+      quantity_on_hand: 0,
+      extended_value: 0,
+    };
+
+    for (const line of lines) {
+      const categoryKey = line.category_id ?? "";
+      if (!categories.has(categoryKey)) {
+        categories.set(categoryKey, {
+          category_id: line.category_id ?? null,
+          category_name: line.category_name ?? null,
+          quantity_on_hand: 0,
+          extended_value: 0,
+          sub_categories: [],
+        });
+      }
+      const category = categories.get(categoryKey)!;
+      let subCategory = category.sub_categories.find(
+        (sub) => sub.sub_category_id === (line.sub_category_id ?? null)
+      );
+      if (!subCategory) {
+        subCategory = {
+          sub_category_id: line.sub_category_id ?? null,
+          sub_category_name: line.sub_category_name ?? null,
+          quantity_on_hand: 0,
+          extended_value: 0,
+        };
+        category.sub_categories.push(subCategory);
+      }
+
+      for (const bucket of [category, subCategory, total]) {
+        bucket.quantity_on_hand += line.quantity_on_hand;
+        bucket.extended_value = round(
+          bucket.extended_value + line.extended_value
+        );
+      }
+    }
+
+    return {
+      as_of,
+      items: lines,
+      categories: Array.from(categories.values()),
+      total,
+    };
+  }
+
   async getAllInventoryItems(): Promise<{ id: string; name: string }[]> {
     try {
       const { data, error } = await supabase
@@ -0,0 +1,138 @@
+import PDFDocument from "pdfkit";
+import bwipjs from "bwip-js";
+import { ItemLabel, LabelTemplate } from "./itemLabelService";
+
+const MM = 72 / 25.4;
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+/**
+ * Render a barcode or QR code as a PNG, or null when the value cannot be
+ * encoded in that symbology
+ */
+async function renderSymbol(
+  bcid: string,
+  text: string,
+  includetext: boolean
+): Promise<Buffer | null> {
+  try {
+    return await bwipjs.toBuffer({
+      bcid,
+      text,
+      scale: 3,
+      includetext,
+      textxalign: "center",
+    });
+  } catch (error) {
+    console.error(`Error rendering ${bcid} for ${text}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Render item labels onto the template's pages, `copies` of each label in
+ * turn. Each label carries the name, a barcode, a QR code of the item id and
+ * the selling price per unit.
+ * @returns Promise<Buffer> - the finished PDF
+ */
+export async function labelsToPdf(
+  labels: ItemLabel[],
+  template: LabelTemplate,
+  copies = 1
+): Promise<Buffer> {
+  const symbols = await Promise.all(
+    labels.map(async (label) => ({
+      barcode: await renderSymbol(label.symbology, label.code, true),
+      qr: await renderSymbol("qrcode", label.item_id, false),
+    }))
+  );
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: [template.page_width_mm * MM, template.page_height_mm * MM],
+      margin: 0,
+      autoFirstPage: false,
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const width = template.label_width_mm * MM;
+    const height = template.label_height_mm * MM;
+    const perPage = template.columns * template.rows;
+    const padding = Math.min(4, height * 0.06);
+    const nameSize = height < 90 ? 7 : 8;
+    const priceSize = nameSize + 1;
+
+    const drawLabel = (index: number, x: number, y: number) => {
+      const label = labels[index];
+      const { barcode, qr } = symbols[index];
+      const qrSize = Math.min(height - 2 * padding, width * 0.32);
+      const textWidth = width - 3 * padding - qrSize;
+      const left = x + padding;
+
+      if (qr) {
+        doc.image(qr, x + width - padding - qrSize, y + (height - qrSize) / 2, {
+          fit: [qrSize, qrSize],
+        });
+      }
+
+      const nameHeight = nameSize * 2.5;
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(nameSize)
+        .text(label.name, left, y + padding, {
+          width: textWidth,
+          height: nameHeight,
+          ellipsis: true,
+          lineGap: 0,
+        });
+
+      const priceTop = y + height - padding - priceSize;
+      const barcodeTop = y + padding + nameHeight;
+      const barcodeHeight = priceTop - barcodeTop - 2;
+      if (barcode && barcodeHeight > 0) {
+        doc.image(barcode, left, barcodeTop, {
+          fit: [textWidth, barcodeHeight],
+          align: "center",
+          valign: "center",
+        });
+      } else {
+        doc
+          .font("Helvetica")
+          .fontSize(nameSize)
+          .text(label.code, left, barcodeTop, { width: textWidth });
+      }
+
+      const price = label.uom_symbol
+        ? `${formatAmount(label.selling_price)} / ${label.uom_symbol}`
+        : formatAmount(label.selling_price);
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(priceSize)
+        .text(price, left, priceTop, { width: textWidth, lineBreak: false });
+    };
+
+    let slot = 0;
+    for (let index = 0; index < labels.length; index++) {
+      for (let copy = 0; copy < copies; copy++, slot++) {
+        const position = slot % perPage;
+        if (position === 0) doc.addPage();
+        const column = position % template.columns;
+        const row = Math.floor(position / template.columns);
+        drawLabel(
+          index,
+          (template.margin_left_mm +
+            column * (template.label_width_mm + template.gap_x_mm)) *
+            MM,
+          (template.margin_top_mm +
+            row * (template.label_height_mm + template.gap_y_mm)) *
+            MM
+        );
+      }
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,187 @@
+import { supabase } from "../supabaseClient";
+
+export type LabelTemplateName = "a4_24" | "a4_40" | "thermal";
+
+export const LABEL_TEMPLATE_NAMES: LabelTemplateName[] = [
+  "a4_24",
+  "a4_40",
+  "thermal",
+];
+
+/** Page and label grid of a label stock, in millimetres */
+export interface LabelTemplate {
+  name: LabelTemplateName;
+  description: string;
+  page_width_mm: number;
+  page_height_mm: number;
+  columns: number;
+  rows: number;
+  label_width_mm: number;
+  label_height_mm: number;
+  margin_top_mm: number;
+  margin_left_mm: number;
+  gap_x_mm: number;
+  gap_y_mm: number;
+}
+
+export type LabelSymbology = "ean13" | "ean8" | "code128";
+
+/** What one item label shows */
+export interface ItemLabel {
+  item_id: string;
+  name: string;
+  sku: string | null;
+  /** The value encoded in the barcode */
+  code: string;
+  symbology: LabelSymbology;
+  uom_symbol: string | null;
+  selling_price: number;
+}
+
+const DEFAULT_THERMAL_SIZE_MM = { width: 50, height: 30 };
+
+/**
+ * Whether a string of digits ends in a valid EAN/UPC check digit
+ */
+const hasValidCheckDigit = (digits: string) => {
+  const body = digits.slice(0, -1);
+  const sum = Array.from(body).reduce(
+    (total, digit, i) =>
+      total + Number(digit) * ((body.length - i) % 2 === 1 ? 3 : 1),
+    0
+  );
+  return (10 - (sum % 10)) % 10 === Number(digits.slice(-1));
+};
+
+/**
+ * EAN for codes that are valid EAN-13 or EAN-8 numbers, Code128 otherwise
+ */
+export function detectSymbology(code: string): LabelSymbology {
+  if (/^\d{13}$/.test(code) && hasValidCheckDigit(code)) return "ean13";
+  if (/^\d{8}$/.test(code) && hasValidCheckDigit(code)) return "ean8";
+  return "code128";
+}
+
+export class ItemLabelService {
+  /**
+   * The built-in label stocks. Thermal labels print one per page at the
+   * size set by LABEL_THERMAL_SIZE_MM (width x height, default 50x30).
+   */
+  getTemplates(): LabelTemplate[] {
+    const [width, height] = (process.env.LABEL_THERMAL_SIZE_MM || "")
+      .toLowerCase()
+      .split("x")
+      .map(Number);
+    const thermal =
+      width > 0 && height > 0 ? { width, height } : DEFAULT_THERMAL_SIZE_MM;
+
+    return [
+      {
+        name: "a4_24",
+        description: "A4 sheet of 24 labels, 3 x 8 at 70 x 37 mm",
+        page_width_mm: 210,
+        page_height_mm: 297,
+        columns: 3,
+        rows: 8,
+        label_width_mm: 70,
+        label_height_mm: 37.125,
+        margin_top_mm: 0,
+        margin_left_mm: 0,
+        gap_x_mm: 0,
+        gap_y_mm: 0,
+      },
+      {
+        name: "a4_40",
+        description: "A4 sheet of 40 labels, 4 x 10 at 52.5 x 29.7 mm",
+        page_width_mm: 210,
+        page_height_mm: 297,
+        columns: 4,
+        rows: 10,
+        label_width_mm: 52.5,
+        label_height_mm: 29.7,
+        margin_top_mm: 0,
+        margin_left_mm: 0,
+        gap_x_mm: 0,
+        gap_y_mm: 0,
+      },
+      {
+        name: "thermal",
+        description: `Thermal roll, one ${thermal.width} x ${thermal.height} mm label per page`,
+        page_width_mm: thermal.width,
+        page_height_mm: thermal.height,
+        columns: 1,
+        rows: 1,
+        label_width_mm: thermal.width,
+        label_height_mm: thermal.height,
+        margin_top_mm: 0,
+        margin_left_mm: 0,
+        gap_x_mm: 0,
+        gap_y_mm: 0,
+      },
+    ];
+  }
+
+  /**
+   * Template used when a request does not name one (LABEL_TEMPLATE,
+   * default a4_24)
+   */
+  getTemplate(name?: string): LabelTemplate | undefined {
+    const wanted = name || process.env.LABEL_TEMPLATE || "a4_24";
+    return this.getTemplates().find((template) => template.name === wanted);
+  }
+
+  /**
+   * Label contents for the given items, in the order given. Items without a
+   * barcode are assigned an in-store EAN-13 first (assign_item_barcodes).
+   * @param options - barcode_from "sku" encodes the SKU where an item has one
+   * @returns Promise<{ labels: ItemLabel[]; missing: string[] }> - missing
+   *   lists ids that matched no item
+   */
+  async getLabels(
+    itemIds: string[],
+    options: { barcode_from?: "barcode" | "sku" } = {}
+  ): Promise<{ labels: ItemLabel[]; missing: string[] }> {
+    const { error: assignError } = await supabase.rpc("assign_item_barcodes", {
+      _item_ids: itemIds,
+    });
+    if (assignError) {
+      console.error("Error calling assign_item_barcodes:", assignError);
+      throw assignError;
+    }
+
+    const { data, error } = await supabase
+      .from("inventory_items")
+      .select("id, name, sku, barcode, selling_price, uoms!uom_id(symbol)")
+      .in("id", itemIds);
+    if (error) {
+      console.error("Error fetching items for labels:", error);
+      throw error;
+    }
+
+    const byId = new Map((data ?? []).map((item: any) => [item.id, item]));
+    const labels: ItemLabel[] = [];
+    const missing: string[] = [];
+    for (const id of itemIds) {
+      const item = byId.get(id);
+      if (!item) {
+        missing.push(id);
+        continue;
+      }
+      const code =
+        options.barcode_from === "sku" && item.sku ? item.sku : item.barcode;
+      labels.push({
+        item_id: item.id,
+        name: item.name,
+        sku: item.sku,
+        code,
+        symbology: detectSymbology(code),
+        uom_symbol: item.uoms?.symbol ?? null,
+        selling_price: Number(item.selling_price) || 0,
+      });
+    }
+    return { labels, missing };
+  }
+}
+
+// Export a singleton instance
+export const itemLabelService = new ItemLabelService();
@@ -0,0 +1,175 @@
+import { supabase } from "../supabaseClient";
+import { dbError } from "../utils/dbError";
+
+export interface ItemVariantInput {
+  /** What sets the variant apart, e.g. { size: "M", colour: "Navy" } */
+  variant_attributes: Record<string, string>;
+  /** Defaults to the parent's name followed by the attribute values */
+  name?: string;
+  sku?: string | null;
+  barcode?: string | null;
+  /** Default to the parent's prices */
+  cost_price?: number;
+  selling_price?: number;
+  created_by?: string;
+}
+
+/** A variant with its own stock, as in inventory_item_summary */
+export interface ItemVariantStock {
+  id: string;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  variant_attributes: Record<string, string>;
+  current_stock: number;
+}
+
+/** Columns a new variant takes over from its parent */
+const INHERITED_COLUMNS = [
+  "category_id",
+  "sub_category_id",
+  "brand_id",
+  "uom_id",
+  "low_stock_threshold",
+  "reorder_point",
+  "reorder_qty",
+  "preferred_supplier_id",
+  "costing_method",
+  "is_serialized",
+] as const;
+
+const VARIANT_SELECT =
+  "id, name, sku, barcode, variant_attributes, cost_price, selling_price, low_stock_threshold, current_stock, total_in_cost, total_out_cost";
+
+/**
+ * Check variant_attributes is an object of non-blank strings
+ * @returns An error message, or null when the attributes are usable
+ */
+export function validateVariantAttributes(attributes: unknown): string | null {
+  if (
+    !attributes ||
+    typeof attributes !== "object" ||
+    Array.isArray(attributes) ||
+    !Object.keys(attributes).length
+  ) {
+    return 'variant_attributes must be an object such as { "size": "M" }';
+  }
+  if (
+    Object.entries(attributes).some(
+      ([key, value]) =>
+        !key.trim() || typeof value !== "string" || !value.trim()
+    )
+  ) {
+    return "variant_attributes names and values must be non-blank strings";
+  }
+  return null;
+}
+
+/**
+ * Name a variant after its parent, e.g. "School shirt - M / Navy"
+ */
+export function variantName(
+  parentName: string,
+  attributes: Record<string, string>
+): string {
+  return `${parentName} - ${Object.values(attributes)
+    .map((value) => value.trim())
+    .join(" / ")}`;
+}
+
+export class ItemVariantService {
+  /**
+   * Variants of a parent item with their stock, by name
+   */
+  async list(parentId: string): Promise<ItemVariantStock[]> {
+    const { data, error } = await supabase
+      .from("inventory_item_summary")
+      .select(VARIANT_SELECT)
+      .eq("parent_item_id", parentId)
+      .order("name", { ascending: true });
+    if (error) {
+      console.error("Error fetching item variants:", error);
+      throw error;
+    }
+    return (data ?? []).map((row: any) => ({
+      ...row,
+      current_stock: Number(row.current_stock) || 0,
+    }));
+  }
+
+  /**
+   * Add a variant to an item. The variant takes the parent's category,
+   * brand, unit, prices, costing, serial tracking and reorder settings, and
+   * from then on holds stock in the parent's place.
+   */
+  async create(parentId: string, input: ItemVariantInput) {
+    const { data: parent, error: parentError } = await supabase
+      .from("inventory_items")
+      .select("*")
+      .eq("id", parentId)
+      .maybeSingle();
+    if (parentError) {
+      console.error("Error fetching inventory item:", parentError);
+      throw parentError;
+    }
+    if (!parent) throw dbError("Inventory item not found", "P0002");
+
+    const attributes = Object.fromEntries(
+      Object.entries(input.variant_attributes).map(([key, value]) => [
+        key.trim(),
+        value.trim(),
+      ])
+    );
+    const inherited = Object.fromEntries(
+      INHERITED_COLUMNS.map((column) => [column, parent[column]])
+    );
+
+    const { data, error } = await supabase
+      .from("inventory_items")
+      .insert([
+        {
+          ...inherited,
+          name: input.name?.trim() || variantName(parent.name, attributes),
+          sku: input.sku ?? null,
+          barcode: input.barcode ?? null,
+          cost_price: input.cost_price ?? parent.cost_price,
+          selling_price: input.selling_price ?? parent.selling_price,
+          parent_item_id: parentId,
+          variant_attributes: attributes,
+          created_by: input.created_by ?? null,
+        },
+      ])
+      .select()
+      .single();
+    if (error) {
+      console.error("Error creating item variant:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Of the given items, those that have variants and so hold no stock
+   * themselves
+   * @returns Promise<Map<string, string>> - parent id to parent name
+   */
+  async getParents(itemIds: string[]): Promise<Map<string, string>> {
+    const parents = new Map<string, string>();
+    if (!itemIds.length) return parents;
+
+    const { data, error } = await supabase
+      .from("inventory_item_summary")
+      .select("id, name")
+      .in("id", itemIds)
+      .eq("has_variants", true);
+    if (error) {
+      console.error("Error fetching parent items:", error);
+      throw error;
+    }
+    for (const row of data ?? []) parents.set(row.id, row.name);
+    return parents;
+  }
+}
+
+// Export a singleton instance
+export const itemVariantService = new ItemVariantService();
@@ -0,0 +1,117 @@
+import { supabase } from "../supabaseClient";
+
+export interface KitComponentInput {
+  component_item_id: string;
+  /** Units of the component in one kit */
+  qty: number;
+}
+
+/** A component of a kit, with the component item's name */
+export interface KitComponent {
+  kit_item_id: string;
+  component_item_id: string;
+  qty: number;
+  name: string;
+  sku: string | null;
+}
+
+const COMPONENT_SELECT =
+  "*, inventory_items!component_item_id(id, name, sku, cost_price, selling_price)";
+
+export class KitService {
+  /**
+   * Components of a kit with their items, by name
+   */
+  async list(kitItemId: string) {
+    const { data, error } = await supabase
+      .from("kit_components")
+      .select(COMPONENT_SELECT)
+      .eq("kit_item_id", kitItemId);
+    if (error) {
+      console.error("Error fetching kit components:", error);
+      throw error;
+    }
+    return (data ?? []).sort((a: any, b: any) =>
+      (a.inventory_items?.name ?? "").localeCompare(
+        b.inventory_items?.name ?? ""
+      )
+    );
+  }
+
+  /**
+   * Replace a kit's components (save_kit_components). An empty list turns
+   * the kit back into a plain item.
+   */
+  async save(
+    kitItemId: string,
+    components: KitComponentInput[],
+    createdBy?: string
+  ) {
+    const { error } = await supabase.rpc("save_kit_components", {
+      _kit_item_id: kitItemId,
+      _components: components,
+      _created_by: createdBy ?? null,
+    });
+    if (error) {
+      console.error("Error calling save_kit_components:", error);
+      throw error;
+    }
+    return this.list(kitItemId);
+  }
+
+  /**
+   * Components of each of the given items that is a kit
+   * @returns Promise<Map<string, KitComponent[]>> - by kit item id; items
+   *   that are not kits are left out
+   */
+  async getComponents(
+    kitItemIds: string[]
+  ): Promise<Map<string, KitComponent[]>> {
+    const kits = new Map<string, KitComponent[]>();
+    if (!kitItemIds.length) return kits;
+
+    const { data, error } = await supabase
+      .from("kit_components")
+      .select(
+        "kit_item_id, component_item_id, qty, inventory_items!component_item_id(name, sku)"
+      )
+      .in("kit_item_id", kitItemIds);
+    if (error) {
+      console.error("Error fetching kit components:", error);
+      throw error;
+    }
+    for (const row of (data ?? []) as any[]) {
+      const components = kits.get(row.kit_item_id) ?? [];
+      components.push({
+        kit_item_id: row.kit_item_id,
+        component_item_id: row.component_item_id,
+        qty: Number(row.qty),
+        name: row.inventory_items?.name ?? "",
+        sku: row.inventory_items?.sku ?? null,
+      });
+      kits.set(row.kit_item_id, components);
+    }
+    return kits;
+  }
+
+  /**
+   * Kits that contain any of the given items
+   * @returns Promise<string[]> - kit item ids
+   */
+  async getKitsContaining(componentItemIds: string[]): Promise<string[]> {
+    if (!componentItemIds.length) return [];
+
+    const { data, error } = await supabase
+      .from("kit_components")
+      .select("kit_item_id")
+      .in("component_item_id", componentItemIds);
+    if (error) {
+      console.error("Error fetching kits:", error);
+      throw error;
+    }
+    return [...new Set((data ?? []).map((row: any) => row.kit_item_id))];
+  }
+}
+
+// Export a singleton instance
+export const kitService = new KitService();
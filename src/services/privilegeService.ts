@@ -0,0 +1,105 @@
+import { supabase } from "../supabaseClient";
+
+/** Roles that bypass route privilege checks so access can never be locked out. */
+export const UNRESTRICTED_ROLES = ["SUPER_ADMIN"];
+
+/** Roles allowed to override controls such as student entitlements. */
+export const ADMIN_ROLES = ["SUPER_ADMIN", "ADMIN"];
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+type CacheEntry<T> = {
+  value: T;
+  expiresAt: number;
+};
+
+export class PrivilegeService {
+  private rolePrivileges = new Map<string, CacheEntry<Set<string>>>();
+  private userRoles = new Map<string, CacheEntry<string | null>>();
+
+  /**
+   * Resolve the role code assigned to a user through user_roles
+   * @param userId - Supabase auth user ID
+   * @returns Promise<string | null> - the role code, or null when unassigned
+   */
+  async getUserRoleCode(userId: string): Promise<string | null> {
+    const cached = this.userRoles.get(userId);
+    if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+    const { data, error } = await supabase
+      .from("user_roles")
+      .select("role_code")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching user role:", error);
+      throw error;
+    }
+
+    const roleCode = (data?.role_code as string | undefined) ?? null;
+    this.userRoles.set(userId, {
+      value: roleCode,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    return roleCode;
+  }
+
+  /**
+   * Get the descriptions of all active privileges granted to a role
+   * @param roleCode - The role code
+   * @returns Promise<Set<string>>
+   */
+  async getActivePrivileges(roleCode: string): Promise<Set<string>> {
+    const cached = this.rolePrivileges.get(roleCode);
+    if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+    const { data, error } = await supabase
+      .from("role_privileges")
+      .select("description")
+      .eq("role_code", roleCode)
+      .eq("status", "active");
+
+    if (error) {
+      console.error("Error fetching role privileges:", error);
+      throw error;
+    }
+
+    const privileges = new Set<string>(
+      (data ?? []).map((item: { description: string }) => item.description)
+    );
+    this.rolePrivileges.set(roleCode, {
+      value: privileges,
+      expiresAt: Date.now() + CACHE_TTL_MS,
+    });
+    return privileges;
+  }
+
+  /**
+   * Whether a user holds one of the ADMIN_ROLES
+   * @param userId - Supabase auth user ID
+   */
+  async isAdmin(userId: string): Promise<boolean> {
+    const roleCode = await this.getUserRoleCode(userId);
+    return !!roleCode && ADMIN_ROLES.includes(roleCode);
+  }
+
+  /**
+   * Drop cached privileges for a role, or for every role when omitted
+   */
+  invalidateRole(roleCode?: string): void {
+    if (roleCode) this.rolePrivileges.delete(roleCode);
+    else this.rolePrivileges.clear();
+  }
+
+  /**
+   * Drop the cached role assignment for a user, or for every user when omitted
+   */
+  invalidateUser(userId?: string): void {
+    if (userId) this.userRoles.delete(userId);
+    else this.userRoles.clear();
+  }
+}
+
+// Export a singleton instance
+export const privilegeService = new PrivilegeService();
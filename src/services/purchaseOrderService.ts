@@ -0,0 +1,271 @@
+import { supabase } from "../supabaseClient";
+import { SupplierTransaction } from "./supplierTransactionsService";
+import { dbError } from "../utils/dbError";
+
+export type PurchaseOrderStatus =
+  "draft" | "approved" | "partially_received" | "closed";
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  "draft",
+  "approved",
+  "partially_received",
+  "closed",
+];
+
+export interface PurchaseOrderLineInput {
+  item_id: string;
+  /** Unit ordered in; defaults to the item's base unit */
+  uom_id?: string | null;
+  /** Quantity and unit cost are in uom_id */
+  qty_ordered: number;
+  unit_cost?: number;
+  notes?: string;
+}
+
+export interface PurchaseOrderInput {
+  supplier_id: string;
+  order_date?: string;
+  expected_date?: string | null;
+  notes?: string | null;
+  lines: PurchaseOrderLineInput[];
+  created_by?: string;
+}
+
+export interface GoodsReceiptInput {
+  received_date?: string;
+  reference_no?: string;
+  notes?: string;
+  /** Location receiving the stock; defaults to the default location */
+  location_id?: string;
+  lines: {
+    purchase_order_line_id: string;
+    qty_received: number;
+    lot_number?: string;
+    expiry_date?: string;
+    /** One per unit; required for serialized items */
+    serial_numbers?: string[];
+  }[];
+  created_by?: string;
+}
+
+export interface GoodsReceipt {
+  goods_received_note: any;
+  transactions: any[];
+  supplier_transactions: SupplierTransaction[];
+  purchase_order_status: PurchaseOrderStatus;
+}
+
+const PURCHASE_ORDER_SELECT = "*, suppliers(id, name)";
+
+export class PurchaseOrderService {
+  /**
+   * List purchase orders, newest first
+   * @param filters - Optional supplier_id and status filters
+   */
+  async list(filters: { supplier_id?: string; status?: string } = {}) {
+    let query = supabase.from("purchase_orders").select(PURCHASE_ORDER_SELECT);
+    if (filters.supplier_id)
+      query = query.eq("supplier_id", filters.supplier_id);
+    if (filters.status) query = query.eq("status", filters.status);
+
+    const { data, error } = await query.order("created_at", {
+      ascending: false,
+    });
+    if (error) {
+      console.error("Error fetching purchase orders:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Get a purchase order with its lines and their received/outstanding
+   * quantities
+   * @returns Promise<any | null> - null when the order does not exist
+   */
+  async getById(id: string) {
+    const { data: order, error } = await supabase
+      .from("purchase_orders")
+      .select(PURCHASE_ORDER_SELECT)
+      .eq("id", id)
+      .single();
+    if (error) {
+      if (error.code === "PGRST116") return null;
+      console.error("Error fetching purchase order:", error);
+      throw error;
+    }
+
+    const { data: lines, error: linesError } = await supabase
+      .from("purchase_order_line_balances")
+      .select("*, inventory_items(id, name), uoms(id, name, symbol)")
+      .eq("purchase_order_id", id)
+      .order("created_at", { ascending: true });
+    if (linesError) {
+      console.error("Error fetching purchase order lines:", linesError);
+      throw linesError;
+    }
+
+    return { ...order, lines: lines ?? [] };
+  }
+
+  /**
+   * Create a draft purchase order, or replace a draft's header and lines
+   * @param id - Existing draft to replace, or null to create
+   */
+  async save(id: string | null, input: PurchaseOrderInput) {
+    const { data, error } = await supabase.rpc("save_purchase_order", {
+      _id: id,
+      _supplier_id: input.supplier_id,
+      _lines: input.lines,
+      _order_date: input.order_date ?? null,
+      _expected_date: input.expected_date ?? null,
+      _notes: input.notes ?? null,
+      _created_by: input.created_by ?? null,
+    });
+    if (error) {
+      console.error("Error calling save_purchase_order:", error);
+      throw error;
+    }
+    return this.getById(data as string);
+  }
+
+  /**
+   * Approve a draft so goods can be received against it
+   */
+  async approve(id: string, userId?: string) {
+    return this.transition(id, ["draft"], {
+      status: "approved",
+      approved_by: userId ?? null,
+      approved_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Close an approved or partially received order by hand, e.g. when the
+   * supplier will not deliver the balance
+   */
+  async close(id: string, userId?: string) {
+    return this.transition(id, ["approved", "partially_received"], {
+      status: "closed",
+      closed_by: userId ?? null,
+      closed_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Delete a draft purchase order and its lines
+   */
+  async remove(id: string): Promise<void> {
+    const { data, error } = await supabase
+      .from("purchase_orders")
+      .delete()
+      .eq("id", id)
+      .eq("status", "draft")
+      .select("id");
+    if (error) {
+      console.error("Error deleting purchase order:", error);
+      throw error;
+    }
+    if (!data?.length) await this.assertState(id, ["draft"]);
+  }
+
+  /**
+   * Post a goods received note against an approved order. Stock is received
+   * and the received value of each line credited to the supplier ledger in
+   * one database transaction that refuses over-receipt.
+   */
+  async receive(id: string, input: GoodsReceiptInput): Promise<GoodsReceipt> {
+    const { data, error } = await supabase.rpc("receive_purchase_order", {
+      _purchase_order_id: id,
+      _lines: input.lines,
+      _received_date: input.received_date ?? null,
+      _reference_no: input.reference_no ?? null,
+      _notes: input.notes ?? null,
+      _created_by: input.created_by ?? null,
+      _location_id: input.location_id ?? null,
+    });
+    if (error) {
+      console.error("Error calling receive_purchase_order:", error);
+      throw error;
+    }
+
+    const { goods_received_note, transactions, supplier_transactions } =
+      data as {
+        goods_received_note: any;
+        transactions: any[];
+        supplier_transactions: SupplierTransaction[];
+      };
+
+    const { data: order } = await supabase
+      .from("purchase_orders")
+      .select("status")
+      .eq("id", id)
+      .single();
+
+    return {
+      goods_received_note,
+      transactions,
+      supplier_transactions,
+      purchase_order_status: order?.status,
+    };
+  }
+
+  /**
+   * Goods received notes posted against an order, with their transactions
+   */
+  async getReceipts(id: string) {
+    const { data, error } = await supabase
+      .from("goods_received_notes")
+      .select("*, inventory_transactions(*, inventory_items(id, name))")
+      .eq("purchase_order_id", id)
+      .order("received_date", { ascending: true });
+    if (error) {
+      console.error("Error fetching goods received notes:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  private async transition(
+    id: string,
+    from: PurchaseOrderStatus[],
+    changes: Record<string, unknown>
+  ) {
+    const { data, error } = await supabase
+      .from("purchase_orders")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .in("status", from)
+      .select("id");
+    if (error) {
+      console.error("Error updating purchase order status:", error);
+      throw error;
+    }
+    if (!data?.length) await this.assertState(id, from);
+    return this.getById(id);
+  }
+
+  /**
+   * Throw an error explaining why an order is not in one of
+   * the expected states
+   */
+  private async assertState(id: string, expected: PurchaseOrderStatus[]) {
+    const { data } = await supabase
+      .from("purchase_orders")
+      .select("po_number, status")
+      .eq("id", id)
+      .maybeSingle();
+    if (!data) {
+      throw dbError("Purchase order not found", "P0002");
+    }
+    if (!expected.includes(data.status)) {
+      throw dbError(
+        `Purchase order ${data.po_number} is ${data.status}; expected ${expected.join(" or ")}`,
+        "PT409"
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const purchaseOrderService = new PurchaseOrderService();
@@ -0,0 +1,503 @@
+import { supabase } from "../supabaseClient";
+import { inventoryService } from "./inventoryService";
+import { purchaseOrderService } from "./purchaseOrderService";
+import { uomConversionService } from "./uomConversionService";
+import { dbError } from "../utils/dbError";
+
+export interface ReorderPointInput {
+  /** Limit the override to one location; null applies everywhere */
+  location_id?: string | null;
+  /** Limit the override to one term; null applies in every term */
+  session_term_id?: string | null;
+  reorder_point: number;
+  reorder_qty?: number;
+  created_by?: string;
+}
+
+export interface ReplenishmentOptions {
+  /** Suggest for stock held at one location instead of the whole school */
+  location_id?: string;
+  /** Term whose entitlements are still to be issued; defaults to the next term */
+  session_term_id?: string;
+  /** Days of stock-out history averaged into daily consumption */
+  days?: number;
+  /** Days of average consumption to order ahead */
+  cover_days?: number;
+  supplier_id?: string;
+  category_id?: string;
+  /** Also return items that do not need reordering */
+  include_all?: boolean;
+}
+
+export type ReorderPointSource =
+  "location_term" | "location" | "term" | "item" | "low_stock_threshold";
+
+export interface ReplenishmentSuggestion {
+  item_id: string;
+  name: string;
+  sku: string | null;
+  uom_name: string | null;
+  category_id: string | null;
+  preferred_supplier_id: string | null;
+  supplier_name: string | null;
+  unit_cost: number;
+  current_stock: number;
+  on_order_qty: number;
+  consumed_qty: number;
+  avg_daily_consumption: number;
+  consumption_demand: number;
+  entitlement_demand: number;
+  reorder_point: number;
+  reorder_qty: number;
+  reorder_point_source: ReorderPointSource;
+  suggested_qty: number;
+  suggested_value: number;
+}
+
+export interface ReplenishmentReport {
+  location: any | null;
+  session_term: any | null;
+  days: number;
+  cover_days: number;
+  suggestions: ReplenishmentSuggestion[];
+  totals: { items: number; suggested_value: number };
+}
+
+export interface ReplenishmentOrders {
+  purchase_orders: any[];
+  /** Suggestions left out because the item has no preferred supplier */
+  unassigned: ReplenishmentSuggestion[];
+}
+
+/** What draftPurchaseOrders needs of a row to order it */
+export type PurchaseOrderCandidate = Pick<
+  ReplenishmentSuggestion,
+  "item_id" | "preferred_supplier_id" | "unit_cost" | "suggested_qty"
+>;
+
+export const DEFAULT_CONSUMPTION_DAYS = 90;
+export const DEFAULT_COVER_DAYS = 30;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const REORDER_POINT_SELECT =
+  "*, locations(id, code, name), academic_session_terms(id, session, name)";
+
+export class ReplenishmentService {
+  /**
+   * Reorder point overrides set for an item
+   */
+  async listReorderPoints(itemId: string) {
+    const { data, error } = await supabase
+      .from("item_reorder_points")
+      .select(REORDER_POINT_SELECT)
+      .eq("item_id", itemId)
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Error fetching reorder points:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Set the reorder point for an item at a location and/or term, replacing
+   * any override already set for the same scope
+   */
+  async saveReorderPoint(itemId: string, input: ReorderPointInput) {
+    const locationId = input.location_id ?? null;
+    const termId = input.session_term_id ?? null;
+
+    let query = supabase
+      .from("item_reorder_points")
+      .select("id")
+      .eq("item_id", itemId);
+    query = locationId
+      ? query.eq("location_id", locationId)
+      : query.is("location_id", null);
+    query = termId
+      ? query.eq("session_term_id", termId)
+      : query.is("session_term_id", null);
+    const { data: existing, error: findError } = await query.maybeSingle();
+    if (findError) {
+      console.error("Error fetching reorder point:", findError);
+      throw findError;
+    }
+
+    const values = {
+      reorder_point: input.reorder_point,
+      reorder_qty: input.reorder_qty ?? 0,
+      updated_at: new Date().toISOString(),
+    };
+    const { data, error } = existing
+      ? await supabase
+          .from("item_reorder_points")
+          .update(values)
+          .eq("id", existing.id)
+          .select(REORDER_POINT_SELECT)
+          .single()
+      : await supabase
+          .from("item_reorder_points")
+          .insert([
+            {
+              ...values,
+              item_id: itemId,
+              location_id: locationId,
+              session_term_id: termId,
+              created_by: input.created_by ?? null,
+            },
+          ])
+          .select(REORDER_POINT_SELECT)
+          .single();
+    if (error) {
+      console.error("Error saving reorder point:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * @returns Promise<boolean> - false when the override does not exist
+   */
+  async deleteReorderPoint(itemId: string, id: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from("item_reorder_points")
+      .delete()
+      .eq("id", id)
+      .eq("item_id", itemId)
+      .select("id");
+    if (error) {
+      console.error("Error deleting reorder point:", error);
+      throw error;
+    }
+    return !!data?.length;
+  }
+
+  /**
+   * Suggest order quantities per item. Demand is average daily qty_out over
+   * the last `days` projected over `cover_days`, plus entitlements for the
+   * term not yet handed to classes. An item is suggested once stock on hand
+   * and on order, less that demand, falls to its reorder point; the quantity
+   * brings it back to the reorder point and is at least the reorder quantity.
+   */
+  async getSuggestions(
+    options: ReplenishmentOptions = {}
+  ): Promise<ReplenishmentReport> {
+    const days = options.days ?? DEFAULT_CONSUMPTION_DAYS;
+    const coverDays = options.cover_days ?? DEFAULT_COVER_DAYS;
+    const location = options.location_id
+      ? await this.getLocation(options.location_id)
+      : null;
+    const term = await this.getTerm(options.session_term_id);
+
+    let itemQuery = supabase
+      .from("inventory_item_summary")
+      .select(
+        "id, name, sku, uom_name, category_id, cost_price, current_stock, low_stock_threshold, reorder_point, reorder_qty, preferred_supplier_id, suppliers(id, name)"
+      )
+      // Parent items are reordered through their variants, kits through
+      // their components
+      .eq("has_variants", false)
+      .eq("is_kit", false);
+    if (options.supplier_id) {
+      itemQuery = itemQuery.eq("preferred_supplier_id", options.supplier_id);
+    }
+    if (options.category_id) {
+      itemQuery = itemQuery.eq("category_id", options.category_id);
+    }
+    const { data: items, error: itemsError } = await itemQuery;
+    if (itemsError) {
+      console.error("Error fetching items for replenishment:", itemsError);
+      throw itemsError;
+    }
+
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - days);
+    const { data: demand, error: demandError } = await supabase.rpc(
+      "replenishment_demand",
+      {
+        _since: since.toISOString(),
+        _location_id: location?.id ?? null,
+        _session_term_id: term?.id ?? null,
+        // A class cupboard only needs its own class's entitlements
+        _class_id: location?.school_class_id ?? null,
+      }
+    );
+    if (demandError) {
+      console.error("Error calling replenishment_demand:", demandError);
+      throw demandError;
+    }
+    const demandByItem = new Map<string, any>(
+      (demand ?? []).map((row: any) => [row.item_id, row])
+    );
+
+    const { data: overrides, error: overridesError } = await supabase
+      .from("item_reorder_points")
+      .select(
+        "item_id, location_id, session_term_id, reorder_point, reorder_qty"
+      );
+    if (overridesError) {
+      console.error("Error fetching reorder points:", overridesError);
+      throw overridesError;
+    }
+
+    const stockAtLocation = location
+      ? new Map(
+          (
+            await inventoryService.getLocationStock({
+              location_id: location.id,
+            })
+          ).map((row) => [row.item_id, row.current_stock])
+        )
+      : null;
+
+    const suggestions: ReplenishmentSuggestion[] = [];
+    for (const item of (items ?? []) as any[]) {
+      const itemDemand = demandByItem.get(item.id);
+      const currentStock = stockAtLocation
+        ? (stockAtLocation.get(item.id) ?? 0)
+        : Number(item.current_stock) || 0;
+      const onOrder = Number(itemDemand?.on_order_qty) || 0;
+      const consumed = Number(itemDemand?.consumed_qty) || 0;
+      const avgDaily = days > 0 ? consumed / days : 0;
+      const consumptionDemand = Math.ceil(avgDaily * coverDays);
+      const entitlementDemand = Math.max(
+        (Number(itemDemand?.entitled_qty) || 0) -
+          (Number(itemDemand?.distributed_qty) || 0),
+        0
+      );
+      const reorder = this.resolveReorderPoint(
+        item,
+        (overrides ?? []).filter((row: any) => row.item_id === item.id),
+        location?.id ?? null,
+        term?.id ?? null
+      );
+
+      const projected =
+        currentStock + onOrder - consumptionDemand - entitlementDemand;
+      const suggestedQty =
+        projected <= reorder.reorder_point
+          ? Math.ceil(
+              Math.max(reorder.reorder_point - projected, reorder.reorder_qty)
+            )
+          : 0;
+      if (!suggestedQty && !options.include_all) continue;
+
+      const unitCost = Number(item.cost_price) || 0;
+      suggestions.push({
+        item_id: item.id,
+        name: item.name,
+        sku: item.sku ?? null,
+        uom_name: item.uom_name ?? null,
+        category_id: item.category_id ?? null,
+        preferred_supplier_id: item.preferred_supplier_id ?? null,
+        supplier_name: item.suppliers?.name ?? null,
+        unit_cost: unitCost,
+        current_stock: currentStock,
+        on_order_qty: onOrder,
+        consumed_qty: consumed,
+        avg_daily_consumption: Math.round(avgDaily * 1000) / 1000,
+        consumption_demand: consumptionDemand,
+        entitlement_demand: entitlementDemand,
+        ...reorder,
+        suggested_qty: suggestedQty,
+        suggested_value: roundMoney(suggestedQty * unitCost),
+      });
+    }
+
+    // Group by supplier, items without a preferred supplier last
+    suggestions.sort((a, b) => {
+      if (a.supplier_name !== b.supplier_name) {
+        if (a.supplier_name === null) return 1;
+        if (b.supplier_name === null) return -1;
+        return a.supplier_name.localeCompare(b.supplier_name);
+      }
+      return a.name.localeCompare(b.name);
+    });
+
+    return {
+      location,
+      session_term: term,
+      days,
+      cover_days: coverDays,
+      suggestions,
+      totals: {
+        items: suggestions.filter((row) => row.suggested_qty > 0).length,
+        suggested_value: roundMoney(
+          suggestions.reduce((sum, row) => sum + row.suggested_value, 0)
+        ),
+      },
+    };
+  }
+
+  /**
+   * Turn the current suggestions into one draft purchase order per preferred
+   * supplier, priced at each item's cost_price. Items with a purchase unit
+   * are ordered in whole purchase units, rounded up. Open orders, drafts
+   * included, already count as on order, so running this twice does not
+   * order twice.
+   * @param itemIds - Only order these suggested items
+   */
+  async createPurchaseOrders(
+    options: ReplenishmentOptions,
+    itemIds?: string[],
+    userId?: string
+  ): Promise<ReplenishmentOrders> {
+    const report = await this.getSuggestions({
+      ...options,
+      include_all: false,
+    });
+    const selected = itemIds
+      ? report.suggestions.filter((row) => itemIds.includes(row.item_id))
+      : report.suggestions;
+
+    const notes = report.location
+      ? `Replenishment for ${report.location.name}`
+      : "Replenishment";
+    return this.draftPurchaseOrders(selected, notes, userId);
+  }
+
+  /**
+   * One draft purchase order per preferred supplier for the given rows,
+   * priced at each item's cost_price. Items with a purchase unit are ordered
+   * in whole purchase units, rounded up.
+   * @returns rows without a preferred supplier as unassigned
+   */
+  async draftPurchaseOrders<T extends PurchaseOrderCandidate>(
+    rows: T[],
+    notes: string,
+    userId?: string
+  ): Promise<{ purchase_orders: any[]; unassigned: T[] }> {
+    const bySupplier = new Map<string, T[]>();
+    const unassigned: T[] = [];
+    for (const row of rows) {
+      if (!row.preferred_supplier_id) {
+        unassigned.push(row);
+        continue;
+      }
+      const lines = bySupplier.get(row.preferred_supplier_id) ?? [];
+      lines.push(row);
+      bySupplier.set(row.preferred_supplier_id, lines);
+    }
+
+    const purchaseFactors = await uomConversionService.getPurchaseFactors(
+      rows.map((row) => row.item_id)
+    );
+    const purchase_orders: any[] = [];
+    for (const [supplierId, lines] of bySupplier) {
+      purchase_orders.push(
+        await purchaseOrderService.save(null, {
+          supplier_id: supplierId,
+          notes,
+          lines: lines.map((row) => {
+            const purchase = purchaseFactors.get(row.item_id);
+            return purchase
+              ? {
+                  item_id: row.item_id,
+                  uom_id: purchase.uom_id,
+                  qty_ordered: Math.ceil(row.suggested_qty / purchase.factor),
+                  unit_cost: roundMoney(row.unit_cost * purchase.factor),
+                }
+              : {
+                  item_id: row.item_id,
+                  qty_ordered: row.suggested_qty,
+                  unit_cost: row.unit_cost,
+                };
+          }),
+          created_by: userId,
+        })
+      );
+    }
+
+    return { purchase_orders, unassigned };
+  }
+
+  /**
+   * Most specific reorder point for the scope: location and term, then
+   * location, then term, then the item's own setting, then its low stock
+   * threshold
+   */
+  private resolveReorderPoint(
+    item: any,
+    overrides: any[],
+    locationId: string | null,
+    termId: string | null
+  ): Pick<
+    ReplenishmentSuggestion,
+    "reorder_point" | "reorder_qty" | "reorder_point_source"
+  > {
+    const find = (location: string | null, term: string | null) =>
+      overrides.find(
+        (row) =>
+          (row.location_id ?? null) === location &&
+          (row.session_term_id ?? null) === term
+      );
+    const scoped: [ReorderPointSource, any][] = [
+      ["location_term", locationId && termId && find(locationId, termId)],
+      ["location", locationId && find(locationId, null)],
+      ["term", termId && find(null, termId)],
+      ["item", find(null, null)],
+    ];
+    for (const [source, match] of scoped) {
+      if (!match) continue;
+      return {
+        reorder_point: Number(match.reorder_point) || 0,
+        reorder_qty: Number(match.reorder_qty) || 0,
+        reorder_point_source: source,
+      };
+    }
+
+    if (item.reorder_point !== null) {
+      return {
+        reorder_point: Number(item.reorder_point) || 0,
+        reorder_qty: Number(item.reorder_qty) || 0,
+        reorder_point_source: "item",
+      };
+    }
+    return {
+      reorder_point: Number(item.low_stock_threshold) || 0,
+      reorder_qty: Number(item.reorder_qty) || 0,
+      reorder_point_source: "low_stock_threshold",
+    };
+  }
+
+  private async getLocation(id: string) {
+    const { data, error } = await supabase
+      .from("locations")
+      .select("id, code, name, school_class_id")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching location:", error);
+      throw error;
+    }
+    if (!data) throw dbError("Location not found", "P0002");
+    return data;
+  }
+
+  /**
+   * The requested term, or the next active term to start after today
+   */
+  private async getTerm(id?: string) {
+    let query = supabase
+      .from("academic_session_terms")
+      .select("id, session, name, start_date, end_date");
+    query = id
+      ? query.eq("id", id)
+      : query
+          .eq("status", "active")
+          .gt("start_date", new Date().toISOString().slice(0, 10))
+          .order("start_date", { ascending: true })
+          .limit(1);
+    const { data, error } = await query.maybeSingle();
+    if (error) {
+      console.error("Error fetching academic term:", error);
+      throw error;
+    }
+    if (id && !data) throw dbError("Academic term not found", "P0002");
+    return data;
+  }
+}
+
+// Export a singleton instance
+export const replenishmentService = new ReplenishmentService();
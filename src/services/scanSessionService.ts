@@ -0,0 +1,356 @@
+import { supabase } from "../supabaseClient";
+import { costingService } from "./costingService";
+import { dbError } from "../utils/dbError";
+
+export type ScanSessionType =
+  "purchase" | "sale" | "distribution" | "stock_count";
+
+export type ScanSessionStatus = "open" | "committed" | "cancelled";
+
+export const SCAN_SESSION_TYPES: ScanSessionType[] = [
+  "purchase",
+  "sale",
+  "distribution",
+  "stock_count",
+];
+
+export const SCAN_SESSION_STATUSES: ScanSessionStatus[] = [
+  "open",
+  "committed",
+  "cancelled",
+];
+
+export interface ScanSessionInput {
+  session_type: ScanSessionType;
+  /** Purchases are received into, and sales taken from, this location */
+  location_id?: string | null;
+  supplier_id?: string | null;
+  /** Distributions: the class, term and class teacher receiving the items */
+  class_id?: string | null;
+  session_term_id?: string | null;
+  received_by?: string | null;
+  /** Stock counts: the open stock-take the counts are added to */
+  stock_take_id?: string | null;
+  reference_no?: string | null;
+  notes?: string | null;
+  opened_by?: string;
+}
+
+export interface ScanInput {
+  code: string;
+  qty?: number;
+  /** Serial number of a serialized unit scanned by its item code */
+  serial_number?: string | null;
+}
+
+export interface ScanLineChanges {
+  qty?: number;
+  unit_cost?: number | null;
+  serial_numbers?: string[];
+}
+
+const SESSION_SELECT = `*,
+  locations(id, code, name),
+  suppliers(id, name),
+  school_classes(id, name),
+  class_teachers(id, name),
+  stock_take_sessions(id, session_number, status)`;
+
+const LINE_SELECT = "*, inventory_items(id, name, sku, barcode, is_serialized)";
+
+export class ScanSessionService {
+  /**
+   * List scan sessions, newest first
+   */
+  async list(filters: { status?: string; session_type?: string } = {}) {
+    let query = supabase.from("scan_sessions").select(SESSION_SELECT);
+    if (filters.status) query = query.eq("status", filters.status);
+    if (filters.session_type) {
+      query = query.eq("session_type", filters.session_type);
+    }
+
+    const { data, error } = await query.order("created_at", {
+      ascending: false,
+    });
+    if (error) {
+      console.error("Error fetching scan sessions:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Get a session with its scanned lines in the order first scanned
+   * @returns Promise<any | null> - null when the session does not exist
+   */
+  async getById(id: string) {
+    const { data: session, error } = await supabase
+      .from("scan_sessions")
+      .select(SESSION_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching scan session:", error);
+      throw error;
+    }
+    if (!session) return null;
+
+    const { data: lines, error: linesError } = await supabase
+      .from("scan_session_lines")
+      .select(LINE_SELECT)
+      .eq("scan_session_id", id)
+      .order("created_at", { ascending: true });
+    if (linesError) {
+      console.error("Error fetching scan session lines:", linesError);
+      throw linesError;
+    }
+    return { ...session, lines: lines ?? [] };
+  }
+
+  /**
+   * Open a session. Stock counts must name a stock-take that is still open.
+   */
+  async open(input: ScanSessionInput) {
+    if (input.session_type === "stock_count") {
+      const { data: stockTake, error } = await supabase
+        .from("stock_take_sessions")
+        .select("session_number, status")
+        .eq("id", input.stock_take_id)
+        .maybeSingle();
+      if (error) {
+        console.error("Error fetching stock-take:", error);
+        throw error;
+      }
+      if (!stockTake) throw dbError("Stock-take not found", "P0002");
+      if (stockTake.status !== "open") {
+        throw dbError(
+          `Stock-take ${stockTake.session_number} is ${stockTake.status}`,
+          "PT409"
+        );
+      }
+    }
+
+    const { data, error } = await supabase
+      .from("scan_sessions")
+      .insert([
+        {
+          session_type: input.session_type,
+          location_id: input.location_id ?? null,
+          supplier_id: input.supplier_id ?? null,
+          class_id: input.class_id ?? null,
+          session_term_id: input.session_term_id ?? null,
+          received_by: input.received_by ?? null,
+          stock_take_id: input.stock_take_id ?? null,
+          reference_no: input.reference_no ?? null,
+          notes: input.notes ?? null,
+          opened_by: input.opened_by ?? null,
+        },
+      ])
+      .select("id")
+      .single();
+    if (error) {
+      console.error("Error opening scan session:", error);
+      throw error;
+    }
+    return this.getById(data.id);
+  }
+
+  /**
+   * Add a scanned barcode, SKU or serial number to an open session
+   * (record_scan)
+   * @returns Promise<{ line: any; item: any }> - the item's line and its
+   *   live stock
+   */
+  async recordScan(
+    id: string,
+    scan: ScanInput
+  ): Promise<{ line: any; item: any }> {
+    const { data: line, error } = await supabase.rpc("record_scan", {
+      _session_id: id,
+      _code: scan.code,
+      _qty: scan.qty ?? 1,
+      _serial_number: scan.serial_number ?? null,
+    });
+    if (error) {
+      console.error("Error calling record_scan:", error);
+      throw error;
+    }
+
+    const { data: item, error: itemError } = await supabase
+      .from("inventory_item_summary")
+      .select("id, name, sku, barcode, is_serialized, current_stock")
+      .eq("id", (line as any).item_id)
+      .single();
+    if (itemError) {
+      console.error("Error fetching scanned item:", itemError);
+      throw itemError;
+    }
+    return { line, item };
+  }
+
+  /**
+   * Correct a scanned line. Serialized lines are edited through their
+   * serial numbers, which also set the quantity.
+   */
+  async updateLine(id: string, lineId: string, changes: ScanLineChanges) {
+    const line = await this.getOpenLine(id, lineId);
+    const update: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (line.inventory_items?.is_serialized) {
+      if (changes.qty !== undefined) {
+        throw dbError(
+          "Change the serial_numbers of a serialized line instead of its qty",
+          "22023"
+        );
+      }
+      if (changes.serial_numbers !== undefined) {
+        const serials = changes.serial_numbers.map((serial) => serial.trim());
+        if (!serials.length) {
+          throw dbError("Remove the line instead of every serial", "22023");
+        }
+        if (serials.some((serial) => !serial)) {
+          throw dbError("Serial numbers cannot be blank", "22023");
+        }
+        if (new Set(serials).size !== serials.length) {
+          throw dbError("Serial numbers must not repeat", "22023");
+        }
+        update.serial_numbers = serials;
+        update.qty = serials.length;
+      }
+    } else {
+      if (changes.serial_numbers !== undefined) {
+        throw dbError(
+          `${line.inventory_items?.name ?? "This item"} is not serialized`,
+          "22023"
+        );
+      }
+      if (changes.qty !== undefined) update.qty = changes.qty;
+    }
+    if (changes.unit_cost !== undefined) update.unit_cost = changes.unit_cost;
+
+    const { data, error } = await supabase
+      .from("scan_session_lines")
+      .update(update)
+      .eq("id", lineId)
+      .select(LINE_SELECT)
+      .single();
+    if (error) {
+      console.error("Error updating scan session line:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Remove an item scanned by mistake from an open session
+   */
+  async removeLine(id: string, lineId: string): Promise<void> {
+    await this.getOpenLine(id, lineId);
+    const { error } = await supabase
+      .from("scan_session_lines")
+      .delete()
+      .eq("id", lineId);
+    if (error) {
+      console.error("Error deleting scan session line:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Post the session as the document it drafts (commit_scan_session).
+   * Sales and distributions are costed with the item's costing method as
+   * they are posted, under the item lock.
+   * @param options - status applies to purchases and sales (default
+   *   completed); transaction_date dates every posting
+   * @returns Promise<{ session: any; documents: any[] }>
+   */
+  async commit(
+    id: string,
+    options: {
+      status?: "pending" | "completed";
+      transaction_date?: string;
+      committed_by?: string;
+    } = {}
+  ): Promise<{ session: any; documents: any[] }> {
+    const session = await this.getById(id);
+    if (!session) throw dbError("Scan session not found", "P0002");
+
+    const { data, error } = await supabase.rpc("commit_scan_session", {
+      _id: id,
+      _costing_method: costingService.getDefaultMethod(),
+      _status: options.status ?? null,
+      _transaction_date: options.transaction_date ?? null,
+      _committed_by: options.committed_by ?? null,
+    });
+    if (error) {
+      console.error("Error calling commit_scan_session:", error);
+      throw error;
+    }
+    return data as { session: any; documents: any[] };
+  }
+
+  /**
+   * Cancel an open session without posting anything
+   */
+  async cancel(id: string) {
+    const { data, error } = await supabase
+      .from("scan_sessions")
+      .update({ status: "cancelled", updated_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("status", "open")
+      .select("*");
+    if (error) {
+      console.error("Error cancelling scan session:", error);
+      throw error;
+    }
+    if (data?.length) return data[0];
+
+    const { data: existing } = await supabase
+      .from("scan_sessions")
+      .select("status")
+      .eq("id", id)
+      .maybeSingle();
+    if (!existing) throw dbError("Scan session not found", "P0002");
+    throw dbError(`Scan session is already ${existing.status}`, "PT409");
+  }
+
+  /**
+   * Fetch a line of an open session with its item
+   */
+  private async getOpenLine(id: string, lineId: string) {
+    await this.assertOpen(id);
+    const { data, error } = await supabase
+      .from("scan_session_lines")
+      .select(LINE_SELECT)
+      .eq("id", lineId)
+      .eq("scan_session_id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching scan session line:", error);
+      throw error;
+    }
+    if (!data) throw dbError("Scan session line not found", "P0002");
+    return data;
+  }
+
+  private async assertOpen(id: string): Promise<void> {
+    const { data, error } = await supabase
+      .from("scan_sessions")
+      .select("status")
+      .eq("id", id)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching scan session:", error);
+      throw error;
+    }
+    if (!data) throw dbError("Scan session not found", "P0002");
+    if (data.status !== "open") {
+      throw dbError(`Scan session is ${data.status}`, "PT409");
+    }
+  }
+}
+
+// Export a singleton instance
+export const scanSessionService = new ScanSessionService();
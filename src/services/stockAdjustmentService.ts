@@ -0,0 +1,174 @@
+import { supabase } from "../supabaseClient";
+import { costingService } from "./costingService";
+import { dbError } from "../utils/dbError";
+
+export type AdjustmentReason =
+  "damage" | "loss" | "count_variance" | "expiry" | "donation";
+
+export const ADJUSTMENT_REASONS: AdjustmentReason[] = [
+  "damage",
+  "loss",
+  "count_variance",
+  "expiry",
+  "donation",
+];
+
+export type AdjustmentStatus = "pending_approval" | "posted" | "rejected";
+
+export const ADJUSTMENT_STATUSES: AdjustmentStatus[] = [
+  "pending_approval",
+  "posted",
+  "rejected",
+];
+
+export interface StockAdjustmentInput {
+  item_id: string;
+  /** Positive adds stock, negative removes it */
+  qty: number;
+  reason: AdjustmentReason;
+  /**
+   * Cost per unit of stock added, posted as its in_cost; defaults to the
+   * item's current cost. Approval is decided on the server's valuation.
+   */
+  unit_cost?: number;
+  adjustment_date?: string;
+  reference_no?: string;
+  notes?: string;
+  /** Location whose stock is adjusted; defaults to the default location */
+  location_id?: string;
+  created_by?: string;
+}
+
+export interface StockAdjustmentResult {
+  adjustment: any;
+  transaction: any | null;
+}
+
+const ADJUSTMENT_SELECT = "*, inventory_items(id, name)";
+
+export class StockAdjustmentService {
+  /**
+   * Value above which an adjustment waits for approval before posting.
+   * Unset means any adjustment with a value needs approval.
+   */
+  getApprovalThreshold(): number {
+    const configured = Number(process.env.STOCK_ADJUSTMENT_APPROVAL_THRESHOLD);
+    return Number.isFinite(configured) && configured >= 0 ? configured : 0;
+  }
+
+  /**
+   * List stock adjustments, newest first
+   * @param filters - Optional item_id, reason and status filters
+   */
+  async list(
+    filters: { item_id?: string; reason?: string; status?: string } = {}
+  ) {
+    let query = supabase.from("stock_adjustments").select(ADJUSTMENT_SELECT);
+    if (filters.item_id) query = query.eq("item_id", filters.item_id);
+    if (filters.reason) query = query.eq("reason", filters.reason);
+    if (filters.status) query = query.eq("status", filters.status);
+
+    const { data, error } = await query.order("created_at", {
+      ascending: false,
+    });
+    if (error) {
+      console.error("Error fetching stock adjustments:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * @returns Promise<any | null> - null when the adjustment does not exist
+   */
+  async getById(id: string) {
+    const { data, error } = await supabase
+      .from("stock_adjustments")
+      .select(ADJUSTMENT_SELECT)
+      .eq("id", id)
+      .single();
+    if (error) {
+      if (error.code === "PGRST116") return null;
+      console.error("Error fetching stock adjustment:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Record an adjustment (create_stock_adjustment). The quantity is valued at
+   * the item's costing method; adjustments worth more than the approval
+   * threshold are held as pending_approval, the rest post straight to
+   * inventory_transactions.
+   */
+  async create(input: StockAdjustmentInput): Promise<StockAdjustmentResult> {
+    const { data, error } = await supabase.rpc("create_stock_adjustment", {
+      _item_id: input.item_id,
+      _qty: input.qty,
+      _reason: input.reason,
+      _unit_cost: input.unit_cost ?? null,
+      _approval_threshold: this.getApprovalThreshold(),
+      _adjustment_date: input.adjustment_date ?? null,
+      _reference_no: input.reference_no ?? null,
+      _notes: input.notes ?? null,
+      _created_by: input.created_by ?? null,
+      _location_id: input.location_id ?? null,
+      _costing_method: costingService.getDefaultMethod(),
+    });
+    if (error) {
+      console.error("Error calling create_stock_adjustment:", error);
+      throw error;
+    }
+    return data as StockAdjustmentResult;
+  }
+
+  /**
+   * Approve a pending adjustment and post it, costing a write-off as it
+   * posts. The approver must be someone other than the requester.
+   */
+  async approve(id: string, userId?: string): Promise<StockAdjustmentResult> {
+    const { data, error } = await supabase.rpc("post_stock_adjustment", {
+      _id: id,
+      _approved_by: userId ?? null,
+      _costing_method: costingService.getDefaultMethod(),
+    });
+    if (error) {
+      console.error("Error calling post_stock_adjustment:", error);
+      throw error;
+    }
+    return data as StockAdjustmentResult;
+  }
+
+  /**
+   * Reject a pending adjustment; nothing is posted to stock
+   */
+  async reject(id: string, userId?: string, reason?: string) {
+    const { data, error } = await supabase
+      .from("stock_adjustments")
+      .update({
+        status: "rejected",
+        rejected_by: userId ?? null,
+        rejected_at: new Date().toISOString(),
+        rejection_reason: reason ?? null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("status", "pending_approval")
+      .select(ADJUSTMENT_SELECT);
+    if (error) {
+      console.error("Error rejecting stock adjustment:", error);
+      throw error;
+    }
+    if (data?.length) return data[0];
+
+    const existing = await this.getById(id);
+    if (!existing) throw dbError("Stock adjustment not found", "P0002");
+    throw dbError(
+      `Stock adjustment ${existing.adjustment_number} is already ${existing.status}`,
+      "PT409"
+    );
+  }
+}
+
+// Export a singleton instance
+export const stockAdjustmentService = new StockAdjustmentService();
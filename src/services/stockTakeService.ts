@@ -0,0 +1,243 @@
+import { supabase } from "../supabaseClient";
+import { costingService } from "./costingService";
+import { dbError } from "../utils/dbError";
+
+export type StockTakeStatus = "open" | "approved" | "cancelled";
+
+export const STOCK_TAKE_STATUSES: StockTakeStatus[] = [
+  "open",
+  "approved",
+  "cancelled",
+];
+
+export interface StockTakeInput {
+  category_id?: string | null;
+  sub_category_id?: string | null;
+  /** Count one location; omitted counts stock across all locations */
+  location_id?: string | null;
+  notes?: string | null;
+  opened_by?: string;
+}
+
+/** A counted quantity for an item named by item_id or barcode */
+export interface StockTakeCount {
+  item_id?: string;
+  barcode?: string;
+  counted_qty: number;
+  notes?: string;
+}
+
+export interface StockTakeVarianceReport {
+  session: any;
+  lines: any[];
+  totals: {
+    items_on_sheet: number;
+    items_counted: number;
+    items_uncounted: number;
+    items_with_variance: number;
+    shortage_value: number;
+    surplus_value: number;
+    net_variance_value: number;
+  };
+  /** Movements posted against items on the sheet while the count was open */
+  flagged_movements: any[];
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+const LINE_SELECT = "*, inventory_items(id, name, sku, barcode)";
+
+export class StockTakeService {
+  /**
+   * List stock-take sessions, newest first
+   */
+  async list(filters: { status?: string } = {}) {
+    let query = supabase
+      .from("stock_take_sessions")
+      .select("*, categories(id, name), sub_categories(id, name)");
+    if (filters.status) query = query.eq("status", filters.status);
+
+    const { data, error } = await query.order("opened_at", {
+      ascending: false,
+    });
+    if (error) {
+      console.error("Error fetching stock-takes:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Get a session with its count sheet
+   * @returns Promise<any | null> - null when the session does not exist
+   */
+  async getById(id: string) {
+    const { data: session, error } = await supabase
+      .from("stock_take_sessions")
+      .select("*, categories(id, name), sub_categories(id, name)")
+      .eq("id", id)
+      .single();
+    if (error) {
+      if (error.code === "PGRST116") return null;
+      console.error("Error fetching stock-take:", error);
+      throw error;
+    }
+
+    const { data: lines, error: linesError } = await supabase
+      .from("stock_take_line_variances")
+      .select(LINE_SELECT)
+      .eq("session_id", id);
+    if (linesError) {
+      console.error("Error fetching stock-take lines:", linesError);
+      throw linesError;
+    }
+
+    const sorted = (lines ?? []).sort((a: any, b: any) =>
+      (a.inventory_items?.name ?? "").localeCompare(
+        b.inventory_items?.name ?? ""
+      )
+    );
+    return { ...session, lines: sorted };
+  }
+
+  /**
+   * Open a count session for every item, or for one category/sub-category.
+   * System quantities come from inventory_item_summary at this moment.
+   */
+  async open(input: StockTakeInput) {
+    const { data, error } = await supabase.rpc("open_stock_take", {
+      _opened_by: input.opened_by ?? null,
+      _category_id: input.category_id ?? null,
+      _sub_category_id: input.sub_category_id ?? null,
+      _notes: input.notes ?? null,
+      _location_id: input.location_id ?? null,
+    });
+    if (error) {
+      console.error("Error calling open_stock_take:", error);
+      throw error;
+    }
+    return this.getById(data as string);
+  }
+
+  /**
+   * Enter counted quantities on an open session
+   * @param add - Add to the quantity already counted (one scan per unit)
+   *   instead of replacing it
+   */
+  async recordCounts(
+    id: string,
+    counts: StockTakeCount[],
+    userId?: string,
+    add = false
+  ) {
+    const { error } = await supabase.rpc("record_stock_take_counts", {
+      _session_id: id,
+      _counts: counts,
+      _counted_by: userId ?? null,
+      _add: add,
+    });
+    if (error) {
+      console.error("Error calling record_stock_take_counts:", error);
+      throw error;
+    }
+    return this.getById(id);
+  }
+
+  /**
+   * Variance per counted item valued at cost_price, with totals and the
+   * movements that were posted during the count
+   */
+  async getVarianceReport(id: string): Promise<StockTakeVarianceReport> {
+    const sheet = await this.getById(id);
+    if (!sheet) throw dbError("Stock-take not found", "P0002");
+    const { lines, ...session } = sheet;
+
+    const { data: movements, error } = await supabase
+      .from("inventory_transactions")
+      .select("*, inventory_items(id, name)")
+      .eq("stock_take_session_id", id)
+      .order("created_at", { ascending: true });
+    if (error) {
+      console.error("Error fetching stock-take movements:", error);
+      throw error;
+    }
+
+    const counted = lines.filter((line: any) => line.counted_qty !== null);
+    const variances: number[] = counted.map((line: any) =>
+      Number(line.variance_value)
+    );
+    const shortage = variances.filter((v) => v < 0).reduce((a, b) => a + b, 0);
+    const surplus = variances.filter((v) => v > 0).reduce((a, b) => a + b, 0);
+
+    return {
+      session,
+      lines: counted,
+      totals: {
+        items_on_sheet: lines.length,
+        items_counted: counted.length,
+        items_uncounted: lines.length - counted.length,
+        items_with_variance: counted.filter(
+          (line: any) => Number(line.variance_qty) !== 0
+        ).length,
+        shortage_value: roundMoney(shortage),
+        surplus_value: roundMoney(surplus),
+        net_variance_value: roundMoney(shortage + surplus),
+      },
+      flagged_movements: movements ?? [],
+    };
+  }
+
+  /**
+   * Approve a session and post each counted variance as a count_variance
+   * adjustment transaction, shortfalls costed as they post. Uncounted items
+   * are left unchanged.
+   */
+  async approve(id: string, userId?: string) {
+    const { data, error } = await supabase.rpc("approve_stock_take", {
+      _session_id: id,
+      _approved_by: userId ?? null,
+      _costing_method: costingService.getDefaultMethod(),
+    });
+    if (error) {
+      console.error("Error calling approve_stock_take:", error);
+      throw error;
+    }
+    return data as { session: any; adjustments: any[] };
+  }
+
+  /**
+   * Cancel an open session without posting anything
+   */
+  async cancel(id: string, userId?: string) {
+    const { data, error } = await supabase
+      .from("stock_take_sessions")
+      .update({
+        status: "cancelled",
+        cancelled_by: userId ?? null,
+        cancelled_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("status", "open")
+      .select("*");
+    if (error) {
+      console.error("Error cancelling stock-take:", error);
+      throw error;
+    }
+    if (data?.length) return data[0];
+
+    const { data: existing } = await supabase
+      .from("stock_take_sessions")
+      .select("session_number, status")
+      .eq("id", id)
+      .maybeSingle();
+    if (!existing) throw dbError("Stock-take not found", "P0002");
+    throw dbError(
+      `Stock-take ${existing.session_number} is already ${existing.status}`,
+      "PT409"
+    );
+  }
+}
+
+// Export a singleton instance
+export const stockTakeService = new StockTakeService();
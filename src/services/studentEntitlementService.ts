@@ -0,0 +1,116 @@
+import { supabase } from "../supabaseClient";
+import { dbError } from "../utils/dbError";
+
+/** A student's entitlement to one item in a term, as in student_entitlements */
+export interface StudentEntitlement {
+  session_term_id: string;
+  class_id: string;
+  inventory_item_id: string;
+  item_name: string;
+  sku: string | null;
+  entitled_qty: number;
+  received_qty: number;
+  outstanding_qty: number;
+}
+
+/** Outcome of generating a class's eligibility rows for a term */
+export interface GeneratedEntitlementRows {
+  /** student_inventory_log rows added, eligible and not yet received */
+  created: any[];
+  /** Pending rows removed for students who moved class */
+  removed: number;
+  /** Entitled items with variants, which get no rows */
+  skipped_items: { inventory_item_id: string; name: string }[];
+}
+
+export class StudentEntitlementService {
+  /**
+   * What a student is entitled to through their class, what they have
+   * received and what is outstanding, per term and item. Items with
+   * variants count the variants received; kits are listed as their
+   * components.
+   * @param sessionTermId - Limit to one term; every term when left out
+   */
+  async list(
+    studentId: string,
+    sessionTermId?: string
+  ): Promise<StudentEntitlement[]> {
+    const { data: student, error: studentError } = await supabase
+      .from("students")
+      .select("id")
+      .eq("id", studentId)
+      .maybeSingle();
+    if (studentError) {
+      console.error("Error fetching student:", studentError);
+      throw studentError;
+    }
+    if (!student) throw dbError("Student not found", "P0002");
+
+    const { data, error } = await supabase.rpc("student_entitlements", {
+      _student_id: studentId,
+      _session_term_id: sessionTermId ?? null,
+    });
+    if (error) {
+      console.error("Error calling student_entitlements:", error);
+      throw error;
+    }
+    const rows = (data ?? []) as any[];
+    if (!rows.length) return [];
+
+    const { data: items, error: itemsError } = await supabase
+      .from("inventory_items")
+      .select("id, name, sku")
+      .in("id", [...new Set(rows.map((row) => row.inventory_item_id))]);
+    if (itemsError) {
+      console.error("Error fetching entitled items:", itemsError);
+      throw itemsError;
+    }
+    const byId = new Map((items ?? []).map((item: any) => [item.id, item]));
+
+    return rows
+      .map((row) => ({
+        session_term_id: row.session_term_id,
+        class_id: row.class_id,
+        inventory_item_id: row.inventory_item_id,
+        item_name: byId.get(row.inventory_item_id)?.name ?? "",
+        sku: byId.get(row.inventory_item_id)?.sku ?? null,
+        entitled_qty: Number(row.entitled_qty) || 0,
+        received_qty: Number(row.received_qty) || 0,
+        outstanding_qty: Number(row.outstanding_qty) || 0,
+      }))
+      .sort(
+        (a, b) =>
+          a.session_term_id.localeCompare(b.session_term_id) ||
+          a.item_name.localeCompare(b.item_name)
+      );
+  }
+
+  /**
+   * Create the eligibility rows for a class's entitlements in a term
+   * (generate_student_entitlement_rows). Safe to run again: only new
+   * students and items get rows, and students who moved class have their
+   * pending rows moved with them.
+   */
+  async generate(
+    classId: string,
+    sessionTermId: string,
+    createdBy?: string
+  ): Promise<GeneratedEntitlementRows> {
+    const { data, error } = await supabase.rpc(
+      "generate_student_entitlement_rows",
+      {
+        _class_id: classId,
+        _session_term_id: sessionTermId,
+        _created_by: createdBy ?? null,
+      }
+    );
+    if (error) {
+      console.error("Error calling generate_student_entitlement_rows:", error);
+      throw error;
+    }
+    return data as GeneratedEntitlementRows;
+  }
+}
+
+// Export a singleton instance
+export const studentEntitlementService = new StudentEntitlementService();
@@ -0,0 +1,171 @@
+import PDFDocument from "pdfkit";
+import { toCsv } from "../utils/csv";
+import { SupplierStatement } from "./supplierTransactionsService";
+
+const AGING_LABELS: [keyof SupplierStatement["aging"], string][] = [
+  ["0_30", "0-30 days"],
+  ["31_60", "31-60 days"],
+  ["61_90", "61-90 days"],
+  ["90_plus", "90+ days"],
+];
+
+const formatAmount = (value: number) => value.toFixed(2);
+const formatDate = (value: string) => value.slice(0, 10);
+
+const describeSource = (
+  entry: SupplierStatement["entries"][number]
+): string => {
+  const source = entry.inventory_transaction;
+  if (!source) return "";
+  const qty = source.qty_in || source.qty_out;
+  const description = `${source.transaction_type} ${qty} x ${source.item_name ?? source.item_id}`;
+  return source.original_transaction_id
+    ? `${description} (purchase ${source.original_transaction_id})`
+    : description;
+};
+
+/**
+ * Render a supplier statement as CSV: header block, entries, then aging
+ */
+export function statementToCsv(statement: SupplierStatement): string {
+  const rows: unknown[][] = [
+    ["Supplier", statement.supplier.name],
+    ["From", statement.from ?? ""],
+    ["To", statement.to],
+    [],
+    ["Date", "Reference", "Source", "Notes", "Credit", "Debit", "Balance"],
+    [
+      statement.from ?? "",
+      "",
+      "",
+      "Opening balance",
+      "",
+      "",
+      formatAmount(statement.opening_balance),
+    ],
+    ...statement.entries.map((entry) => [
+      formatDate(entry.transaction_date),
+      entry.reference_no ?? "",
+      describeSource(entry),
+      entry.notes ?? "",
+      formatAmount(entry.credit),
+      formatAmount(entry.debit),
+      formatAmount(entry.balance),
+    ]),
+    [
+      statement.to,
+      "",
+      "",
+      "Closing balance",
+      formatAmount(statement.total_credit),
+      formatAmount(statement.total_debit),
+      formatAmount(statement.closing_balance),
+    ],
+    [],
+    ["Aging", ...AGING_LABELS.map(([, label]) => label), "Total"],
+    [
+      "Outstanding",
+      ...AGING_LABELS.map(([key]) =>
+        formatAmount(statement.aging[key] as number)
+      ),
+      formatAmount(statement.aging.total),
+    ],
+  ];
+  return toCsv(rows);
+}
+
+/**
+ * Render a supplier statement as a PDF document
+ * @returns Promise<Buffer> - the finished PDF
+ */
+export function statementToPdf(statement: SupplierStatement): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 40 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const columns = [
+      { label: "Date", width: 65 },
+      { label: "Reference", width: 90 },
+      { label: "Source / Notes", width: 160 },
+      { label: "Credit", width: 65, align: "right" as const },
+      { label: "Debit", width: 65, align: "right" as const },
+      { label: "Balance", width: 70, align: "right" as const },
+    ];
+    const left = doc.page.margins.left;
+
+    const row = (cells: string[], bold = false) => {
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 30) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      let x = left;
+      let height = 0;
+      doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+      cells.forEach((cell, i) => {
+        const { width, align } = columns[i];
+        doc.text(cell, x, y, { width: width - 4, align: align ?? "left" });
+        height = Math.max(height, doc.y - y);
+        x += width;
+      });
+      doc.x = left;
+      doc.y = y + height + 4;
+    };
+
+    doc.font("Helvetica-Bold").fontSize(16).text("Supplier Statement");
+    doc.moveDown(0.5);
+    doc.font("Helvetica").fontSize(10);
+    doc.text(`Supplier: ${statement.supplier.name}`);
+    doc.text(`Period: ${statement.from ?? "beginning"} to ${statement.to}`);
+    doc.moveDown();
+
+    row(
+      columns.map((column) => column.label),
+      true
+    );
+    row([
+      statement.from ?? "",
+      "",
+      "Opening balance",
+      "",
+      "",
+      formatAmount(statement.opening_balance),
+    ]);
+    for (const entry of statement.entries) {
+      row([
+        formatDate(entry.transaction_date),
+        entry.reference_no ?? "",
+        [describeSource(entry), entry.notes].filter(Boolean).join("\n"),
+        entry.credit ? formatAmount(entry.credit) : "",
+        entry.debit ? formatAmount(entry.debit) : "",
+        formatAmount(entry.balance),
+      ]);
+    }
+    row(
+      [
+        statement.to,
+        "",
+        "Closing balance",
+        formatAmount(statement.total_credit),
+        formatAmount(statement.total_debit),
+        formatAmount(statement.closing_balance),
+      ],
+      true
+    );
+
+    doc.moveDown();
+    doc.font("Helvetica-Bold").fontSize(12).text("Aging of unpaid purchases");
+    doc.moveDown(0.5);
+    doc.font("Helvetica").fontSize(10);
+    for (const [key, label] of AGING_LABELS) {
+      doc.text(`${label}: ${formatAmount(statement.aging[key] as number)}`);
+    }
+    doc
+      .font("Helvetica-Bold")
+      .text(`Total outstanding: ${formatAmount(statement.aging.total)}`);
+
+    doc.end();
+  });
+}
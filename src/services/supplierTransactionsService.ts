@@ -22,6 +22,157 @@ export interface SupplierBalance {
   balance: number;
 }
 
+export interface LinkedInventoryTransaction {
+  id: string;
+  transaction_type: string;
+  transaction_date: string;
+  qty_in: number;
+  qty_out: number;
+  in_cost: number;
+  out_cost: number;
+  original_transaction_id?: string | null;
+  item_id: string;
+  item_name?: string;
+}
+
+export interface SupplierStatementEntry {
+  id: string;
+  transaction_date: string;
+  reference_no?: string;
+  notes?: string;
+  credit: number;
+  debit: number;
+  balance: number;
+  inventory_transaction: LinkedInventoryTransaction | null;
+}
+
+export type PaymentMethod =
+  "cash" | "bank_transfer" | "cheque" | "mobile_money" | "card" | "other";
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  "cash",
+  "bank_transfer",
+  "cheque",
+  "mobile_money",
+  "card",
+  "other",
+];
+
+export interface PaymentAllocationInput {
+  supplier_transaction_id?: string;
+  reference_no?: string;
+  amount: number;
+}
+
+export interface SupplierPaymentInput {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  payment_date?: string;
+  notes?: string;
+  allocations?: PaymentAllocationInput[];
+  auto_allocate?: boolean;
+  created_by?: string;
+}
+
+export interface SupplierPaymentAllocation {
+  id: string;
+  payment_id: string;
+  credit_transaction_id: string;
+  amount: number;
+  created_at: string;
+}
+
+export interface SupplierPayment {
+  id: string;
+  payment_number: string;
+  supplier_id: string;
+  supplier_transaction_id: string;
+  payment_date: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  allocations?: SupplierPaymentAllocation[];
+}
+
+export interface PostedSupplierPayment {
+  payment: SupplierPayment;
+  supplier_transaction: SupplierTransaction;
+  allocations: SupplierPaymentAllocation[];
+  unallocated: number;
+}
+
+export interface SupplierOpenItem {
+  supplier_transaction_id: string;
+  reference_no?: string;
+  transaction_date: string;
+  credit: number;
+  paid: number;
+  outstanding: number;
+  status: "paid" | "partially_paid" | "unpaid";
+}
+
+export interface SupplierOpenItems {
+  supplier_id: string;
+  items: SupplierOpenItem[];
+  total_outstanding: number;
+  unallocated: number;
+  balance: number;
+}
+
+export type AgingBucket = "0_30" | "31_60" | "61_90" | "90_plus";
+
+export interface OpenPurchaseCredit {
+  supplier_transaction_id: string;
+  reference_no?: string;
+  transaction_date: string;
+  credit: number;
+  paid: number;
+  outstanding: number;
+  age_days: number;
+  bucket: AgingBucket;
+}
+
+export interface SupplierStatement {
+  supplier: { id: string; name: string; [key: string]: any };
+  from: string | null;
+  to: string;
+  opening_balance: number;
+  entries: SupplierStatementEntry[];
+  total_credit: number;
+  total_debit: number;
+  closing_balance: number;
+  aging: Record<AgingBucket, number> & {
+    total: number;
+    open_items: OpenPurchaseCredit[];
+  };
+}
+
+const PAGE_SIZE = 1000;
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Start of the day after a YYYY-MM-DD date, used as an exclusive upper bound
+ */
+const startOfNextDay = (date: string) => {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+};
+
+const agingBucket = (ageDays: number): AgingBucket => {
+  if (ageDays <= 30) return "0_30";
+  if (ageDays <= 60) return "31_60";
+  if (ageDays <= 90) return "61_90";
+  return "90_plus";
+};
+
 export default class SupplierTransactionsService {
   private table = "supplier_transactions";
 
@@ -107,4 +258,334 @@ export default class SupplierTransactionsService {
     if (error) throw error;
     return data as SupplierBalance[];
   }
+
+  /**
+   * Statement of account for a supplier over a period: opening balance, every
+   * entry with a running balance (credit - debit), closing balance and aging
+   * of unpaid purchase credits as of the end of the period
+   * @param supplierId - The supplier UUID
+   * @param period - Optional from/to dates (YYYY-MM-DD, inclusive)
+   * @returns Promise<SupplierStatement | null> - null when the supplier does not exist
+   */
+  async getStatement(
+    supplierId: string,
+    period: { from?: string; to?: string } = {}
+  ): Promise<SupplierStatement | null> {
+    const { data: supplier, error } = await supabase
+      .from("suppliers")
+      .select("*")
+      .eq("id", supplierId)
+      .single();
+    if (error) {
+      if ((error as any).code === "PGRST116") return null;
+      throw error;
+    }
+
+    const to = period.to || new Date().toISOString().slice(0, 10);
+    const periodEnd = startOfNextDay(to);
+    const periodStart = period.from
+      ? new Date(`${period.from}T00:00:00.000Z`)
+      : null;
+
+    const ledger = await this.getLedger(supplierId, periodEnd);
+    const opening = ledger.filter(
+      (row) => periodStart && new Date(row.transaction_date!) < periodStart
+    );
+    const inPeriod = ledger.filter(
+      (row) => !periodStart || new Date(row.transaction_date!) >= periodStart
+    );
+
+    const openingBalance = roundMoney(
+      opening.reduce(
+        (sum, row) => sum + Number(row.credit) - Number(row.debit),
+        0
+      )
+    );
+
+    const linked = await this.getLinkedInventoryTransactions(
+      inPeriod.map((row) => row.reference_no)
+    );
+
+    let balance = openingBalance;
+    let totalCredit = 0;
+    let totalDebit = 0;
+    const entries: SupplierStatementEntry[] = inPeriod.map((row) => {
+      const credit = Number(row.credit) || 0;
+      const debit = Number(row.debit) || 0;
+      totalCredit += credit;
+      totalDebit += debit;
+      balance = roundMoney(balance + credit - debit);
+      return {
+        id: row.id,
+        transaction_date: row.transaction_date!,
+        reference_no: row.reference_no,
+        notes: row.notes,
+        credit,
+        debit,
+        balance,
+        inventory_transaction: row.reference_no
+          ? (linked.get(row.reference_no) ?? null)
+          : null,
+      };
+    });
+
+    const openItems = await this.getOpenPurchaseCredits(supplierId, to, ledger);
+    const aging = {
+      "0_30": 0,
+      "31_60": 0,
+      "61_90": 0,
+      "90_plus": 0,
+      total: 0,
+      open_items: openItems,
+    };
+    for (const item of openItems) {
+      aging[item.bucket] = roundMoney(aging[item.bucket] + item.outstanding);
+      aging.total = roundMoney(aging.total + item.outstanding);
+    }
+
+    return {
+      supplier,
+      from: period.from ?? null,
+      to,
+      opening_balance: openingBalance,
+      entries,
+      total_credit: roundMoney(totalCredit),
+      total_debit: roundMoney(totalDebit),
+      closing_balance: balance,
+      aging,
+    };
+  }
+
+  /**
+   * Every purchase credit of a supplier with what has been paid against it
+   * through payment allocations or debits carrying its reference_no. Debits
+   * not linked to a purchase are reported as unallocated (on account).
+   * @param supplierId - The supplier UUID
+   * @param before - Only entries dated before this instant, all when omitted
+   * @param ledger - Pre-fetched ledger up to the same cut-off, fetched when omitted
+   * @returns Promise<SupplierOpenItems>
+   */
+  async getOpenItems(
+    supplierId: string,
+    before?: Date,
+    ledger?: SupplierTransaction[]
+  ): Promise<SupplierOpenItems> {
+    const [{ data, error }, rows] = await Promise.all([
+      supabase.rpc("supplier_open_credits", {
+        _supplier_id: supplierId,
+        _before: before?.toISOString() ?? null,
+      }),
+      ledger ?? this.getLedger(supplierId, before),
+    ]);
+    if (error) throw error;
+
+    const items: SupplierOpenItem[] = (data ?? []).map((row: any) => {
+      const paid = Number(row.paid) || 0;
+      const outstanding = Number(row.outstanding) || 0;
+      return {
+        supplier_transaction_id: row.supplier_transaction_id,
+        reference_no: row.reference_no ?? undefined,
+        transaction_date: row.transaction_date,
+        credit: Number(row.credit),
+        paid,
+        outstanding,
+        status:
+          outstanding <= 0 ? "paid" : paid > 0 ? "partially_paid" : "unpaid",
+      };
+    });
+
+    const totalDebit = rows.reduce((sum, row) => sum + Number(row.debit), 0);
+    const totalCredit = rows.reduce((sum, row) => sum + Number(row.credit), 0);
+    const linkedPaid = items.reduce((sum, item) => sum + item.paid, 0);
+
+    return {
+      supplier_id: supplierId,
+      items,
+      total_outstanding: roundMoney(
+        items.reduce((sum, item) => sum + item.outstanding, 0)
+      ),
+      unallocated: roundMoney(totalDebit - linkedPaid),
+      balance: roundMoney(totalCredit - totalDebit),
+    };
+  }
+
+  /**
+   * Purchase credits that are not fully paid as of a date, aged. Linked
+   * payments settle their own purchase; unallocated payments settle the
+   * oldest open purchases.
+   * @param supplierId - The supplier UUID
+   * @param asOf - Date (YYYY-MM-DD, inclusive) to age against
+   * @param ledger - Pre-fetched ledger up to asOf, fetched when omitted
+   */
+  async getOpenPurchaseCredits(
+    supplierId: string,
+    asOf: string,
+    ledger?: SupplierTransaction[]
+  ): Promise<OpenPurchaseCredit[]> {
+    const periodEnd = startOfNextDay(asOf);
+    const { items, unallocated } = await this.getOpenItems(
+      supplierId,
+      periodEnd,
+      ledger
+    );
+
+    let onAccount = Math.max(unallocated, 0);
+    const dayMs = 24 * 60 * 60 * 1000;
+    const open: OpenPurchaseCredit[] = [];
+    for (const item of items) {
+      const applied = Math.min(onAccount, item.outstanding);
+      onAccount -= applied;
+      const outstanding = roundMoney(item.outstanding - applied);
+      if (outstanding <= 0) continue;
+
+      const ageDays = Math.max(
+        0,
+        Math.floor(
+          (periodEnd.getTime() -
+            dayMs -
+            new Date(item.transaction_date).getTime()) /
+            dayMs
+        )
+      );
+      open.push({
+        supplier_transaction_id: item.supplier_transaction_id,
+        reference_no: item.reference_no,
+        transaction_date: item.transaction_date,
+        credit: item.credit,
+        paid: roundMoney(item.credit - outstanding),
+        outstanding,
+        age_days: ageDays,
+        bucket: agingBucket(ageDays),
+      });
+    }
+    return open;
+  }
+
+  /**
+   * Record a payment to a supplier and allocate it to purchase credits,
+   * either as listed in allocations or oldest first when auto_allocate is set
+   * @param supplierId - The supplier UUID
+   * @param input - Payment details and allocations
+   * @returns Promise<PostedSupplierPayment>
+   */
+  async postPayment(
+    supplierId: string,
+    input: SupplierPaymentInput
+  ): Promise<PostedSupplierPayment> {
+    const { data, error } = await supabase.rpc("post_supplier_payment", {
+      _supplier_id: supplierId,
+      _amount: input.amount,
+      _method: input.method,
+      _reference: input.reference ?? null,
+      _payment_date: input.payment_date ?? null,
+      _notes: input.notes ?? null,
+      _allocations: input.allocations ?? [],
+      _auto_allocate: input.auto_allocate ?? false,
+      _created_by: input.created_by ?? null,
+    });
+    if (error) throw error;
+    return data as PostedSupplierPayment;
+  }
+
+  /**
+   * Payments made to a supplier with their allocations, newest first
+   */
+  async getPayments(supplierId: string): Promise<SupplierPayment[]> {
+    const { data, error } = await supabase
+      .from("supplier_payments")
+      .select("*, allocations:supplier_payment_allocations(*)")
+      .eq("supplier_id", supplierId)
+      .order("payment_date", { ascending: false });
+    if (error) throw error;
+    return data as SupplierPayment[];
+  }
+
+  /**
+   * Delete a payment by removing its ledger debit; the payment record and
+   * its allocations go with it
+   * @returns Promise<boolean> - false when the payment does not exist
+   */
+  async deletePayment(supplierId: string, paymentId: string): Promise<boolean> {
+    const { data: payment, error } = await supabase
+      .from("supplier_payments")
+      .select("supplier_transaction_id")
+      .eq("id", paymentId)
+      .eq("supplier_id", supplierId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!payment) return false;
+
+    await this.remove(payment.supplier_transaction_id);
+    return true;
+  }
+
+  /**
+   * All ledger rows for a supplier, oldest first, optionally only those
+   * dated before a cut-off
+   */
+  private async getLedger(
+    supplierId: string,
+    before?: Date
+  ): Promise<SupplierTransaction[]> {
+    const rows: SupplierTransaction[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from(this.table)
+        .select("*")
+        .eq("supplier_id", supplierId);
+      if (before) query = query.lt("transaction_date", before.toISOString());
+      const { data, error } = await query
+        .order("transaction_date", { ascending: true })
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+      rows.push(...((data ?? []) as SupplierTransaction[]));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+    return rows;
+  }
+
+  /**
+   * Inventory transactions that originated ledger entries, keyed by the
+   * reference_no (the inventory transaction ID) they were posted with
+   */
+  private async getLinkedInventoryTransactions(
+    referenceNos: (string | undefined)[]
+  ): Promise<Map<string, LinkedInventoryTransaction>> {
+    const ids = Array.from(
+      new Set(
+        referenceNos.filter(
+          (ref): ref is string => !!ref && UUID_PATTERN.test(ref)
+        )
+      )
+    );
+    const linked = new Map<string, LinkedInventoryTransaction>();
+    if (!ids.length) return linked;
+
+    for (let i = 0; i < ids.length; i += 100) {
+      const { data, error } = await supabase
+        .from("inventory_transactions")
+        .select(
+          "id, transaction_type, transaction_date, qty_in, qty_out, in_cost, out_cost, original_transaction_id, item_id, inventory_items(name)"
+        )
+        .in("id", ids.slice(i, i + 100));
+      if (error) throw error;
+      for (const row of (data ?? []) as any[]) {
+        linked.set(row.id, {
+          id: row.id,
+          transaction_type: row.transaction_type,
+          transaction_date: row.transaction_date,
+          qty_in: Number(row.qty_in) || 0,
+          qty_out: Number(row.qty_out) || 0,
+          in_cost: Number(row.in_cost) || 0,
+          out_cost: Number(row.out_cost) || 0,
+          original_transaction_id: row.original_transaction_id,
+          item_id: row.item_id,
+          item_name: row.inventory_items?.name,
+        });
+      }
+    }
+    return linked;
+  }
 }
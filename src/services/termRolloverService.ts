@@ -0,0 +1,111 @@
+import { supabase } from "../supabaseClient";
+
+export interface ClassPromotion {
+  from_class_id: string;
+  to_class_id: string;
+}
+
+export interface NewTermInput {
+  session: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  status?: "active" | "inactive";
+}
+
+export interface TermRolloverInput {
+  /** Existing term to roll over to */
+  target_term_id?: string;
+  /** Term to create and roll over to, when target_term_id is left out */
+  target_term?: NewTermInput;
+  /** Scale copied entitlement quantities, e.g. 10 for 10% more */
+  quantity_change_percent?: number;
+  /** Class each class's students move up to */
+  class_promotions?: ClassPromotion[];
+  /** Classes whose students are marked graduated */
+  graduating_class_ids?: string[];
+  /** Report the changes without making them */
+  dry_run?: boolean;
+}
+
+/** What a rollover changed, or would change in a dry run */
+export interface TermRollover {
+  dry_run: boolean;
+  source_term: any;
+  target_term: any;
+  target_term_created: boolean;
+  entitlements: {
+    copied: {
+      class_id: string;
+      class_name: string;
+      inventory_item_id: string;
+      item_name: string;
+      source_quantity: number;
+      quantity: number;
+    }[];
+    /** Entitlements the target term already had, left as they are */
+    skipped: {
+      class_id: string;
+      class_name: string;
+      inventory_item_id: string;
+      item_name: string;
+      quantity: number;
+    }[];
+  };
+  graduations: {
+    student_id: string;
+    admission_number: string;
+    name: string;
+    class_id: string;
+    class_name: string;
+  }[];
+  promotions: {
+    student_id: string;
+    admission_number: string;
+    name: string;
+    from_class_id: string;
+    from_class_name: string;
+    to_class_id: string;
+    to_class_name: string;
+  }[];
+  /** Classes with students that are neither promoted nor graduating */
+  unchanged_classes: {
+    class_id: string;
+    class_name: string;
+    students: number;
+  }[];
+}
+
+export class TermRolloverService {
+  /**
+   * Roll a term over to the next (rollover_term): copy its class
+   * entitlements to the target term, graduate and promote students, and
+   * archive it. Students who are transferred, graduated or archived are
+   * left alone. A dry run returns the same report and changes nothing; a
+   * target term it would create is not kept either.
+   */
+  async rollover(
+    sourceTermId: string,
+    input: TermRolloverInput,
+    userId?: string
+  ): Promise<TermRollover> {
+    const { data, error } = await supabase.rpc("rollover_term", {
+      _source_term_id: sourceTermId,
+      _target_term_id: input.target_term_id ?? null,
+      _target_term: input.target_term ?? null,
+      _quantity_change_percent: input.quantity_change_percent ?? 0,
+      _promotions: input.class_promotions ?? [],
+      _graduating_class_ids: input.graduating_class_ids ?? [],
+      _dry_run: input.dry_run ?? false,
+      _created_by: userId ?? null,
+    });
+    if (error) {
+      console.error("Error calling rollover_term:", error);
+      throw error;
+    }
+    return data as TermRollover;
+  }
+}
+
+// Export a singleton instance
+export const termRolloverService = new TermRolloverService();
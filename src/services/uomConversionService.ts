@@ -0,0 +1,205 @@
+import { supabase } from "../supabaseClient";
+import { dbError } from "../utils/dbError";
+
+export interface UomConversionInput {
+  /** The other unit, e.g. a carton */
+  uom_id: string;
+  /** How many of the item's base unit make one of uom_id */
+  factor: number;
+  created_by?: string;
+}
+
+const CONVERSION_SELECT = "*, uoms(id, name, symbol)";
+
+export class UomConversionService {
+  /**
+   * Units an item can be bought in besides its base unit
+   */
+  async list(itemId: string) {
+    const { data, error } = await supabase
+      .from("item_uom_conversions")
+      .select(CONVERSION_SELECT)
+      .eq("item_id", itemId)
+      .order("factor", { ascending: true });
+    if (error) {
+      console.error("Error fetching UOM conversions:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Set the factor from a unit to the item's base unit, replacing the
+   * factor already set for that unit
+   */
+  async save(itemId: string, input: UomConversionInput) {
+    const item = await this.getItem(itemId);
+    if (item.uom_id === input.uom_id) {
+      throw dbError("The item's base unit needs no conversion", "22023");
+    }
+
+    const { data, error } = await supabase
+      .from("item_uom_conversions")
+      .upsert(
+        [
+          {
+            item_id: itemId,
+            uom_id: input.uom_id,
+            factor: input.factor,
+            created_by: input.created_by ?? null,
+            updated_at: new Date().toISOString(),
+          },
+        ],
+        { onConflict: "item_id,uom_id" }
+      )
+      .select(CONVERSION_SELECT)
+      .single();
+    if (error) {
+      console.error("Error saving UOM conversion:", error);
+      throw error;
+    }
+    return data;
+  }
+
+  /**
+   * Remove a conversion. The item's purchase unit cannot be removed while
+   * it is set.
+   * @returns Promise<boolean> - false when the conversion does not exist
+   */
+  async remove(itemId: string, id: string): Promise<boolean> {
+    const { data: conversion, error: findError } = await supabase
+      .from("item_uom_conversions")
+      .select("uom_id")
+      .eq("id", id)
+      .eq("item_id", itemId)
+      .maybeSingle();
+    if (findError) {
+      console.error("Error fetching UOM conversion:", findError);
+      throw findError;
+    }
+    if (!conversion) return false;
+
+    const item = await this.getItem(itemId);
+    if (item.purchase_uom_id === conversion.uom_id) {
+      throw dbError(
+        "This unit is the item's purchase unit; change purchase_uom_id first",
+        "PT409"
+      );
+    }
+
+    const { error } = await supabase
+      .from("item_uom_conversions")
+      .delete()
+      .eq("id", id);
+    if (error) {
+      console.error("Error deleting UOM conversion:", error);
+      throw error;
+    }
+    return true;
+  }
+
+  /**
+   * Check that an item can be bought in a unit: its base unit, or a unit
+   * with a conversion. New items have no conversions yet, so pass a null
+   * item id with their base unit.
+   * @param baseUomId - the base unit being saved; the item's current base
+   *   unit when left out
+   */
+  async assertPurchaseUom(
+    itemId: string | null,
+    uomId: string,
+    baseUomId?: string | null
+  ): Promise<void> {
+    const base =
+      baseUomId === undefined && itemId
+        ? (await this.getItem(itemId)).uom_id
+        : baseUomId;
+    if (uomId === base) return;
+    if (itemId) {
+      const { data, error } = await supabase
+        .from("item_uom_conversions")
+        .select("id")
+        .eq("item_id", itemId)
+        .eq("uom_id", uomId)
+        .maybeSingle();
+      if (error) {
+        console.error("Error fetching UOM conversion:", error);
+        throw error;
+      }
+      if (data) return;
+    }
+    throw dbError(
+      "purchase_uom_id must be the item's unit or a unit it has a conversion for",
+      "22023"
+    );
+  }
+
+  /**
+   * Factors of each item's purchase unit, for items bought in a unit other
+   * than their base unit
+   * @returns Promise<Map<string, { uom_id: string; factor: number }>> - by
+   *   item id
+   */
+  async getPurchaseFactors(
+    itemIds: string[]
+  ): Promise<Map<string, { uom_id: string; factor: number }>> {
+    const factors = new Map<string, { uom_id: string; factor: number }>();
+    if (!itemIds.length) return factors;
+
+    const { data: items, error } = await supabase
+      .from("inventory_items")
+      .select("id, uom_id, purchase_uom_id")
+      .in("id", itemIds)
+      .not("purchase_uom_id", "is", null);
+    if (error) {
+      console.error("Error fetching purchase units:", error);
+      throw error;
+    }
+    const bought = (items ?? []).filter(
+      (item: any) => item.purchase_uom_id !== item.uom_id
+    );
+    if (!bought.length) return factors;
+
+    const { data: conversions, error: conversionsError } = await supabase
+      .from("item_uom_conversions")
+      .select("item_id, uom_id, factor")
+      .in(
+        "item_id",
+        bought.map((item: any) => item.id)
+      );
+    if (conversionsError) {
+      console.error("Error fetching UOM conversions:", conversionsError);
+      throw conversionsError;
+    }
+    for (const item of bought as any[]) {
+      const conversion = (conversions ?? []).find(
+        (row: any) =>
+          row.item_id === item.id && row.uom_id === item.purchase_uom_id
+      );
+      if (conversion) {
+        factors.set(item.id, {
+          uom_id: conversion.uom_id,
+          factor: Number(conversion.factor),
+        });
+      }
+    }
+    return factors;
+  }
+
+  private async getItem(itemId: string) {
+    const { data, error } = await supabase
+      .from("inventory_items")
+      .select("id, uom_id, purchase_uom_id")
+      .eq("id", itemId)
+      .maybeSingle();
+    if (error) {
+      console.error("Error fetching inventory item:", error);
+      throw error;
+    }
+    if (!data) throw dbError("Inventory item not found", "P0002");
+    return data;
+  }
+}
+
+// Export a singleton instance
+export const uomConversionService = new UomConversionService();
@@ -0,0 +1,26 @@
+/**
+ * Text a spreadsheet would run as a formula. Numbers such as a negative
+ * balance are left alone.
+ */
+const isFormula = (text: string): boolean =>
+  /^[=+\-@]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text);
+
+/**
+ * Quote a value for CSV when it contains a delimiter, quote or line break.
+ * Text that would run as a formula is prefixed with ' so it stays text.
+ */
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (isFormula(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build a CSV document from rows of values
+ * @param rows - Rows of cell values; the first row is usually the header
+ * @returns string - CRLF-separated CSV
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
@@ -0,0 +1,74 @@
+import { Response } from "express";
+
+/** SQLSTATE codes the database functions raise and services throw */
+export type DbErrorCode = "P0002" | "PT409" | "22023" | "42501";
+
+/** HTTP status for each SQLSTATE the API reports to the client */
+const STATUS_BY_CODE: Record<string, number> = {
+  P0002: 404, // not found
+  "42501": 403, // not allowed
+  PT409: 409, // conflict: short of stock, wrong state, over-receipt, ...
+  "23505": 409, // unique violation
+  "22023": 400, // invalid parameter
+  "22P02": 400, // invalid text representation, e.g. a malformed uuid
+  "22007": 400, // invalid datetime format
+  "22008": 400, // datetime out of range
+  "23502": 400, // not null violation
+  "23503": 400, // foreign key violation
+  "23514": 400, // check violation
+};
+
+/**
+ * Error carrying the same codes the database functions raise, so routes map
+ * errors thrown by services and by the database the same way
+ */
+export const dbError = (message: string, code: DbErrorCode) =>
+  Object.assign(new Error(message), { code });
+
+/**
+ * HTTP status for a database error, or null when it is not one the API maps
+ */
+export function dbErrorStatus(error: any): number | null {
+  return STATUS_BY_CODE[error?.code] ?? null;
+}
+
+/**
+ * Build the 409 response body for a PT409 conflict, or null when the error is
+ * something else. Functions that refuse a quantity put the quantity that was
+ * left (in stock, to receive, to issue, ...) in DETAIL.
+ */
+export function conflictResponse(
+  error: any
+): { error: string; available_quantity?: number } | null {
+  if (error?.code !== "PT409") return null;
+  return error.details
+    ? { error: error.message, available_quantity: Number(error.details) || 0 }
+    : { error: error.message };
+}
+
+/**
+ * Send the response for an error raised by the database or a service. Mapped
+ * codes go back with their message; anything else is logged and reported as a
+ * 500.
+ * @param context - What was being done, for the log
+ * @param messages - Messages to send instead of the error's own, by code
+ */
+export function sendDbError(
+  res: Response,
+  error: any,
+  context: string,
+  messages: Record<string, string> = {}
+) {
+  const status = dbErrorStatus(error);
+  if (status === null) {
+    console.error(`Error ${context}:`, error);
+    return res.status(500).json({ error: "Internal server error" });
+  }
+
+  const conflict = conflictResponse(error);
+  if (conflict && !messages[error.code]) return res.status(409).json(conflict);
+
+  const fallback =
+    error.code === "23505" ? error.details || error.message : error.message;
+  return res.status(status).json({ error: messages[error.code] ?? fallback });
+}
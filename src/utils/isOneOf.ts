@@ -0,0 +1,8 @@
+/**
+ * Whether a request value is one of the allowed values, narrowing it to
+ * their type
+ */
+export const isOneOf = <T extends string>(
+  values: readonly T[],
+  value: unknown,
+): value is T => (values as readonly unknown[]).includes(value);
@@ -113,6 +113,10 @@ export const routesJson: RoutesJson = {
       description: "Delete an academic session term by ID",
       route: "DELETE /api/v1/academic_session_terms/{id}",
     },
+    {
+      description: "Roll a term over to the next term",
+      route: "POST /api/v1/academic_session_terms/{id}/rollover",
+    },
   ],
   school_classes: [
     {
@@ -157,6 +161,10 @@ export const routesJson: RoutesJson = {
       description: "Delete a student by ID",
       route: "DELETE /api/v1/students/{id}",
     },
+    {
+      description: "Get a student's entitlements",
+      route: "GET /api/v1/students/{id}/entitlements",
+    },
   ],
   class_teachers: [
     {
@@ -201,6 +209,64 @@ export const routesJson: RoutesJson = {
       description: "Delete an inventory item by ID",
       route: "DELETE /api/v1/inventory_items/{id}",
     },
+    {
+      description: "Recalculate stock-out costs for an inventory item",
+      route: "POST /api/v1/inventory_items/{id}/recalculate_costs",
+    },
+    {
+      description: "Get reorder point overrides for an inventory item",
+      route: "GET /api/v1/inventory_items/{id}/reorder_points",
+    },
+    {
+      description: "Set a reorder point for a location or term",
+      route: "PUT /api/v1/inventory_items/{id}/reorder_points",
+    },
+    {
+      description: "Remove a reorder point override",
+      route:
+        "DELETE /api/v1/inventory_items/{id}/reorder_points/{reorderPointId}",
+    },
+    {
+      description: "Look up an inventory item by barcode or SKU",
+      route: "GET /api/v1/inventory_items/lookup",
+    },
+    {
+      description: "Get the label stocks labels can be printed on",
+      route: "GET /api/v1/inventory_items/label_templates",
+    },
+    {
+      description: "Print barcode and QR labels for inventory items",
+      route: "GET /api/v1/inventory_items/labels",
+    },
+    {
+      description: "Get the units an inventory item can be bought in",
+      route: "GET /api/v1/inventory_items/{id}/uom_conversions",
+    },
+    {
+      description: "Set a unit of measure conversion for an inventory item",
+      route: "PUT /api/v1/inventory_items/{id}/uom_conversions",
+    },
+    {
+      description: "Remove a unit of measure conversion from an inventory item",
+      route:
+        "DELETE /api/v1/inventory_items/{id}/uom_conversions/{conversionId}",
+    },
+    {
+      description: "Get the variants of an inventory item",
+      route: "GET /api/v1/inventory_items/{id}/variants",
+    },
+    {
+      description: "Add a variant to an inventory item",
+      route: "POST /api/v1/inventory_items/{id}/variants",
+    },
+    {
+      description: "Get the components of a kit",
+      route: "GET /api/v1/inventory_items/{id}/kit_components",
+    },
+    {
+      description: "Set the components of a kit",
+      route: "PUT /api/v1/inventory_items/{id}/kit_components",
+    },
   ],
   inventory_transactions: [
     {
@@ -236,6 +302,14 @@ export const routesJson: RoutesJson = {
       description: "Update inventory distribution by ID",
       route: "PUT /api/v1/inventory_transactions/distributions/{id}",
     },
+    {
+      description: "Return goods to a supplier",
+      route: "POST /api/v1/inventory_transactions/returns",
+    },
+    {
+      description: "Transfer stock between locations",
+      route: "POST /api/v1/inventory_transactions/transfers",
+    },
   ],
   inventory_summary: [
     {
@@ -260,6 +334,28 @@ export const routesJson: RoutesJson = {
         "Get distribution collection summary for class inventory and student logs",
       route: "GET /api/v1/inventory_summary/distribution-collection/query",
     },
+    {
+      description: "Get stock valuation as of a date",
+      route: "GET /api/v1/inventory_summary/valuation",
+    },
+    {
+      description: "Get replenishment suggestions",
+      route: "GET /api/v1/inventory_summary/replenishment",
+    },
+    {
+      description:
+        "Create draft purchase orders from replenishment suggestions",
+      route: "POST /api/v1/inventory_summary/replenishment/purchase_orders",
+    },
+    {
+      description: "Compare class entitlements with distributions and stock",
+      route: "GET /api/v1/inventory_summary/entitlement_shortfall",
+    },
+    {
+      description: "Create draft purchase orders for an entitlement shortfall",
+      route:
+        "POST /api/v1/inventory_summary/entitlement_shortfall/purchase_orders",
+    },
   ],
   suppliers: [
     {
@@ -286,6 +382,26 @@ export const routesJson: RoutesJson = {
       description: "Delete a supplier by ID",
       route: "DELETE /api/v1/suppliers/{id}",
     },
+    {
+      description: "Get supplier statement",
+      route: "GET /api/v1/suppliers/{id}/statement",
+    },
+    {
+      description: "Get supplier open items",
+      route: "GET /api/v1/suppliers/{id}/open_items",
+    },
+    {
+      description: "Get supplier payments",
+      route: "GET /api/v1/suppliers/{id}/payments",
+    },
+    {
+      description: "Record a supplier payment",
+      route: "POST /api/v1/suppliers/{id}/payments",
+    },
+    {
+      description: "Delete a supplier payment",
+      route: "DELETE /api/v1/suppliers/{id}/payments/{paymentId}",
+    },
   ],
   supplier_transactions: [
     {
@@ -338,6 +454,10 @@ export const routesJson: RoutesJson = {
       description: "Delete a class inventory entitlement by ID",
       route: "DELETE /api/v1/class_inventory_entitlements/{id}",
     },
+    {
+      description: "Generate student eligibility rows from class entitlements",
+      route: "POST /api/v1/class_inventory_entitlements/{class_id}/generate",
+    },
   ],
   student_inventory_collection: [
     {
@@ -364,6 +484,18 @@ export const routesJson: RoutesJson = {
       description: "Delete a student inventory collection by ID",
       route: "DELETE /api/v1/student_inventory_collection/{id}",
     },
+    {
+      description: "Get student returns",
+      route: "GET /api/v1/student_inventory_collection/returns",
+    },
+    {
+      description: "Get returns for a student inventory collection",
+      route: "GET /api/v1/student_inventory_collection/{id}/returns",
+    },
+    {
+      description: "Record a student return",
+      route: "POST /api/v1/student_inventory_collection/{id}/returns",
+    },
   ],
   auth: [
     {
@@ -382,6 +514,14 @@ export const routesJson: RoutesJson = {
       description: "Protected endpoint requiring Supabase authentication",
       route: "GET /api/v1/auth/protected",
     },
+    {
+      description: "Get all Supabase auth users",
+      route: "GET /api/v1/auth/users",
+    },
+    {
+      description: "Create a new user account",
+      route: "POST /api/v1/auth/create-user",
+    },
   ],
   users: [
     {
@@ -483,10 +623,284 @@ export const routesJson: RoutesJson = {
       route: "DELETE /api/v1/role_privileges/{id}",
     },
   ],
+  purchase_orders: [
+    {
+      description: "Get all purchase orders",
+      route: "GET /api/v1/purchase_orders",
+    },
+    {
+      description: "Create a purchase order",
+      route: "POST /api/v1/purchase_orders",
+    },
+    {
+      description: "Get a purchase order by ID",
+      route: "GET /api/v1/purchase_orders/{id}",
+    },
+    {
+      description: "Update a purchase order by ID",
+      route: "PUT /api/v1/purchase_orders/{id}",
+    },
+    {
+      description: "Delete a purchase order by ID",
+      route: "DELETE /api/v1/purchase_orders/{id}",
+    },
+    {
+      description: "Approve a purchase order",
+      route: "POST /api/v1/purchase_orders/{id}/approve",
+    },
+    {
+      description: "Close a purchase order",
+      route: "POST /api/v1/purchase_orders/{id}/close",
+    },
+    {
+      description: "Get goods received notes for a purchase order",
+      route: "GET /api/v1/purchase_orders/{id}/receipts",
+    },
+    {
+      description: "Receive goods against a purchase order",
+      route: "POST /api/v1/purchase_orders/{id}/receipts",
+    },
+  ],
+  stock_adjustments: [
+    {
+      description: "Get all stock adjustments",
+      route: "GET /api/v1/stock_adjustments",
+    },
+    {
+      description: "Create a stock adjustment",
+      route: "POST /api/v1/stock_adjustments",
+    },
+    {
+      description: "Get a stock adjustment by ID",
+      route: "GET /api/v1/stock_adjustments/{id}",
+    },
+    {
+      description: "Approve a stock adjustment",
+      route: "POST /api/v1/stock_adjustments/{id}/approve",
+    },
+    {
+      description: "Reject a stock adjustment",
+      route: "POST /api/v1/stock_adjustments/{id}/reject",
+    },
+  ],
+  stock_takes: [
+    {
+      description: "Get all stock-takes",
+      route: "GET /api/v1/stock_takes",
+    },
+    {
+      description: "Open a stock-take",
+      route: "POST /api/v1/stock_takes",
+    },
+    {
+      description: "Get a stock-take by ID",
+      route: "GET /api/v1/stock_takes/{id}",
+    },
+    {
+      description: "Record stock-take counts",
+      route: "PUT /api/v1/stock_takes/{id}/counts",
+    },
+    {
+      description: "Get a stock-take variance report",
+      route: "GET /api/v1/stock_takes/{id}/variance_report",
+    },
+    {
+      description: "Approve a stock-take",
+      route: "POST /api/v1/stock_takes/{id}/approve",
+    },
+    {
+      description: "Cancel a stock-take",
+      route: "POST /api/v1/stock_takes/{id}/cancel",
+    },
+  ],
+  locations: [
+    {
+      description: "Get all stock locations",
+      route: "GET /api/v1/locations",
+    },
+    {
+      description: "Create a stock location",
+      route: "POST /api/v1/locations",
+    },
+    {
+      description: "Get a stock location by ID",
+      route: "GET /api/v1/locations/{id}",
+    },
+    {
+      description: "Update a stock location",
+      route: "PUT /api/v1/locations/{id}",
+    },
+    {
+      description: "Delete a stock location",
+      route: "DELETE /api/v1/locations/{id}",
+    },
+  ],
+  inventory_lots: [
+    {
+      description: "Get stock held per lot and location",
+      route: "GET /api/v1/inventory_lots",
+    },
+    {
+      description: "Get lots expiring soon",
+      route: "GET /api/v1/inventory_lots/expiring",
+    },
+    {
+      description: "Email an alert for lots expiring soon",
+      route: "POST /api/v1/inventory_lots/expiry_alerts",
+    },
+  ],
+  inventory_serials: [
+    {
+      description: "Get serial-numbered units and who holds them",
+      route: "GET /api/v1/inventory_serials",
+    },
+    {
+      description: "Register serial numbers for units already in stock",
+      route: "POST /api/v1/inventory_serials",
+    },
+    {
+      description:
+        "Check serials out of the store to a class teacher or a student",
+      route: "POST /api/v1/inventory_serials/check_out",
+    },
+    {
+      description: "Check serials back in",
+      route: "POST /api/v1/inventory_serials/check_in",
+    },
+    {
+      description: "Get a serial with its custody history",
+      route: "GET /api/v1/inventory_serials/{id}",
+    },
+  ],
+  scan_sessions: [
+    {
+      description: "Get scan sessions",
+      route: "GET /api/v1/scan_sessions",
+    },
+    {
+      description: "Open a scan session",
+      route: "POST /api/v1/scan_sessions",
+    },
+    {
+      description: "Get a scan session with its scanned lines",
+      route: "GET /api/v1/scan_sessions/{id}",
+    },
+    {
+      description: "Record a scanned code",
+      route: "POST /api/v1/scan_sessions/{id}/scans",
+    },
+    {
+      description: "Correct a scanned line",
+      route: "PUT /api/v1/scan_sessions/{id}/lines/{lineId}",
+    },
+    {
+      description: "Remove a scanned line",
+      route: "DELETE /api/v1/scan_sessions/{id}/lines/{lineId}",
+    },
+    {
+      description: "Post a scan session as the document it drafts",
+      route: "POST /api/v1/scan_sessions/{id}/commit",
+    },
+    {
+      description: "Cancel an open scan session",
+      route: "POST /api/v1/scan_sessions/{id}/cancel",
+    },
+  ],
+  menus: [
+    {
+      description: "Get all menus",
+      route: "GET /api/v1/menus",
+    },
+    {
+      description: "Create a new menu entry",
+      route: "POST /api/v1/menus",
+    },
+    {
+      description: "Get a menu by ID",
+      route: "GET /api/v1/menus/{id}",
+    },
+    {
+      description: "Update a menu by ID",
+      route: "PUT /api/v1/menus/{id}",
+    },
+    {
+      description: "Delete a menu by ID",
+      route: "DELETE /api/v1/menus/{id}",
+    },
+  ],
+  role_menus: [
+    {
+      description: "Get all role-menu assignments",
+      route: "GET /api/v1/role_menus",
+    },
+    {
+      description: "Assign a menu to a role",
+      route: "POST /api/v1/role_menus",
+    },
+    {
+      description: "Assign multiple menus to a role",
+      route: "POST /api/v1/role_menus/bulk",
+    },
+    {
+      description: "Get menus assigned to a role",
+      route: "GET /api/v1/role_menus/role/{role_code}",
+    },
+    {
+      description: "Get a role-menu assignment by ID",
+      route: "GET /api/v1/role_menus/{id}",
+    },
+    {
+      description: "Update a role-menu assignment by ID",
+      route: "PUT /api/v1/role_menus/{id}",
+    },
+    {
+      description: "Delete a role-menu assignment by ID",
+      route: "DELETE /api/v1/role_menus/{id}",
+    },
+  ],
+  user_roles: [
+    {
+      description: "List user-role assignments",
+      route: "GET /api/v1/user_roles",
+    },
+    {
+      description: "Assign a role to a user",
+      route: "POST /api/v1/user_roles",
+    },
+    {
+      description: "Get roles assigned to a user",
+      route: "GET /api/v1/user_roles/{user_id}",
+    },
+    {
+      description: "Remove a role assignment from a user",
+      route: "DELETE /api/v1/user_roles/{user_id}/{role_code}",
+    },
+  ],
 };
 
 export type RoutesJson = Record<string, RouteDefinition[]>;
 
+/**
+ * Splits a route definition into its HTTP verb (if any) and path, and builds
+ * the regex used to match concrete URLs against it.
+ */
+function parseRouteDefinition(routeObj: RouteDefinition): {
+  method: string | null;
+  regex: RegExp;
+  paramCount: number;
+} {
+  const [methodOrPath, maybePath] = routeObj.route.trim().split(/\s+/, 2);
+
+  // Handle definitions both with and without HTTP verb prefixes.
+  const path = maybePath ?? methodOrPath;
+  const method = maybePath ? methodOrPath.toUpperCase() : null;
+
+  const regexPath = path.replace(/\{[^/]+\}/g, "[^/]+");
+  const paramCount = (path.match(/\{[^/]+\}/g) ?? []).length;
+
+  return { method, regex: new RegExp(`^${regexPath}$`), paramCount };
+}
+
 /**
  * Checks whether a given URL matches any route defined in the routesJson structure.
  * It supports dynamic path segments expressed as `{param}` in the route definitions.
@@ -504,21 +918,48 @@ export function routeExists(
 
   for (const key of Object.keys(routesJson)) {
     for (const routeObj of routesJson[key] ?? []) {
-      const [methodOrPath, maybePath] = routeObj.route.trim().split(/\s+/, 2);
+      if (parseRouteDefinition(routeObj).regex.test(urlPath)) {
+        return true;
+      }
+    }
+  }
 
-      // Handle definitions both with and without HTTP verb prefixes.
-      const path = maybePath ?? methodOrPath;
+  return false;
+}
 
-      const regexPath = path.replace(/\{[^/]+\}/g, "[^/]+");
-      const regex = new RegExp(`^${regexPath}$`);
+/**
+ * Finds the route definition that governs a request. When several definitions
+ * match (e.g. `/suppliers/balances` and `/suppliers/{id}`), the one with the
+ * fewest `{param}` segments wins so literal paths take precedence.
+ *
+ * @param method - The HTTP verb of the request.
+ * @param originalUrl - The URL to match. Query strings are ignored.
+ * @param routes - Route metadata grouped by resource name.
+ */
+export function matchRoute(
+  method: string,
+  originalUrl: string,
+  routes: RoutesJson = routesJson
+): RouteDefinition | null {
+  if (!originalUrl) return null;
 
-      if (regex.test(urlPath)) {
-        return true;
+  const [rawPath] = originalUrl.split("?");
+  const urlPath = rawPath.length > 1 ? rawPath.replace(/\/+$/, "") : rawPath;
+  const verb = method.toUpperCase();
+  let best: { route: RouteDefinition; paramCount: number } | null = null;
+
+  for (const key of Object.keys(routes)) {
+    for (const routeObj of routes[key] ?? []) {
+      const parsed = parseRouteDefinition(routeObj);
+      if (parsed.method && parsed.method !== verb) continue;
+      if (!parsed.regex.test(urlPath)) continue;
+      if (!best || parsed.paramCount < best.paramCount) {
+        best = { route: routeObj, paramCount: parsed.paramCount };
       }
     }
   }
 
-  return false;
+  return best?.route ?? null;
 }
 
 export default routeExists;